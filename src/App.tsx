@@ -26,6 +26,11 @@ import Profile from './pages/profile';
 import ForgetPassword from './pages/auth/ForgetPassword';
 import ReportsPage from './pages/reports';
 import NotificationsPage from './pages/notifications';
+import RecurringPage from './pages/recurring';
+import ExchangeRatesPage from './pages/exchange-rates';
+import TrashPage from './pages/trash';
+import RulesPage from './pages/rules';
+import MerchantsPage from './pages/merchants';
 import TestSearchPage from './pages/test-search';
 
 // Create a client
@@ -145,7 +150,12 @@ function App() {
                   <Route path="/dashboard" element={<ProtectedRoute><Index /></ProtectedRoute>} />
                   <Route path="/transactions" element={<ProtectedRoute><TransactionsPage /></ProtectedRoute>} />
                   <Route path="/budgets" element={<ProtectedRoute><BudgetPage /></ProtectedRoute>} />
+                  <Route path="/recurring" element={<ProtectedRoute><RecurringPage /></ProtectedRoute>} />
                   <Route path="/payment-methods" element={<ProtectedRoute><PaymentMethodsPage /></ProtectedRoute>} />
+                  <Route path="/exchange-rates" element={<ProtectedRoute><ExchangeRatesPage /></ProtectedRoute>} />
+                  <Route path="/trash" element={<ProtectedRoute><TrashPage /></ProtectedRoute>} />
+                  <Route path="/rules" element={<ProtectedRoute><RulesPage /></ProtectedRoute>} />
+                  <Route path="/merchants" element={<ProtectedRoute><MerchantsPage /></ProtectedRoute>} />
                   <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
                   <Route path="/reports" element={<ProtectedRoute><ReportsPage /></ProtectedRoute>} />
                   <Route path="/notifications" element={<ProtectedRoute><NotificationsPage /></ProtectedRoute>} />
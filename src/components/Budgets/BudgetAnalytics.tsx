@@ -2,7 +2,9 @@ import React from 'react';
 import { useQuery, useQueries } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card.tsx";
 import { TrendingUp, TrendingDown, AlertTriangle, Target } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 import { formatCurrency } from '@/lib/utils';
+import { getBudgetPace } from '@/lib/utils/budget-pace';
 import { budgetApi } from '@/lib/api/budgetApi';
 import { useDashboard } from '@/context/DashboardContext';
 import { supabase } from '@/lib/supabase/supabase';
@@ -72,6 +74,24 @@ const BudgetAnalytics = () => {
   const avgSpendingPercentage = totalBudgetAmount > 0 ? Math.round((totalSpent / totalBudgetAmount) * 100) : 0;
   const totalRemaining = totalBudgetAmount - totalSpent;
   
+  // Forecast each budget from its pace so far this period
+  const paces = budgets.map((budget, index) => ({
+    budget,
+    pace: getBudgetPace({
+      available: Number(budget.amount),
+      spent: Number(spendingQueries[index]?.data || 0),
+      startDate,
+      endDate,
+    }),
+  }));
+  const projectedTotal = paces.reduce((sum, { pace }) => sum + pace.projectedSpend, 0);
+  const safeDailyTotal = paces.reduce((sum, { pace }) => sum + pace.safeDailySpend, 0);
+  const offPace = paces.filter(({ pace }) => pace.status === 'off_pace');
+  const firstToRunOut = offPace
+    .filter(({ pace }) => pace.exhaustionDate)
+    .sort((a, b) => a.pace.exhaustionDate.localeCompare(b.pace.exhaustionDate))[0];
+  const isPeriodOpen = paces.some(({ pace }) => pace.daysLeft > 0);
+
   // Calculate trends (this could be enhanced with historical data)
   const healthyBudgets = budgets.length - overBudgetCount;
   const healthPercentage = totalBudgets > 0 ? Math.round((healthyBudgets / totalBudgets) * 100) : 100;
@@ -152,6 +172,20 @@ const BudgetAnalytics = () => {
             ) : (
               <li><strong className="text-finance-income">All budgets</strong> are within their limits.</li>
             )}
+            {isPeriodOpen && totalBudgets > 0 && (
+              <li>
+                At the current pace you'll spend <strong className={projectedTotal > totalBudgetAmount ? 'text-finance-expense' : 'text-finance-income'}>{formatCurrency(projectedTotal)}</strong> by the end of the period;
+                staying under {formatCurrency(safeDailyTotal)} a day keeps every budget within its limit.
+              </li>
+            )}
+            {offPace.length > 0 && (
+              <li>
+                <strong className="text-orange-500">{offPace.length}</strong> budget(s) are spending ahead of pace
+                {firstToRunOut && (
+                  <>; {firstToRunOut.budget.name} runs out first, around <strong className="text-orange-500">{format(parseISO(firstToRunOut.pace.exhaustionDate), 'MMM d')}</strong></>
+                )}.
+              </li>
+            )}
             <li>Budget health score: <strong className={healthPercentage >= 80 ? 'text-finance-income' : 'text-finance-expense'}>{healthPercentage}%</strong></li>
           </ul>
         </div>
@@ -4,7 +4,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { PeriodEnum } from '@/interfaces/enums/PeriodEnum';
-import { Budget } from '@/interfaces/budget-interface';
+import { Budget, BudgetCategoryInput } from '@/interfaces/budget-interface';
 import { ExpenseCategory } from '@/interfaces/expense-interface';
 import { 
   Dialog,
@@ -17,6 +17,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -31,14 +32,26 @@ import {
 } from '@/components/ui/select.tsx';
 import { Input } from '@/components/ui/input.tsx';
 import { Button } from '@/components/ui/button.tsx';
-import { Loader2 } from 'lucide-react';
+import { Loader2, X } from 'lucide-react';
+import { cn, formatCurrency } from '@/lib/utils';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+
+const DEFAULT_ALERT_THRESHOLD = 80;
+
+// Older budgets stored the threshold as an amount rather than a percentage
+const toThresholdPercent = (threshold?: number) =>
+  threshold !== undefined && threshold !== null && threshold >= 50 && threshold <= 100
+    ? Number(threshold)
+    : DEFAULT_ALERT_THRESHOLD;
 
 // Form validation schema
 const budgetFormSchema = z.object({
-  categoryId: z.number({
-    required_error: "Please select a category",
-  }),
+  categories: z.array(z.object({
+    category_id: z.number(),
+    alert_threshold: z.number().min(50).max(100),
+    allocated_amount: z.string().optional(), // Empty when the category has no allocation of its own
+  })).min(1, "Please select at least one category"),
   categoryName: z.string().optional(),
   amount: z.string().min(1, "Please enter an amount").refine((val) => {
     const num = parseFloat(val);
@@ -47,15 +60,31 @@ const budgetFormSchema = z.object({
   period: z.nativeEnum(PeriodEnum, {
     required_error: "Please select a period",
   }),
-  alert_threshold: z.number().min(50).max(100).optional(),
+  rollover_enabled: z.boolean().default(false),
+  rollover_cap: z.string().optional().refine((val) => {
+    if (!val) return true;
+    const num = parseFloat(val);
+    return !isNaN(num) && num >= 0;
+  }, "Cap must be 0 or more"),
+}).refine((values) => {
+  const allocated = values.categories.reduce((sum, c) => sum + (parseFloat(c.allocated_amount || '') || 0), 0);
+  return allocated <= (parseFloat(values.amount) || 0);
+}, {
+  message: "Category allocations can't add up to more than the budget amount",
+  path: ['categories'],
 });
 
 type BudgetFormValues = z.infer<typeof budgetFormSchema>;
 
+// What the form hands back: allocations are parsed, everything else as entered
+export type BudgetFormSubmitData = Omit<BudgetFormValues, 'categories'> & {
+  categories: BudgetCategoryInput[];
+};
+
 interface BudgetFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSubmit: (data: BudgetFormValues) => void;
+  onSubmit: (data: BudgetFormSubmitData) => void;
   initialData?: Budget | null;
   categories?: ExpenseCategory[];
 }
@@ -68,8 +97,9 @@ const BudgetForm = ({ open, onOpenChange, onSubmit, initialData, categories = []
     defaultValues: {
       period: PeriodEnum.MONTHLY,
       amount: '',
-      categoryId: undefined,
-      alert_threshold: 80,
+      categories: [],
+      rollover_enabled: false,
+      rollover_cap: '',
     },
   });
 
@@ -77,22 +107,26 @@ const BudgetForm = ({ open, onOpenChange, onSubmit, initialData, categories = []
   // Note: form.reset is intentionally excluded from deps to prevent unnecessary re-renders
   useEffect(() => {
     if (isEditing && initialData) {
-      const firstCategory = initialData.budget_categories?.[0];
-
       form.reset({
-        categoryId: firstCategory?.category_id,
+        categories: (initialData.budget_categories || []).map(budgetCategory => ({
+          category_id: budgetCategory.category_id,
+          alert_threshold: toThresholdPercent(budgetCategory.alert_threshold),
+          allocated_amount: budgetCategory.allocated_amount?.toString() ?? '',
+        })),
         amount: initialData.amount?.toString() || '',
         period: initialData.period,
-        alert_threshold: firstCategory?.alert_threshold ?? 80,
         categoryName: undefined,
+        rollover_enabled: initialData.rollover_enabled ?? false,
+        rollover_cap: initialData.rollover_cap?.toString() ?? '',
       });
     } else {
       form.reset({
         period: PeriodEnum.MONTHLY,
         amount: '',
-        categoryId: undefined,
-        alert_threshold: 80,
+        categories: [],
         categoryName: undefined,
+        rollover_enabled: false,
+        rollover_cap: '',
       });
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -106,10 +140,15 @@ const BudgetForm = ({ open, onOpenChange, onSubmit, initialData, categories = []
       return;
     }
 
-    // Find category name from the selected category ID
-    const selectedCategory = categories.find(c => c.id === data.categoryId);
-    const submitData: BudgetFormValues = {
+    // The first category names a new budget
+    const selectedCategory = categories.find(c => c.id === data.categories[0]?.category_id);
+    const submitData: BudgetFormSubmitData = {
       ...data,
+      categories: data.categories.map(category => ({
+        category_id: category.category_id,
+        alert_threshold: category.alert_threshold,
+        allocated_amount: category.allocated_amount ? parseFloat(category.allocated_amount) : null,
+      })),
       categoryName: selectedCategory?.name,
     };
 
@@ -127,7 +166,7 @@ const BudgetForm = ({ open, onOpenChange, onSubmit, initialData, categories = []
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px] max-w-[85vw] mx-0 p-6">
+      <DialogContent className="sm:max-w-[425px] max-w-[85vw] max-h-[90vh] overflow-y-auto mx-0 p-6">
         <DialogHeader>
           <DialogTitle>{isEditing ? 'Edit Budget' : 'Create New Budget'}</DialogTitle>
           <DialogDescription>
@@ -139,45 +178,115 @@ const BudgetForm = ({ open, onOpenChange, onSubmit, initialData, categories = []
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
             <FormField
               control={form.control}
-              name="categoryId"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Category</FormLabel>
-                  <Select 
-                    value={field.value?.toString()}
-                    onValueChange={value => field.onChange(Number(value))}
-                    disabled={isLoadingCategories || isEditing}
-                  >
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select a category" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {isLoadingCategories ? (
-                        <SelectItem value="loading" disabled>Loading categories...</SelectItem>
-                      ) : (
-                        categories.map(category => (
-                          <SelectItem 
-                            key={category.id} 
-                            value={category.id.toString()}
-                          >
-                            <div className="flex items-center gap-2">
-                              <div 
-                                className="w-3 h-3 rounded-full"
-                                style={{ backgroundColor: '#' + Math.floor(Math.random()*16777215).toString(16) }}
+              name="categories"
+              render={({ field }) => {
+                const selectedIds = field.value.map(entry => entry.category_id);
+                const availableCategories = categories.filter(category => !selectedIds.includes(category.id));
+
+                const updateEntry = (categoryId: number, changes: Partial<typeof field.value[number]>) => {
+                  field.onChange(field.value.map(entry =>
+                    entry.category_id === categoryId ? { ...entry, ...changes } : entry
+                  ));
+                };
+
+                const allocated = field.value.reduce((sum, entry) => sum + (parseFloat(entry.allocated_amount || '') || 0), 0);
+                const unallocated = (parseFloat(form.watch('amount')) || 0) - allocated;
+
+                return (
+                  <FormItem>
+                    <FormLabel>Categories</FormLabel>
+                    <div className="space-y-2">
+                      {field.value.map(entry => {
+                        const category = categories.find(c => c.id === entry.category_id);
+                        return (
+                          <div key={entry.category_id} className="rounded-lg border p-3 space-y-2">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="text-sm font-medium">{category?.name || 'Unknown category'}</span>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 w-7 p-0 text-gray-500 hover:text-red-600 hover:bg-red-100"
+                                onClick={() => field.onChange(field.value.filter(c => c.category_id !== entry.category_id))}
+                                disabled={form.formState.isSubmitting}
+                              >
+                                <span className="sr-only">Remove {category?.name}</span>
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <Slider
+                                min={50}
+                                max={100}
+                                step={5}
+                                value={[entry.alert_threshold]}
+                                onValueChange={(value) => updateEntry(entry.category_id, { alert_threshold: value[0] })}
+                                disabled={form.formState.isSubmitting}
                               />
-                              {category.name}
+                              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                Alert at {entry.alert_threshold}%
+                              </span>
                             </div>
-                          </SelectItem>
-                        ))
-                      )}
-                    </SelectContent>
-                  </Select>
-                  {isEditing && <p className="text-xs text-muted-foreground mt-1">Category cannot be changed after creation.</p>}
-                  <FormMessage />
-                </FormItem>
-              )}
+                            <div className="relative">
+                              <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+                                <span className="text-gray-500 text-sm">RM</span>
+                              </div>
+                              <Input
+                                type="text"
+                                placeholder="Allocation (optional)"
+                                className="pl-10 h-8"
+                                value={entry.allocated_amount ?? ''}
+                                onChange={(e) => {
+                                  const value = e.target.value;
+                                  if (value === '' || /^\d*\.?\d*$/.test(value)) {
+                                    updateEntry(entry.category_id, { allocated_amount: value });
+                                  }
+                                }}
+                                disabled={form.formState.isSubmitting}
+                              />
+                            </div>
+                          </div>
+                        );
+                      })}
+
+                      <Select
+                        value=""
+                        onValueChange={value => field.onChange([
+                          ...field.value,
+                          { category_id: Number(value), alert_threshold: DEFAULT_ALERT_THRESHOLD, allocated_amount: '' },
+                        ])}
+                        disabled={isLoadingCategories || form.formState.isSubmitting}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder={field.value.length > 0 ? 'Add another category' : 'Select a category'} />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {isLoadingCategories ? (
+                            <SelectItem value="loading" disabled>Loading categories...</SelectItem>
+                          ) : (
+                            availableCategories.map(category => (
+                              <SelectItem 
+                                key={category.id} 
+                                value={category.id.toString()}
+                              >
+                                {category.name}
+                              </SelectItem>
+                            ))
+                          )}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {allocated > 0 && (
+                      <p className={cn("text-xs", unallocated < 0 ? "text-destructive" : "text-muted-foreground")}>
+                        Unallocated: {formatCurrency(unallocated)}
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                );
+              }}
             />
 
             <FormField
@@ -246,30 +355,59 @@ const BudgetForm = ({ open, onOpenChange, onSubmit, initialData, categories = []
 
             <FormField
               control={form.control}
-              name="alert_threshold"
+              name="rollover_enabled"
               render={({ field }) => (
-                <FormItem>
-                  <FormLabel>
-                    Alert Threshold
-                    <span className="text-muted-foreground ml-2">
-                      ({field.value}%)
-                    </span>
-                  </FormLabel>
+                <FormItem className="flex flex-row items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Roll Over</FormLabel>
+                    <FormDescription>
+                      Carry unused money into the next period, or take overspending out of it.
+                    </FormDescription>
+                  </div>
                   <FormControl>
-                    <Slider
-                      min={50}
-                      max={100}
-                      step={5}
-                      value={[field.value ?? 80]}
-                      onValueChange={(value) => field.onChange(value[0])}
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
                       disabled={form.formState.isSubmitting}
                     />
                   </FormControl>
-                  <FormMessage />
                 </FormItem>
               )}
             />
 
+            {form.watch('rollover_enabled') && (
+              <FormField
+                control={form.control}
+                name="rollover_cap"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rollover Cap (optional)</FormLabel>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+                        <span className="text-gray-500">RM</span>
+                      </div>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="No limit"
+                          className="pl-10"
+                          value={field.value ?? ''}
+                          onChange={(e) => {
+                            const value = e.target.value;
+                            if (value === '' || /^\d*\.?\d*$/.test(value)) {
+                              field.onChange(value);
+                            }
+                          }}
+                        />
+                      </FormControl>
+                    </div>
+                    <FormDescription>The most that can be carried over, either way.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <DialogFooter className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-center sm:space-x-2 sm:gap-0">
               <Button
                 type="button"
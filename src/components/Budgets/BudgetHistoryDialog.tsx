@@ -0,0 +1,168 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { budgetApi } from '@/lib/api/budgetApi';
+import { Budget } from '@/interfaces/budget-interface';
+import {
+  HISTORY_PERIODS,
+  formatBudgetPeriod,
+  getUtilisation,
+  isBudgetHit,
+  summarizeBudgetHistory,
+} from '@/lib/utils/budget-history';
+import { cn, formatCurrency } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.tsx';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge.tsx';
+import { LoaderCircle } from 'lucide-react';
+
+interface BudgetHistoryDialogProps {
+  budget: Budget | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Budgeted vs spent for each recent period of a budget, with its hit/miss
+ * streak and average utilisation
+ */
+const BudgetHistoryDialog = ({ budget, onOpenChange }: BudgetHistoryDialogProps) => {
+  const periods = budget ? HISTORY_PERIODS[budget.period] ?? 12 : 12;
+
+  const { data: history = [], isLoading, error } = useQuery({
+    // Under budgetSpending so it refreshes whenever spending changes
+    queryKey: ['budgetSpending', budget?.id, 'history', periods],
+    queryFn: () => budgetApi.getBudgetHistory(budget.id, periods),
+    enabled: !!budget,
+  });
+
+  const summary = summarizeBudgetHistory(history);
+  const finishedCount = summary.hits + summary.misses;
+  const label = budget && (budget.budget_categories?.length ?? 0) === 1
+    ? budget.budget_categories[0].category?.name || budget.name
+    : budget?.name;
+
+  const chartData = history.map(period => ({
+    name: formatBudgetPeriod(budget.period, period.period_start),
+    budgeted: period.budgeted,
+    spent: period.spent,
+    color: period.is_current ? '#94a3b8' : isBudgetHit(period) ? '#22c55e' : '#ef4444',
+  }));
+
+  return (
+    <Dialog open={!!budget} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-w-[95vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{label} History</DialogTitle>
+          <DialogDescription>
+            Budgeted vs spent over the last {periods} {budget?.period.toLowerCase()} periods.
+            {budget?.rollover_enabled && ' Budgeted includes what was carried over from the period before.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+            <span>Loading history...</span>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{(error as Error).message}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-muted/30 p-3 rounded-lg border border-muted">
+                <div className="text-xs text-muted-foreground">Streak</div>
+                <div className={cn(
+                  "text-lg font-bold",
+                  summary.streak?.result === 'hit' && "text-finance-income",
+                  summary.streak?.result === 'miss' && "text-finance-expense"
+                )}>
+                  {summary.streak ? summary.streak.count : '—'}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {summary.streak
+                    ? summary.streak.result === 'hit' ? 'within budget in a row' : 'over budget in a row'
+                    : 'No finished periods'}
+                </div>
+              </div>
+              <div className="bg-muted/30 p-3 rounded-lg border border-muted">
+                <div className="text-xs text-muted-foreground">Average Utilisation</div>
+                <div className={cn("text-lg font-bold", (summary.averageUtilisation ?? 0) > 100 && "text-finance-expense")}>
+                  {summary.averageUtilisation !== null ? `${summary.averageUtilisation}%` : '—'}
+                </div>
+                <div className="text-xs text-muted-foreground">of the budget spent</div>
+              </div>
+              <div className="bg-muted/30 p-3 rounded-lg border border-muted">
+                <div className="text-xs text-muted-foreground">Hit Rate</div>
+                <div className="text-lg font-bold">{summary.hits}/{finishedCount}</div>
+                <div className="text-xs text-muted-foreground">periods within budget</div>
+              </div>
+            </div>
+
+            <div className="h-[220px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} />
+                  <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                  <Bar dataKey="budgeted" name="Budgeted" fill="#6366f1" fillOpacity={0.25} />
+                  <Bar dataKey="spent" name="Spent">
+                    {chartData.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={entry.color} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Budgeted</TableHead>
+                  <TableHead className="text-right">Spent</TableHead>
+                  <TableHead className="text-right">Used</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...history].reverse().map(period => (
+                  <TableRow key={period.period_start}>
+                    <TableCell className="whitespace-nowrap">{formatBudgetPeriod(budget.period, period.period_start)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(period.budgeted)}
+                      {period.rollover !== 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {period.rollover > 0 ? '+' : '-'}{formatCurrency(Math.abs(period.rollover))} carried over
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(period.spent)}</TableCell>
+                    <TableCell className="text-right">{getUtilisation(period)}%</TableCell>
+                    <TableCell>
+                      {period.is_current ? (
+                        <Badge variant="secondary">In progress</Badge>
+                      ) : isBudgetHit(period) ? (
+                        <Badge className="bg-green-500">Hit</Badge>
+                      ) : (
+                        <Badge className="bg-red-500">Missed</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BudgetHistoryDialog;
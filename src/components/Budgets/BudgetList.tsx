@@ -1,8 +1,8 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useQuery, useQueries } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card.tsx";
 import { Button } from '@/components/ui/button.tsx';
-import { Edit, Trash } from 'lucide-react';
+import { Edit, Trash, Repeat, History } from 'lucide-react';
 import { Progress } from "@/components/ui/progress.tsx";
 import { cn } from '@/lib/utils';
 import { formatCurrency } from '@/lib/utils';
@@ -11,6 +11,8 @@ import { useDashboard } from '@/context/DashboardContext';
 import { supabase } from '@/lib/supabase/supabase';
 import { Budget } from '@/interfaces/budget-interface';
 import { PeriodEnum } from '@/interfaces/enums/PeriodEnum';
+import { getBudgetProgress } from '@/lib/utils/budget-progress';
+import BudgetHistoryDialog from './BudgetHistoryDialog';
 
 interface BudgetListProps {
   onEditBudget: (budget: Budget) => void;
@@ -19,6 +21,7 @@ interface BudgetListProps {
 
 const BudgetList: React.FC<BudgetListProps> = ({ onEditBudget, onDeleteBudget }) => {
   const { userId, startDate, endDate } = useDashboard();
+  const [historyBudget, setHistoryBudget] = useState<Budget | null>(null);
 
   // Fetch ALL budgets
   const { data: budgetsData = [], isLoading, error } = useQuery({
@@ -61,6 +64,22 @@ const BudgetList: React.FC<BudgetListProps> = ({ onEditBudget, onDeleteBudget })
     }))
   });
 
+  // Carry from earlier periods, only for budgets that roll over
+  const rolloverQueries = useQueries({
+    queries: sortedBudgets.map(budget => ({
+      queryKey: ['budgetSpending', budget.id, 'rollover', startDate],
+      queryFn: () => budgetApi.getBudgetRollover(budget.id, startDate),
+      enabled: !!userId && !!budget.rollover_enabled,
+    }))
+  });
+
+  const renderRollover = (rollover: number) => (
+    <div className={cn("text-xs flex items-center gap-1", rollover > 0 ? "text-finance-income" : "text-finance-expense")}>
+      <Repeat className="h-3 w-3" />
+      {rollover > 0 ? '+' : '-'}{formatCurrency(Math.abs(rollover))} carried over
+    </div>
+  );
+
   if (isLoading) {
     return (
       <Card>
@@ -137,13 +156,14 @@ const BudgetList: React.FC<BudgetListProps> = ({ onEditBudget, onDeleteBudget })
                   // Get first category for display
                   const budgetCategory = budget.budget_categories?.[0];
                   const category = budgetCategory?.category;
+                  const label = (budget.budget_categories?.length ?? 0) > 1 ? budget.name : category?.name || budget.name;
                   
                   // Get actual spending - using same logic as BudgetTracker
                   const spendingQuery = spendingQueries[index];
                   const spent = Number(spendingQuery?.data || 0);
                   const budgetAmount = Number(budget.amount);
-                  const percentage = budgetAmount > 0 ? Math.round((spent / budgetAmount) * 100) : 0;
-                  const remaining = budgetAmount - spent;
+                  const rollover = budget.rollover_enabled ? Number(rolloverQueries[index]?.data || 0) : 0;
+                  const { percentage, remaining } = getBudgetProgress(budgetAmount, spent, rollover);
                   
                   // Determine status-based styling - matching BudgetTracker logic
                   const getProgressColor = () => {
@@ -161,11 +181,14 @@ const BudgetList: React.FC<BudgetListProps> = ({ onEditBudget, onDeleteBudget })
                             className="w-3 h-3 rounded-full"
                             style={{ backgroundColor: '#' + Math.floor(Math.random()*16777215).toString(16) }}
                           />
-                          <span>{category?.name || budget.name}</span>
+                          <span>{label}</span>
                         </div>
                       </td>
                       <td className="p-4 capitalize">{budget.period.toLowerCase()}</td>
-                      <td className="p-4 text-right">{formatCurrency(budgetAmount)}</td>
+                      <td className="p-4 text-right">
+                        {formatCurrency(budgetAmount)}
+                        {rollover !== 0 && <div className="flex justify-end">{renderRollover(rollover)}</div>}
+                      </td>
                       <td className="p-4 text-right text-destructive">{formatCurrency(spent)}</td>
                       <td className="p-4 text-right">{formatCurrency(remaining)}</td>
                       <td className="p-4">
@@ -179,6 +202,15 @@ const BudgetList: React.FC<BudgetListProps> = ({ onEditBudget, onDeleteBudget })
                       </td>
                       <td className="p-4">
                         <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+                            onClick={() => setHistoryBudget(budget)}
+                          >
+                            <span className="sr-only">History</span>
+                            <History className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -213,13 +245,14 @@ const BudgetList: React.FC<BudgetListProps> = ({ onEditBudget, onDeleteBudget })
             // Get first category
             const budgetCategory = budget.budget_categories?.[0];
             const category = budgetCategory?.category;
+            const label = (budget.budget_categories?.length ?? 0) > 1 ? budget.name : category?.name || budget.name;
             
             // Get actual spending - using same logic as BudgetTracker
             const spendingQuery = spendingQueries[index];
             const spent = Number(spendingQuery?.data || 0);
             const budgetAmount = Number(budget.amount);
-            const percentage = budgetAmount > 0 ? Math.round((spent / budgetAmount) * 100) : 0;
-            const remaining = budgetAmount - spent;
+            const rollover = budget.rollover_enabled ? Number(rolloverQueries[index]?.data || 0) : 0;
+            const { percentage, remaining } = getBudgetProgress(budgetAmount, spent, rollover);
             
             // Determine status-based styling
             const getProgressColor = () => {
@@ -237,7 +270,7 @@ const BudgetList: React.FC<BudgetListProps> = ({ onEditBudget, onDeleteBudget })
                       className="w-3 h-3 rounded-full"
                       style={{ backgroundColor: '#' + Math.floor(Math.random()*16777215).toString(16) }}
                     />
-                    {category?.name || budget.name}
+                    {label}
                   </CardTitle>
                   <span className="text-xs text-muted-foreground capitalize border border-muted-foreground/20 px-2 py-1 rounded">
                     {budget.period.toLowerCase()}
@@ -245,6 +278,7 @@ const BudgetList: React.FC<BudgetListProps> = ({ onEditBudget, onDeleteBudget })
                 </CardHeader>
                 <CardContent>
                   <div className="text-lg font-bold">{formatCurrency(budgetAmount)}</div>
+                  {rollover !== 0 && renderRollover(rollover)}
                   <div className="text-xs text-muted-foreground">
                     Spent: <span className="font-medium text-destructive">{formatCurrency(spent)}</span> ({percentage}%)
                   </div>
@@ -253,6 +287,15 @@ const BudgetList: React.FC<BudgetListProps> = ({ onEditBudget, onDeleteBudget })
                     Remaining: {formatCurrency(remaining)}
                   </div>
                   <div className="flex justify-end gap-1 mt-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+                      onClick={() => setHistoryBudget(budget)}
+                    >
+                      <span className="sr-only">History</span>
+                      <History className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="sm"
@@ -277,6 +320,11 @@ const BudgetList: React.FC<BudgetListProps> = ({ onEditBudget, onDeleteBudget })
             );
           })}
         </div>
+
+        <BudgetHistoryDialog
+          budget={historyBudget}
+          onOpenChange={(open) => !open && setHistoryBudget(null)}
+        />
       </CardContent>
     </Card>
   );
@@ -9,7 +9,8 @@ import {
 } from "@/components/ui/card.tsx";
 import { Progress } from "@/components/ui/progress.tsx";
 import { Button } from '@/components/ui/button.tsx';
-import { Plus, AlertTriangle, Edit, Trash } from 'lucide-react';
+import { Plus, AlertTriangle, Edit, Trash, Repeat, Gauge } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { formatCurrency } from '@/lib/utils';
 import { PeriodEnum } from '@/interfaces/enums/PeriodEnum';
@@ -17,6 +18,8 @@ import { budgetApi } from '@/lib/api/budgetApi';
 import { useDashboard } from '@/context/DashboardContext';
 import { supabase } from '@/lib/supabase/supabase';
 import { Budget } from '@/interfaces/budget-interface';
+import { getAllocationLines, getBudgetProgress, hasAllocations } from '@/lib/utils/budget-progress';
+import { getBudgetPace } from '@/lib/utils/budget-pace';
 
 interface BudgetTrackerProps {
   onEditBudget?: (budget: Budget) => void;
@@ -62,6 +65,24 @@ const BudgetTracker: React.FC<BudgetTrackerProps> = ({
     })
   });
 
+  // Carry from earlier periods, only for budgets that roll over
+  const rolloverQueries = useQueries({
+    queries: budgets.map(budget => ({
+      queryKey: ['budgetSpending', budget.id, 'rollover', startDate],
+      queryFn: () => budgetApi.getBudgetRollover(budget.id, startDate),
+      enabled: !!userId && !!budget.rollover_enabled,
+    }))
+  });
+
+  // Per-category lines, only for budgets that split their amount across categories
+  const categorySpendingQueries = useQueries({
+    queries: budgets.map(budget => ({
+      queryKey: ['budgetCategorySpending', budget.id, startDate, endDate],
+      queryFn: () => budgetApi.getBudgetCategorySpendingByDate(budget.id, startDate, endDate),
+      enabled: !!userId && hasAllocations(budget.budget_categories),
+    }))
+  });
+
   const isSpendingLoading = spendingQueries.some(q => q.isLoading);
 
   return (
@@ -113,12 +134,15 @@ const BudgetTracker: React.FC<BudgetTrackerProps> = ({
               const spendingQuery = spendingQueries[index];
               const spent = Number(spendingQuery.data || 0);
               const budgetAmount = Number(budget.amount);
-              const percentage = budgetAmount > 0 ? Math.round((spent / budgetAmount) * 100) : 0;
-              const remaining = budgetAmount - spent;
+              const rollover = budget.rollover_enabled ? Number(rolloverQueries[index]?.data || 0) : 0;
+              const { percentage, remaining, available } = getBudgetProgress(budgetAmount, spent, rollover);
+              const allocationLines = getAllocationLines(available, categorySpendingQueries[index]?.data || []);
+              const pace = getBudgetPace({ available, spent, startDate, endDate });
 
               // Get first category for display
               const budgetCategory = budget.budget_categories?.[0];
               const category = budgetCategory?.category;
+              const label = (budget.budget_categories?.length ?? 0) > 1 ? budget.name : category?.name || budget.name;
 
               // Determine progress color based on percentage
               const getProgressColor = () => {
@@ -136,7 +160,7 @@ const BudgetTracker: React.FC<BudgetTrackerProps> = ({
                         className="w-3 h-3 rounded-full"
                         style={{ backgroundColor: '#' + Math.floor(Math.random()*16777215).toString(16) }}
                       />
-                      {category?.name || budget.name}
+                      {label}
                     </CardTitle>
                     <span className="text-xs text-muted-foreground capitalize border border-muted-foreground/20 px-2 py-1 rounded">
                       {budget.period.toLowerCase()}
@@ -144,6 +168,12 @@ const BudgetTracker: React.FC<BudgetTrackerProps> = ({
                   </CardHeader>
                   <CardContent>
                     <div className="text-lg font-bold">{formatCurrency(budgetAmount)}</div>
+                    {budget.rollover_enabled && rollover !== 0 && (
+                      <div className={cn("text-xs flex items-center gap-1", rollover > 0 ? "text-finance-income" : "text-finance-expense")}>
+                        <Repeat className="h-3 w-3" />
+                        {rollover > 0 ? '+' : '-'}{formatCurrency(Math.abs(rollover))} carried over
+                      </div>
+                    )}
                     <div className="text-xs text-muted-foreground">
                       Spent: <span className="font-medium text-destructive">{formatCurrency(spent)}</span> ({percentage}%)
                     </div>
@@ -151,6 +181,36 @@ const BudgetTracker: React.FC<BudgetTrackerProps> = ({
                     <div className="text-xs text-muted-foreground mt-1">
                       Remaining: {formatCurrency(remaining)}
                     </div>
+                    {(pace.status === 'on_track' || pace.status === 'off_pace') && (
+                      <div className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                        <Gauge className="h-3 w-3" />
+                        Safe to spend {formatCurrency(pace.safeDailySpend)}/day for {pace.daysLeft} day{pace.daysLeft === 1 ? '' : 's'} · on pace for {formatCurrency(pace.projectedSpend)}
+                      </div>
+                    )}
+                    {pace.status === 'off_pace' && (
+                      <div className="mt-2 flex items-start gap-1.5 rounded-md bg-orange-400/10 px-2 py-1.5 text-xs text-orange-500">
+                        <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-px" />
+                        <span>
+                          Spending is ahead of pace
+                          {pace.exhaustionDate ? `; the budget runs out around ${format(parseISO(pace.exhaustionDate), 'MMM d')}` : ''}.
+                        </span>
+                      </div>
+                    )}
+                    {allocationLines.length > 0 && (
+                      <div className="mt-3 space-y-2 border-t pt-2">
+                        {allocationLines.map(line => (
+                          <div key={line.key}>
+                            <div className="flex items-center justify-between text-xs">
+                              <span className={cn(line.key === 'unallocated' && "italic text-muted-foreground")}>{line.name}</span>
+                              <span className={cn("text-muted-foreground", line.spent > line.allocated && "text-finance-expense")}>
+                                {formatCurrency(line.spent)} / {formatCurrency(line.allocated)}
+                              </span>
+                            </div>
+                            <Progress value={Math.min(line.percentage, 100)} className="h-1 mt-1" />
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <div className="flex justify-end gap-1 mt-2">
                       {/* Edit Button */}
                       {onEditBudget && (
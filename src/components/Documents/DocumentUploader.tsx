@@ -161,6 +161,7 @@ export const DocumentUploader = ({ onDocumentProcessed, autoOpen = false }: Docu
             suggested_category_type: functionResult.parsedData.suggestedCategoryType,
             ai_confidence_score: functionResult.parsedData.confidenceScore,
             suggested_payment_method_id: functionResult.parsedData.suggestedPaymentMethodId,
+            lines: functionResult.parsedData.lines,
             created_at: new Date().toISOString(),
             isdeleted: false
           };
@@ -171,10 +172,13 @@ export const DocumentUploader = ({ onDocumentProcessed, autoOpen = false }: Docu
                                  functionResult.parsedData.currency === 'USD' ? '$' : 
                                  functionResult.parsedData.currency || 'RM';
           
-          // Show document ready toast
+          // Show document ready toast; statements report their line count instead of a total
+          const statementLines = functionResult.parsedData.lines;
           toastNotifications.documentReady(
             functionResult.parsedData.vendorName || 'Document',
-            `${currencySymbol} ${functionResult.parsedData.totalAmount?.toFixed(2) || '0.00'}`,
+            statementLines
+              ? `${statementLines.length} transactions`
+              : `${currencySymbol} ${functionResult.parsedData.totalAmount?.toFixed(2) || '0.00'}`,
             Math.round((functionResult.parsedData.confidenceScore || 0) * 100)
           );
         } else {
@@ -7,12 +7,24 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { supabase } from '@/lib/supabase/supabase';
 import { toast } from 'sonner';
 import { toastNotifications } from '@/components/ui/toast-notifications';
-import { useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useDashboard } from '@/context/DashboardContext';
 import { cn } from '@/lib/utils';
-import { Document } from '@/interfaces/document-interface';
+import { Document, DocumentLineSelection } from '@/interfaces/document-interface';
+import { Expense } from '@/interfaces/expense-interface';
+import { documentApi } from '@/lib/api/documentApi';
+import { expenseApi } from '@/lib/api/expenseApi';
+import { exchangeRateApi } from '@/lib/api/exchangeRateApi';
+import { BASE_CURRENCY, convertToBase, findRate } from '@/lib/utils/currency';
+import { categorizationRuleApi } from '@/lib/api/categorizationRuleApi';
+import { merchantApi } from '@/lib/api/merchantApi';
+import { findMatchingRule, getRuleCategoryId } from '@/lib/utils/categorization-rules';
+import { findDuplicateCandidates, getDuplicateSearchRange } from '@/lib/utils/duplicate-detection';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { EditDocumentDialog } from './EditDocumentDialog';
+import { StatementLinesReview } from './StatementLinesReview';
+import DuplicateWarning from '@/components/Transactions/DuplicateWarning';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 
 interface ProcessedDocumentsProps {
   documents: Document[];
@@ -25,28 +37,196 @@ export const ProcessedDocuments = ({ documents, onDocumentUpdate, onDocumentRemo
   const queryClient = useQueryClient();
   const isMobile = useIsMobile();
   const [editingDocument, setEditingDocument] = useState<Document | null>(null);
+  const [duplicateReview, setDuplicateReview] = useState<{ document: Document; candidates: Expense[] } | null>(null);
+
+  const { data: categorizationRules = [] } = useQuery({
+    queryKey: ['categorizationRules', userId],
+    queryFn: () => categorizationRuleApi.getAllByUser(userId as string),
+    enabled: !!userId,
+  });
 
   // Debug editingDocument state changes
   useEffect(() => {
     console.log('🔄 [ProcessedDocuments] editingDocument state changed:', editingDocument);
   }, [editingDocument]);
 
-  const handleRemoveDocument = (documentId: number) => {
+  // Documents that never became a transaction go to the trash; the rest are only hidden
+  const handleRemoveDocument = async (document: Document) => {
+    const moveToTrash = document.status !== 'transaction_created';
+
+    if (moveToTrash) {
+      try {
+        await documentApi.delete(document.id);
+      } catch (error) {
+        toast.error('Failed to delete document', {
+          description: error instanceof Error ? error.message : 'Unknown error'
+        });
+        return;
+      }
+    }
+
     if (onDocumentRemove) {
-      onDocumentRemove(documentId);
-      toastNotifications.documentRemoved();
+      onDocumentRemove(document.id);
+      if (moveToTrash) {
+        toastNotifications.documentTrashed();
+      } else {
+        toastNotifications.documentRemoved();
+      }
+    }
+  };
+
+  const invalidateTransactionQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['expenses', userId] });
+    queryClient.invalidateQueries({ queryKey: ['transactions', userId] });
+    queryClient.invalidateQueries({ queryKey: ['dashboardSummary', userId] });
+    queryClient.invalidateQueries({ queryKey: ['spendingByCategory', userId] });
+    queryClient.invalidateQueries({ queryKey: ['spendingByPayment', userId] });
+    queryClient.invalidateQueries({ queryKey: ['budgets'] });
+    queryClient.invalidateQueries({ queryKey: ['budgetSpending'] });
+    queryClient.invalidateQueries({ queryKey: ['budgetCategorySpending'] });
+    queryClient.invalidateQueries({ queryKey: ['merchants', userId] });
+    queryClient.invalidateQueries({ queryKey: ['merchantSummary', userId] });
+  };
+
+  // Selected statement lines that look like transactions the user already has,
+  // leaving out the ones the user chose to keep
+  const findDuplicateLines = async (
+    ownerId: string,
+    paymentMethodId: number,
+    lines: DocumentLineSelection[]
+  ): Promise<DocumentLineSelection[]> => {
+    const checked = lines.filter(line => !line.allow_duplicate);
+    if (checked.length === 0) return [];
+
+    const dates = checked.map(line => line.date).sort();
+    const existing = await expenseApi.getForDuplicateCheck(
+      ownerId,
+      getDuplicateSearchRange(dates[0]).startDate,
+      getDuplicateSearchRange(dates[dates.length - 1]).endDate
+    );
+
+    return checked.filter(line => findDuplicateCandidates({
+      date: line.date,
+      amount: line.amount,
+      description: line.description,
+      payment_method_id: paymentMethodId,
+      transaction_type: line.transaction_type,
+    }, existing).length > 0);
+  };
+
+  // Bank statements carry many lines that are reviewed and posted together
+  const isStatement = (document: Document) =>
+    document.document_type === 'bank_statement' && !!document.lines?.length;
+
+  const handleCreateStatementTransactions = async (
+    document: Document,
+    paymentMethodId: number,
+    lines: DocumentLineSelection[]
+  ) => {
+    try {
+      // Same check as single receipts, against fresh data and the chosen account.
+      // Lines the user kept despite the warning in the review are posted anyway.
+      const duplicates = userId ? await findDuplicateLines(userId, paymentMethodId, lines) : [];
+      const toPost = lines.filter(line => !duplicates.includes(line));
+
+      if (toPost.length === 0) {
+        toast.warning('Nothing posted', {
+          description: 'Every selected line looks like a transaction you already have.'
+        });
+        return;
+      }
+
+      const result = await documentApi.createTransactionsFromLines(document.id, paymentMethodId, toPost);
+      const postedLines = await documentApi.getLines(document.id);
+
+      if ((result.createdCount ?? 0) > 0) {
+        onDocumentUpdate({ ...document, status: 'transaction_created', lines: postedLines });
+      } else {
+        onDocumentUpdate({ ...document, lines: postedLines });
+      }
+      invalidateTransactionQueries();
+      refreshData();
+
+      toastNotifications.transactionCreated(
+        document.vendor_name || 'Bank statement',
+        `${result.createdCount ?? toPost.length} transactions`
+      );
+      if (duplicates.length > 0) {
+        toast.warning(`Skipped ${duplicates.length} possible duplicate${duplicates.length === 1 ? '' : 's'}`, {
+          description: duplicates.map(line => line.description || line.date).join(', ')
+        });
+      }
+    } catch (error) {
+      console.error('Error creating transactions from statement:', error);
+      toastNotifications.transactionError(
+        error instanceof Error ? error.message : 'Unknown error'
+      );
     }
   };
 
-  const handleCreateTransaction = async (document: Document) => {
+  const handleCreateTransaction = async (document: Document, skipDuplicateCheck = false) => {
     try {
+      // Foreign receipts are converted with the user's rate for the receipt date
+      const isForeignCurrency = !!document.currency && document.currency !== BASE_CURRENCY;
+      let exchangeRate = 1;
+      if (isForeignCurrency) {
+        const rates = userId ? await exchangeRateApi.getAllByUser(userId) : [];
+        const rate = findRate(rates, document.currency, document.transaction_date || new Date().toISOString().split('T')[0]);
+        if (rate === undefined) {
+          throw new Error(`No ${document.currency} exchange rate set. Add one on the Exchange Rates page first.`);
+        }
+        exchangeRate = rate;
+      }
+      const baseAmount = document.total_amount != null ? convertToBase(document.total_amount, exchangeRate) : document.total_amount;
+
+      // The user's categorization rules take precedence over the AI's suggestions
+      const rule = findMatchingRule(categorizationRules, {
+        transaction_type: document.transaction_type,
+        description: document.vendor_name,
+        vendor: document.vendor_name,
+        amount: baseAmount,
+        payment_method_id: document.suggested_payment_method_id,
+      });
+      const ruleCategoryId = rule ? getRuleCategoryId(rule) : undefined;
+
+      const paymentMethodId = rule?.set_payment_method_id ?? document.suggested_payment_method_id;
+
+      // Receipts are often for purchases already entered by hand or imported from a statement
+      if (!skipDuplicateCheck && userId && document.transaction_date && document.total_amount) {
+        const candidates = await expenseApi.findDuplicates(userId, {
+          date: document.transaction_date,
+          amount: baseAmount,
+          description: document.vendor_name,
+          payment_method_id: paymentMethodId,
+          transaction_type: document.transaction_type
+        });
+
+        if (candidates.length > 0) {
+          setDuplicateReview({ document, candidates });
+          return;
+        }
+      }
+
+      // Receipts link to the vendor's merchant, creating one the first time a vendor is seen.
+      // Resolved only now, so a receipt dropped as a duplicate leaves no merchant behind.
+      const merchant = userId && document.vendor_name
+        ? await merchantApi.findOrCreate(userId, document.vendor_name)
+        : undefined;
+      // Then the merchant's default category, for expenses without a rule category
+      const merchantCategoryId = !ruleCategoryId && document.transaction_type !== 'income'
+        ? merchant?.default_category_id
+        : undefined;
+
+      const categoryId = ruleCategoryId ?? merchantCategoryId ?? document.suggested_category_id;
+      const categoryType = ruleCategoryId ? rule.transaction_type : merchantCategoryId ? 'expense' : document.suggested_category_type;
+
       const { data: result, error } = await supabase
         .rpc('create_transaction_from_document', {
           p_document_id: document.id,
-          p_category_id: document.suggested_category_id,
-          p_category_type: document.suggested_category_type,
-          p_payment_method_id: document.suggested_payment_method_id,
-          p_amount: document.total_amount,
+          p_category_id: categoryId,
+          p_category_type: categoryType,
+          p_payment_method_id: paymentMethodId,
+          p_amount: baseAmount,
           p_description: document.vendor_name
         });
 
@@ -60,17 +240,20 @@ export const ProcessedDocuments = ({ documents, onDocumentUpdate, onDocumentRemo
         throw new Error(parsedResult.error);
       }
 
+      if (isForeignCurrency || merchant) {
+        const expenseId = await documentApi.getCreatedExpenseId(document.id);
+        if (expenseId && isForeignCurrency) {
+          await expenseApi.setOriginalCurrency(expenseId, document.currency, exchangeRate, document.total_amount);
+        }
+        if (expenseId && merchant) {
+          await merchantApi.linkExpense(expenseId, merchant.id);
+        }
+      }
+
       const updatedDocument = { ...document, status: 'transaction_created' as const };
       onDocumentUpdate(updatedDocument);
 
-      queryClient.invalidateQueries({ queryKey: ['expenses', userId] });
-      queryClient.invalidateQueries({ queryKey: ['transactions', userId] });
-      queryClient.invalidateQueries({ queryKey: ['dashboardSummary', userId] });
-      queryClient.invalidateQueries({ queryKey: ['spendingByCategory', userId] });
-      queryClient.invalidateQueries({ queryKey: ['spendingByPayment', userId] });
-      queryClient.invalidateQueries({ queryKey: ['budgets'] });
-      queryClient.invalidateQueries({ queryKey: ['budgetSpending'] });
-      queryClient.invalidateQueries({ queryKey: ['budgetCategorySpending'] });
+      invalidateTransactionQueries();
       
       refreshData();
 
@@ -98,6 +281,28 @@ export const ProcessedDocuments = ({ documents, onDocumentUpdate, onDocumentRemo
     }
   };
 
+  // The receipt belongs to an existing transaction, so record the link instead of a new row
+  const handleLinkToExisting = async (document: Document, expense: Expense) => {
+    try {
+      await documentApi.linkToExpense(document.id, expense.id);
+      onDocumentUpdate({ ...document, status: 'transaction_created', created_expense_id: expense.id });
+      toast.success('Matched to existing transaction', {
+        description: expense.description || document.vendor_name
+      });
+
+      setTimeout(() => {
+        if (onDocumentRemove) {
+          onDocumentRemove(document.id);
+        }
+      }, 2000);
+    } catch (error) {
+      console.error('Error linking document to transaction:', error);
+      toastNotifications.transactionError(
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'uploaded':
@@ -164,7 +369,7 @@ export const ProcessedDocuments = ({ documents, onDocumentUpdate, onDocumentRemo
             </div>
             <h3 className="font-medium text-foreground mb-2">No documents processed yet</h3>
             <p className="text-sm text-muted-foreground max-w-sm">
-              Upload a receipt or invoice above to see AI-powered transaction extraction in action.
+              Upload a receipt, invoice or bank statement above to see AI-powered transaction extraction in action.
             </p>
           </div>
         </CardContent>
@@ -211,7 +416,7 @@ export const ProcessedDocuments = ({ documents, onDocumentUpdate, onDocumentRemo
                       <Button
                         size="sm"
                         variant="ghost"
-                        onClick={() => handleRemoveDocument(document.id)}
+                        onClick={() => handleRemoveDocument(document)}
                         className="h-7 w-7 p-0 text-muted-foreground hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-950/20 shrink-0"
                       >
                         <X className="h-3 w-3" />
@@ -266,6 +471,7 @@ export const ProcessedDocuments = ({ documents, onDocumentUpdate, onDocumentRemo
                         </div>
                         
                         {/* Action Buttons */}
+                        {!isStatement(document) && (
                         <div className="flex gap-2">
                           <Button
                             size="sm"
@@ -288,6 +494,7 @@ export const ProcessedDocuments = ({ documents, onDocumentUpdate, onDocumentRemo
                             Create
                           </Button>
                         </div>
+                        )}
                       </div>
                     )}
                     
@@ -407,14 +614,14 @@ export const ProcessedDocuments = ({ documents, onDocumentUpdate, onDocumentRemo
                       <Button
                         size="sm"
                         variant="ghost"
-                        onClick={() => handleRemoveDocument(document.id)}
+                        onClick={() => handleRemoveDocument(document)}
                         className="h-8 w-8 p-0 text-muted-foreground hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-950/20"
                       >
                         <X className="h-4 w-4" />
                       </Button>
                       
                       {/* Status-specific Actions */}
-                      {document.status === 'parsed' && (
+                      {document.status === 'parsed' && !isStatement(document) && (
                         <>
                           <Button
                             size="sm"
@@ -456,6 +663,15 @@ export const ProcessedDocuments = ({ documents, onDocumentUpdate, onDocumentRemo
                     </div>
                   </div>
                 )}
+
+                {/* Statement lines to review before posting */}
+                {document.status === 'parsed' && isStatement(document) && (
+                  <StatementLinesReview
+                    document={document}
+                    formatAmount={(amount) => formatCurrency(amount, document.currency)}
+                    onPost={(paymentMethodId, lines) => handleCreateStatementTransactions(document, paymentMethodId, lines)}
+                  />
+                )}
               </div>
               
               <div className="absolute inset-0 bg-gradient-to-r from-transparent via-transparent to-primary/5 pointer-events-none" />
@@ -464,6 +680,31 @@ export const ProcessedDocuments = ({ documents, onDocumentUpdate, onDocumentRemo
         </div>
       </CardContent>
 
+      {/* Possible duplicate review */}
+      <Dialog open={!!duplicateReview} onOpenChange={(open) => !open && setDuplicateReview(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Possible duplicate</DialogTitle>
+          </DialogHeader>
+          {duplicateReview && (
+            <DuplicateWarning
+              candidates={duplicateReview.candidates}
+              onSaveAnyway={() => {
+                const { document } = duplicateReview;
+                setDuplicateReview(null);
+                handleCreateTransaction(document, true);
+              }}
+              onLinkAsSame={(expense) => {
+                const { document } = duplicateReview;
+                setDuplicateReview(null);
+                handleLinkToExisting(document, expense);
+              }}
+              onCancel={() => setDuplicateReview(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Edit Document Dialog */}
       <EditDocumentDialog
         open={!!editingDocument}
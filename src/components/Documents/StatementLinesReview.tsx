@@ -0,0 +1,265 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AlertCircle, Loader2, Sparkles } from 'lucide-react';
+import { Document, DocumentLineSelection } from '@/interfaces/document-interface';
+import { expenseApi } from '@/lib/api/expenseApi';
+import { paymentMethodApi } from '@/lib/api/paymentMethodApi';
+import { categorizationRuleApi } from '@/lib/api/categorizationRuleApi';
+import { findMatchingRule, getRuleCategoryId } from '@/lib/utils/categorization-rules';
+import { supabase } from '@/lib/supabase/supabase';
+import { getDuplicateSearchRange, isLikelyDuplicate } from '@/lib/utils/duplicate-detection';
+import { useDashboard } from '@/context/DashboardContext';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface LineState {
+  selected: boolean;
+  categoryId?: number;
+}
+
+interface StatementLinesReviewProps {
+  document: Document;
+  formatAmount: (amount: number) => string;
+  onPost: (paymentMethodId: number, lines: DocumentLineSelection[]) => Promise<void>;
+}
+
+export const StatementLinesReview = ({ document, formatAmount, onPost }: StatementLinesReviewProps) => {
+  const { userId } = useDashboard();
+  const lines = useMemo(() => document.lines || [], [document.lines]);
+  const [lineState, setLineState] = useState<Record<number, LineState>>({});
+  const [paymentMethodId, setPaymentMethodId] = useState<number | undefined>(document.suggested_payment_method_id);
+  const [isPosting, setIsPosting] = useState(false);
+
+  const { data: expenseCategories = [] } = useQuery({
+    queryKey: ['expenseCategories'],
+    queryFn: expenseApi.getCategories,
+  });
+
+  const { data: incomeCategories = [] } = useQuery({
+    queryKey: ['incomeCategories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('income_category')
+        .select('id, name')
+        .eq('isdeleted', false)
+        .order('name');
+
+      if (error) throw error;
+      return (data || []) as Array<{ id: number; name: string }>;
+    },
+  });
+
+  const { data: paymentMethods = [] } = useQuery({
+    queryKey: ['paymentMethods'],
+    queryFn: paymentMethodApi.getAll,
+  });
+
+  const { data: categorizationRules = [] } = useQuery({
+    queryKey: ['categorizationRules', userId],
+    queryFn: () => categorizationRuleApi.getAllByUser(userId as string),
+    enabled: !!userId,
+  });
+
+  // Existing transactions around the statement period, to spot lines already entered another way
+  const lineDates = lines.map(line => line.transaction_date).filter(Boolean).sort() as string[];
+  const searchStart = lineDates.length > 0 ? getDuplicateSearchRange(lineDates[0]).startDate : undefined;
+  const searchEnd = lineDates.length > 0 ? getDuplicateSearchRange(lineDates[lineDates.length - 1]).endDate : undefined;
+
+  const { data: existingExpenses } = useQuery({
+    queryKey: ['duplicateCheck', userId, searchStart, searchEnd],
+    queryFn: () => expenseApi.getForDuplicateCheck(userId as string, searchStart as string, searchEnd as string),
+    enabled: !!userId && !!searchStart,
+  });
+
+  const duplicateLineIds = useMemo(() => new Set(
+    lines
+      .filter(line => !line.created_expense_id && line.transaction_date && (existingExpenses || []).some(expense =>
+        isLikelyDuplicate({
+          date: line.transaction_date as string,
+          amount: Number(line.amount),
+          description: line.description,
+          transaction_type: line.transaction_type,
+        }, expense)
+      ))
+      .map(line => line.id)
+  ), [lines, existingExpenses]);
+
+  // Every postable line starts selected with the category from the user's rules,
+  // or else the AI's suggestion, except lines that look like transactions the user already has
+  useEffect(() => {
+    setLineState(Object.fromEntries(lines.map(line => {
+      const rule = findMatchingRule(categorizationRules, {
+        transaction_type: line.transaction_type,
+        description: line.description,
+        amount: Number(line.amount),
+        payment_method_id: document.suggested_payment_method_id,
+      });
+      return [line.id, {
+        selected: !line.created_expense_id && !!line.transaction_date && !duplicateLineIds.has(line.id),
+        categoryId: (rule ? getRuleCategoryId(rule) : undefined) ?? line.suggested_category_id,
+      }];
+    })));
+  }, [lines, duplicateLineIds, categorizationRules, document.suggested_payment_method_id]);
+
+  const isPostable = (lineId: number) => {
+    const line = lines.find(l => l.id === lineId);
+    return !!line && !line.created_expense_id && !!line.transaction_date;
+  };
+
+  const updateLine = (lineId: number, update: Partial<LineState>) => {
+    setLineState(prev => ({ ...prev, [lineId]: { ...prev[lineId], ...update } }));
+  };
+
+  const selectedLines = lines.filter(line => isPostable(line.id) && lineState[line.id]?.selected);
+  const missingCategory = selectedLines.some(line => !lineState[line.id]?.categoryId);
+  const allSelected = selectedLines.length > 0 && selectedLines.length === lines.filter(line => isPostable(line.id)).length;
+
+  const toggleAll = (selected: boolean) => {
+    setLineState(prev => Object.fromEntries(lines.map(line => [
+      line.id,
+      { ...prev[line.id], selected: isPostable(line.id) ? selected : false },
+    ])));
+  };
+
+  const handlePost = async () => {
+    if (!paymentMethodId) return;
+
+    setIsPosting(true);
+    try {
+      await onPost(paymentMethodId, selectedLines.map(line => ({
+        line_id: line.id,
+        date: line.transaction_date as string,
+        description: line.description,
+        amount: Number(line.amount),
+        transaction_type: line.transaction_type,
+        category_id: lineState[line.id].categoryId as number,
+        allow_duplicate: duplicateLineIds.has(line.id),
+      })));
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const selectedTotal = selectedLines.reduce(
+    (sum, line) => sum + (line.transaction_type === 'income' ? Number(line.amount) : -Number(line.amount)),
+    0
+  );
+
+  return (
+    <div className="space-y-3 mt-3">
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <label className="flex items-center gap-2">
+          <Checkbox checked={allSelected} onCheckedChange={checked => toggleAll(checked === true)} />
+          {selectedLines.length} of {lines.length} lines selected
+        </label>
+        <span className={cn("font-medium", selectedTotal >= 0 ? "text-green-600" : "text-red-600")}>
+          Net {selectedTotal >= 0 ? '+' : '-'}{formatAmount(Math.abs(selectedTotal))}
+        </span>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+        {lines.map(line => {
+          const state = lineState[line.id] || { selected: false };
+          const isIncome = line.transaction_type === 'income';
+          const categories = isIncome ? incomeCategories : expenseCategories;
+          const isPosted = !!line.created_expense_id;
+
+          return (
+            <div
+              key={line.id}
+              className={cn(
+                "rounded-md border p-2 space-y-2 text-sm",
+                (!state.selected || isPosted) && "opacity-60"
+              )}
+            >
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  className="mt-0.5"
+                  checked={state.selected}
+                  disabled={!isPostable(line.id)}
+                  onCheckedChange={checked => updateLine(line.id, { selected: checked === true })}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="truncate font-medium">{line.description || 'No description'}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {line.transaction_date || 'No date found'}
+                    {isPosted && ' · Posted'}
+                    {!isPosted && duplicateLineIds.has(line.id) && (
+                      <span className="text-amber-600"> · Possible duplicate</span>
+                    )}
+                  </div>
+                </div>
+                <span className={cn("font-medium shrink-0", isIncome ? "text-green-600" : "text-red-600")}>
+                  {isIncome ? '+' : '-'}{formatAmount(Number(line.amount))}
+                </span>
+              </div>
+              {!isPosted && (
+                <Select
+                  value={state.categoryId?.toString() ?? ''}
+                  onValueChange={value => updateLine(line.id, { categoryId: Number(value) })}
+                  disabled={!state.selected}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={category.id.toString()}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select
+          value={paymentMethodId?.toString() ?? ''}
+          onValueChange={value => setPaymentMethodId(Number(value))}
+        >
+          <SelectTrigger className="h-9 sm:flex-1">
+            <SelectValue placeholder="Account / payment method" />
+          </SelectTrigger>
+          <SelectContent>
+            {paymentMethods.map(method => (
+              <SelectItem key={method.id} value={method.id.toString()}>
+                {method.method_name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          className="h-9 bg-gradient-to-r from-primary to-primary/80 hover:from-primary/90 hover:to-primary/70 text-white"
+          disabled={isPosting || selectedLines.length === 0 || missingCategory || !paymentMethodId}
+          onClick={handlePost}
+        >
+          {isPosting ? (
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          ) : (
+            <Sparkles className="h-3 w-3 mr-1" />
+          )}
+          Post {selectedLines.length} transaction{selectedLines.length === 1 ? '' : 's'}
+        </Button>
+      </div>
+      {missingCategory && (
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          <AlertCircle className="h-3 w-3" />
+          Pick a category for every selected line to post.
+        </p>
+      )}
+    </div>
+  );
+};
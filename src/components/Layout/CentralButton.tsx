@@ -1,14 +1,21 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { Home, Camera } from 'lucide-react';
+import { Home, Camera, Zap } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useScanner } from '@/context/ScannerContext';
+import QuickAddDialog from '@/components/Transactions/QuickAddDialog';
+
+// How long the button must be held to open quick add from any page
+const LONG_PRESS_MS = 500;
 
 const CentralButton = () => {
   const location = useLocation();
   const navigate = useNavigate();
   const { openScanner } = useScanner();
   const [isPressed, setIsPressed] = useState(false);
+  const [isQuickAddOpen, setIsQuickAddOpen] = useState(false);
+  const longPressTimer = useRef<ReturnType<typeof setTimeout>>();
+  const didLongPress = useRef(false);
 
   // Determine button action based on current page
   const getButtonState = () => {
@@ -24,6 +31,13 @@ const CentralButton = () => {
         },
         glow: 'from-purple-500 to-indigo-500'
       };
+    } else if (path === '/transactions') {
+      return {
+        icon: Zap,
+        label: 'Quick Add',
+        action: () => setIsQuickAddOpen(true),
+        glow: 'from-purple-500 to-indigo-500'
+      };
     } else {
       return {
         icon: Home,
@@ -37,7 +51,26 @@ const CentralButton = () => {
   const buttonState = getButtonState();
   const Icon = buttonState.icon;
 
+  const cancelLongPress = () => {
+    clearTimeout(longPressTimer.current);
+  };
+
+  const handlePointerDown = () => {
+    didLongPress.current = false;
+    cancelLongPress();
+    longPressTimer.current = setTimeout(() => {
+      didLongPress.current = true;
+      setIsQuickAddOpen(true);
+    }, LONG_PRESS_MS);
+  };
+
   const handleClick = () => {
+    cancelLongPress();
+    // The press already opened quick add
+    if (didLongPress.current) {
+      didLongPress.current = false;
+      return;
+    }
     setIsPressed(true);
     setTimeout(() => setIsPressed(false), 150);
     buttonState.action();
@@ -68,6 +101,11 @@ const CentralButton = () => {
       {/* Main button with float animation */}
       <button
         onClick={handleClick}
+        onPointerDown={handlePointerDown}
+        onPointerUp={cancelLongPress}
+        onPointerLeave={cancelLongPress}
+        onContextMenu={(event) => event.preventDefault()}
+        aria-label={`${buttonState.label} (hold for quick add)`}
         className={cn(
           "relative flex flex-col items-center justify-center",
           "w-16 h-16 rounded-full",
@@ -102,6 +140,8 @@ const CentralButton = () => {
       >
         {buttonState.label}
       </span>
+
+      <QuickAddDialog open={isQuickAddOpen} onOpenChange={setIsQuickAddOpen} />
     </div>
   );
 };
@@ -15,7 +15,13 @@ import {
   UserCircle,
   ChevronLeft,
   ChevronRight,
-  Search
+  Search,
+  Repeat,
+  Coins,
+  Trash2,
+  Wand2,
+  Store,
+  Bookmark
 } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { ThemeToggle } from '@/components/ui/theme-toggle.tsx';
@@ -25,8 +31,13 @@ import { NotificationBadge } from '@/components/ui/notification-badge';
 import { useDrag } from '@use-gesture/react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { getUnreadNotificationCount } from '@/lib/api/notificationsApi';
+import { savedViewApi } from '@/lib/api/savedViewApi';
+import { getViewPath } from '@/lib/utils/transaction-views';
 import { supabase } from '@/lib/supabase/supabase';
 import MobileBottomNav from './MobileBottomNav';
+import { useRecurringPosting } from '@/hooks/useRecurringPosting';
+import { useTrashPurge } from '@/hooks/useTrashPurge';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -49,6 +60,21 @@ const navItems: NavItem[] = [
     icon: <CreditCard size={20} />, 
     href: '/transactions' 
   },
+  { 
+    label: 'Recurring', 
+    icon: <Repeat size={20} />, 
+    href: '/recurring' 
+  },
+  { 
+    label: 'Rules', 
+    icon: <Wand2 size={20} />, 
+    href: '/rules' 
+  },
+  { 
+    label: 'Merchants', 
+    icon: <Store size={20} />, 
+    href: '/merchants' 
+  },
   { 
     label: 'Budgets', 
     icon: <Wallet size={20} />, 
@@ -59,6 +85,11 @@ const navItems: NavItem[] = [
     icon: <PieChart size={20} />, 
     href: '/reports' 
   },
+  { 
+    label: 'Exchange Rates', 
+    icon: <Coins size={20} />, 
+    href: '/exchange-rates' 
+  },
   { 
     label: 'Smart Search', 
     icon: <Search size={20} />, 
@@ -69,6 +100,11 @@ const navItems: NavItem[] = [
     icon: <Bell size={20} />, 
     href: '/notifications' 
   },
+  { 
+    label: 'Trash', 
+    icon: <Trash2 size={20} />, 
+    href: '/trash' 
+  },
 ];
 
 const Layout = ({ children }: LayoutProps) => {
@@ -89,6 +125,13 @@ const Layout = ({ children }: LayoutProps) => {
   const { user, profile, signOut } = useAuth();
   const queryClient = useQueryClient();
 
+  // Post any recurring transactions that have come due since the last visit
+  useRecurringPosting(user?.id);
+  // Purge records that have been in the trash past the user's retention period
+  useTrashPurge(user?.id, profile?.trash_retention_days);
+  // Send transactions entered while offline once the connection is back
+  useOfflineSync(user?.id);
+
   const { data: unreadCount } = useQuery({
     queryKey: ['unread-notifications-count'],
     queryFn: getUnreadNotificationCount,
@@ -96,6 +139,15 @@ const Layout = ({ children }: LayoutProps) => {
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 
+  // Saved transaction views pinned to the sidebar
+  const { data: savedViews = [] } = useQuery({
+    queryKey: ['savedViews', user?.id],
+    queryFn: () => savedViewApi.getAllByUser(user?.id as string),
+    enabled: !!user,
+  });
+  const pinnedViews = savedViews.filter(view => view.is_pinned);
+  const currentQuery = location.search.replace(/^\?/, '');
+
   React.useEffect(() => {
     if (!user) {
       return;
@@ -244,6 +296,36 @@ const Layout = ({ children }: LayoutProps) => {
                 );
               })}
             </ul>
+            
+            {pinnedViews.length > 0 && (
+              <ul className="space-y-1.5 mt-4 pt-4 border-t">
+                {(sidebarOpen || isMobile) && (
+                  <li className="px-3 text-xs font-medium uppercase text-muted-foreground">Pinned views</li>
+                )}
+                {pinnedViews.map((view) => {
+                  const isActive = location.pathname === '/transactions' && currentQuery === view.query;
+                  return (
+                    <li key={view.id}>
+                      <Link
+                        to={getViewPath(view.query)}
+                        className={cn(
+                          "flex items-center gap-3 rounded-md px-3 py-2 text-sm transition-colors",
+                          isActive 
+                            ? "bg-primary text-primary-foreground" 
+                            : "text-foreground hover:bg-secondary",
+                          !sidebarOpen && !isMobile && "justify-center px-2"
+                        )}
+                        onClick={() => isMobile && setSidebarOpen(false)}
+                        title={!sidebarOpen && !isMobile ? view.name : undefined}
+                      >
+                        <Bookmark size={20} className="shrink-0" />
+                        {(sidebarOpen || isMobile) && <span className="truncate">{view.name}</span>}
+                      </Link>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
           </nav>
           
           <div className={cn(
@@ -8,7 +8,12 @@ import {
   CreditCard, 
   UserCircle, 
   Settings, 
-  LogOut
+  LogOut,
+  Repeat,
+  Coins,
+  Trash2,
+  Wand2,
+  Store
 } from 'lucide-react';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
@@ -86,6 +91,24 @@ const MobileMenuDrawer: React.FC<MobileMenuDrawerProps> = ({ open, onOpenChange
   }, [open]);
 
   const menuItems = [
+    { 
+      label: 'Recurring', 
+      icon: Repeat, 
+      path: '/recurring',
+      description: 'Bills, salary and subscriptions'
+    },
+    { 
+      label: 'Rules', 
+      icon: Wand2, 
+      path: '/rules',
+      description: 'Categorize transactions automatically'
+    },
+    { 
+      label: 'Merchants', 
+      icon: Store, 
+      path: '/merchants',
+      description: 'Payees, aliases and totals'
+    },
     { 
       label: 'Budgets', 
       icon: Wallet, 
@@ -116,6 +139,18 @@ const MobileMenuDrawer: React.FC<MobileMenuDrawerProps> = ({ open, onOpenChange
       path: '/payment-methods',
       description: 'Manage payment methods'
     },
+    { 
+      label: 'Exchange Rates', 
+      icon: Coins, 
+      path: '/exchange-rates',
+      description: 'Rates for foreign currencies'
+    },
+    { 
+      label: 'Trash', 
+      icon: Trash2, 
+      path: '/trash',
+      description: 'Restore deleted records'
+    },
     { 
       label: 'Profile', 
       icon: UserCircle, 
@@ -0,0 +1,221 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useQuery } from '@tanstack/react-query';
+import { Merchant } from '@/interfaces/merchant-interface';
+import { expenseApi } from '@/lib/api/expenseApi';
+import { MERCHANT_COLORS, getMerchantColor } from '@/lib/utils/merchants';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.tsx';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form.tsx';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Button } from '@/components/ui/button.tsx';
+import { Loader2 } from 'lucide-react';
+
+// Value used by Select for "no default category", since Radix does not allow empty values
+const UNSET = '__none__';
+
+// Form validation schema
+const merchantFormSchema = z.object({
+  name: z.string().trim().min(1, "Please name the merchant"),
+  aliases: z.string(),
+  defaultCategoryId: z.number().optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Pick a colour"),
+});
+
+export type MerchantFormValues = z.infer<typeof merchantFormSchema>;
+
+interface MerchantFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: MerchantFormValues) => void;
+  initialData?: Merchant | null;
+  isSubmitting?: boolean;
+}
+
+const emptyValues = (): MerchantFormValues => ({
+  name: '',
+  aliases: '',
+  defaultCategoryId: undefined,
+  color: MERCHANT_COLORS[0],
+});
+
+const MerchantForm = ({ open, onOpenChange, onSubmit, initialData, isSubmitting = false }: MerchantFormProps) => {
+  const isEditing = !!initialData;
+
+  const form = useForm<MerchantFormValues>({
+    resolver: zodResolver(merchantFormSchema),
+    defaultValues: emptyValues(),
+  });
+
+  const { data: expenseCategories = [] } = useQuery({
+    queryKey: ['expenseCategories'],
+    queryFn: expenseApi.getCategories,
+  });
+
+  // Reset form when the merchant being edited changes
+  // Note: form.reset is intentionally excluded from deps to prevent unnecessary re-renders
+  useEffect(() => {
+    if (initialData) {
+      form.reset({
+        name: initialData.name,
+        aliases: (initialData.aliases || []).join(', '),
+        defaultCategoryId: initialData.default_category_id ?? undefined,
+        color: getMerchantColor(initialData),
+      });
+    } else {
+      form.reset(emptyValues());
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialData, open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] max-w-[90vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Merchant' : 'New Merchant'}</DialogTitle>
+          <DialogDescription>
+            Transactions and receipts whose description contains the name or an alias are linked to this merchant.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Grab" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="aliases"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Aliases</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. GRAB*RIDE, GRABFOOD, GrabPay" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Separate with commas. Case, punctuation and reference numbers are ignored.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="defaultCategoryId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Default category</FormLabel>
+                  <Select
+                    value={field.value?.toString() ?? UNSET}
+                    onValueChange={value => field.onChange(value === UNSET ? undefined : Number(value))}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={UNSET}>None</SelectItem>
+                      {expenseCategories.map(category => (
+                        <SelectItem key={category.id} value={category.id.toString()}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Used for new expenses at this merchant unless a rule sets the category.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="color"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Colour</FormLabel>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {MERCHANT_COLORS.map(color => (
+                      <button
+                        key={color}
+                        type="button"
+                        className={cn(
+                          'h-7 w-7 rounded-full border-2',
+                          field.value.toLowerCase() === color ? 'border-foreground' : 'border-transparent'
+                        )}
+                        style={{ backgroundColor: color }}
+                        onClick={() => field.onChange(color)}
+                        aria-label={`Use colour ${color}`}
+                      />
+                    ))}
+                    <FormControl>
+                      <Input type="color" className="h-8 w-12 p-1" {...field} />
+                    </FormControl>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end sm:gap-0 sm:space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {isEditing ? 'Saving...' : 'Creating...'}
+                  </>
+                ) : (
+                  isEditing ? 'Save Changes' : 'Create Merchant'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MerchantForm;
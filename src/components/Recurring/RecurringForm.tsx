@@ -0,0 +1,384 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useQuery } from '@tanstack/react-query';
+import { PeriodEnum } from '@/interfaces/enums/PeriodEnum';
+import { RecurringTransaction } from '@/interfaces/recurring-interface';
+import { expenseApi } from '@/lib/api/expenseApi';
+import { paymentMethodApi } from '@/lib/api/paymentMethodApi';
+import { supabase } from '@/lib/supabase/supabase';
+import { toDateOnlyString } from '@/lib/utils/recurrence';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.tsx';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form.tsx';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Button } from '@/components/ui/button.tsx';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group.tsx';
+import { Loader2 } from 'lucide-react';
+
+// Form validation schema
+const recurringFormSchema = z.object({
+  description: z.string().trim().min(1, "Please enter a description"),
+  amount: z.string().min(1, "Please enter an amount").refine((val) => {
+    const num = parseFloat(val);
+    return !isNaN(num) && num > 0;
+  }, "Amount must be greater than 0"),
+  transaction_type: z.enum(['expense', 'income']),
+  categoryId: z.number({
+    required_error: "Please select a category",
+  }),
+  paymentMethodId: z.number({
+    required_error: "Please select a payment method",
+  }),
+  frequency: z.nativeEnum(PeriodEnum, {
+    required_error: "Please select how often it repeats",
+  }),
+  interval_count: z.number().int().min(1, "Must repeat at least every 1 period"),
+  start_date: z.string().min(1, "Please pick a start date"),
+  end_date: z.string().optional(),
+}).refine((data) => !data.end_date || data.end_date >= data.start_date, {
+  message: "End date cannot be before the start date",
+  path: ['end_date'],
+});
+
+export type RecurringFormValues = z.infer<typeof recurringFormSchema>;
+
+interface RecurringFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: RecurringFormValues) => void;
+  initialData?: RecurringTransaction | null;
+  isSubmitting?: boolean;
+}
+
+const emptyValues = (): RecurringFormValues => ({
+  description: '',
+  amount: '',
+  transaction_type: 'expense',
+  categoryId: undefined,
+  paymentMethodId: undefined,
+  frequency: PeriodEnum.MONTHLY,
+  interval_count: 1,
+  start_date: toDateOnlyString(new Date()),
+  end_date: '',
+});
+
+const RecurringForm = ({ open, onOpenChange, onSubmit, initialData, isSubmitting = false }: RecurringFormProps) => {
+  const isEditing = !!initialData;
+
+  const form = useForm<RecurringFormValues>({
+    resolver: zodResolver(recurringFormSchema),
+    defaultValues: emptyValues(),
+  });
+
+  const transactionType = form.watch('transaction_type');
+
+  const { data: expenseCategories = [] } = useQuery({
+    queryKey: ['expenseCategories'],
+    queryFn: expenseApi.getCategories,
+  });
+
+  const { data: incomeCategories = [] } = useQuery({
+    queryKey: ['incomeCategories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('income_category')
+        .select('id, name')
+        .eq('isdeleted', false)
+        .order('name');
+
+      if (error) throw error;
+      return (data || []) as Array<{ id: number; name: string }>;
+    },
+  });
+
+  const { data: paymentMethods = [] } = useQuery({
+    queryKey: ['paymentMethods'],
+    queryFn: paymentMethodApi.getAll,
+  });
+
+  // Reset form when the schedule being edited changes
+  // Note: form.reset is intentionally excluded from deps to prevent unnecessary re-renders
+  useEffect(() => {
+    if (initialData) {
+      form.reset({
+        description: initialData.description,
+        amount: Number(initialData.amount).toString(),
+        transaction_type: initialData.transaction_type,
+        categoryId: initialData.transaction_type === 'income'
+          ? initialData.income_category_id
+          : initialData.category_id,
+        paymentMethodId: initialData.payment_method_id,
+        frequency: initialData.frequency,
+        interval_count: initialData.interval_count || 1,
+        start_date: initialData.start_date,
+        end_date: initialData.end_date || '',
+      });
+    } else {
+      form.reset(emptyValues());
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialData, open]);
+
+  const categoryOptions = transactionType === 'income' ? incomeCategories : expenseCategories;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] max-w-[90vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Recurring Transaction' : 'New Recurring Transaction'}</DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? 'Changes apply to future occurrences only. Posted transactions are not changed.'
+              : 'Set up a bill, salary or subscription that is posted automatically when it comes due.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="transaction_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type</FormLabel>
+                  <ToggleGroup
+                    type="single"
+                    value={field.value}
+                    onValueChange={(value) => {
+                      if (!value) return;
+                      field.onChange(value);
+                      // Categories differ between expense and income
+                      form.setValue('categoryId', undefined);
+                    }}
+                    className="justify-start"
+                  >
+                    <ToggleGroupItem value="expense">Expense</ToggleGroupItem>
+                    <ToggleGroupItem value="income">Income</ToggleGroupItem>
+                  </ToggleGroup>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Rent, Netflix, Salary" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount</FormLabel>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+                      <span className="text-gray-500">RM</span>
+                    </div>
+                    <FormControl>
+                      <Input
+                        type="text"
+                        placeholder="0.00"
+                        className="pl-10"
+                        value={field.value}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          // Allow only numbers, decimal point, and empty string
+                          if (value === '' || /^\d*\.?\d*$/.test(value)) {
+                            field.onChange(value);
+                          }
+                        }}
+                      />
+                    </FormControl>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="categoryId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <Select
+                    value={field.value?.toString() ?? ''}
+                    onValueChange={value => field.onChange(Number(value))}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a category" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {categoryOptions.map(category => (
+                        <SelectItem key={category.id} value={category.id.toString()}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="paymentMethodId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Payment Method</FormLabel>
+                  <Select
+                    value={field.value?.toString() ?? ''}
+                    onValueChange={value => field.onChange(Number(value))}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a payment method" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {paymentMethods.map(method => (
+                        <SelectItem key={method.id} value={method.id.toString()}>
+                          {method.method_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="frequency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeats</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a period" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={PeriodEnum.DAILY}>Daily</SelectItem>
+                        <SelectItem value={PeriodEnum.WEEKLY}>Weekly</SelectItem>
+                        <SelectItem value={PeriodEnum.MONTHLY}>Monthly</SelectItem>
+                        <SelectItem value={PeriodEnum.QUARTERLY}>Quarterly</SelectItem>
+                        <SelectItem value={PeriodEnum.YEARLY}>Yearly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="interval_count"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Every</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={field.value}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="start_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="end_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends (optional)</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end sm:gap-0 sm:space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {isEditing ? 'Saving...' : 'Creating...'}
+                  </>
+                ) : (
+                  isEditing ? 'Save Changes' : 'Create Schedule'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecurringForm;
@@ -0,0 +1,157 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Edit, Trash2, Pause, Play, SkipForward, Undo2, Repeat } from 'lucide-react';
+import { RecurringTransaction } from '@/interfaces/recurring-interface';
+import { describeFrequency, getUpcomingOccurrences } from '@/lib/utils/recurrence';
+import { formatCurrency, cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button.tsx';
+import { Badge } from '@/components/ui/badge.tsx';
+
+// Number of future occurrences shown per schedule
+const UPCOMING_COUNT = 3;
+
+interface RecurringListProps {
+  schedules: RecurringTransaction[];
+  onEdit: (schedule: RecurringTransaction) => void;
+  onDelete: (schedule: RecurringTransaction) => void;
+  onTogglePause: (schedule: RecurringTransaction) => void;
+  onToggleSkip: (schedule: RecurringTransaction, date: string, skipped: boolean) => void;
+  isUpdating?: boolean;
+}
+
+const RecurringList = ({
+  schedules,
+  onEdit,
+  onDelete,
+  onTogglePause,
+  onToggleSkip,
+  isUpdating = false
+}: RecurringListProps) => {
+  if (schedules.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <Repeat className="mx-auto h-8 w-8 mb-2" />
+        <p className="mb-1">No recurring transactions yet.</p>
+        <p>Add your salary, rent or subscriptions so they are posted automatically.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {schedules.map((schedule) => {
+        const upcoming = getUpcomingOccurrences(schedule, UPCOMING_COUNT);
+        const isIncome = schedule.transaction_type === 'income';
+        const hasEnded = !schedule.next_occurrence;
+
+        return (
+          <div
+            key={schedule.id}
+            className={cn(
+              "border rounded-md p-3 sm:p-4 transition-colors hover:bg-muted/50",
+              (schedule.is_paused || hasEnded) && "opacity-70"
+            )}
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <h3 className="font-medium truncate">{schedule.description}</h3>
+                  <Badge variant="outline" className="text-xs">
+                    {describeFrequency(schedule.frequency, schedule.interval_count)}
+                  </Badge>
+                  {schedule.category && (
+                    <Badge variant="outline" className="text-xs">
+                      {schedule.category.name}
+                    </Badge>
+                  )}
+                  {schedule.is_paused && (
+                    <Badge variant="secondary" className="text-xs">Paused</Badge>
+                  )}
+                  {hasEnded && (
+                    <Badge variant="secondary" className="text-xs">Ended</Badge>
+                  )}
+                </div>
+                <div className="text-sm text-muted-foreground mt-1 flex flex-wrap gap-3">
+                  {schedule.payment_method && <span>{schedule.payment_method.method_name}</span>}
+                  {schedule.last_posted_date && (
+                    <span>Last posted {format(parseISO(schedule.last_posted_date), 'MMM d, yyyy')}</span>
+                  )}
+                  {schedule.end_date && (
+                    <span>Until {format(parseISO(schedule.end_date), 'MMM d, yyyy')}</span>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2 shrink-0">
+                <div className={cn("font-medium", isIncome ? "text-green-500" : "text-destructive")}>
+                  {isIncome ? '+' : '-'}{formatCurrency(Number(schedule.amount))}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="rounded-full"
+                  onClick={() => onTogglePause(schedule)}
+                  disabled={isUpdating || hasEnded}
+                  title={schedule.is_paused ? 'Resume' : 'Pause'}
+                >
+                  {schedule.is_paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                  <span className="sr-only">{schedule.is_paused ? 'Resume' : 'Pause'}</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="rounded-full text-gray-500 hover:text-blue-800 hover:bg-blue-100"
+                  onClick={() => onEdit(schedule)}
+                >
+                  <Edit className="h-4 w-4" />
+                  <span className="sr-only">Edit</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="rounded-full text-gray-500 hover:text-red-600 hover:bg-red-100"
+                  onClick={() => onDelete(schedule)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Delete</span>
+                </Button>
+              </div>
+            </div>
+
+            {/* Upcoming occurrences */}
+            {upcoming.length > 0 && (
+              <div className="mt-3 border-t pt-2 space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">Upcoming</p>
+                {upcoming.map((date) => {
+                  const isSkipped = (schedule.skipped_dates || []).includes(date);
+                  return (
+                    <div key={date} className="flex items-center justify-between text-sm">
+                      <span className={cn(isSkipped && "line-through text-muted-foreground")}>
+                        {format(parseISO(date), 'EEE, MMM d, yyyy')}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => onToggleSkip(schedule, date, !isSkipped)}
+                        disabled={isUpdating}
+                      >
+                        {isSkipped ? (
+                          <><Undo2 className="h-3 w-3 mr-1" />Unskip</>
+                        ) : (
+                          <><SkipForward className="h-3 w-3 mr-1" />Skip</>
+                        )}
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RecurringList;
@@ -1,110 +1,156 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { DateRange } from 'react-day-picker';
+import { endOfDay, startOfDay, subDays } from 'date-fns';
 import { Card, CardContent } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DatePickerWithRange } from '@/components/ui/date-range-picker';
+import { ChevronLeft, ChevronRight, LoaderCircle } from 'lucide-react';
+import { auditApi } from '@/lib/api/auditApi';
+import { expenseApi } from '@/lib/api/expenseApi';
+import { AuditAction, AuditLogEntry, AuditLogFilters } from '@/interfaces/audit-interface';
+import { formatAuditField, formatAuditValue, getAuditEntityLabel, getAuditFieldChanges } from '@/lib/utils/audit';
+import { useAuth } from '@/lib/auth';
 
-interface AuditTrailProps {
-  dateRange: {
-    from: Date | undefined;
-    to: Date | undefined;
-  };
-}
-
-export const AuditTrail: React.FC<AuditTrailProps> = ({ dateRange }) => {
-  // Placeholder data - in a real app, this would come from an API
-  const auditData = [
-    {
-      id: 1,
-      date: '2023-04-15T10:30:00',
-      user: 'John Doe',
-      action: 'created',
-      entityType: 'transaction',
-      entityName: 'Grocery Shopping',
-      details: 'Created new expense transaction',
-      amount: 125.50,
-    },
-    {
-      id: 2,
-      date: '2023-04-14T15:45:00',
-      user: 'Jane Smith',
-      action: 'modified',
-      entityType: 'budget',
-      entityName: 'Monthly Budget',
-      details: 'Updated budget allocation for Food category',
-      amount: null,
-    },
-    {
-      id: 3,
-      date: '2023-04-13T09:15:00',
-      user: 'John Doe',
-      action: 'deleted',
-      entityType: 'transaction',
-      entityName: 'Duplicate Entry',
-      details: 'Removed duplicate transaction',
-      amount: 75.25,
-    },
-    {
-      id: 4,
-      date: '2023-04-12T14:20:00',
-      user: 'Jane Smith',
-      action: 'created',
-      entityType: 'category',
-      entityName: 'Home Improvement',
-      details: 'Added new expense category',
-      amount: null,
-    },
-    {
-      id: 5,
-      date: '2023-04-11T11:05:00',
-      user: 'John Doe',
-      action: 'modified',
-      entityType: 'transaction',
-      entityName: 'Electric Bill',
-      details: 'Updated transaction amount',
-      amount: 95.75,
-    },
-  ];
-
-  const getActionBadge = (action: string) => {
+const PAGE_SIZE = 20;
+
+/**
+ * Change history of the user's transactions, budgets, payment methods and
+ * documents, with a field-level diff for each change
+ */
+export const AuditTrail: React.FC = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(() => ({
+    from: subDays(new Date(), 30),
+    to: new Date(),
+  }));
+  const [entity, setEntity] = useState<string>('all');
+  const [action, setAction] = useState<string>('all');
+  const [page, setPage] = useState(1);
+
+  const filters = useMemo<AuditLogFilters>(() => ({
+    startDate: startOfDay(dateRange?.from ?? subDays(new Date(), 30)).toISOString(),
+    endDate: endOfDay(dateRange?.to ?? dateRange?.from ?? new Date()).toISOString(),
+    entity: entity !== 'all' ? entity as AuditLogFilters['entity'] : undefined,
+    action: action !== 'all' ? action as AuditAction : undefined,
+  }), [dateRange, entity, action]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [filters]);
+
+  const { data: auditPage, isLoading, error } = useQuery({
+    queryKey: ['auditLog', userId, filters, page],
+    queryFn: () => auditApi.getEntries(userId as string, filters, {
+      limit: PAGE_SIZE,
+      offset: (page - 1) * PAGE_SIZE,
+    }),
+    enabled: !!userId,
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ['expenseCategories'],
+    queryFn: expenseApi.getCategories,
+  });
+
+  const { data: paymentMethods = [] } = useQuery({
+    queryKey: ['paymentMethods'],
+    queryFn: expenseApi.getPaymentMethods,
+  });
+
+  // Ids in the diff are shown by name
+  const namesByField = useMemo(() => {
+    const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+    const paymentMethodNames = new Map(paymentMethods.map(method => [method.id, method.method_name]));
+    return {
+      category_id: categoryNames,
+      suggested_category_id: categoryNames,
+      payment_method_id: paymentMethodNames,
+      suggested_payment_method_id: paymentMethodNames,
+    } as Record<string, Map<number, string>>;
+  }, [categories, paymentMethods]);
+
+  const entries = auditPage?.rows ?? [];
+  const totalCount = auditPage?.total_count ?? 0;
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  const getActionBadge = (action: AuditAction) => {
     switch (action) {
-      case 'created':
+      case 'insert':
         return <Badge className="bg-green-500">Created</Badge>;
-      case 'modified':
+      case 'update':
         return <Badge className="bg-blue-500">Modified</Badge>;
-      case 'deleted':
+      case 'delete':
         return <Badge className="bg-red-500">Deleted</Badge>;
+      case 'restore':
+        return <Badge className="bg-amber-500">Restored</Badge>;
       default:
         return <Badge>{action}</Badge>;
     }
   };
 
+  const getChangedBy = (entry: AuditLogEntry) => {
+    if (!entry.changed_by) return 'System';
+    return entry.changed_by === userId ? 'You' : 'Another user';
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleString();
   };
 
+  const renderChanges = (entry: AuditLogEntry) => {
+    const changes = getAuditFieldChanges(entry);
+    if (changes.length === 0) return <span className="text-muted-foreground">—</span>;
+
+    return (
+      <ul className="space-y-1 text-sm">
+        {changes.map(change => {
+          const names = namesByField[change.field];
+          return (
+            <li key={change.field}>
+              <span className="font-medium">{formatAuditField(change.field)}:</span>{' '}
+              {entry.action === 'update' || entry.action === 'restore' ? (
+                <>
+                  <span className="text-muted-foreground line-through">{formatAuditValue(change.before, names)}</span>
+                  {' → '}
+                  <span>{formatAuditValue(change.after, names)}</span>
+                </>
+              ) : (
+                <span className={entry.action === 'delete' ? 'text-muted-foreground line-through' : undefined}>
+                  {formatAuditValue(entry.action === 'insert' ? change.after : change.before, names)}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col md:flex-row gap-4">
-        <Input
-          placeholder="Search audit trail..."
-          className="max-w-xs"
-        />
-        <Select defaultValue="all">
+        <DatePickerWithRange className="md:w-[300px]" date={dateRange} onDateChange={setDateRange} />
+        <Select value={action} onValueChange={setAction}>
           <SelectTrigger className="w-[180px]">
             <SelectValue placeholder="Filter by action" />
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Actions</SelectItem>
-            <SelectItem value="created">Created</SelectItem>
-            <SelectItem value="modified">Modified</SelectItem>
-            <SelectItem value="deleted">Deleted</SelectItem>
+            <SelectItem value="insert">Created</SelectItem>
+            <SelectItem value="update">Modified</SelectItem>
+            <SelectItem value="delete">Deleted</SelectItem>
+            <SelectItem value="restore">Restored</SelectItem>
           </SelectContent>
         </Select>
-        <Select defaultValue="all">
+        <Select value={entity} onValueChange={setEntity}>
           <SelectTrigger className="w-[180px]">
             <SelectValue placeholder="Filter by entity" />
           </SelectTrigger>
@@ -112,44 +158,77 @@ export const AuditTrail: React.FC<AuditTrailProps> = ({ dateRange }) => {
             <SelectItem value="all">All Entities</SelectItem>
             <SelectItem value="transaction">Transactions</SelectItem>
             <SelectItem value="budget">Budgets</SelectItem>
-            <SelectItem value="category">Categories</SelectItem>
+            <SelectItem value="payment_method">Payment Methods</SelectItem>
+            <SelectItem value="document">Documents</SelectItem>
           </SelectContent>
         </Select>
-        <Button variant="outline">Export</Button>
       </div>
 
       <Card>
         <CardContent className="pt-6">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Date & Time</TableHead>
-                <TableHead>User</TableHead>
-                <TableHead>Action</TableHead>
-                <TableHead>Entity</TableHead>
-                <TableHead>Details</TableHead>
-                <TableHead className="text-right">Amount</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {auditData.map((item) => (
-                <TableRow key={item.id}>
-                  <TableCell>{formatDate(item.date)}</TableCell>
-                  <TableCell>{item.user}</TableCell>
-                  <TableCell>{getActionBadge(item.action)}</TableCell>
-                  <TableCell>
-                    <span className="capitalize">{item.entityType}</span>: {item.entityName}
-                  </TableCell>
-                  <TableCell>{item.details}</TableCell>
-                  <TableCell className="text-right">
-                    {item.amount ? `$${item.amount.toFixed(2)}` : '-'}
-                  </TableCell>
+          {isLoading ? (
+            <div className="flex justify-center items-center py-8">
+              <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+              <span>Loading audit trail...</span>
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{(error as Error).message}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No changes recorded for these filters.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date & Time</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Changes</TableHead>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap align-top">{formatDate(entry.changed_at)}</TableCell>
+                    <TableCell className="align-top">{getChangedBy(entry)}</TableCell>
+                    <TableCell className="align-top">{getActionBadge(entry.action)}</TableCell>
+                    <TableCell className="align-top">{getAuditEntityLabel(entry)}</TableCell>
+                    <TableCell className="align-top">{renderChanges(entry)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {!isLoading && !error && totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <div className="text-sm text-muted-foreground">
+                Showing {(page - 1) * PAGE_SIZE + 1} to {Math.min(page * PAGE_SIZE, totalCount)} of {totalCount} changes
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setPage(prev => Math.max(prev - 1, 1))}
+                  disabled={page === 1}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setPage(prev => Math.min(prev + 1, totalPages))}
+                  disabled={page === totalPages}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
   );
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { LoaderCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { merchantApi } from '@/lib/api/merchantApi';
+import { useDashboard } from '@/context/DashboardContext';
+import { formatCurrency } from '@/lib/utils';
+import { getMerchantColor } from '@/lib/utils/merchants';
+
+/**
+ * Net spending per merchant for the dashboard period, refunds deducted.
+ * Transactions without a merchant are left out.
+ */
+const MerchantTotals: React.FC = () => {
+  const { userId, startDate, endDate, dateRangeText } = useDashboard();
+
+  const { data: merchantTotals = [], isLoading, error } = useQuery({
+    queryKey: ['merchantSummary', userId, startDate, endDate],
+    queryFn: () => merchantApi.getSummary(userId as string, startDate, endDate),
+    enabled: !!userId,
+  });
+
+  const largestTotal = Math.max(0, ...merchantTotals.map(row => row.total));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Spending by Merchant</CardTitle>
+        <CardDescription>{dateRangeText}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+            <span>Loading merchants...</span>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{(error as Error).message}</p>
+        ) : merchantTotals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No transactions linked to a merchant in this period. Pick a merchant when adding a transaction,
+            or link past transactions from the Merchants page.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {merchantTotals.map(row => (
+              <div key={row.merchant_id} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="flex items-center gap-2 font-medium">
+                    <span
+                      className="inline-block h-2.5 w-2.5 rounded-full"
+                      style={{ backgroundColor: getMerchantColor({ name: row.merchant_name, color: row.color }) }}
+                    />
+                    {row.merchant_name}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {formatCurrency(row.total)}
+                    {` · ${row.transaction_count} transaction${row.transaction_count === 1 ? '' : 's'}`}
+                  </span>
+                </div>
+                <Progress
+                  value={largestTotal > 0 ? (Math.max(row.total, 0) / largestTotal) * 100 : 0}
+                  className="h-2"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MerchantTotals;
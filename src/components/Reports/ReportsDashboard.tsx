@@ -3,7 +3,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { DatePickerWithRange } from '@/components/ui/date-range-picker';
-import { Download, FileText, BarChart3, PieChart, History, Settings } from "lucide-react";
+import { Download, FileText, BarChart3, PieChart, History, Settings, Tag, Store } from "lucide-react";
+import TagTotals from './TagTotals';
+import MerchantTotals from './MerchantTotals';
+import { AuditTrail } from './AuditTrail';
 
 const ReportsDashboard: React.FC = () => {
   return (
@@ -32,6 +35,14 @@ const ReportsDashboard: React.FC = () => {
             <PieChart className="w-4 h-4 mr-2" />
             Categories
           </TabsTrigger>
+          <TabsTrigger value="tags">
+            <Tag className="w-4 h-4 mr-2" />
+            Tags
+          </TabsTrigger>
+          <TabsTrigger value="merchants">
+            <Store className="w-4 h-4 mr-2" />
+            Merchants
+          </TabsTrigger>
           <TabsTrigger value="audit">
             <History className="w-4 h-4 mr-2" />
             Audit Trail
@@ -126,25 +137,16 @@ const ReportsDashboard: React.FC = () => {
           </div>
         </TabsContent>
 
+        <TabsContent value="tags" className="space-y-4">
+          <TagTotals />
+        </TabsContent>
+
+        <TabsContent value="merchants" className="space-y-4">
+          <MerchantTotals />
+        </TabsContent>
+
         <TabsContent value="audit" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Recent Activity</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {[1, 2, 3, 4, 5].map((item) => (
-                  <div key={item} className="flex items-center justify-between border-b pb-4">
-                    <div>
-                      <p className="font-medium">Transaction Updated</p>
-                      <p className="text-sm text-muted-foreground">User modified transaction #12345</p>
-                    </div>
-                    <span className="text-sm text-muted-foreground">2 hours ago</span>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+          <AuditTrail />
         </TabsContent>
 
         <TabsContent value="custom" className="space-y-4">
@@ -0,0 +1,68 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { LoaderCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { expenseApi } from '@/lib/api/expenseApi';
+import { useDashboard } from '@/context/DashboardContext';
+import { formatCurrency } from '@/lib/utils';
+
+/**
+ * Spending and income per tag for the dashboard period. A transaction with
+ * several tags counts towards each, so the rows don't add up to a total.
+ */
+const TagTotals: React.FC = () => {
+  const { userId, startDate, endDate, dateRangeText } = useDashboard();
+
+  const { data: tagTotals = [], isLoading, error } = useQuery({
+    queryKey: ['spendingByTag', userId, startDate, endDate],
+    queryFn: () => expenseApi.getSummaryByTag(userId as string, startDate, endDate),
+    enabled: !!userId,
+  });
+
+  const largestExpense = Math.max(0, ...tagTotals.map(row => row.expense_total));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Spending by Tag</CardTitle>
+        <CardDescription>{dateRangeText}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+            <span>Loading tags...</span>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{(error as Error).message}</p>
+        ) : tagTotals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No tagged transactions in this period. Add tags when creating a transaction to track projects across categories.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {tagTotals.map(row => (
+              <div key={row.tag} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">#{row.tag}</span>
+                  <span className="text-muted-foreground">
+                    {formatCurrency(row.expense_total)}
+                    {row.income_total > 0 && ` · +${formatCurrency(row.income_total)} income`}
+                    {` · ${row.transaction_count} transaction${row.transaction_count === 1 ? '' : 's'}`}
+                  </span>
+                </div>
+                <Progress
+                  value={largestExpense > 0 ? (row.expense_total / largestExpense) * 100 : 0}
+                  className="h-2"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TagTotals;
@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowRight, Loader2 } from 'lucide-react';
+import { CategorizationRule, RuleChange } from '@/interfaces/categorization-rule-interface';
+import { categorizationRuleApi } from '@/lib/api/categorizationRuleApi';
+import { expenseApi } from '@/lib/api/expenseApi';
+import { paymentMethodApi } from '@/lib/api/paymentMethodApi';
+import { supabase } from '@/lib/supabase/supabase';
+import { formatCurrency } from '@/lib/utils';
+import { useDashboard } from '@/context/DashboardContext';
+import { useToast } from '@/components/ui/use-toast.ts';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.tsx';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table.tsx';
+import { Button } from '@/components/ui/button.tsx';
+import { Checkbox } from '@/components/ui/checkbox.tsx';
+
+interface ReapplyRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rules: CategorizationRule[];
+}
+
+/**
+ * Previews what the current rules would change on existing transactions and
+ * saves the changes the user keeps selected.
+ */
+const ReapplyRulesDialog = ({ open, onOpenChange, rules }: ReapplyRulesDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { userId, refreshData } = useDashboard();
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+  const { data: changes = [], isFetching, error } = useQuery({
+    queryKey: ['ruleReapplyPreview', userId, rules],
+    queryFn: () => categorizationRuleApi.previewReapply(userId as string, rules),
+    enabled: open && !!userId,
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const { data: expenseCategories = [] } = useQuery({
+    queryKey: ['expenseCategories'],
+    queryFn: expenseApi.getCategories,
+    enabled: open,
+  });
+
+  const { data: incomeCategories = [] } = useQuery({
+    queryKey: ['incomeCategories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('income_category')
+        .select('id, name')
+        .eq('isdeleted', false)
+        .order('name');
+
+      if (error) throw error;
+      return (data || []) as Array<{ id: number; name: string }>;
+    },
+    enabled: open,
+  });
+
+  const { data: paymentMethods = [] } = useQuery({
+    queryKey: ['paymentMethods'],
+    queryFn: paymentMethodApi.getAll,
+    enabled: open,
+  });
+
+  // Every proposed change starts selected
+  useEffect(() => {
+    setSelectedIds(new Set(changes.map(change => change.expense_id)));
+  }, [changes]);
+
+  const selectedChanges = changes.filter(change => selectedIds.has(change.expense_id));
+  const allSelected = changes.length > 0 && selectedChanges.length === changes.length;
+
+  const toggle = (expenseId: number, selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (selected) {
+        next.add(expenseId);
+      } else {
+        next.delete(expenseId);
+      }
+      return next;
+    });
+  };
+
+  const applyMutation = useMutation({
+    mutationFn: () => categorizationRuleApi.applyChanges(selectedChanges),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['expenses', userId] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardSummary', userId] });
+      queryClient.invalidateQueries({ queryKey: ['spendingByCategory', userId] });
+      queryClient.invalidateQueries({ queryKey: ['spendingByPayment', userId] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['budgetSpending'] });
+      queryClient.invalidateQueries({ queryKey: ['budgetCategorySpending'] });
+
+      toast({
+        title: "Rules applied",
+        description: `${selectedChanges.length} transaction${selectedChanges.length === 1 ? '' : 's'} updated.`,
+      });
+      refreshData();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to apply rules: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const categoryName = (change: RuleChange, id?: number) => {
+    const categories = change.transaction_type === 'income' ? incomeCategories : expenseCategories;
+    return categories.find(category => category.id === id)?.name ?? 'Uncategorized';
+  };
+
+  const paymentMethodName = (id?: number) =>
+    paymentMethods.find(method => method.id === id)?.method_name ?? 'None';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[860px] max-w-[95vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Re-run Rules</DialogTitle>
+          <DialogDescription>
+            These existing transactions would change under your current rules. Untick any you want to keep as they are.
+            Split transactions, transfers and refunds are not changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isFetching && (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            <span>Checking transactions...</span>
+          </div>
+        )}
+
+        {!isFetching && error && (
+          <p className="text-sm text-destructive text-center py-8">{error.message}</p>
+        )}
+
+        {!isFetching && !error && changes.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Every transaction already matches your rules.
+          </p>
+        )}
+
+        {!isFetching && !error && changes.length > 0 && (
+          <div className="border rounded-md max-h-[55vh] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={checked => setSelectedIds(checked === true
+                        ? new Set(changes.map(change => change.expense_id))
+                        : new Set())}
+                    />
+                  </TableHead>
+                  <TableHead>Transaction</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Rule</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changes.map(change => (
+                  <TableRow key={change.expense_id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.has(change.expense_id)}
+                        onCheckedChange={checked => toggle(change.expense_id, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="max-w-[220px] truncate font-medium">{change.description || '—'}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {format(new Date(change.date), 'MMM d, yyyy')} · {formatCurrency(change.amount)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {change.to_category_id && (
+                        <div className="flex items-center gap-1">
+                          <span className="text-muted-foreground">{categoryName(change, change.from_category_id)}</span>
+                          <ArrowRight className="h-3 w-3 shrink-0" />
+                          <span>{categoryName(change, change.to_category_id)}</span>
+                        </div>
+                      )}
+                      {change.to_payment_method_id && (
+                        <div className="flex items-center gap-1">
+                          <span className="text-muted-foreground">{paymentMethodName(change.from_payment_method_id)}</span>
+                          <ArrowRight className="h-3 w-3 shrink-0" />
+                          <span>{paymentMethodName(change.to_payment_method_id)}</span>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{change.rule_name}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end sm:gap-0 sm:space-x-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => applyMutation.mutate()}
+            disabled={selectedChanges.length === 0 || applyMutation.isPending || isFetching}
+          >
+            {applyMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Applying...
+              </>
+            ) : (
+              `Update ${selectedChanges.length} transaction${selectedChanges.length === 1 ? '' : 's'}`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReapplyRulesDialog;
@@ -0,0 +1,371 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useQuery } from '@tanstack/react-query';
+import { CategorizationRule } from '@/interfaces/categorization-rule-interface';
+import { expenseApi } from '@/lib/api/expenseApi';
+import { paymentMethodApi } from '@/lib/api/paymentMethodApi';
+import { supabase } from '@/lib/supabase/supabase';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.tsx';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form.tsx';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Button } from '@/components/ui/button.tsx';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group.tsx';
+import { Loader2 } from 'lucide-react';
+
+// Value used by Select for "no condition" / "leave unchanged", since Radix does not allow empty values
+const UNSET = '__none__';
+
+const optionalAmount = z.string().refine(
+  (val) => val === '' || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0),
+  "Amount must be 0 or more"
+);
+
+// Form validation schema
+const ruleFormSchema = z.object({
+  name: z.string().trim().min(1, "Please name the rule"),
+  transaction_type: z.enum(['expense', 'income']),
+  description_contains: z.string(),
+  vendor_contains: z.string(),
+  amount_min: optionalAmount,
+  amount_max: optionalAmount,
+  paymentMethodId: z.number().optional(),
+  setCategoryId: z.number().optional(),
+  setPaymentMethodId: z.number().optional(),
+}).refine((data) => !!data.description_contains.trim() || !!data.vendor_contains.trim()
+  || data.amount_min !== '' || data.amount_max !== '' || !!data.paymentMethodId, {
+  message: "Add at least one condition",
+  path: ['description_contains'],
+}).refine((data) => !!data.setCategoryId || !!data.setPaymentMethodId, {
+  message: "Choose a category or payment method to set",
+  path: ['setCategoryId'],
+}).refine((data) => data.amount_min === '' || data.amount_max === ''
+  || parseFloat(data.amount_min) <= parseFloat(data.amount_max), {
+  message: "Maximum cannot be below the minimum",
+  path: ['amount_max'],
+});
+
+export type RuleFormValues = z.infer<typeof ruleFormSchema>;
+
+interface RuleFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: RuleFormValues) => void;
+  initialData?: CategorizationRule | null;
+  isSubmitting?: boolean;
+}
+
+const emptyValues = (): RuleFormValues => ({
+  name: '',
+  transaction_type: 'expense',
+  description_contains: '',
+  vendor_contains: '',
+  amount_min: '',
+  amount_max: '',
+  paymentMethodId: undefined,
+  setCategoryId: undefined,
+  setPaymentMethodId: undefined,
+});
+
+const RuleForm = ({ open, onOpenChange, onSubmit, initialData, isSubmitting = false }: RuleFormProps) => {
+  const isEditing = !!initialData;
+
+  const form = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: emptyValues(),
+  });
+
+  const transactionType = form.watch('transaction_type');
+
+  const { data: expenseCategories = [] } = useQuery({
+    queryKey: ['expenseCategories'],
+    queryFn: expenseApi.getCategories,
+  });
+
+  const { data: incomeCategories = [] } = useQuery({
+    queryKey: ['incomeCategories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('income_category')
+        .select('id, name')
+        .eq('isdeleted', false)
+        .order('name');
+
+      if (error) throw error;
+      return (data || []) as Array<{ id: number; name: string }>;
+    },
+  });
+
+  const { data: paymentMethods = [] } = useQuery({
+    queryKey: ['paymentMethods'],
+    queryFn: paymentMethodApi.getAll,
+  });
+
+  // Reset form when the rule being edited changes
+  // Note: form.reset is intentionally excluded from deps to prevent unnecessary re-renders
+  useEffect(() => {
+    if (initialData) {
+      form.reset({
+        name: initialData.name,
+        transaction_type: initialData.transaction_type,
+        description_contains: initialData.description_contains || '',
+        vendor_contains: initialData.vendor_contains || '',
+        amount_min: initialData.amount_min != null ? Number(initialData.amount_min).toString() : '',
+        amount_max: initialData.amount_max != null ? Number(initialData.amount_max).toString() : '',
+        paymentMethodId: initialData.payment_method_id ?? undefined,
+        setCategoryId: (initialData.transaction_type === 'income'
+          ? initialData.set_income_category_id
+          : initialData.set_category_id) ?? undefined,
+        setPaymentMethodId: initialData.set_payment_method_id ?? undefined,
+      });
+    } else {
+      form.reset(emptyValues());
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialData, open]);
+
+  const categoryOptions = transactionType === 'income' ? incomeCategories : expenseCategories;
+
+  const renderPaymentMethodSelect = (
+    value: number | undefined,
+    onChange: (value: number | undefined) => void,
+    unsetLabel: string
+  ) => (
+    <Select
+      value={value?.toString() ?? UNSET}
+      onValueChange={val => onChange(val === UNSET ? undefined : Number(val))}
+    >
+      <FormControl>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+      </FormControl>
+      <SelectContent>
+        <SelectItem value={UNSET}>{unsetLabel}</SelectItem>
+        {paymentMethods.map(method => (
+          <SelectItem key={method.id} value={method.id.toString()}>
+            {method.method_name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-w-[90vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Rule' : 'New Rule'}</DialogTitle>
+          <DialogDescription>
+            When a new transaction meets every condition, the rule fills in its category or payment method.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Grab rides" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="transaction_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Applies to</FormLabel>
+                  <ToggleGroup
+                    type="single"
+                    value={field.value}
+                    onValueChange={(value) => {
+                      if (!value) return;
+                      field.onChange(value);
+                      // Categories differ between expense and income
+                      form.setValue('setCategoryId', undefined);
+                    }}
+                    className="justify-start"
+                  >
+                    <ToggleGroupItem value="expense">Expenses</ToggleGroupItem>
+                    <ToggleGroupItem value="income">Income</ToggleGroupItem>
+                  </ToggleGroup>
+                </FormItem>
+              )}
+            />
+
+            <div className="rounded-md border p-3 space-y-4">
+              <p className="text-sm font-medium">If</p>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="description_contains"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description contains</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. GRAB" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="vendor_contains"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Vendor contains</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Tesco" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="amount_min"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount from (RM)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.01" placeholder="Any" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="amount_max"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount up to (RM)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.01" placeholder="Any" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="paymentMethodId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Paid with</FormLabel>
+                    {renderPaymentMethodSelect(field.value, field.onChange, 'Any payment method')}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <p className="text-xs text-muted-foreground">
+                Vendors come from scanned receipts; for other transactions the description is used.
+              </p>
+            </div>
+
+            <div className="rounded-md border p-3 space-y-4">
+              <p className="text-sm font-medium">Then</p>
+
+              <FormField
+                control={form.control}
+                name="setCategoryId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Set category</FormLabel>
+                    <Select
+                      value={field.value?.toString() ?? UNSET}
+                      onValueChange={value => field.onChange(value === UNSET ? undefined : Number(value))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={UNSET}>Leave unchanged</SelectItem>
+                        {categoryOptions.map(category => (
+                          <SelectItem key={category.id} value={category.id.toString()}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="setPaymentMethodId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Set payment method</FormLabel>
+                    {renderPaymentMethodSelect(field.value, field.onChange, 'Leave unchanged')}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end sm:gap-0 sm:space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {isEditing ? 'Saving...' : 'Creating...'}
+                  </>
+                ) : (
+                  isEditing ? 'Save Changes' : 'Create Rule'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RuleForm;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { CalendarIcon, Download, Trash2, X } from 'lucide-react';
+import { ExpenseCategory } from '@/interfaces/expense-interface';
+import { PaymentMethod } from '@/interfaces/payment-method-interface';
+import { Button } from '@/components/ui/button.tsx';
+import { Calendar } from '@/components/ui/calendar.tsx';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+
+// A change the user picked for the selected transactions, applied after confirmation
+export type BulkAction =
+  | { type: 'recategorize'; categoryId: number }
+  | { type: 'paymentMethod'; paymentMethodId: number }
+  | { type: 'date'; date: Date }
+  | { type: 'delete' };
+
+interface BulkActionsBarProps {
+  selectedCount: number;
+  filteredCount: number;
+  categories: ExpenseCategory[];
+  paymentMethods: PaymentMethod[];
+  onSelectAllFiltered: () => void;
+  onClearSelection: () => void;
+  onAction: (action: BulkAction) => void;
+  onExport: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Toolbar shown while transactions are selected. Picking a value only
+ * requests the action; the list confirms it before anything is saved.
+ */
+const BulkActionsBar = ({
+  selectedCount,
+  filteredCount,
+  categories,
+  paymentMethods,
+  onSelectAllFiltered,
+  onClearSelection,
+  onAction,
+  onExport,
+  disabled = false
+}: BulkActionsBarProps) => {
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+
+  return (
+    <div className="mb-4 rounded-md border bg-muted/40 p-3 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span className="font-medium">
+          {selectedCount} selected
+          {selectedCount < filteredCount && (
+            <Button variant="link" size="sm" className="h-auto px-2" onClick={onSelectAllFiltered}>
+              Select all {filteredCount}
+            </Button>
+          )}
+        </span>
+        <Button variant="ghost" size="sm" onClick={onClearSelection}>
+          <X className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+        {/* Selects are reset after each pick so the same value can be chosen again */}
+        <Select
+          value=""
+          onValueChange={value => onAction({ type: 'recategorize', categoryId: Number(value) })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-9">
+            <SelectValue placeholder="Set category" />
+          </SelectTrigger>
+          <SelectContent>
+            {categories.map(category => (
+              <SelectItem key={category.id} value={category.id.toString()}>
+                {category.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value=""
+          onValueChange={value => onAction({ type: 'paymentMethod', paymentMethodId: Number(value) })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-9">
+            <SelectValue placeholder="Set payment method" />
+          </SelectTrigger>
+          <SelectContent>
+            {paymentMethods.map(method => (
+              <SelectItem key={method.id} value={method.id.toString()}>
+                {method.method_name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Popover open={isDatePickerOpen} onOpenChange={setIsDatePickerOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="h-9 justify-start font-normal" disabled={disabled}>
+              <CalendarIcon className="h-4 w-4 mr-2" />
+              Set date
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              onSelect={(date) => {
+                setIsDatePickerOpen(false);
+                if (date) onAction({ type: 'date', date });
+              }}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+
+        <Button variant="outline" size="sm" className="h-9" onClick={onExport} disabled={disabled}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-9 text-destructive hover:text-destructive"
+          onClick={() => onAction({ type: 'delete' })}
+          disabled={disabled}
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          Delete
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BulkActionsBar;
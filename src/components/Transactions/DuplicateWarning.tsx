@@ -0,0 +1,66 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, Link2, Loader2 } from 'lucide-react';
+import { Expense } from '@/interfaces/expense-interface';
+import { getExpenseTotal } from '@/lib/utils/duplicate-detection';
+import { formatCurrency } from '@/lib/utils';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+
+interface DuplicateWarningProps {
+  candidates: Expense[];
+  onSaveAnyway: () => void;
+  onLinkAsSame: (expense: Expense) => void;
+  onCancel: () => void;
+  isSaving?: boolean;
+}
+
+/**
+ * Lists existing transactions that look like the one being saved and lets the
+ * user save anyway, treat the entry as one of the matches, or cancel
+ */
+const DuplicateWarning = ({ candidates, onSaveAnyway, onLinkAsSame, onCancel, isSaving = false }: DuplicateWarningProps) => {
+  return (
+    <Alert className="border-amber-300 bg-amber-50 dark:bg-amber-950/20 dark:border-amber-800">
+      <AlertTriangle className="h-4 w-4 text-amber-600" />
+      <AlertTitle>This looks like a transaction you already have</AlertTitle>
+      <AlertDescription>
+        <div className="space-y-2 mt-2">
+          {candidates.map(expense => (
+            <div key={expense.id} className="flex items-center justify-between gap-2 rounded-md border bg-background p-2 text-sm">
+              <div className="min-w-0">
+                <div className="font-medium truncate">{expense.description || 'No description'}</div>
+                <div className="text-xs text-muted-foreground">
+                  {format(parseISO(expense.date), 'MMM d, yyyy')}
+                  {expense.payment_method && ` · ${expense.payment_method.method_name}`}
+                  {` · ${formatCurrency(getExpenseTotal(expense))}`}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                className="shrink-0"
+                onClick={() => onLinkAsSame(expense)}
+                disabled={isSaving}
+              >
+                <Link2 className="h-3 w-3 mr-1" />
+                Same one
+              </Button>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end gap-2 mt-3">
+          <Button size="sm" variant="ghost" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={onSaveAnyway} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Save anyway
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default DuplicateWarning;
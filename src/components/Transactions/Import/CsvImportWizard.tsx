@@ -0,0 +1,655 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { FileSpreadsheet, Loader2, Upload, AlertCircle } from 'lucide-react';
+import { expenseApi } from '@/lib/api/expenseApi';
+import { paymentMethodApi } from '@/lib/api/paymentMethodApi';
+import { importMappingApi } from '@/lib/api/importMappingApi';
+import { categorizationRuleApi } from '@/lib/api/categorizationRuleApi';
+import { supabase } from '@/lib/supabase/supabase';
+import {
+  buildPreviewRows,
+  findMappingForHeaders,
+  guessColumnMapping,
+  markAlreadyImported,
+  markPossibleDuplicates,
+  parseCsv,
+  readCsvRows,
+  toCreateExpenseRequest
+} from '@/lib/utils/csv-import';
+import { parseOfx, parseQif } from '@/lib/utils/statement-parsers';
+import { toDateOnlyString } from '@/lib/utils/recurrence';
+import { getDuplicateSearchRange } from '@/lib/utils/duplicate-detection';
+import {
+  ImportColumnMapping,
+  ImportDateFormat,
+  ImportField,
+  ImportFileFormat,
+  ImportPreviewRow,
+  ImportSourceRow,
+  ParsedCsv
+} from '@/interfaces/import-interface';
+import { useDashboard } from '@/context/DashboardContext';
+import { useToast } from '@/components/ui/use-toast.ts';
+import { cn, formatCurrency } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.tsx';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select.tsx';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table.tsx';
+import { Button } from '@/components/ui/button.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Checkbox } from '@/components/ui/checkbox.tsx';
+import { Switch } from '@/components/ui/switch.tsx';
+
+type WizardStep = 'upload' | 'map' | 'preview';
+
+// Value used by Select for "not mapped", since Radix does not allow empty values
+const UNMAPPED = '__none__';
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  date: 'Date',
+  description: 'Description',
+  amount: 'Amount',
+  type: 'Type (optional)',
+  category: 'Category (optional)',
+  paymentMethod: 'Payment method (optional)',
+};
+
+const REQUIRED_FIELDS: ImportField[] = ['date', 'description', 'amount'];
+
+// Detects the file format from its extension, falling back to the content
+const detectFileFormat = (fileName: string, text: string): ImportFileFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(text)) return 'ofx';
+  if (extension === 'qif' || /^!Type:/m.test(text)) return 'qif';
+  return 'csv';
+};
+
+interface CsvImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CsvImportWizard = ({ open, onOpenChange }: CsvImportWizardProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { userId } = useDashboard();
+
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [fileFormat, setFileFormat] = useState<ImportFileFormat>('csv');
+  const [fileText, setFileText] = useState('');
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  // Header row (CSV) or account key (OFX/QIF) used to recognise the source
+  const [sourceHeaders, setSourceHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [sourceName, setSourceName] = useState('');
+  const [saveMapping, setSaveMapping] = useState(true);
+  const [rows, setRows] = useState<ImportPreviewRow[]>([]);
+
+  const { data: expenseCategories = [] } = useQuery({
+    queryKey: ['expenseCategories'],
+    queryFn: expenseApi.getCategories,
+    enabled: open,
+  });
+
+  const { data: incomeCategories = [] } = useQuery({
+    queryKey: ['incomeCategories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('income_category')
+        .select('id, name')
+        .eq('isdeleted', false)
+        .order('name');
+
+      if (error) throw error;
+      return (data || []) as Array<{ id: number; name: string }>;
+    },
+    enabled: open,
+  });
+
+  const { data: paymentMethods = [] } = useQuery({
+    queryKey: ['paymentMethods'],
+    queryFn: paymentMethodApi.getAll,
+    enabled: open,
+  });
+
+  const { data: savedMappings = [] } = useQuery({
+    queryKey: ['importMappings', userId],
+    queryFn: () => importMappingApi.getAllByUser(userId as string),
+    enabled: open && !!userId,
+  });
+
+  const { data: categorizationRules = [] } = useQuery({
+    queryKey: ['categorizationRules', userId],
+    queryFn: () => categorizationRuleApi.getAllByUser(userId as string),
+    enabled: open && !!userId,
+  });
+
+  const options = useMemo(() => ({
+    expenseCategories,
+    incomeCategories,
+    paymentMethods: paymentMethods.map(method => ({ id: method.id, name: method.method_name })),
+    rules: categorizationRules,
+  }), [expenseCategories, incomeCategories, paymentMethods, categorizationRules]);
+
+  // Start over whenever the dialog is closed
+  useEffect(() => {
+    if (!open) {
+      setStep('upload');
+      setFileName('');
+      setFileFormat('csv');
+      setFileText('');
+      setCsv(null);
+      setSourceHeaders([]);
+      setMapping(null);
+      setSourceName('');
+      setSaveMapping(true);
+      setRows([]);
+    }
+  }, [open]);
+
+  const readSourceRows = (format: ImportFileFormat, text: string, parsed: ParsedCsv | null, columnMapping: ImportColumnMapping): ImportSourceRow[] => {
+    if (format === 'ofx') return parseOfx(text).rows;
+    if (format === 'qif') return parseQif(text, columnMapping.dateFormat).rows;
+    return parsed ? readCsvRows(parsed, columnMapping) : [];
+  };
+
+  const buildRows = async (format: ImportFileFormat, text: string, parsed: ParsedCsv | null, columnMapping: ImportColumnMapping) => {
+    let built = buildPreviewRows(readSourceRows(format, text, parsed, columnMapping), columnMapping, options);
+    setRows(built);
+    if (!userId) return;
+
+    // Statement rows carry transaction IDs; flag the ones imported before
+    const externalIds = built.map(row => row.externalId).filter(Boolean);
+    if (externalIds.length > 0) {
+      try {
+        const imported = await expenseApi.getImportedExternalIds(userId, externalIds);
+        built = markAlreadyImported(built, imported);
+        setRows(built);
+      } catch (error) {
+        console.error('[CsvImportWizard] Error checking imported transactions:', error);
+      }
+    }
+
+    // Flag rows that match transactions entered by hand or from receipts
+    const dates = built.filter(row => row.date).map(row => toDateOnlyString(row.date as Date)).sort();
+    if (dates.length > 0) {
+      try {
+        const startRange = getDuplicateSearchRange(dates[0]);
+        const endRange = getDuplicateSearchRange(dates[dates.length - 1]);
+        const existing = await expenseApi.getForDuplicateCheck(userId, startRange.startDate, endRange.endDate);
+        setRows(markPossibleDuplicates(built, existing));
+      } catch (error) {
+        console.error('[CsvImportWizard] Error checking duplicate transactions:', error);
+      }
+    }
+  };
+
+  // Categories, payment methods and rules may finish loading after the preview was built
+  useEffect(() => {
+    if (step === 'preview' && mapping) {
+      buildRows(fileFormat, fileText, csv, mapping);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [options]);
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+
+    const text = await file.text();
+    const format = detectFileFormat(file.name, text);
+
+    let parsed: ParsedCsv | null = null;
+    let headers: string[];
+    let rowCount: number;
+    if (format === 'csv') {
+      parsed = parseCsv(text);
+      headers = parsed.headers;
+      rowCount = parsed.headers.length > 0 ? parsed.rows.length : 0;
+    } else {
+      // Statements are recognised by account rather than by a header row
+      const statement = format === 'ofx' ? parseOfx(text) : parseQif(text, 'DD/MM/YYYY');
+      headers = [`${format}:${statement.accountId || ''}`];
+      rowCount = statement.rows.length;
+    }
+
+    if (rowCount === 0) {
+      toast({
+        title: "Nothing to import",
+        description: "No transactions were found in the file.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFileName(file.name);
+    setFileFormat(format);
+    setFileText(text);
+    setCsv(format === 'csv' ? parsed : null);
+    setSourceHeaders(headers);
+
+    // A known source skips straight to the preview
+    const saved = findMappingForHeaders(savedMappings, headers);
+    if (saved) {
+      setMapping(saved.mapping);
+      setSourceName(saved.source_name);
+      buildRows(format, text, parsed, saved.mapping);
+      setStep('preview');
+    } else {
+      // Column mapping only applies to CSV; statements just need defaults
+      setMapping(format === 'csv' ? guessColumnMapping(headers) : guessColumnMapping([]));
+      setSourceName(file.name.replace(/\.[^.]+$/, ''));
+      setStep('map');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [savedMappings, options, toast]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'text/csv': ['.csv'],
+      'text/plain': ['.txt'],
+      'application/x-ofx': ['.ofx', '.qfx'],
+      'application/qif': ['.qif'],
+    },
+    maxFiles: 1,
+  });
+
+  const updateColumn = (field: ImportField, header: string) => {
+    setMapping(prev => prev && ({
+      ...prev,
+      columns: { ...prev.columns, [field]: header === UNMAPPED ? null : header },
+    }));
+  };
+
+  const isStatement = fileFormat !== 'csv';
+  const mappingComplete = !!mapping && (isStatement || REQUIRED_FIELDS.every(field => !!mapping.columns[field]));
+
+  const handleContinueToPreview = () => {
+    if (!mapping) return;
+    buildRows(fileFormat, fileText, csv, mapping);
+    setStep('preview');
+  };
+
+  const toggleRow = (rowNumber: number, selected: boolean) => {
+    setRows(prev => prev.map(row => row.rowNumber === rowNumber ? { ...row, selected } : row));
+  };
+
+  const isImportable = (row: ImportPreviewRow) => Object.keys(row.errors).length === 0 && !row.alreadyImported;
+  const validRows = rows.filter(isImportable);
+  const selectedRows = validRows.filter(row => row.selected);
+  const allValidSelected = validRows.length > 0 && selectedRows.length === validRows.length;
+
+  const toggleAll = (selected: boolean) => {
+    setRows(prev => prev.map(row => isImportable(row) ? { ...row, selected } : row));
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      // Re-check right before saving in case the same statement was imported meanwhile
+      const externalIds = selectedRows.map(row => row.externalId).filter(Boolean);
+      const imported = externalIds.length > 0
+        ? await expenseApi.getImportedExternalIds(userId as string, externalIds)
+        : new Set<string>();
+
+      const created = await expenseApi.createMany(
+        selectedRows
+          .filter(row => !row.externalId || !imported.has(row.externalId))
+          .map(row => toCreateExpenseRequest(row, userId as string))
+      );
+
+      if (saveMapping && mapping && sourceName.trim()) {
+        await importMappingApi.save({
+          user_id: userId as string,
+          source_name: sourceName.trim(),
+          headers: sourceHeaders,
+          mapping,
+        });
+      }
+
+      return created;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['expenses', userId] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardSummary', userId] });
+      queryClient.invalidateQueries({ queryKey: ['spendingByCategory', userId] });
+      queryClient.invalidateQueries({ queryKey: ['spendingByPayment', userId] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['budgetSpending'] });
+      queryClient.invalidateQueries({ queryKey: ['budgetCategorySpending'] });
+      queryClient.invalidateQueries({ queryKey: ['importMappings', userId] });
+
+      toast({
+        title: "Import complete",
+        description: `${created.length} transaction${created.length === 1 ? '' : 's'} imported from ${fileName}.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: `No transactions were imported: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const getCategoryName = (row: ImportPreviewRow) => {
+    const categories = row.transactionType === 'income' ? incomeCategories : expenseCategories;
+    return categories.find(category => category.id.toString() === row.category)?.name;
+  };
+
+  const getPaymentMethodName = (row: ImportPreviewRow) =>
+    paymentMethods.find(method => method.id.toString() === row.paymentMethod)?.method_name;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[860px] max-w-[95vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV, OFX or QIF export from your bank or e-wallet.'}
+            {step === 'map' && (isStatement
+              ? 'Choose the account and default categories for this statement. They are remembered for this source.'
+              : 'Tell us which column holds which field. The mapping is remembered for this source.')}
+            {step === 'preview' && `Review the rows from ${fileName} before importing.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div
+            {...getRootProps()}
+            className={cn(
+              "border-2 border-dashed rounded-lg p-10 text-center cursor-pointer transition-colors",
+              isDragActive ? "border-primary bg-primary/5" : "border-muted-foreground/25 hover:border-primary/50"
+            )}
+          >
+            <input {...getInputProps()} />
+            <Upload className="mx-auto h-8 w-8 mb-3 text-muted-foreground" />
+            <p className="font-medium">{isDragActive ? 'Drop the file here' : 'Drag a CSV, OFX or QIF file here, or click to browse'}</p>
+            {savedMappings.length > 0 && (
+              <p className="text-sm text-muted-foreground mt-2">
+                Saved sources: {savedMappings.map(saved => saved.source_name).join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'map' && mapping && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {csv && (Object.keys(FIELD_LABELS) as ImportField[]).map(field => (
+                <div key={field} className="space-y-1.5">
+                  <Label>{FIELD_LABELS[field]}</Label>
+                  <Select
+                    value={mapping.columns[field] ?? UNMAPPED}
+                    onValueChange={value => updateColumn(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not in this file</SelectItem>
+                      {csv.headers.map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+
+              {fileFormat !== 'ofx' && (
+              <div className="space-y-1.5">
+                <Label>Date format</Label>
+                <Select
+                  value={mapping.dateFormat}
+                  onValueChange={value => setMapping({ ...mapping, dateFormat: value as ImportDateFormat })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
+                    <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
+                    <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              )}
+
+              <div className="space-y-1.5">
+                <Label>Default payment method</Label>
+                <Select
+                  value={mapping.defaultPaymentMethodId?.toString() ?? ''}
+                  onValueChange={value => setMapping({ ...mapping, defaultPaymentMethodId: Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a payment method" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {paymentMethods.map(method => (
+                      <SelectItem key={method.id} value={method.id.toString()}>{method.method_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label>Default expense category</Label>
+                <Select
+                  value={mapping.defaultCategoryId?.toString() ?? ''}
+                  onValueChange={value => setMapping({ ...mapping, defaultCategoryId: Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expenseCategories.map(category => (
+                      <SelectItem key={category.id} value={category.id.toString()}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label>Default income category</Label>
+                <Select
+                  value={mapping.defaultIncomeCategoryId?.toString() ?? ''}
+                  onValueChange={value => setMapping({ ...mapping, defaultIncomeCategoryId: Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {incomeCategories.map(category => (
+                      <SelectItem key={category.id} value={category.id.toString()}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {!isStatement && !mapping.columns.type && (
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <Label htmlFor="treat-all-expense">Treat every row as an expense</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Otherwise negative amounts are expenses and positive amounts are income.
+                  </p>
+                </div>
+                <Switch
+                  id="treat-all-expense"
+                  checked={mapping.treatAllAsExpense}
+                  onCheckedChange={checked => setMapping({ ...mapping, treatAllAsExpense: checked })}
+                />
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row sm:items-end gap-4 rounded-md border p-3">
+              <div className="flex-1 space-y-1.5">
+                <Label htmlFor="source-name">Source name</Label>
+                <Input
+                  id="source-name"
+                  placeholder="e.g. Maybank savings"
+                  value={sourceName}
+                  onChange={e => setSourceName(e.target.value)}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Checkbox
+                  id="save-mapping"
+                  checked={saveMapping}
+                  onCheckedChange={checked => setSaveMapping(checked === true)}
+                />
+                <Label htmlFor="save-mapping">Remember this mapping</Label>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <div className="flex items-center gap-2">
+                <FileSpreadsheet className="h-4 w-4" />
+                <span>
+                  {rows.length} rows · {validRows.length} valid · {selectedRows.length} selected
+                  {sourceName && <> · <span className="text-muted-foreground">{sourceName}</span></>}
+                </span>
+              </div>
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setStep('map')}>
+                Change mapping
+              </Button>
+            </div>
+
+            <div className="border rounded-md max-h-[50vh] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allValidSelected}
+                        onCheckedChange={checked => toggleAll(checked === true)}
+                        disabled={validRows.length === 0}
+                      />
+                    </TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Payment</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => {
+                    const errorMessages = Object.values(row.errors).filter(Boolean);
+                    const hasErrors = errorMessages.length > 0;
+                    const canSelect = isImportable(row);
+                    const isIncome = row.transactionType === 'income';
+
+                    return (
+                      <TableRow
+                        key={row.rowNumber}
+                        className={cn(hasErrors && "bg-destructive/5", row.alreadyImported && "opacity-60")}
+                      >
+                        <TableCell>
+                          <Checkbox
+                            checked={row.selected}
+                            onCheckedChange={checked => toggleRow(row.rowNumber, checked === true)}
+                            disabled={!canSelect}
+                          />
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {row.date ? format(row.date, 'MMM d, yyyy') : '—'}
+                        </TableCell>
+                        <TableCell>
+                          <div className="max-w-[220px] truncate">
+                            {row.description || '—'}
+                            {row.checkNumber && <span className="text-muted-foreground"> · #{row.checkNumber}</span>}
+                          </div>
+                          {row.alreadyImported && (
+                            <div className="text-xs text-muted-foreground mt-1">Already imported</div>
+                          )}
+                          {row.possibleDuplicate && (
+                            <div className="text-xs text-amber-600 mt-1">Possible duplicate of an existing transaction</div>
+                          )}
+                          {hasErrors && (
+                            <div className="flex items-start gap-1 text-xs text-destructive mt-1">
+                              <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                              <span>Row {row.rowNumber}: {errorMessages.join('; ')}</span>
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {getCategoryName(row) ?? '—'}
+                          {row.ruleName && (
+                            <div className="text-xs text-muted-foreground mt-1">Rule: {row.ruleName}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{getPaymentMethodName(row) ?? '—'}</TableCell>
+                        <TableCell className={cn("text-right whitespace-nowrap", isIncome ? "text-green-500" : "text-destructive")}>
+                          {row.amount ? `${isIncome ? '+' : '-'}${formatCurrency(parseFloat(row.amount))}` : '—'}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end sm:gap-0 sm:space-x-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {step === 'map' && (
+            <Button onClick={handleContinueToPreview} disabled={!mappingComplete}>
+              Preview
+            </Button>
+          )}
+          {step === 'preview' && (
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={selectedRows.length === 0 || importMutation.isPending || !userId}
+            >
+              {importMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                `Import ${selectedRows.length} transaction${selectedRows.length === 1 ? '' : 's'}`
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CsvImportWizard;
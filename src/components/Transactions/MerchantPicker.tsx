@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Check, ChevronsUpDown, Plus, X } from 'lucide-react';
+import { Merchant } from '@/interfaces/merchant-interface';
+import { getMerchantColor } from '@/lib/utils/merchants';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button.tsx';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command.tsx';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover.tsx';
+
+interface MerchantPickerProps {
+  merchants: Merchant[];
+  value?: number;
+  onChange: (merchantId: number | undefined) => void;
+  onCreate?: (name: string) => void; // Offered when the search matches no merchant
+  disabled?: boolean;
+}
+
+export const MerchantDot = ({ merchant }: { merchant: Pick<Merchant, 'name' | 'color'> }) => (
+  <span
+    className="inline-block h-2.5 w-2.5 shrink-0 rounded-full"
+    style={{ backgroundColor: getMerchantColor(merchant) }}
+  />
+);
+
+/**
+ * Searchable merchant select. Aliases are searched too, and typing a new
+ * name offers to create the merchant.
+ */
+const MerchantPicker = ({ merchants, value, onChange, onCreate, disabled }: MerchantPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const selected = merchants.find(merchant => merchant.id === value);
+  const trimmedSearch = search.trim();
+  const exactMatch = merchants.some(merchant => merchant.name.toLowerCase() === trimmedSearch.toLowerCase());
+
+  const select = (merchantId: number | undefined) => {
+    onChange(merchantId);
+    setSearch('');
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <div className="flex gap-1">
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between font-normal"
+            disabled={disabled}
+          >
+            {selected ? (
+              <span className="flex items-center gap-2 truncate">
+                <MerchantDot merchant={selected} />
+                {selected.name}
+              </span>
+            ) : (
+              <span className="text-muted-foreground">Select merchant</span>
+            )}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        {selected && !disabled && (
+          <Button type="button" variant="ghost" size="icon" onClick={() => onChange(undefined)} aria-label="Clear merchant">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command
+          filter={(itemValue, query) => itemValue.toLowerCase().includes(query.toLowerCase()) ? 1 : 0}
+        >
+          <CommandInput placeholder="Search merchants..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>No merchants found.</CommandEmpty>
+            <CommandGroup>
+              {merchants.map(merchant => (
+                <CommandItem
+                  key={merchant.id}
+                  value={`${merchant.name} ${(merchant.aliases || []).join(' ')} #${merchant.id}`}
+                  onSelect={() => select(merchant.id)}
+                >
+                  <Check className={cn('mr-2 h-4 w-4', merchant.id === value ? 'opacity-100' : 'opacity-0')} />
+                  <MerchantDot merchant={merchant} />
+                  <span className="ml-2 truncate">{merchant.name}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {onCreate && trimmedSearch && !exactMatch && (
+              <CommandGroup>
+                <CommandItem
+                  value={`__create__ ${trimmedSearch}`}
+                  onSelect={() => {
+                    onCreate(trimmedSearch);
+                    setSearch('');
+                    setOpen(false);
+                  }}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create "{trimmedSearch}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default MerchantPicker;
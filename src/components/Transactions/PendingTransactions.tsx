@@ -0,0 +1,165 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { transactionApi } from '@/lib/api/transactionApi';
+import { PendingTransaction } from '@/interfaces/pending-transaction-interface';
+import { formatCurrency } from '@/lib/utils';
+import { useDashboard } from '@/context/DashboardContext';
+import { useToast } from '@/components/ui/use-toast.ts';
+import { Badge } from '@/components/ui/badge.tsx';
+import { Button } from '@/components/ui/button.tsx';
+import { CloudOff, LoaderCircle, RefreshCw } from 'lucide-react';
+
+/**
+ * Transactions entered while offline that haven't reached the server yet,
+ * with a way to settle the ones that couldn't be synced
+ */
+const PendingTransactions = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { userId } = useDashboard();
+
+  const { data: pending = [] } = useQuery({
+    queryKey: ['pendingTransactions', userId],
+    queryFn: () => transactionApi.getPending(userId as string),
+    enabled: !!userId,
+    networkMode: 'always', // Read from IndexedDB, so it works offline
+  });
+
+  const refreshAfterSync = () => {
+    queryClient.invalidateQueries({ queryKey: ['pendingTransactions', userId] });
+    queryClient.invalidateQueries({ queryKey: ['expenses', userId] });
+    queryClient.invalidateQueries({ queryKey: ['dashboardSummary', userId] });
+    queryClient.invalidateQueries({ queryKey: ['spendingByCategory', userId] });
+    queryClient.invalidateQueries({ queryKey: ['spendingByPayment', userId] });
+    queryClient.invalidateQueries({ queryKey: ['budgetSpending'] });
+    queryClient.invalidateQueries({ queryKey: ['budgetCategorySpending'] });
+  };
+
+  const syncMutation = useMutation({
+    mutationFn: () => transactionApi.syncPending(userId as string),
+    networkMode: 'always', // Reports what is still waiting instead of pausing
+    onSuccess: (result) => {
+      refreshAfterSync();
+      toast({
+        title: result.remaining > 0 ? 'Still offline' : 'Sync complete',
+        description: result.remaining > 0
+          ? `${result.remaining} transaction${result.remaining === 1 ? '' : 's'} will sync when the connection is back.`
+          : `${result.synced} synced${result.conflicts + result.failed > 0 ? `, ${result.conflicts + result.failed} need your attention` : ''}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to sync: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: ({ id, keepDuplicate }: { id: string; keepDuplicate?: boolean }) =>
+      transactionApi.retryPending(id, { keepDuplicate }),
+    networkMode: 'always',
+    onSuccess: (status) => {
+      refreshAfterSync();
+      if (status !== 'synced') {
+        toast({
+          title: status === 'conflict' ? 'Still looks like a duplicate' : 'Could not sync',
+          description: 'The transaction is still waiting in the queue.',
+          variant: 'destructive',
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to sync: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: (id: string) => transactionApi.discardPending(id),
+    networkMode: 'always',
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions', userId] });
+    },
+  });
+
+  if (pending.length === 0) return null;
+
+  const getStatusBadge = (entry: PendingTransaction) => {
+    switch (entry.status) {
+      case 'conflict':
+        return <Badge variant="outline" className="border-amber-500 text-amber-600">Possible duplicate</Badge>;
+      case 'failed':
+        return <Badge variant="destructive">Sync failed</Badge>;
+      default:
+        return <Badge variant="secondary">Pending sync</Badge>;
+    }
+  };
+
+  const isBusy = syncMutation.isPending || retryMutation.isPending || discardMutation.isPending;
+
+  return (
+    <div className="mb-4 rounded-lg border border-dashed p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <CloudOff className="h-4 w-4 text-muted-foreground" />
+          {pending.length} transaction{pending.length === 1 ? '' : 's'} not synced yet
+        </div>
+        <Button variant="outline" size="sm" onClick={() => syncMutation.mutate()} disabled={isBusy}>
+          {syncMutation.isPending ? <LoaderCircle className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          <span className="ml-2">Sync now</span>
+        </Button>
+      </div>
+
+      <ul className="divide-y">
+        {pending.map(entry => {
+          const total = entry.request.expense_items.reduce((sum, item) => sum + Number(item.amount || 0), 0);
+          const duplicate = entry.duplicate_candidates?.[0];
+          return (
+            <li key={entry.id} className="flex flex-col sm:flex-row sm:items-center gap-2 py-2">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{entry.request.description || 'Unnamed Transaction'}</span>
+                  {getStatusBadge(entry)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {format(parseISO(entry.request.date), 'MMM d, yyyy')} · {formatCurrency(total)}
+                  {entry.status === 'conflict' && duplicate && ` · Similar to "${duplicate.description}" on ${duplicate.date}`}
+                  {entry.status === 'failed' && entry.error && ` · ${entry.error}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                {entry.status === 'conflict' && (
+                  <Button size="sm" variant="outline" disabled={isBusy} onClick={() => retryMutation.mutate({ id: entry.id, keepDuplicate: true })}>
+                    Keep both
+                  </Button>
+                )}
+                {entry.status === 'failed' && (
+                  <Button size="sm" variant="outline" disabled={isBusy} onClick={() => retryMutation.mutate({ id: entry.id })}>
+                    Retry
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-gray-500 hover:text-red-600 hover:bg-red-100"
+                  disabled={isBusy}
+                  onClick={() => discardMutation.mutate(entry.id)}
+                >
+                  Discard
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default PendingTransactions;
@@ -0,0 +1,314 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase/supabase';
+import { expenseApi } from '@/lib/api/expenseApi';
+import { transactionApi } from '@/lib/api/transactionApi';
+import { CreateExpenseRequest, Expense } from '@/interfaces/expense-interface';
+import { QuickAddDraft, parseQuickAdd } from '@/lib/utils/quick-add';
+import { DuplicateTransactionError } from '@/lib/utils/duplicate-detection';
+import { BASE_CURRENCY } from '@/lib/utils/currency';
+import { useDashboard } from '@/context/DashboardContext';
+import { useToast } from '@/components/ui/use-toast.ts';
+import DuplicateWarning from './DuplicateWarning';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Button } from '@/components/ui/button.tsx';
+import { Loader2, Sparkles } from 'lucide-react';
+
+// Value used by Select for "not set", since Radix does not allow empty values
+const UNSET = '__none__';
+
+interface QuickAddDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * One-line transaction entry: "nasi lemak 8.50 cash yesterday" is read into
+ * a prefilled transaction, which is saved once the user confirms it
+ */
+const QuickAddDialog = ({ open, onOpenChange }: QuickAddDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { userId } = useDashboard();
+
+  const [text, setText] = useState('');
+  const [draft, setDraft] = useState<QuickAddDraft | null>(null);
+  const [duplicateCandidates, setDuplicateCandidates] = useState<Expense[]>([]);
+
+  const { data: expenseCategories = [] } = useQuery({
+    queryKey: ['expenseCategories'],
+    queryFn: expenseApi.getCategories,
+    enabled: open,
+  });
+
+  const { data: incomeCategories = [] } = useQuery({
+    queryKey: ['incomeCategories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('income_category')
+        .select('id, name')
+        .eq('isdeleted', false)
+        .order('name');
+
+      if (error) throw error;
+      return (data || []) as Array<{ id: number; name: string }>;
+    },
+    enabled: open,
+  });
+
+  const { data: paymentMethods = [] } = useQuery({
+    queryKey: ['paymentMethods'],
+    queryFn: expenseApi.getPaymentMethods,
+    enabled: open,
+  });
+
+  const categories = draft?.transactionType === 'income' ? incomeCategories : expenseCategories;
+  const isComplete = !!draft && !!draft.description.trim() && !!draft.amount && draft.amount > 0
+    && !!draft.categoryId && !!draft.paymentMethodId;
+
+  const reset = () => {
+    setText('');
+    setDraft(null);
+    setDuplicateCandidates([]);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    onOpenChange(next);
+    if (!next) reset();
+  };
+
+  const handleParse = () => {
+    if (!text.trim()) return;
+    setDraft(parseQuickAdd(text, {
+      categories: expenseCategories,
+      incomeCategories,
+      paymentMethods: paymentMethods.map(method => ({ id: method.id, name: method.method_name })),
+    }));
+  };
+
+  const updateDraft = (changes: Partial<QuickAddDraft>) => {
+    setDraft(current => current && { ...current, ...changes });
+  };
+
+  const saveMutation = useMutation({
+    // Run while offline too; the transaction is queued instead
+    networkMode: 'always',
+    mutationFn: async (skipDuplicateCheck: boolean) => {
+      const isIncome = draft.transactionType === 'income';
+      const request: CreateExpenseRequest = {
+        user_id: userId as string,
+        date: draft.date,
+        description: draft.description.trim(),
+        payment_method_id: draft.paymentMethodId,
+        transaction_type: draft.transactionType,
+        currency: BASE_CURRENCY,
+        exchange_rate: 1,
+        original_amount: draft.amount,
+        expense_items: [{
+          category_id: isIncome ? null : draft.categoryId,
+          income_category_id: isIncome ? draft.categoryId : undefined,
+          amount: draft.amount,
+          original_amount: draft.amount,
+          description: draft.description.trim(),
+        }],
+      };
+      return transactionApi.saveTransaction(request, { skipDuplicateCheck });
+    },
+    onSuccess: (result) => {
+      toast({
+        title: result.status === 'queued' ? 'Saved Offline' : 'Transaction Added',
+        description: result.status === 'queued' ? 'It will sync automatically when you are back online.' : undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: ['pendingTransactions', userId] });
+      queryClient.invalidateQueries({ queryKey: ['expenses', userId] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardSummary', userId] });
+      queryClient.invalidateQueries({ queryKey: ['spendingByCategory', userId] });
+      queryClient.invalidateQueries({ queryKey: ['spendingByPayment', userId] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['budgetSpending'] });
+      queryClient.invalidateQueries({ queryKey: ['budgetCategorySpending'] });
+      handleOpenChange(false);
+    },
+    onError: (error: Error) => {
+      // Likely duplicates are not an error; the dialog asks the user what to do
+      if (error instanceof DuplicateTransactionError) {
+        setDuplicateCandidates(error.candidates);
+        return;
+      }
+      toast({
+        title: 'Error',
+        description: `Failed to save transaction: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleLinkAsSame = (expense: Expense) => {
+    toast({
+      title: 'Matched Existing Transaction',
+      description: `Kept "${expense.description || 'the existing transaction'}" instead of adding a duplicate.`,
+    });
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[480px] max-w-[90vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Quick Add</DialogTitle>
+          <DialogDescription>
+            Describe it in one line, e.g. "nasi lemak 8.50 cash yesterday" or "salary 5200 bank transfer 25th".
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleParse();
+          }}
+        >
+          <Input
+            autoFocus
+            placeholder="What, how much, how you paid, when"
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={!text.trim()}>
+            <Sparkles className="h-4 w-4" />
+            <span className="sr-only">Read</span>
+          </Button>
+        </form>
+
+        {draft && (
+          <div className="space-y-3 rounded-lg border p-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="quick-add-type">Type</Label>
+                <Select
+                  value={draft.transactionType}
+                  onValueChange={(value) => updateDraft({ transactionType: value as QuickAddDraft['transactionType'], categoryId: undefined })}
+                >
+                  <SelectTrigger id="quick-add-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense">Expense</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quick-add-date">Date</Label>
+                <Input
+                  id="quick-add-date"
+                  type="date"
+                  value={draft.date}
+                  onChange={(event) => updateDraft({ date: event.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="quick-add-description">Description</Label>
+              <Input
+                id="quick-add-description"
+                value={draft.description}
+                onChange={(event) => updateDraft({ description: event.target.value })}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="quick-add-amount">Amount ({BASE_CURRENCY})</Label>
+              <Input
+                id="quick-add-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={draft.amount ?? ''}
+                onChange={(event) => updateDraft({ amount: event.target.value ? parseFloat(event.target.value) : undefined })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="quick-add-category">Category</Label>
+                <Select
+                  value={draft.categoryId?.toString() ?? UNSET}
+                  onValueChange={(value) => updateDraft({ categoryId: value === UNSET ? undefined : Number(value) })}
+                >
+                  <SelectTrigger id="quick-add-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNSET}>Choose...</SelectItem>
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={category.id.toString()}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quick-add-payment">Payment method</Label>
+                <Select
+                  value={draft.paymentMethodId?.toString() ?? UNSET}
+                  onValueChange={(value) => updateDraft({ paymentMethodId: value === UNSET ? undefined : Number(value) })}
+                >
+                  <SelectTrigger id="quick-add-payment">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNSET}>Choose...</SelectItem>
+                    {paymentMethods.map(method => (
+                      <SelectItem key={method.id} value={method.id.toString()}>
+                        {method.method_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {duplicateCandidates.length > 0 ? (
+          <DuplicateWarning
+            candidates={duplicateCandidates}
+            onSaveAnyway={() => saveMutation.mutate(true)}
+            onLinkAsSame={handleLinkAsSame}
+            onCancel={() => setDuplicateCandidates([])}
+            isSaving={saveMutation.isPending}
+          />
+        ) : (
+          <DialogFooter className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end sm:gap-0 sm:space-x-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={() => saveMutation.mutate(false)}
+              disabled={!isComplete || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Transaction
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuickAddDialog;
@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Expense, ExpenseItem } from '@/interfaces/expense-interface';
+import { expenseApi } from '@/lib/api/expenseApi';
+import { paymentMethodApi } from '@/lib/api/paymentMethodApi';
+import { getExpenseTotal } from '@/lib/utils/duplicate-detection';
+import { formatCurrency } from '@/lib/utils';
+import { useDashboard } from '@/context/DashboardContext';
+import { useToast } from '@/components/ui/use-toast.ts';
+import FormField from './FormField';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface RefundDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  original?: Expense | null; // The expense being refunded
+  refund?: Expense | null; // An existing refund to edit; its original is loaded when not given
+}
+
+/**
+ * Records a full or partial refund against an expense, or edits one. The
+ * refund is booked to one of the original's categories so it offsets the same
+ * budget, and can't exceed what is left to refund.
+ */
+const RefundDialog = ({ open, onOpenChange, original, refund }: RefundDialogProps) => {
+  const { toast } = useToast();
+  const { userId, refreshData } = useDashboard();
+  const queryClient = useQueryClient();
+
+  const originalId = original?.id ?? refund?.refund_of_expense_id;
+
+  const { data: loadedOriginal } = useQuery({
+    queryKey: ['expense', originalId],
+    queryFn: () => expenseApi.getById(originalId as number),
+    enabled: open && !original && !!originalId,
+  });
+  const originalExpense = original || loadedOriginal;
+
+  const { data: refundedTotal = 0 } = useQuery({
+    queryKey: ['refundedTotal', originalId, refund?.id],
+    queryFn: () => expenseApi.getRefundedTotal(originalId as number, refund?.id),
+    enabled: open && !!originalId,
+  });
+
+  const { data: paymentMethods = [] } = useQuery({
+    queryKey: ['paymentMethods'],
+    queryFn: paymentMethodApi.getAll,
+    enabled: open,
+  });
+
+  const originalTotal = originalExpense ? getExpenseTotal(originalExpense) : 0;
+  const refundable = Math.max(0, originalTotal - refundedTotal);
+
+  // A refund can go to any category of the original (one for a normal expense, several for a split)
+  const categories = useMemo(() => {
+    const byId = new Map<number, string>();
+    (originalExpense?.expense_items || []).forEach(item => {
+      if (item.category_id) {
+        byId.set(item.category_id, item.category?.name || 'Uncategorized');
+      }
+    });
+    return [...byId.entries()].map(([id, name]) => ({ id, name }));
+  }, [originalExpense]);
+
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [amount, setAmount] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [paymentMethodId, setPaymentMethodId] = useState('');
+  const [description, setDescription] = useState('');
+
+  // Start from the existing refund, or a full refund of what is left
+  useEffect(() => {
+    if (!open || !originalExpense) return;
+
+    if (refund) {
+      setDate(refund.date);
+      setAmount(getExpenseTotal(refund).toString());
+      setCategoryId(refund.expense_items?.[0]?.category_id?.toString() || '');
+      setPaymentMethodId(refund.payment_method_id?.toString() || '');
+      setDescription(refund.description || '');
+    } else {
+      const largestItem = [...(originalExpense.expense_items || [])]
+        .sort((a, b) => Number(b.amount) - Number(a.amount))[0];
+      setDate(format(new Date(), 'yyyy-MM-dd'));
+      setAmount('');
+      setCategoryId(largestItem?.category_id?.toString() || '');
+      setPaymentMethodId(originalExpense.payment_method_id?.toString() || '');
+      setDescription(`Refund: ${originalExpense.description || 'transaction'}`);
+    }
+  }, [open, originalExpense, refund]);
+
+  // Empty amount means a full refund of what is left
+  const amountValue = amount === '' ? refundable : parseFloat(amount);
+  const amountError = amount !== '' && !(amountValue > 0)
+    ? 'Amount must be a positive number'
+    : amountValue > refundable + 0.005
+    ? `Only ${formatCurrency(refundable)} is left to refund`
+    : null;
+  const canSave = !!originalExpense && !!date && !!categoryId && amountValue > 0 && !amountError;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (refund) {
+        return await expenseApi.update(refund.id, {
+          date,
+          description,
+          payment_method_id: paymentMethodId ? parseInt(paymentMethodId) : undefined,
+          transaction_type: 'refund',
+          expense_items: [{ category_id: parseInt(categoryId), amount: amountValue, description }] as unknown as ExpenseItem[]
+        });
+      }
+      return await expenseApi.createRefund(originalExpense as Expense, {
+        date,
+        amount: amountValue,
+        category_id: parseInt(categoryId),
+        payment_method_id: paymentMethodId ? parseInt(paymentMethodId) : undefined,
+        description
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['expenses', userId] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardSummary', userId] });
+      queryClient.invalidateQueries({ queryKey: ['spendingByCategory', userId] });
+      queryClient.invalidateQueries({ queryKey: ['spendingByPayment', userId] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['budgetSpending'] });
+      queryClient.invalidateQueries({ queryKey: ['budgetCategorySpending'] });
+      queryClient.invalidateQueries({ queryKey: ['spendingByTag', userId] });
+      queryClient.invalidateQueries({ queryKey: ['refundedTotal', originalId] });
+
+      toast({
+        title: refund ? 'Refund Updated' : 'Refund Recorded',
+        description: `${formatCurrency(amountValue)} back from "${originalExpense?.description || 'transaction'}".`,
+      });
+      refreshData();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to save refund: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{refund ? 'Edit Refund' : 'Record Refund'}</DialogTitle>
+          {originalExpense && (
+            <DialogDescription>
+              {originalExpense.description || 'Transaction'} · {formatCurrency(originalTotal)}
+              {refundedTotal > 0 && ` · ${formatCurrency(refundedTotal)} already refunded`}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4 py-4">
+          <FormField id="refundDate" label="Date">
+            <Input id="refundDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </FormField>
+
+          <FormField id="refundAmount" label="Amount" error={amountError}>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+                <span className="text-gray-500">RM</span>
+              </div>
+              <Input
+                id="refundAmount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                className="pl-8"
+                placeholder={refundable.toFixed(2)}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">Leave empty to refund the full {formatCurrency(refundable)}</p>
+          </FormField>
+
+          {categories.length > 1 && (
+            <FormField id="refundCategory" label="Category">
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger id="refundCategory">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map(category => (
+                    <SelectItem key={category.id} value={category.id.toString()}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormField>
+          )}
+
+          <FormField id="refundPaymentMethod" label="Refunded To">
+            <Select value={paymentMethodId} onValueChange={setPaymentMethodId}>
+              <SelectTrigger id="refundPaymentMethod">
+                <SelectValue placeholder="Select payment method" />
+              </SelectTrigger>
+              <SelectContent>
+                {paymentMethods.map(method => (
+                  <SelectItem key={method.id} value={method.id.toString()}>{method.method_name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FormField>
+
+          <FormField id="refundDescription" label="Description">
+            <Input id="refundDescription" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </FormField>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save Refund'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundDialog;
@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { savedViewApi } from '@/lib/api/savedViewApi';
+import { SavedView } from '@/interfaces/saved-view-interface';
+import { getViewPath, getViewQuery } from '@/lib/utils/transaction-views';
+import { dateFilterToParams } from '@/lib/utils/date-filter';
+import { useDashboard } from '@/context/DashboardContext';
+import { useToast } from '@/components/ui/use-toast.ts';
+import { Button } from '@/components/ui/button.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Switch } from '@/components/ui/switch.tsx';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu.tsx';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog.tsx';
+import { Bookmark, BookmarkPlus, Link2, Loader2, Pin, PinOff, Trash2 } from 'lucide-react';
+
+/**
+ * Opens, saves, pins and shares named sets of transaction list filters
+ */
+const SavedViewsMenu = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { userId, dateFilter } = useDashboard();
+
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isPinned, setIsPinned] = useState(false);
+
+  const { data: views = [] } = useQuery({
+    queryKey: ['savedViews', userId],
+    queryFn: () => savedViewApi.getAllByUser(userId as string),
+    enabled: !!userId,
+  });
+
+  // The URL may not carry the date filter yet (e.g. right after following a
+  // plain /transactions link), so it is taken from the dashboard
+  const currentViewQuery = () => {
+    const params = new URLSearchParams(searchParams);
+    dateFilterToParams(dateFilter).forEach((value, key) => params.set(key, value));
+    return getViewQuery(params);
+  };
+
+  const invalidateViews = () => {
+    queryClient.invalidateQueries({ queryKey: ['savedViews', userId] });
+  };
+
+  const showError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${error.message}`,
+      variant: "destructive",
+    });
+  };
+
+  // Saving under an existing name replaces that view's filters
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const query = currentViewQuery();
+      const existing = views.find(view => view.name.toLowerCase() === name.trim().toLowerCase());
+      if (existing) {
+        return await savedViewApi.update(existing.id, { name: name.trim(), query, is_pinned: isPinned });
+      }
+      return await savedViewApi.create({ user_id: userId as string, name: name.trim(), query, is_pinned: isPinned });
+    },
+    onSuccess: (view) => {
+      invalidateViews();
+      toast({
+        title: "View saved",
+        description: view.is_pinned ? `"${view.name}" is pinned to the sidebar.` : `"${view.name}" saved.`,
+      });
+      setIsSaveOpen(false);
+    },
+    onError: showError('save view'),
+  });
+
+  const pinMutation = useMutation({
+    mutationFn: (view: SavedView) => savedViewApi.update(view.id, { is_pinned: !view.is_pinned }),
+    onSuccess: invalidateViews,
+    onError: showError('update view'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => savedViewApi.delete(id),
+    onSuccess: invalidateViews,
+    onError: showError('delete view'),
+  });
+
+  const openSaveDialog = () => {
+    setName('');
+    setIsPinned(false);
+    setIsSaveOpen(true);
+  };
+
+  const copyLink = async (query: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${getViewPath(query)}`);
+      toast({
+        title: "Link copied",
+        description: "Anyone signed in with this link sees the same filters on their own transactions.",
+      });
+    } catch (error) {
+      console.error('Error copying view link:', error);
+      showError('copy link')(error as Error);
+    }
+  };
+
+  // Keeps the menu open while a row's own buttons are used
+  const rowAction = (action: () => void) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    action();
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" disabled={!userId}>
+            <Bookmark className="h-4 w-4" />
+            <span className="hidden sm:inline ml-2">Views</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+          {views.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">
+              Save the current filters to come back to them later.
+            </p>
+          )}
+          {views.map(view => (
+            <DropdownMenuItem key={view.id} onSelect={() => navigate(getViewPath(view.query))} className="gap-1">
+              <span className="flex-1 truncate">{view.name}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={rowAction(() => copyLink(view.query))}
+              >
+                <Link2 className="h-3.5 w-3.5" />
+                <span className="sr-only">Copy link</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={rowAction(() => pinMutation.mutate(view))}
+              >
+                {view.is_pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                <span className="sr-only">{view.is_pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-gray-500 hover:text-red-600 hover:bg-red-100"
+                onClick={rowAction(() => deleteMutation.mutate(view.id))}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                <span className="sr-only">Delete view</span>
+              </Button>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={openSaveDialog}>
+            <BookmarkPlus className="mr-2 h-4 w-4" />
+            Save current view...
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => copyLink(currentViewQuery())}>
+            <Link2 className="mr-2 h-4 w-4" />
+            Copy link to current view
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="sm:max-w-[420px] max-w-[90vw]">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Keeps the date range, search, filters, sort order and page size shown now.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(event) => {
+              event.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="saved-view-name">Name</Label>
+              <Input
+                id="saved-view-name"
+                placeholder="e.g. Grab rides this quarter"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+              />
+              {views.some(view => view.name.toLowerCase() === name.trim().toLowerCase()) && (
+                <p className="text-sm text-muted-foreground">Replaces the view with this name.</p>
+              )}
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="saved-view-pinned">Pin to sidebar</Label>
+              <Switch id="saved-view-pinned" checked={isPinned} onCheckedChange={setIsPinned} />
+            </div>
+            <DialogFooter className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end sm:gap-0 sm:space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsSaveOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim() || saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save View
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SavedViewsMenu;
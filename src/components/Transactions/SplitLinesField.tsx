@@ -0,0 +1,110 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { SplitLine } from '@/interfaces/types/transaction';
+import { formatCurrency, cn } from '@/lib/utils';
+
+import { Button } from '@/components/ui/button.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+
+interface SplitLinesFieldProps {
+  lines: SplitLine[];
+  categoryOptions: Array<{ id: number; name: string }>;
+  total: string;
+  splitTotal: number;
+  splitRemaining: number;
+  onAddLine: () => void;
+  onRemoveLine: (index: number) => void;
+  onUpdateLine: (index: number, field: keyof SplitLine, value: string) => void;
+}
+
+const SplitLinesField = ({
+  lines,
+  categoryOptions,
+  total,
+  splitTotal,
+  splitRemaining,
+  onAddLine,
+  onRemoveLine,
+  onUpdateLine
+}: SplitLinesFieldProps) => {
+  // Anything under half a sen is treated as balanced
+  const isBalanced = Math.abs(splitRemaining) < 0.005;
+  const hasTotal = parseFloat(total) > 0;
+
+  return (
+    <div className="flex flex-col gap-2">
+      {lines.map((line, index) => (
+        <div key={index} className="flex flex-col gap-2 rounded-md border p-2">
+          <div className="flex items-center gap-2">
+            <Select value={line.category} onValueChange={(value) => onUpdateLine(index, 'category', value)}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categoryOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id.toString()}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="relative w-28">
+              <div className="absolute inset-y-0 left-0 flex items-center pl-2 pointer-events-none">
+                <span className="text-gray-500 text-xs">RM</span>
+              </div>
+              <Input
+                type="number"
+                min="0.01"
+                step="0.01"
+                placeholder="0.00"
+                className="pl-8"
+                value={line.amount}
+                onChange={(e) => onUpdateLine(index, 'amount', e.target.value)}
+                aria-label={`Line ${index + 1} amount`}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => onRemoveLine(index)}
+              disabled={lines.length <= 2}
+            >
+              <X className="h-4 w-4" />
+              <span className="sr-only">Remove line</span>
+            </Button>
+          </div>
+          <Input
+            placeholder="Line note (optional)"
+            value={line.description}
+            onChange={(e) => onUpdateLine(index, 'description', e.target.value)}
+            aria-label={`Line ${index + 1} note`}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={onAddLine}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add line
+        </Button>
+        <div className="text-xs text-right">
+          <div>Allocated {formatCurrency(splitTotal)}</div>
+          {hasTotal && (
+            <div className={cn(isBalanced ? 'text-green-600' : 'text-destructive')}>
+              {isBalanced
+                ? 'Lines match the total'
+                : splitRemaining > 0
+                  ? `${formatCurrency(splitRemaining)} left to allocate`
+                  : `${formatCurrency(Math.abs(splitRemaining))} over the total`}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SplitLinesField;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { addTag, suggestTags } from '@/lib/utils/tags';
+import { Badge } from '@/components/ui/badge.tsx';
+import { Input } from '@/components/ui/input.tsx';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[]; // Tags used before, most used first
+  placeholder?: string;
+}
+
+/**
+ * Free-form tag entry. Enter or comma adds the typed tag, backspace on an
+ * empty input removes the last one, and earlier tags are offered as you type.
+ */
+const TagInput = ({ tags, onChange, suggestions = [], placeholder = 'Add tags (e.g. trip-penang-2026)' }: TagInputProps) => {
+  const [input, setInput] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+
+  const matches = isFocused ? suggestTags(input, suggestions, tags) : [];
+
+  const commit = (value: string) => {
+    onChange(addTag(tags, value));
+    setInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === 'Enter' || e.key === ',') && input.trim()) {
+      e.preventDefault();
+      commit(input);
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                className="rounded-full hover:text-destructive"
+                onClick={() => onChange(tags.filter(t => t !== tag))}
+                aria-label={`Remove ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id="tags"
+        value={input}
+        placeholder={placeholder}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        // Commit what was typed when leaving the field, after a suggestion click has landed
+        onBlur={() => setTimeout(() => {
+          setIsFocused(false);
+          if (input.trim()) commit(input);
+        }, 150)}
+      />
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {matches.map(tag => (
+            <Badge
+              key={tag}
+              variant="outline"
+              className="cursor-pointer hover:bg-muted"
+              onMouseDown={(e) => {
+                // Keep focus in the input so more tags can be typed
+                e.preventDefault();
+                commit(tag);
+              }}
+            >
+              + {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
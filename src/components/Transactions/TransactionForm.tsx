@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Plus, Pencil } from "lucide-react";
 import { useTransactionForm, TransactionType, TransactionFormHookProps } from './hooks/useTransactionForm';
 import TransactionFormFields from './TransactionFormFields';
+import DuplicateWarning from './DuplicateWarning';
 import { Expense } from '@/interfaces/expense-interface';
 
 import { Button } from "@/components/ui/button";
@@ -62,16 +63,43 @@ const TransactionForm = ({
     setIncomeCategory,
     paymentMethod,
     setPaymentMethod,
+    transferTo,
+    setTransferTo,
     description,
     setDescription,
     amount,
     setAmount,
+    tags,
+    setTags,
+    currency,
+    setCurrency,
+    exchangeRate,
+    setExchangeRate,
+    baseAmount,
+    appliedRuleName,
+    merchantCategoryName,
+    merchants,
+    merchantId,
+    setMerchantId,
+    createMerchant,
+    isSplit,
+    setIsSplit,
+    splitLines,
+    addSplitLine,
+    removeSplitLine,
+    updateSplitLine,
+    splitTotal,
+    splitRemaining,
     errors,
     isSubmitting,
     handleSubmit,
     formIsValid,
     isEditMode,
-    resetForm
+    resetForm,
+    duplicateCandidates,
+    saveAnyway,
+    linkAsSame,
+    cancelDuplicate
   } = useTransactionForm(hookProps);
 
   // IMPORTANT: This opens the dialog when expenseToEdit changes from null to a value
@@ -98,6 +126,8 @@ const TransactionForm = ({
     setIsOpen(true);
   };
 
+  const typeLabel = transactionType === 'transfer' ? 'Transfer' : transactionType === 'expense' ? 'Expense' : 'Income';
+
   // Set initial transaction type
   useEffect(() => {
     if (!isEditMode) {
@@ -123,10 +153,10 @@ const TransactionForm = ({
           </Button>
         </DialogTrigger>
       )}
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-xl font-medium">
-            {isEditMode ? 'Edit' : 'Add'} {transactionType === 'expense' ? 'Expense' : 'Income'}
+            {isEditMode ? 'Edit' : 'Add'} {typeLabel}
           </DialogTitle>
         </DialogHeader>
         
@@ -141,14 +171,46 @@ const TransactionForm = ({
           setIncomeCategory={setIncomeCategory}
           paymentMethod={paymentMethod}
           setPaymentMethod={setPaymentMethod}
+          transferTo={transferTo}
+          setTransferTo={setTransferTo}
           description={description}
           setDescription={setDescription}
           amount={amount}
           setAmount={setAmount}
           errors={errors}
           isEditMode={isEditMode}
+          isSplit={isSplit}
+          setIsSplit={setIsSplit}
+          splitLines={splitLines}
+          addSplitLine={addSplitLine}
+          removeSplitLine={removeSplitLine}
+          updateSplitLine={updateSplitLine}
+          splitTotal={splitTotal}
+          splitRemaining={splitRemaining}
+          tags={tags}
+          setTags={setTags}
+          currency={currency}
+          setCurrency={setCurrency}
+          exchangeRate={exchangeRate}
+          setExchangeRate={setExchangeRate}
+          baseAmount={baseAmount}
+          appliedRuleName={appliedRuleName}
+          merchantCategoryName={merchantCategoryName}
+          merchants={merchants}
+          merchantId={merchantId}
+          setMerchantId={setMerchantId}
+          createMerchant={createMerchant}
         />
         
+        {duplicateCandidates.length > 0 ? (
+          <DuplicateWarning
+            candidates={duplicateCandidates}
+            onSaveAnyway={saveAnyway}
+            onLinkAsSame={linkAsSame}
+            onCancel={cancelDuplicate}
+            isSaving={isSubmitting}
+          />
+        ) : (
         <CardFooter className="flex justify-between">
           <Button variant="outline" onClick={() => handleOpenChange(false)}>
             Cancel
@@ -163,9 +225,10 @@ const TransactionForm = ({
             }}
             disabled={!formIsValid || isSubmitting}
           >
-            {isSubmitting ? "Submitting..." : `Save ${transactionType === 'expense' ? 'Expense' : 'Income'}`}
+            {isSubmitting ? "Submitting..." : `Save ${typeLabel}`}
           </Button>
         </CardFooter>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -1,15 +1,21 @@
 import React, { useEffect, useState } from 'react';
 import { format } from 'date-fns';
 import { Calendar as CalendarIcon } from 'lucide-react';
-import { getPaymentMethodName } from '@/lib/utils';
+import { formatCurrency, getPaymentMethodName } from '@/lib/utils';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from '@/lib/utils/currency';
 import { PaymentMethodEnum } from '@/interfaces/payment-method-interface';
-import { FormErrors } from '@/interfaces/types/transaction.tsx';
+import { FormErrors, SplitLine } from '@/interfaces/types/transaction.tsx';
 import { TransactionType } from './hooks/useTransactionForm';
 import FormField from './FormField';
+import SplitLinesField from './SplitLinesField';
+import TagInput from './TagInput';
+import MerchantPicker from './MerchantPicker';
+import { Merchant } from '@/interfaces/merchant-interface';
 import { supabase } from '@/lib/supabase/supabase';
 import { useQuery } from '@tanstack/react-query';
 import { expenseApi } from '@/lib/api/expenseApi';
 import { paymentMethodApi } from '@/lib/api/paymentMethodApi';
+import { useDashboard } from '@/context/DashboardContext';
 
 import { Button } from '@/components/ui/button.tsx';
 import { Input } from '@/components/ui/input.tsx';
@@ -18,6 +24,7 @@ import { Calendar } from '@/components/ui/calendar.tsx';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover.tsx';
 import { cn } from '@/lib/utils';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group.tsx';
+import { Switch } from '@/components/ui/switch.tsx';
 
 interface TransactionFormFieldsProps {
   date: Date;
@@ -30,12 +37,42 @@ interface TransactionFormFieldsProps {
   setIncomeCategory?: (category: string) => void;
   paymentMethod: string;
   setPaymentMethod: (method: string) => void;
+  // Transfer destination - only shown for transfers
+  transferTo?: string;
+  setTransferTo?: (method: string) => void;
   description: string;
   setDescription: (desc: string) => void;
   amount: string;
   setAmount: (amount: string) => void;
   errors: FormErrors;
   isEditMode?: boolean;
+  // Split transaction support - omit setIsSplit to hide the split toggle
+  isSplit?: boolean;
+  setIsSplit?: (split: boolean) => void;
+  splitLines?: SplitLine[];
+  addSplitLine?: () => void;
+  removeSplitLine?: (index: number) => void;
+  updateSplitLine?: (index: number, field: keyof SplitLine, value: string) => void;
+  splitTotal?: number;
+  splitRemaining?: number;
+  // Tags - omit setTags to hide the tags field
+  tags?: string[];
+  setTags?: (tags: string[]) => void;
+  // Currency - omit setCurrency to record the amount in the base currency only
+  currency?: string;
+  setCurrency?: (currency: string) => void;
+  exchangeRate?: string;
+  setExchangeRate?: (rate: string) => void;
+  baseAmount?: number;
+  // Name of the categorization rule that filled in the category or payment method
+  appliedRuleName?: string | null;
+  // Merchant whose default category filled in the category
+  merchantCategoryName?: string | null;
+  // Merchant - omit setMerchantId to hide the merchant field
+  merchants?: Merchant[];
+  merchantId?: number;
+  setMerchantId?: (merchantId: number | undefined) => void;
+  createMerchant?: (name: string) => void;
 }
 
 const TransactionFormFields = ({
@@ -49,13 +86,38 @@ const TransactionFormFields = ({
   setIncomeCategory,
   paymentMethod,
   setPaymentMethod,
+  transferTo = '',
+  setTransferTo,
   description,
   setDescription,
   amount,
   setAmount,
   errors,
-  isEditMode
+  isEditMode,
+  isSplit = false,
+  setIsSplit,
+  splitLines = [],
+  addSplitLine,
+  removeSplitLine,
+  updateSplitLine,
+  splitTotal = 0,
+  splitRemaining = 0,
+  tags = [],
+  setTags,
+  currency = BASE_CURRENCY,
+  setCurrency,
+  exchangeRate = '1',
+  setExchangeRate,
+  baseAmount = 0,
+  appliedRuleName,
+  merchantCategoryName,
+  merchants = [],
+  merchantId,
+  setMerchantId,
+  createMerchant
 }: TransactionFormFieldsProps) => {
+  const { userId } = useDashboard();
+  const isTransfer = transactionType === 'transfer';
   const [incomeCategories, setIncomeCategories] = useState<Array<{id: number, name: string}>>([]);
 
   // Fetch expense categories using React Query
@@ -90,6 +152,19 @@ const TransactionFormFields = ({
     queryFn: paymentMethodApi.getAll,
   });
 
+  // Fetch tags used before for autocomplete
+  const { data: knownTags = [] } = useQuery({
+    queryKey: ['tags', userId],
+    queryFn: () => expenseApi.getUserTags(userId as string),
+    enabled: !!userId && !!setTags,
+  });
+
+  const ruleHint = appliedRuleName ? (
+    <p className="text-xs text-muted-foreground mt-1">Filled in by rule "{appliedRuleName}"</p>
+  ) : merchantCategoryName && (
+    <p className="text-xs text-muted-foreground mt-1">Default category for {merchantCategoryName}</p>
+  );
+  
   return (
     <div className="flex flex-col gap-4 py-4">
       {setTransactionType && (
@@ -106,6 +181,11 @@ const TransactionFormFields = ({
             <ToggleGroupItem value="income" aria-label="Income">
               Income
             </ToggleGroupItem>
+            {setTransferTo && (
+              <ToggleGroupItem value="transfer" aria-label="Transfer">
+                Transfer
+              </ToggleGroupItem>
+            )}
           </ToggleGroup>
         </FormField>
       )}
@@ -135,7 +215,29 @@ const TransactionFormFields = ({
         </Popover>
       </FormField>
       
-      {transactionType === 'expense' ? (
+      {setIsSplit && !isTransfer && (
+        <FormField id="isSplit" label="Split" error={null}>
+          <div className="flex items-center gap-2">
+            <Switch id="isSplit" checked={isSplit} onCheckedChange={setIsSplit} />
+            <span className="text-sm text-muted-foreground">Split across categories</span>
+          </div>
+        </FormField>
+      )}
+      
+      {isTransfer ? null : isSplit ? (
+        <FormField id="splitLines" label="Lines" error={errors.splitLines}>
+          <SplitLinesField
+            lines={splitLines}
+            categoryOptions={transactionType === 'expense' ? expenseCategories : incomeCategories}
+            total={amount}
+            splitTotal={splitTotal}
+            splitRemaining={splitRemaining}
+            onAddLine={addSplitLine}
+            onRemoveLine={removeSplitLine}
+            onUpdateLine={updateSplitLine}
+          />
+        </FormField>
+      ) : transactionType === 'expense' ? (
         <FormField id="category" label="Expense Category" error={errors.category}>
           <Select value={category} onValueChange={setCategory}>
             <SelectTrigger>
@@ -155,6 +257,7 @@ const TransactionFormFields = ({
               ))}
             </SelectContent>
           </Select>
+          {ruleHint}
         </FormField>
       ) : setIncomeCategory && (
         <FormField id="incomeCategory" label="Income Category" error={errors.category}>
@@ -170,10 +273,11 @@ const TransactionFormFields = ({
               ))}
             </SelectContent>
           </Select>
+          {ruleHint}
         </FormField>
       )}
       
-      <FormField id="paymentMethod" label="Payment Method" error={errors.paymentMethod}>
+      <FormField id="paymentMethod" label={isTransfer ? "From" : "Payment Method"} error={errors.paymentMethod}>
         <Select value={paymentMethod} onValueChange={setPaymentMethod}>
           <SelectTrigger>
             <SelectValue placeholder="Select payment method" />
@@ -188,6 +292,25 @@ const TransactionFormFields = ({
         </Select>
       </FormField>
       
+      {isTransfer && setTransferTo && (
+        <FormField id="transferTo" label="To" error={errors.transferTo}>
+          <Select value={transferTo} onValueChange={setTransferTo}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select destination" />
+            </SelectTrigger>
+            <SelectContent>
+              {paymentMethods
+                .filter((method) => method.id.toString() !== paymentMethod)
+                .map((method) => (
+                  <SelectItem key={method.id} value={method.id.toString()}>
+                    {method.method_name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </FormField>
+      )}
+      
       <FormField id="description" label="Description" error={errors.description}>
         <Input
           id="description"
@@ -197,23 +320,75 @@ const TransactionFormFields = ({
         />
       </FormField>
       
-      <FormField id="amount" label="Amount" error={errors.amount}>
-        <div className="relative">
-          <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
-            <span className="text-gray-500">RM</span>
+      {setMerchantId && !isTransfer && (
+        <FormField id="merchant" label="Merchant" error={null}>
+          <MerchantPicker
+            merchants={merchants}
+            value={merchantId}
+            onChange={setMerchantId}
+            onCreate={createMerchant}
+          />
+        </FormField>
+      )}
+      
+      <FormField id="amount" label={isSplit ? "Total" : "Amount"} error={errors.amount}>
+        <div className="flex gap-2">
+          {setCurrency && (
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger className="w-24" aria-label="Currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="relative flex-1">
+            {currency === BASE_CURRENCY && (
+              <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+                <span className="text-gray-500">RM</span>
+              </div>
+            )}
+            <Input
+              id="amount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              placeholder="0.00"
+              className={currency === BASE_CURRENCY ? "pl-8" : undefined}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
           </div>
+        </div>
+      </FormField>
+      
+      {setExchangeRate && currency !== BASE_CURRENCY && (
+        <FormField id="exchangeRate" label={`Rate (${BASE_CURRENCY} per 1 ${currency})`} error={errors.exchangeRate}>
           <Input
-            id="amount"
+            id="exchangeRate"
             type="number"
-            min="0.01"
-            step="0.01"
-            placeholder="0.00"
-            className="pl-8"
-            value={amount}
-            onChange={(e) => setAmount(e.target.value)}
+            min="0"
+            step="any"
+            placeholder="e.g. 3.45"
+            value={exchangeRate}
+            onChange={(e) => setExchangeRate(e.target.value)}
           />
-        </div>
-      </FormField>
+          {baseAmount > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Recorded as {formatCurrency(baseAmount)}
+            </p>
+          )}
+        </FormField>
+      )}
+      
+      {setTags && (
+        <FormField id="tags" label="Tags" error={null}>
+          <TagInput tags={tags} onChange={setTags} suggestions={knownTags} />
+        </FormField>
+      )}
     </div>
   );
 };
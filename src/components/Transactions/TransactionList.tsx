@@ -1,6 +1,13 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { formatCurrency } from '@/lib/utils';
+import { BASE_CURRENCY } from '@/lib/utils/currency';
 import TransactionForm from './TransactionForm';
+import RefundDialog from './RefundDialog';
+import BulkActionsBar, { BulkAction } from './BulkActionsBar';
+import SavedViewsMenu from './SavedViewsMenu';
+import TransactionSearchInput from './TransactionSearchInput';
+import PendingTransactions from './PendingTransactions';
 import { 
   CalendarIcon, 
   CreditCard, 
@@ -8,24 +15,30 @@ import {
   Edit, 
   ChevronLeft, 
   ChevronRight,
-  Search,
   SlidersHorizontal,
   LoaderCircle,
   ArrowDownCircle,
   ArrowUpCircle,
-  AlertTriangle
+  ArrowLeftRight,
+  AlertTriangle,
+  Undo2
 } from 'lucide-react';
 
 // Import UI components
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card.tsx";
 import { Button } from "@/components/ui/button.tsx";
-import { Input } from "@/components/ui/input.tsx";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select.tsx";
-import { Expense, ExpenseCategory } from '@/interfaces/expense-interface';
+import { Expense, ExpenseCategory, TransactionSearchFilters, TransactionSort } from '@/interfaces/expense-interface';
 import { PaymentMethod } from '@/interfaces/payment-method-interface';
 import { expenseApi } from '@/lib/api/expenseApi';
+import { merchantApi } from '@/lib/api/merchantApi';
+import { MerchantDot } from './MerchantPicker';
 import { useToast } from '@/components/ui/use-toast.ts';
 import { Badge } from '@/components/ui/badge.tsx';
+import { Checkbox } from '@/components/ui/checkbox.tsx';
+import { transactionsToCsv, downloadCsv } from '@/lib/utils/transaction-export';
+import { PAGE_SIZES, TransactionListFilters, TransactionTypeFilter, parseListFilters, withListFilters } from '@/lib/utils/transaction-views';
+import { toDateOnlyString } from '@/lib/utils/recurrence';
 import { format } from 'date-fns';
 import { useDashboard } from '@/context/DashboardContext';
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs.tsx";
@@ -39,7 +52,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog.tsx";
-import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
+import { useMutation, useQueryClient, useQuery, keepPreviousData } from '@tanstack/react-query';
 import { useIsMobile } from '@/hooks/use-mobile';
 
 // Custom MYR currency formatter with error handling
@@ -62,61 +75,85 @@ const TransactionList = () => {
   const [expenseToEdit, setExpenseToEdit] = useState<Expense | null>(null);
   const [expenseToDelete, setExpenseToDelete] = useState<number | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  // Expense to record a refund against, or an existing refund to edit
+  const [refundTarget, setRefundTarget] = useState<{ original?: Expense; refund?: Expense } | null>(null);
+  
+  // Bulk selection is kept by ID (with the transaction type, which bulk recategorize needs)
+  // so it survives page changes
+  const [selectedIds, setSelectedIds] = useState<Map<number, Expense['transaction_type']>>(new Map());
+  const [pendingBulkAction, setPendingBulkAction] = useState<BulkAction | null>(null);
   
   const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(5);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string>('all');
-  const [transactionTypeFilter, setTransactionTypeFilter] = useState<'all' | 'expense' | 'income'>('all');
+  
+  // Filters, sort and page size live in the URL (like the dashboard date filter),
+  // so a filtered list can be bookmarked, shared or saved as a view
+  const [searchParams, setSearchParams] = useSearchParams();
+  const {
+    search: debouncedSearch,
+    category: selectedCategory,
+    paymentMethod: selectedPaymentMethod,
+    transactionType: transactionTypeFilter,
+    tag: selectedTag,
+    sort: sortOrder,
+    pageSize,
+  } = useMemo(() => parseListFilters(searchParams), [searchParams]);
+  const updateListFilters = useCallback((changes: Partial<TransactionListFilters>) => {
+    setSearchParams(prev => withListFilters(prev, changes), { replace: true });
+  }, [setSearchParams]);
+  // The search box only updates the URL (and queries the server) once typing pauses
+  const [searchTerm, setSearchTerm] = useState(debouncedSearch);
   
   const { toast } = useToast();
   const { refreshData, dateFilter, dateRangeText, userId, startDate, endDate } = useDashboard();
   const queryClient = useQueryClient();
   const isMobile = useIsMobile();
 
-  // 🎯 CRITICAL FIX: Use React Query for data fetching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (searchTerm.trim() !== debouncedSearch) {
+        updateListFilters({ search: searchTerm.trim() });
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, debouncedSearch, updateListFilters]);
+
+  // Follow the URL when a link or saved view changes the search
+  useEffect(() => {
+    setSearchTerm(current => current.trim() === debouncedSearch ? current : debouncedSearch);
+  }, [debouncedSearch]);
+
+  const filters = useMemo<TransactionSearchFilters>(() => ({
+    startDate,
+    endDate,
+    search: debouncedSearch || undefined,
+    categoryId: selectedCategory !== 'all' ? parseInt(selectedCategory) : undefined,
+    paymentMethodId: selectedPaymentMethod !== 'all' ? parseInt(selectedPaymentMethod) : undefined,
+    transactionType: transactionTypeFilter !== 'all' ? transactionTypeFilter : undefined,
+    tag: selectedTag !== 'all' ? selectedTag : undefined,
+  }), [startDate, endDate, debouncedSearch, selectedCategory, selectedPaymentMethod, transactionTypeFilter, selectedTag]);
+
+  // Only the current page is loaded; filtering, sorting and paging happen in search_transactions
   const { 
-    data: expenses = [], 
+    data: transactionPage, 
     isLoading, 
     error: queryError,
     refetch: refetchTransactions 
   } = useQuery({
-    queryKey: ['expenses', userId, startDate, endDate],
-    queryFn: async () => {
-      if (!userId) {
-        console.warn("💡 DIAGNOSTIC: useQuery called with no userId");
-        return [];
-      }
-      
-      console.log(`💡 DIAGNOSTIC: React Query fetching transactions for user ${userId} from ${startDate} to ${endDate}`);
-      
-      // Convert dates to ISO strings to match expected types in expenseApi
-      const startDateIso = typeof startDate === 'string' ? startDate : new Date(startDate).toISOString();
-      const endDateIso = typeof endDate === 'string' ? endDate : new Date(endDate).toISOString();
-      
-      // Fetch expenses with date range
-      const expenseData = await expenseApi.getAllByUser(userId, {
-        limit: 100,
-        startDate: startDateIso, 
-        endDate: endDateIso
-      });
-      
-      // Filter out expenses with no valid expense_items
-      const validExpenses = expenseData.filter(expense => 
-        expense.expense_items && expense.expense_items.length > 0
-      );
-      
-      // Sort expenses by date (newest first)
-      return validExpenses.sort((a, b) => 
-        new Date(b.date).getTime() - new Date(a.date).getTime()
-      );
-    },
+    queryKey: ['expenses', userId, filters, sortOrder, currentPage, pageSize],
+    queryFn: () => expenseApi.search(userId as string, filters, {
+      sort: sortOrder,
+      limit: pageSize,
+      offset: (currentPage - 1) * pageSize,
+    }),
     enabled: !!userId, // Only run when userId is available
+    placeholderData: keepPreviousData, // Keep the old page on screen while the next one loads
     staleTime: 30 * 1000, // Data is fresh for 30 seconds
     gcTime: 5 * 60 * 1000, // Keep in cache for 5 minutes
   });
 
+  const expenses = useMemo(() => transactionPage?.rows ?? [], [transactionPage]);
+  const totalCount = transactionPage?.total_count ?? 0;
+
   // Fetch categories and payment methods for filtering
   const { data: categories = [] } = useQuery({
     queryKey: ['expenseCategories'],
@@ -130,6 +167,26 @@ const TransactionList = () => {
     staleTime: 10 * 60 * 1000, // Payment methods don't change often
   });
 
+  const { data: merchants = [] } = useQuery({
+    queryKey: ['merchants', userId],
+    queryFn: () => merchantApi.getAllByUser(userId as string),
+    enabled: !!userId,
+  });
+
+  // Tags used before, for the tag filter
+  const { data: availableTags = [] } = useQuery({
+    queryKey: ['tags', userId],
+    queryFn: () => expenseApi.getUserTags(userId as string),
+    enabled: !!userId,
+  });
+
+  // Autocomplete values for the search syntax
+  const searchValues = useMemo(() => ({
+    category: categories.map(category => category.name),
+    pm: paymentMethods.map(method => method.method_name),
+    tag: availableTags,
+  }), [categories, paymentMethods, availableTags]);
+
   const error = queryError?.message ?? null;
   
   // Set up real-time subscription for automatic updates
@@ -194,121 +251,151 @@ const TransactionList = () => {
     }
   };
   
-  // Filter and paginate expenses
-  const filteredExpenses = useMemo(() => {
-    try {
-      console.log(`💡 DIAGNOSTIC: Filtering ${expenses.length} expenses with:`, {
-        searchTerm,
-        selectedCategory,
-        selectedPaymentMethod,
-        transactionTypeFilter
-      });
-      
-      // TARGETED DEBUG: Check if expense ID 52 is in the expenses array
-      const targetExpense = expenses.find(e => e.id === 52);
-      if (targetExpense) {
-        console.log("🎯 TARGET PRESENT: Expense ID 52 is in the expenses array before filtering");
+  // Selections from another period would be acted on out of sight
+  useEffect(() => {
+    setSelectedIds(new Map());
+  }, [startDate, endDate]);
+  
+  const toggleSelected = (expense: Expense, selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Map(prev);
+      if (selected) {
+        next.set(expense.id, expense.transaction_type);
       } else {
-        console.warn("🎯 TARGET ABSENT: Expense ID 52 is NOT in the expenses array before filtering");
+        next.delete(expense.id);
       }
-      
-      const result = expenses
-        .filter(expense => {
-          // TARGETED DEBUG: Log filtering process for expense ID 52
-          const isTarget = expense.id === 52;
-          
-          // Transaction type filter
-          if (transactionTypeFilter !== 'all') {
-            // Add detailed logging for transaction type filtering
-            const transactionType = expense.transaction_type || 
-              (expense.expense_items?.some(item => item.income_category_id) ? 'income' : 'expense');
-            
-            if (isTarget) {
-              console.log(`🎯 TARGET FILTER: Transaction type check for expense ID 52: has type=${transactionType}, filter requires=${transactionTypeFilter}`);
-            }
-            
-            if (transactionType !== transactionTypeFilter) {
-              if (isTarget) {
-                console.warn(`🎯 TARGET EXCLUDED: Expense ID 52 filtered out due to transaction type mismatch: ${transactionType} vs ${transactionTypeFilter}`);
-              }
-              return false;
-            }
-          }
-          
-          // Search filter - check if any expense item description matches
-          const matchesSearch = searchTerm === '' || 
-            expense.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-            expense.expense_items?.some(item => 
-              item.description?.toLowerCase().includes(searchTerm.toLowerCase())
-            );
-          
-          // Category filter
-          const matchesCategory = selectedCategory === 'all' ? true : 
-            expense.expense_items?.some(item => 
-              item.category_id?.toString() === selectedCategory
-            );
-            
-          // Payment method filter
-          const matchesPaymentMethod = selectedPaymentMethod === 'all' ? true :
-            expense.payment_method_id?.toString() === selectedPaymentMethod;
-          
-          if (isTarget) {
-            console.log(`🎯 TARGET FILTER DETAILS for expense ID 52:`, {
-              matchesSearch,
-              matchesCategory,
-              selectedCategory,
-              actualCategories: expense.expense_items?.map(item => item.category_id),
-              matchesPaymentMethod,
-              selectedPaymentMethod,
-              actualPaymentMethod: expense.payment_method_id
-            });
-          }
-          
-          // For debugging non-matching items
-          if (!matchesSearch || !matchesCategory || !matchesPaymentMethod) {
-            if (isTarget) {
-              console.warn(`🎯 TARGET EXCLUDED: Expense ID 52 filtered out due to:`, {
-                matchesSearch,
-                matchesCategory,
-                matchesPaymentMethod
-              });
-            }
-          }
-            
-          return matchesSearch && matchesCategory && matchesPaymentMethod;
-        });
-      
-      // TARGETED DEBUG: Check if expense ID 52 is in the filtered results
-      if (targetExpense) {
-        const stillPresent = result.some(e => e.id === 52);
-        if (stillPresent) {
-          console.log("🎯 TARGET INCLUDED: Expense ID 52 passed all filters and is in the final result set");
-        } else {
-          console.warn("🎯 TARGET FILTERED OUT: Expense ID 52 was removed by filters");
-        }
+      return next;
+    });
+  };
+  
+  // --- Bulk Mutation: one batch call and one invalidation for the whole selection ---
+  const bulkMutation = useMutation({
+    mutationFn: async (action: BulkAction) => {
+      const ids = [...selectedIds.keys()];
+      const nonTransferIds = ids.filter(id => selectedIds.get(id) !== 'transfer');
+      switch (action.type) {
+        case 'recategorize':
+          // Transfers have no category; income items are skipped by the API
+          await expenseApi.bulkUpdate(nonTransferIds, { category_id: action.categoryId });
+          break;
+        case 'paymentMethod':
+          // A transfer's source can't match its destination, so transfers are
+          // left out rather than failing the whole batch
+          await expenseApi.bulkUpdate(nonTransferIds, { payment_method_id: action.paymentMethodId });
+          return { count: nonTransferIds.length, skipped: ids.length - nonTransferIds.length };
+        case 'date':
+          await expenseApi.bulkUpdate(ids, { date: toDateOnlyString(action.date) });
+          break;
+        case 'delete':
+          await expenseApi.bulkDelete(ids);
+          break;
       }
+      return { count: ids.length, skipped: 0 };
+    },
+    onSuccess: ({ count, skipped }, action) => {
+      queryClient.invalidateQueries({ queryKey: ['expenses', userId] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardSummary', userId] });
+      queryClient.invalidateQueries({ queryKey: ['spendingByCategory', userId] });
+      queryClient.invalidateQueries({ queryKey: ['spendingByPayment', userId] });
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+      queryClient.invalidateQueries({ queryKey: ['budgetSpending'] });
+      queryClient.invalidateQueries({ queryKey: ['budgetCategorySpending'] });
       
-      console.log(`💡 DIAGNOSTIC: Filtered to ${result.length} expenses after applying all filters`);
-      return result;
+      toast({
+        title: 'Success',
+        description: `${action.type === 'delete' ? 'Deleted' : 'Updated'} ${count} transaction${count === 1 ? '' : 's'}.`
+          + (skipped > 0 ? ` Skipped ${skipped} transfer${skipped === 1 ? '' : 's'}.` : ''),
+      });
+      refreshData();
+      setSelectedIds(new Map());
+      setPendingBulkAction(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update transactions: ${error.message}`,
+        variant: 'destructive',
+      });
+      setPendingBulkAction(null);
+    },
+  });
+  
+  const describeBulkAction = (action: BulkAction): string => {
+    const count = `${selectedIds.size} transaction${selectedIds.size === 1 ? '' : 's'}`;
+    switch (action.type) {
+      case 'recategorize': {
+        const name = categories.find(category => category.id === action.categoryId)?.name;
+        return `Set the category of ${count} to ${name}. Income transactions keep their income category and transfers stay uncategorized.`;
+      }
+      case 'paymentMethod': {
+        const name = paymentMethods.find(method => method.id === action.paymentMethodId)?.method_name;
+        return `Set the payment method of ${count} to ${name}. Transfers are skipped and keep their accounts.`;
+      }
+      case 'date':
+        return `Move ${count} to ${format(action.date, 'MMM d, yyyy')}.`;
+      case 'delete':
+        return `Delete ${count}. This action cannot be undone.`;
+    }
+  };
+  
+  // The selection can span pages, so the selected transactions are loaded for the export
+  const handleExportSelected = async () => {
+    try {
+      const selected = await expenseApi.getByIds([...selectedIds.keys()]);
+      downloadCsv(transactionsToCsv(selected, paymentMethods), `transactions-${format(new Date(), 'yyyy-MM-dd')}.csv`);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to export transactions: ${(error as Error).message}`,
+        variant: 'destructive',
+      });
+    }
+  };
+  
+  const handleSelectAllFiltered = async () => {
+    try {
+      const matches = await expenseApi.getMatchingIds(userId as string, filters);
+      setSelectedIds(new Map(matches.map(match => [match.id, match.transaction_type])));
     } catch (error) {
-      console.error('Error filtering expenses:', error);
-      return [];
+      toast({
+        title: 'Error',
+        description: `Failed to select transactions: ${(error as Error).message}`,
+        variant: 'destructive',
+      });
     }
-  }, [expenses, searchTerm, selectedCategory, selectedPaymentMethod, transactionTypeFilter]);
+  };
+  
+  // Refunds are edited in the refund dialog so they stay linked to their original
+  const handleEdit = (expense: Expense) => {
+    if (expense.transaction_type === 'refund') {
+      // The dialog loads the original, which may be on another page
+      setRefundTarget({ refund: expense });
+    } else {
+      setExpenseToEdit(expense);
+    }
+  };
   
   // Function to handle transaction type filter change
   const handleTransactionTypeChange = (value: string) => {
     console.log(`Changing transaction type filter to: ${value}`);
-    setTransactionTypeFilter(value as 'all' | 'expense' | 'income');
+    updateListFilters({ transactionType: value as TransactionTypeFilter });
     
     // Reset to first page when changing filters
     setCurrentPage(1);
   };
   
-  // Reset page when any filter changes
+  // Reset page when any filter or the sort order changes
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, selectedCategory, selectedPaymentMethod, transactionTypeFilter]);
+  }, [debouncedSearch, selectedCategory, selectedPaymentMethod, selectedTag, transactionTypeFilter, sortOrder, pageSize, startDate, endDate]);
+  
+  // Step back when deletes empty the last page
+  useEffect(() => {
+    const lastPage = Math.max(1, Math.ceil(totalCount / pageSize));
+    if (transactionPage && currentPage > lastPage) {
+      setCurrentPage(lastPage);
+    }
+  }, [transactionPage, totalCount, currentPage, pageSize]);
   
   // Handle transaction added event
   const handleTransactionAdded = () => {
@@ -316,16 +403,19 @@ const TransactionList = () => {
     refetchTransactions();
   };
   
-  // Paginate transactions
-  const paginatedExpenses = useMemo(() => {
-    const startIndex = (currentPage - 1) * pageSize;
-    return filteredExpenses.slice(startIndex, startIndex + pageSize);
-  }, [filteredExpenses, currentPage, pageSize]);
+  const isPageSelected = expenses.length > 0 &&
+    expenses.every(expense => selectedIds.has(expense.id));
+  
+  const togglePageSelected = (selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Map(prev);
+      expenses.forEach(expense => selected ? next.set(expense.id, expense.transaction_type) : next.delete(expense.id));
+      return next;
+    });
+  };
   
   // Calculate total pages - ensure it has a default value
-  const totalPages = useMemo(() => {
-    return Math.max(1, Math.ceil(filteredExpenses.length / pageSize));
-  }, [filteredExpenses, pageSize]);
+  const totalPages = Math.max(1, Math.ceil(totalCount / pageSize));
 
   return (
     <>
@@ -337,12 +427,15 @@ const TransactionList = () => {
              {isMobile ? `For ${dateRangeText}`: `View and manage your transactions for ${dateRangeText}`}
           </CardDescription>
         </div>
-        <TransactionForm 
-          key={expenseToEdit ? `edit-${expenseToEdit.id}` : 'add'}
-          onSuccess={handleTransactionAdded} 
-          expenseToEdit={expenseToEdit}
-          onClose={() => setExpenseToEdit(null)}
-        />
+        <div className="flex items-center gap-2">
+          <SavedViewsMenu />
+          <TransactionForm 
+            key={expenseToEdit ? `edit-${expenseToEdit.id}` : 'add'}
+            onSuccess={handleTransactionAdded} 
+            expenseToEdit={expenseToEdit}
+            onClose={() => setExpenseToEdit(null)}
+          />
+        </div>
       </CardHeader>
       
       <CardContent>
@@ -354,10 +447,11 @@ const TransactionList = () => {
             onValueChange={handleTransactionTypeChange}
             className="w-full"
           >
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="all">{isMobile ? 'All' : 'All Transactions'}</TabsTrigger>
               <TabsTrigger value="expense">Expenses</TabsTrigger>
               <TabsTrigger value="income">Income</TabsTrigger>
+              <TabsTrigger value="transfer">Transfers</TabsTrigger>
             </TabsList>
           </Tabs>
         </div>
@@ -366,19 +460,16 @@ const TransactionList = () => {
         <div className="space-y-3 mb-4">
           <div className="space-y-3 sm:space-y-0 sm:grid sm:grid-cols-1 md:grid-cols-3 sm:gap-4">
             <div className="col-span-full md:col-span-1">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" size={16} />
-                <Input
-                  className="pl-9"
-                  placeholder={isMobile ? "Search..." : "Search transactions..."}
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                />
-              </div>
+              <TransactionSearchInput
+                placeholder={isMobile ? "Search..." : "Search, e.g. amount>50 category:food -grab"}
+                value={searchTerm}
+                onChange={setSearchTerm}
+                values={searchValues}
+              />
             </div>
             
-            <div className="grid grid-cols-2 gap-2 sm:gap-4 md:grid-cols-2 md:col-span-2">
-              <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+            <div className="grid grid-cols-2 gap-2 sm:gap-4 md:grid-cols-4 md:col-span-2">
+              <Select value={selectedCategory} onValueChange={(value) => updateListFilters({ category: value })}>
                 <SelectTrigger>
                   <SelectValue placeholder={isMobile ? "Category" : "Filter by category"} />
                 </SelectTrigger>
@@ -392,7 +483,7 @@ const TransactionList = () => {
                 </SelectContent>
               </Select>
               
-              <Select value={selectedPaymentMethod} onValueChange={setSelectedPaymentMethod}>
+              <Select value={selectedPaymentMethod} onValueChange={(value) => updateListFilters({ paymentMethod: value })}>
                 <SelectTrigger>
                   <SelectValue placeholder={isMobile ? "Payment" : "Filter by payment"} />
                 </SelectTrigger>
@@ -405,10 +496,55 @@ const TransactionList = () => {
                   ))}
                 </SelectContent>
               </Select>
+              
+              <Select value={selectedTag} onValueChange={(value) => updateListFilters({ tag: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder={isMobile ? "Tag" : "Filter by tag"} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Tags</SelectItem>
+                  {availableTags.map((tag) => (
+                    <SelectItem key={tag} value={tag}>
+                      #{tag}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              
+              <Select value={sortOrder} onValueChange={(value) => updateListFilters({ sort: value as TransactionSort })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Sort" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="date_desc">Newest first</SelectItem>
+                  <SelectItem value="date_asc">Oldest first</SelectItem>
+                  <SelectItem value="amount_desc">Largest amount</SelectItem>
+                  <SelectItem value="amount_asc">Smallest amount</SelectItem>
+                  <SelectItem value="description">Description A–Z</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
           </div>
         </div>
         
+        {/* Transactions entered offline, not on the server yet */}
+        <PendingTransactions />
+        
+        {/* Bulk actions */}
+        {selectedIds.size > 0 && (
+          <BulkActionsBar
+            selectedCount={selectedIds.size}
+            filteredCount={totalCount}
+            categories={categories}
+            paymentMethods={paymentMethods}
+            onSelectAllFiltered={handleSelectAllFiltered}
+            onClearSelection={() => setSelectedIds(new Map())}
+            onAction={setPendingBulkAction}
+            onExport={handleExportSelected}
+            disabled={bulkMutation.isPending}
+          />
+        )}
+        
         {/* Loading state */}
         {isLoading && (
           <div className="flex justify-center items-center py-8">
@@ -426,10 +562,10 @@ const TransactionList = () => {
         )}
         
         {/* Empty state */}
-        {!isLoading && !error && filteredExpenses.length === 0 && (
+        {!isLoading && !error && expenses.length === 0 && (
           <div className="text-center py-8 text-muted-foreground">
             <p className="mb-2">No transactions found.</p>
-            {searchTerm || selectedCategory !== 'all' || selectedPaymentMethod !== 'all' || transactionTypeFilter !== 'all' ? (
+            {searchTerm || selectedCategory !== 'all' || selectedPaymentMethod !== 'all' || selectedTag !== 'all' || transactionTypeFilter !== 'all' ? (
               <p>Try adjusting your filters.</p>
             ) : (
               <p>Add a new transaction to get started.</p>
@@ -438,9 +574,16 @@ const TransactionList = () => {
         )}
         
         {/* Transactions list */}
-        {!isLoading && !error && paginatedExpenses.length > 0 && (
+        {!isLoading && !error && expenses.length > 0 && (
           <div className="space-y-4">
-            {paginatedExpenses.map((expense) => {
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Checkbox
+                checked={isPageSelected}
+                onCheckedChange={(checked) => togglePageSelected(checked === true)}
+              />
+              Select page
+            </label>
+            {expenses.map((expense) => {
               // Get the total amount
               const totalAmount = expense.expense_items?.reduce((sum, item) => sum + Number(item.amount), 0) || 0;
               
@@ -448,23 +591,76 @@ const TransactionList = () => {
               const firstItem = expense.expense_items?.[0];
               const category = firstItem?.category;
               
+              // Split transactions show their own description and a per-line breakdown
+              const isSplit = (expense.expense_items?.length || 0) > 1;
+              const title = (isSplit ? expense.description : firstItem?.description || expense.description) || 'Unnamed Transaction';
+              
+              // Transfers are neither income nor expense, so they get a neutral amount and show both accounts
+              const isTransfer = expense.transaction_type === 'transfer';
+              const isRefund = expense.transaction_type === 'refund';
+              const isMoneyBack = expense.transaction_type === 'income' || isRefund;
+              const amountColor = isTransfer ? 'text-muted-foreground' : isMoneyBack ? 'text-green-500' : 'text-destructive';
+              const amountSign = isTransfer ? '' : isMoneyBack ? '+' : '-';
+              const canRefund = (expense.transaction_type || 'expense') === 'expense';
+              
+              // Refunds and the expenses they refund point at each other
+              const refundedAmount = expense.refunded_amount || 0;
+              const refundLabel = isRefund
+                ? `Refund of ${expense.refund_of_description || 'an earlier transaction'}`
+                : refundedAmount > 0
+                ? `${formatMYR(refundedAmount)} refunded`
+                : null;
+              const paymentLabel = isTransfer
+                ? `${expense.payment_method?.method_name || 'Unknown'} → ${paymentMethods.find(method => method.id === expense.transfer_to_payment_method_id)?.method_name || 'Unknown'}`
+                : expense.payment_method?.method_name;
+              
+              const merchant = expense.merchant_id ? merchants.find(item => item.id === expense.merchant_id) : undefined;
+              
+              // Foreign-currency transactions also show what was actually paid
+              const originalAmountLabel = expense.currency && expense.currency !== BASE_CURRENCY && expense.original_amount != null
+                ? formatCurrency(Number(expense.original_amount), expense.currency)
+                : null;
+              
               return (
                 <div key={expense.id} className="border rounded-md hover:bg-muted/50 transition-colors hover:shadow-purple-sm overflow-hidden">
-                  <div className="p-3 sm:p-4">
+                  <div className="p-3 sm:p-4 flex items-start gap-3">
+                    <Checkbox
+                      className="mt-1"
+                      checked={selectedIds.has(expense.id)}
+                      onCheckedChange={(checked) => toggleSelected(expense, checked === true)}
+                      aria-label="Select transaction"
+                    />
+                    <div className="flex-1 min-w-0">
                     {/* Mobile Layout */}
                     {isMobile ? (
                       <div className="space-y-3">
                         {/* Header Row - Amount and Actions */}
                         <div className="flex items-center justify-between">
-                          <div className={`text-lg font-bold ${expense.transaction_type === 'income' ? 'text-green-500' : 'text-destructive'}`}>
-                            {expense.transaction_type === 'income' ? '+' : '-'}{formatMYR(totalAmount)}
+                          <div>
+                            <div className={`text-lg font-bold ${amountColor}`}>
+                              {amountSign}{formatMYR(totalAmount)}
+                            </div>
+                            {originalAmountLabel && (
+                              <div className="text-xs text-muted-foreground">{originalAmountLabel}</div>
+                            )}
                           </div>
                           <div className="flex items-center gap-1">
+                            {canRefund && (
+                              <Button 
+                                variant="ghost" 
+                                size="icon"
+                                className="h-8 w-8 text-gray-500 hover:text-green-600 hover:bg-green-50 rounded-full transition-colors"
+                                onClick={() => setRefundTarget({ original: expense })}
+                              >
+                                <Undo2 className="h-3 w-3" />
+                                <span className="sr-only">Refund</span>
+                              </Button>
+                            )}
                             <Button 
                               variant="ghost" 
                               size="icon"
                               className="h-8 w-8 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
-                              onClick={() => setExpenseToEdit(expense)}
+                              onClick={() => handleEdit(expense)}
                             >
                               <Edit className="h-3 w-3" />
                               <span className="sr-only">Edit</span>
@@ -485,10 +681,14 @@ const TransactionList = () => {
                         <div className="space-y-2">
                           <div className="flex items-start justify-between">
                             <h3 className="font-medium text-sm leading-tight flex-1 pr-2">
-                              {firstItem?.description || expense.description || 'Unnamed Transaction'}
+                              {title}
                             </h3>
                             <div className="flex flex-wrap gap-1 justify-end">
-                              {category && (
+                              {isSplit ? (
+                                <Badge variant="outline" className="text-xs">
+                                  Split
+                                </Badge>
+                              ) : category && (
                                 <Badge variant="outline" className="text-xs">
                                   {category.name}
                                 </Badge>
@@ -498,6 +698,26 @@ const TransactionList = () => {
                                   Income
                                 </Badge>
                               )}
+                              {isTransfer && (
+                                <Badge variant="outline" className="text-xs">
+                                  Transfer
+                                </Badge>
+                              )}
+                              {isRefund && (
+                                <Badge variant="outline" className="text-xs text-green-500">
+                                  Refund
+                                </Badge>
+                              )}
+                              {refundedAmount > 0 && (
+                                <Badge variant="outline" className="text-xs">
+                                  {refundedAmount >= totalAmount - 0.005 ? 'Refunded' : 'Partly refunded'}
+                                </Badge>
+                              )}
+                              {(expense.tags || []).map((tag) => (
+                                <Badge key={tag} variant="secondary" className="text-xs">
+                                  #{tag}
+                                </Badge>
+                              ))}
                             </div>
                           </div>
                           
@@ -507,8 +727,20 @@ const TransactionList = () => {
                               <span>{format(new Date(expense.date), 'MMM d')}</span>
                             </div>
                             <div className="flex items-center gap-3">
-                              {expense.payment_method && (
-                                <span>{expense.payment_method.method_name}</span>
+                              {merchant && (
+                                <span className="flex items-center gap-1">
+                                  <MerchantDot merchant={merchant} />
+                                  {merchant.name}
+                                </span>
+                              )}
+                              {paymentLabel && (
+                                <span>{paymentLabel}</span>
+                              )}
+                              {refundLabel && (
+                                <span className="flex items-center gap-1">
+                                  <Undo2 className="h-3 w-3" />
+                                  {refundLabel}
+                                </span>
                               )}
                               {expense.expense_items && expense.expense_items.length > 1 && (
                                 <span>{expense.expense_items.length} items</span>
@@ -522,7 +754,11 @@ const TransactionList = () => {
                       <div className="flex items-center justify-between">
                         <div className="flex items-start gap-3">
                           <div className="flex h-10 w-10 rounded-full items-center justify-center bg-primary/10">
-                            {expense.transaction_type === 'income' ? (
+                            {isTransfer ? (
+                              <ArrowLeftRight className="h-5 w-5 text-muted-foreground" />
+                            ) : isRefund ? (
+                              <Undo2 className="h-5 w-5 text-green-500" />
+                            ) : expense.transaction_type === 'income' ? (
                               <ArrowDownCircle className="h-5 w-5 text-green-500" />
                             ) : (
                               <CreditCard className="h-5 w-5 text-primary" />
@@ -532,9 +768,13 @@ const TransactionList = () => {
                           <div>
                             <div className="flex items-center gap-2">
                               <h3 className="font-medium">
-                                {firstItem?.description || expense.description || 'Unnamed Transaction'}
+                                {title}
                               </h3>
-                              {category && (
+                              {isSplit ? (
+                                <Badge variant="outline" className="text-xs">
+                                  Split
+                                </Badge>
+                              ) : category && (
                                 <Badge variant="outline" className="text-xs">
                                   {category.name}
                                 </Badge>
@@ -544,6 +784,26 @@ const TransactionList = () => {
                                   Income
                                 </Badge>
                               )}
+                              {isTransfer && (
+                                <Badge variant="outline" className="text-xs">
+                                  Transfer
+                                </Badge>
+                              )}
+                              {isRefund && (
+                                <Badge variant="outline" className="text-xs text-green-500">
+                                  Refund
+                                </Badge>
+                              )}
+                              {refundedAmount > 0 && (
+                                <Badge variant="outline" className="text-xs">
+                                  {refundedAmount >= totalAmount - 0.005 ? 'Refunded' : 'Partly refunded'}
+                                </Badge>
+                              )}
+                              {(expense.tags || []).map((tag) => (
+                                <Badge key={tag} variant="secondary" className="text-xs">
+                                  #{tag}
+                                </Badge>
+                              ))}
                             </div>
                             
                             <div className="flex items-center text-sm text-muted-foreground gap-3 mt-1">
@@ -552,9 +812,23 @@ const TransactionList = () => {
                                 <span>{format(new Date(expense.date), 'MMM d, yyyy')}</span>
                               </div>
                               
-                              {expense.payment_method && (
+                              {merchant && (
+                                <div className="flex items-center gap-1">
+                                  <MerchantDot merchant={merchant} />
+                                  <span>{merchant.name}</span>
+                                </div>
+                              )}
+                              
+                              {paymentLabel && (
                                 <div>
-                                  <span>{expense.payment_method.method_name}</span>
+                                  <span>{paymentLabel}</span>
+                                </div>
+                              )}
+                              
+                              {refundLabel && (
+                                <div className="flex items-center gap-1">
+                                  <Undo2 className="h-3 w-3" />
+                                  <span>{refundLabel}</span>
                                 </div>
                               )}
                               
@@ -569,17 +843,31 @@ const TransactionList = () => {
                         
                         <div className="flex items-center gap-3">
                           <div className="text-right">
-                            <div className={`font-medium ${expense.transaction_type === 'income' ? 'text-green-500' : 'text-destructive'}`}>
-                              {expense.transaction_type === 'income' ? '+' : '-'}{formatMYR(totalAmount)}
+                            <div className={`font-medium ${amountColor}`}>
+                              {amountSign}{formatMYR(totalAmount)}
                             </div>
+                            {originalAmountLabel && (
+                              <div className="text-xs text-muted-foreground">{originalAmountLabel}</div>
+                            )}
                           </div>
                           
                           <div className="flex items-center gap-1">
+                            {canRefund && (
+                              <Button 
+                                variant="ghost" 
+                                size="icon"
+                                className="text-gray-500 hover:text-green-700 hover:bg-green-100 rounded-full transition-colors"
+                                onClick={() => setRefundTarget({ original: expense })}
+                              >
+                                <Undo2 className="h-4 w-4" />
+                                <span className="sr-only">Record Refund</span>
+                              </Button>
+                            )}
                             <Button 
                               variant="ghost" 
                               size="icon"
                               className="text-gray-500 hover:text-blue-800 hover:bg-blue-100 rounded-full transition-colors"
-                              onClick={() => setExpenseToEdit(expense)}
+                              onClick={() => handleEdit(expense)}
                             >
                               <Edit className="h-4 w-4" />
                               <span className="sr-only">Edit Transaction</span>
@@ -597,6 +885,22 @@ const TransactionList = () => {
                         </div>
                       </div>
                     )}
+                    
+                    {/* Split breakdown */}
+                    {isSplit && (
+                      <div className="mt-3 border-t pt-2 space-y-1">
+                        {expense.expense_items.map((item) => (
+                          <div key={item.id} className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span className="truncate pr-2">
+                              {item.category?.name || 'Uncategorized'}
+                              {item.description && item.description !== expense.description && ` · ${item.description}`}
+                            </span>
+                            <span className="shrink-0">{formatMYR(Number(item.amount))}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    </div>
                   </div>
                 </div>
               );
@@ -605,13 +909,24 @@ const TransactionList = () => {
         )}
         
         {/* Pagination */}
-        {!isLoading && !error && totalPages > 1 && (
-          <div className="flex items-center justify-between mt-4">
+        {!isLoading && !error && totalCount > PAGE_SIZES[0] && (
+          <div className="flex items-center justify-between gap-2 mt-4">
             <div className="text-sm text-muted-foreground">
-              Showing {(currentPage - 1) * pageSize + 1} to {Math.min(currentPage * pageSize, filteredExpenses.length)} of {filteredExpenses.length} transactions
+              Showing {(currentPage - 1) * pageSize + 1} to {Math.min(currentPage * pageSize, totalCount)} of {totalCount} transactions
             </div>
             
             <div className="flex items-center gap-1">
+              <Select value={pageSize.toString()} onValueChange={(value) => updateListFilters({ pageSize: Number(value) })}>
+                <SelectTrigger className="h-10 w-[110px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAGE_SIZES.map(size => (
+                    <SelectItem key={size} value={size.toString()}>{size} / page</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              
               <Button
                 variant="outline"
                 size="icon"
@@ -657,6 +972,40 @@ const TransactionList = () => {
         </AlertDialogFooter>
       </AlertDialogContent>
     </AlertDialog>
+    
+    {/* Bulk Action Confirmation Dialog */}
+    <AlertDialog open={!!pendingBulkAction} onOpenChange={(open) => !open && setPendingBulkAction(null)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Apply to selected transactions?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {pendingBulkAction && describeBulkAction(pendingBulkAction)}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={bulkMutation.isPending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              // Keep the dialog open until the batch finishes
+              e.preventDefault();
+              if (pendingBulkAction) bulkMutation.mutate(pendingBulkAction);
+            }}
+            disabled={bulkMutation.isPending}
+            className={pendingBulkAction?.type === 'delete' ? "bg-red-500 hover:bg-red-600" : undefined}
+          >
+            {bulkMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+            {pendingBulkAction?.type === 'delete' ? 'Delete' : 'Apply'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+    
+    <RefundDialog
+      open={!!refundTarget}
+      onOpenChange={(open) => !open && setRefundTarget(null)}
+      original={refundTarget?.original}
+      refund={refundTarget?.refund}
+    />
     </>
   );
 };
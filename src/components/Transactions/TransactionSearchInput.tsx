@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { TransactionQueryField } from '@/interfaces/expense-interface';
+import { QuerySuggestion, applyQuerySuggestion, getQuerySuggestions } from '@/lib/utils/transaction-query';
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input.tsx';
+import { Search } from 'lucide-react';
+
+interface TransactionSearchInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  // Values offered after "field:", e.g. category names for category:
+  values: Partial<Record<TransactionQueryField, string[]>>;
+}
+
+/**
+ * Search box for the transaction list, with autocomplete for the query syntax
+ * (amount>50, category:food, pm:duitnow, type:income, -grab, OR, ...)
+ */
+const TransactionSearchInput = ({ value, onChange, placeholder, values }: TransactionSearchInputProps) => {
+  const [isFocused, setIsFocused] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = useMemo(() => getQuerySuggestions(value, values), [value, values]);
+  const isOpen = isFocused && !isDismissed && suggestions.length > 0;
+
+  const handleChange = (next: string) => {
+    onChange(next);
+    setIsDismissed(false);
+    setActiveIndex(0);
+  };
+
+  const accept = (suggestion: QuerySuggestion) => {
+    handleChange(applyQuerySuggestion(value, suggestion));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + step + suggestions.length) % suggestions.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      accept(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+    } else if (event.key === 'Escape') {
+      setIsDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" size={16} />
+      <Input
+        className="pl-9"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-autocomplete="list"
+      />
+      {isOpen && (
+        <ul
+          role="listbox"
+          className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.insert}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={cn(
+                "flex items-center justify-between gap-2 rounded-sm px-2 py-1.5 text-sm cursor-pointer",
+                index === activeIndex && "bg-accent text-accent-foreground"
+              )}
+              // Keep focus in the input so typing can continue
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+            >
+              <span className="truncate">{suggestion.label}</span>
+              {suggestion.hint && <span className="text-xs text-muted-foreground truncate">{suggestion.hint}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TransactionSearchInput;
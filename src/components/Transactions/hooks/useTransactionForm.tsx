@@ -1,14 +1,24 @@
-import { useState, useEffect, useCallback } from 'react';
-import { TransactionData } from '@/interfaces/types/transaction';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { SplitLine, TransactionData } from '@/interfaces/types/transaction';
+import { sumSplitLines, validateSplitLines } from '@/lib/validation/transactionValidation';
 import { expenseApi } from '@/lib/api/expenseApi';
+import { transactionApi } from '@/lib/api/transactionApi';
+import { DuplicateTransactionError } from '@/lib/utils/duplicate-detection';
+import { exchangeRateApi } from '@/lib/api/exchangeRateApi';
+import { BASE_CURRENCY, convertToBase, findRate } from '@/lib/utils/currency';
+import { categorizationRuleApi } from '@/lib/api/categorizationRuleApi';
+import { findMatchingRule, getRuleCategoryId } from '@/lib/utils/categorization-rules';
+import { merchantApi } from '@/lib/api/merchantApi';
+import { findMerchant } from '@/lib/utils/merchants';
 import { ExpenseCategory, Expense, CreateExpenseItemRequest, CreateExpenseRequest } from '@/interfaces/expense-interface';
 import { PaymentMethod } from '@/interfaces/payment-method-interface';
 import { useToast } from '@/components/ui/use-toast.ts';
 import { useDashboard } from '@/context/DashboardContext';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
 
 // Type definitions
-export type TransactionType = 'expense' | 'income';
+export type TransactionType = 'expense' | 'income' | 'transfer';
 
 export interface TransactionFormHookProps {
   onSuccess?: () => void;
@@ -23,6 +33,8 @@ interface ExpenseItemInput {
   income_category_id?: number | null;
 }
 
+const createEmptySplitLine = (): SplitLine => ({ category: '', amount: '', description: '' });
+
 export const useTransactionForm = ({
   onSuccess,
   expenseToEdit
@@ -41,6 +53,9 @@ export const useTransactionForm = ({
     paymentMethod?: string;
     amount?: string;
     description?: string;
+    splitLines?: string;
+    transferTo?: string;
+    exchangeRate?: string;
   }>({});
   
   // Form field states
@@ -50,10 +65,38 @@ export const useTransactionForm = ({
   const [category, setCategory] = useState<string>('');
   const [incomeCategory, setIncomeCategory] = useState<string>('');
   const [paymentMethod, setPaymentMethod] = useState<string>('');
+  // Destination payment method; only used for transfers, where paymentMethod is the source
+  const [transferTo, setTransferTo] = useState<string>('');
   const [description, setDescription] = useState<string>('');
   const [amount, setAmount] = useState<string>('');
+  const [tags, setTags] = useState<string[]>([]);
+  // Amounts are entered in this currency and converted to the base currency on save
+  const [currency, setCurrencyState] = useState<string>(BASE_CURRENCY);
+  const [exchangeRate, setExchangeRateState] = useState<string>('1');
+  // Once the user types a rate (or an existing transaction is loaded) it is no longer taken from the rate table
+  const [isRateManual, setIsRateManual] = useState(false);
   const [isEditMode, setIsEditMode] = useState(!!expenseToEdit);
   
+  // Values a categorization rule filled in. A rule may replace its own values when the
+  // entry changes, but never a category or payment method the user picked.
+  const ruleValuesRef = useRef<{ category?: string; paymentMethod?: string }>({});
+  const [appliedRuleName, setAppliedRuleName] = useState<string | null>(null);
+  // Set when the category is the merchant's default rather than a rule's
+  const [merchantCategoryName, setMerchantCategoryName] = useState<string | null>(null);
+  
+  // The merchant follows the description until the user picks one (or an existing transaction is loaded)
+  const [merchantId, setMerchantIdState] = useState<number | undefined>(undefined);
+  const [isMerchantManual, setIsMerchantManual] = useState(false);
+  
+  // Likely duplicates found when saving, and the transaction waiting on the user's decision
+  const [duplicateCandidates, setDuplicateCandidates] = useState<Expense[]>([]);
+  const [pendingExpense, setPendingExpense] = useState<CreateExpenseRequest | null>(null);
+  
+  // Split state - when isSplit is on, splitLines replaces the single category field
+  // and the amount field holds the total the lines must add up to
+  const [isSplit, setIsSplitState] = useState(false);
+  const [splitLines, setSplitLines] = useState<SplitLine[]>([]);
+  
   // This is used for tracking changes in individual fields to prevent excessive rerenders
   const [formData, setFormData] = useState<TransactionData>({
     date: new Date().toISOString().split('T')[0],
@@ -67,6 +110,31 @@ export const useTransactionForm = ({
   useEffect(() => {
     setIsExpense(transactionType === 'expense');
   }, [transactionType]);
+  
+  const { data: exchangeRates = [] } = useQuery({
+    queryKey: ['exchangeRates', userId],
+    queryFn: () => exchangeRateApi.getAllByUser(userId as string),
+    enabled: !!userId,
+  });
+  
+  // Prefill the rate in effect on the transaction date
+  useEffect(() => {
+    if (isRateManual) return;
+    const rate = findRate(exchangeRates, currency, format(date, 'yyyy-MM-dd'));
+    setExchangeRateState(rate !== undefined ? rate.toString() : '');
+  }, [currency, date, exchangeRates, isRateManual]);
+
+  const { data: categorizationRules = [] } = useQuery({
+    queryKey: ['categorizationRules', userId],
+    queryFn: () => categorizationRuleApi.getAllByUser(userId as string),
+    enabled: !!userId,
+  });
+
+  const { data: merchants = [] } = useQuery({
+    queryKey: ['merchants', userId],
+    queryFn: () => merchantApi.getAllByUser(userId as string),
+    enabled: !!userId,
+  });
 
   // Load categories and payment methods
   const loadCategoriesAndPaymentMethods = useCallback(async () => {
@@ -114,11 +182,17 @@ export const useTransactionForm = ({
     loadCategoriesAndPaymentMethods();
     
     if (expenseToEdit && expenseToEdit.expense_items && expenseToEdit.expense_items.length > 0) {
-      const item = expenseToEdit.expense_items[0];
+      const items = expenseToEdit.expense_items;
+      const item = items[0];
       const isIncomeItem = item.income_category_id !== null;
+      const isTransfer = expenseToEdit.transaction_type === 'transfer';
+      // Amounts are edited in the currency they were entered in
+      const lineAmount = (line: typeof item) => Number(line.original_amount ?? line.amount);
+      const totalAmount = items.reduce((sum, line) => sum + lineAmount(line), 0);
       
       // Update transactionType directly (which will update isExpense via the other useEffect)
-      setTransactionType(!isIncomeItem ? 'expense' : 'income');
+      setTransactionType(isTransfer ? 'transfer' : !isIncomeItem ? 'expense' : 'income');
+      setTransferTo(expenseToEdit.transfer_to_payment_method_id?.toString() || '');
       setIsEditMode(true);
       
       // Set all the form fields directly from the expense
@@ -135,7 +209,26 @@ export const useTransactionForm = ({
       
       setPaymentMethod(expenseToEdit.payment_method_id?.toString() || '');
       setDescription(expenseToEdit.description || '');
-      setAmount(item.amount.toString());
+      setAmount(totalAmount.toString());
+      setTags(expenseToEdit.tags || []);
+      setCurrencyState(expenseToEdit.currency || BASE_CURRENCY);
+      setExchangeRateState((expenseToEdit.exchange_rate ?? 1).toString());
+      setIsRateManual(true);
+      setMerchantIdState(expenseToEdit.merchant_id ?? undefined);
+      setIsMerchantManual(true);
+      
+      // Expenses with more than one item are edited as a split
+      if (items.length > 1) {
+        setIsSplitState(true);
+        setSplitLines(items.map(line => ({
+          category: (isIncomeItem ? line.income_category_id : line.category_id)?.toString() || '',
+          amount: lineAmount(line).toString(),
+          description: line.description || '',
+        })));
+      } else {
+        setIsSplitState(false);
+        setSplitLines([]);
+      }
       
       // Update the formData state for tracking purposes only
       setFormData({
@@ -143,7 +236,7 @@ export const useTransactionForm = ({
         category: isIncomeItem ? (item.income_category_id?.toString() || '') : (item.category_id?.toString() || ''),
         paymentMethod: expenseToEdit.payment_method_id?.toString() || '',
         description: expenseToEdit.description || '',
-        amount: item.amount.toString(),
+        amount: totalAmount.toString(),
       });
     }
   }, [expenseToEdit, loadCategoriesAndPaymentMethods]);
@@ -193,6 +286,9 @@ export const useTransactionForm = ({
     // Only update transactionType, which will update isExpense via the useEffect
     setTransactionType(isExpenseType ? 'expense' : 'income');
     
+    // Split lines reference categories of the old type, so clear them too
+    setSplitLines(prev => prev.map(line => ({ ...line, category: '' })));
+    
     // Reset the category when changing transaction type
     if (isExpenseType) {
       setIncomeCategory('');
@@ -209,6 +305,139 @@ export const useTransactionForm = ({
     }
   };
   
+  // Turn split mode on or off. Switching on seeds the first line from the current
+  // category and amount; switching off keeps the first line's category.
+  const setIsSplit = (split: boolean) => {
+    const currentCategory = isExpense ? category : incomeCategory;
+    
+    if (split) {
+      setSplitLines(prev => prev.length >= 2 ? prev : [
+        { category: currentCategory, amount: amount, description: '' },
+        createEmptySplitLine(),
+      ]);
+    } else if (splitLines.length > 0) {
+      const firstCategory = splitLines[0].category;
+      if (isExpense) {
+        setCategory(firstCategory);
+      } else {
+        setIncomeCategory(firstCategory);
+      }
+      setSplitLines([]);
+    }
+    
+    setIsSplitState(split);
+    setFormErrors(({ category: _category, splitLines: _splitLines, ...rest }) => rest);
+  };
+  
+  const addSplitLine = () => {
+    setSplitLines(prev => [...prev, createEmptySplitLine()]);
+  };
+  
+  const removeSplitLine = (index: number) => {
+    setSplitLines(prev => prev.filter((_, i) => i !== index));
+  };
+  
+  const updateSplitLine = (index: number, field: keyof SplitLine, value: string) => {
+    setSplitLines(prev => prev.map((line, i) => i === index ? { ...line, [field]: value } : line));
+    
+    if (formErrors.splitLines) {
+      setFormErrors(({ splitLines: _splitLines, ...rest }) => rest);
+    }
+  };
+  
+  // Switching currency goes back to the rate table
+  const setCurrency = (value: string) => {
+    setCurrencyState(value);
+    setIsRateManual(false);
+  };
+  
+  const setExchangeRate = (value: string) => {
+    setExchangeRateState(value);
+    setIsRateManual(true);
+    
+    if (formErrors.exchangeRate) {
+      setFormErrors(({ exchangeRate: _exchangeRate, ...rest }) => rest);
+    }
+  };
+  
+  const setMerchantId = (value: number | undefined) => {
+    setMerchantIdState(value);
+    setIsMerchantManual(true);
+  };
+  
+  // Create a merchant from the picker's search text and select it
+  const createMerchant = async (name: string) => {
+    if (!userId) return;
+    try {
+      const merchant = await merchantApi.create({ user_id: userId, name });
+      queryClient.invalidateQueries({ queryKey: ['merchants', userId] });
+      setMerchantId(merchant.id);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to create merchant: ${(error as Error).message}`,
+        variant: 'destructive',
+      });
+    }
+  };
+  
+  // Suggest the merchant whose name or alias appears in the description
+  useEffect(() => {
+    if (isMerchantManual || transactionType === 'transfer') return;
+    setMerchantIdState(findMerchant(merchants, description)?.id);
+  }, [merchants, description, transactionType, isMerchantManual]);
+  
+  const selectedMerchant = merchants.find(merchant => merchant.id === merchantId);
+  
+  const isForeignCurrency = currency !== BASE_CURRENCY;
+  const rateValue = isForeignCurrency ? parseFloat(exchangeRate) : 1;
+  // Total in the base currency, shown next to a foreign amount
+  const baseAmount = rateValue > 0 ? convertToBase(parseFloat(amount) || 0, rateValue) : 0;
+  
+  // Fill in the category and payment method of a new transaction from the first matching
+  // rule. Without a rule category, an expense takes its merchant's default category.
+  useEffect(() => {
+    if (isEditMode || transactionType === 'transfer') return;
+    
+    const rule = findMatchingRule(categorizationRules, {
+      transaction_type: transactionType,
+      description,
+      amount: baseAmount || undefined,
+      payment_method_id: parseInt(paymentMethod) || undefined,
+    });
+    const applied = ruleValuesRef.current;
+    
+    // Split lines keep their own categories
+    const currentCategory = isExpense ? category : incomeCategory;
+    const ruleCategoryId = rule && !isSplit ? getRuleCategoryId(rule) : undefined;
+    const merchantCategoryId = !ruleCategoryId && isExpense && !isSplit ? selectedMerchant?.default_category_id : undefined;
+    const ruleCategory = (ruleCategoryId ?? merchantCategoryId)?.toString();
+    const nextApplied: { category?: string; paymentMethod?: string } = {};
+    
+    if (!isSplit && (!currentCategory || currentCategory === applied.category)) {
+      nextApplied.category = ruleCategory;
+      if ((ruleCategory || '') !== currentCategory) {
+        (isExpense ? setCategory : setIncomeCategory)(ruleCategory || '');
+      }
+    }
+    
+    const rulePaymentMethod = rule?.set_payment_method_id?.toString();
+    if (!paymentMethod || paymentMethod === applied.paymentMethod) {
+      nextApplied.paymentMethod = rulePaymentMethod;
+      if ((rulePaymentMethod || '') !== paymentMethod) {
+        setPaymentMethod(rulePaymentMethod || '');
+      }
+    }
+    
+    ruleValuesRef.current = nextApplied;
+    setAppliedRuleName(rule && ((ruleCategoryId && nextApplied.category) || nextApplied.paymentMethod) ? rule.name : null);
+    setMerchantCategoryName(merchantCategoryId && nextApplied.category ? selectedMerchant.name : null);
+  }, [categorizationRules, description, baseAmount, paymentMethod, category, incomeCategory, transactionType, isExpense, isSplit, isEditMode, selectedMerchant]);
+  
+  // Running total of the split lines, and what is left to allocate
+  const splitTotal = sumSplitLines(splitLines);
+  const splitRemaining = (parseFloat(amount) || 0) - splitTotal;
+  
   const validateForm = (): boolean => {
     const errors: {
       date?: string;
@@ -216,15 +445,32 @@ export const useTransactionForm = ({
       paymentMethod?: string;
       amount?: string;
       description?: string;
+      splitLines?: string;
+      transferTo?: string;
+      exchangeRate?: string;
     } = {};
     
     if (!date) {
       errors.date = 'Date is required';
     }
     
-    const currentCategory = isExpense ? category : incomeCategory;
-    if (!currentCategory) {
-      errors.category = 'Category is required';
+    if (transactionType === 'transfer') {
+      // Transfers have no category, but need two different payment methods
+      if (!transferTo) {
+        errors.transferTo = 'Destination is required';
+      } else if (transferTo === paymentMethod) {
+        errors.transferTo = 'Destination must differ from the source';
+      }
+    } else if (isSplit) {
+      const splitError = validateSplitLines(splitLines, amount);
+      if (splitError) {
+        errors.splitLines = splitError;
+      }
+    } else {
+      const currentCategory = isExpense ? category : incomeCategory;
+      if (!currentCategory) {
+        errors.category = 'Category is required';
+      }
     }
     
     if (!paymentMethod) {
@@ -240,13 +486,19 @@ export const useTransactionForm = ({
       errors.description = 'Description is required';
     }
     
+    if (isForeignCurrency && !(rateValue > 0)) {
+      errors.exchangeRate = `Enter the ${BASE_CURRENCY} value of 1 ${currency}`;
+    }
+    
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
   };
   
   // --- Define the Mutation using useMutation --- 
   const mutation = useMutation({
-    mutationFn: async (formData: CreateExpenseRequest | { id: number; data: Partial<Expense> }) => {
+    // Run while offline too; new transactions are queued instead of failing
+    networkMode: 'always',
+    mutationFn: async (formData: { create: CreateExpenseRequest; skipDuplicateCheck?: boolean } | { id: number; data: Partial<Expense> }) => {
       if ('id' in formData) {
         // Update existing expense
         console.log('Updating expense with ID:', formData.id);
@@ -254,17 +506,22 @@ export const useTransactionForm = ({
         const updateData = { ...formData.data, user_id: userId }; 
         return await expenseApi.update(formData.id, updateData);
       } else {
-        // Create new expense
+        // Create new expense, queued for later when offline
         console.log('Creating new expense...');
-        return await expenseApi.create(formData);
+        return await transactionApi.saveTransaction(formData.create, { skipDuplicateCheck: formData.skipDuplicateCheck });
       }
     },
     onSuccess: (data, variables) => {
       console.log('Mutation successful:', data);
+      const isQueued = 'status' in data && data.status === 'queued';
       toast({
-        title: isEditMode ? 'Transaction Updated' : 'Transaction Added',
+        title: isEditMode ? 'Transaction Updated' : isQueued ? 'Saved Offline' : 'Transaction Added',
+        description: isQueued ? 'It will sync automatically when you are back online.' : undefined,
         variant: 'default',
       });
+      if (isQueued) {
+        queryClient.invalidateQueries({ queryKey: ['pendingTransactions', userId] });
+      }
       
       // Invalidate relevant queries
       queryClient.invalidateQueries({ queryKey: ['expenses', userId] }); // Invalidate the main transaction list query
@@ -276,6 +533,8 @@ export const useTransactionForm = ({
       queryClient.invalidateQueries({ queryKey: ['budgets'] }); // Invalidate all budgets queries
       queryClient.invalidateQueries({ queryKey: ['budgetSpending'] }); // Invalidate all budget spending queries
       queryClient.invalidateQueries({ queryKey: ['budgetCategorySpending'] }); // Invalidate all budget category spending queries
+      queryClient.invalidateQueries({ queryKey: ['tags', userId] }); // New tags become suggestions
+      queryClient.invalidateQueries({ queryKey: ['spendingByTag', userId] });
       
       // Call the onSuccess prop passed to the hook (e.g., to close a modal)
       if (onSuccess) {
@@ -283,7 +542,14 @@ export const useTransactionForm = ({
       }
       resetForm(); // Reset form fields after successful submission
     },
-    onError: (error) => {
+    onError: (error, variables) => {
+      // Likely duplicates are not an error; the form asks the user what to do
+      if (error instanceof DuplicateTransactionError && 'create' in variables) {
+        setDuplicateCandidates(error.candidates);
+        setPendingExpense(variables.create);
+        return;
+      }
+      
       console.error('Error submitting transaction:', error);
       toast({
         title: 'Error',
@@ -319,16 +585,35 @@ export const useTransactionForm = ({
       return `${year}-${month}-${day}`;
     };
     
-    const expenseItem: CreateExpenseItemRequest = {
-      category_id: isExpense ? categoryId : null as any,
-      amount: amountValue,
-      description: description
+    // Build one item per line; income lines carry their category in income_category_id.
+    // Line amounts are entered in the transaction currency and stored in the base currency.
+    const buildExpenseItem = (lineCategoryId: number, lineAmount: number, lineDescription: string) => {
+      const expenseItem: CreateExpenseItemRequest = {
+        category_id: isExpense ? lineCategoryId : null as any,
+        amount: convertToBase(lineAmount, rateValue),
+        original_amount: lineAmount,
+        description: lineDescription
+      };
+      if (!isExpense) {
+        (expenseItem as any).income_category_id = lineCategoryId;
+      }
+      return expenseItem;
     };
-    if (!isExpense) {
-      (expenseItem as any).income_category_id = categoryId;
-    }
     
-    let mutationData: CreateExpenseRequest | { id: number; data: Partial<Expense> };
+    const isTransfer = transactionType === 'transfer';
+    
+    // Transfers carry the amount on a single item without a category
+    const expenseItems: CreateExpenseItemRequest[] = isTransfer
+      ? [{ category_id: null, amount: convertToBase(amountValue, rateValue), original_amount: amountValue, description }]
+      : isSplit
+      ? splitLines.map(line => buildExpenseItem(
+          parseInt(line.category),
+          parseFloat(line.amount),
+          line.description.trim() || description
+        ))
+      : [buildExpenseItem(categoryId, amountValue, description)];
+    
+    let mutationData: { create: CreateExpenseRequest } | { id: number; data: Partial<Expense> };
     
     if (expenseToEdit) {
       const updateData: Partial<Expense> = {
@@ -337,7 +622,13 @@ export const useTransactionForm = ({
         description: description,
         payment_method_id: paymentMethodId,
         transaction_type: transactionType,
-        expense_items: [expenseItem] as any
+        transfer_to_payment_method_id: isTransfer ? parseInt(transferTo) : null,
+        tags,
+        currency,
+        exchange_rate: rateValue,
+        original_amount: amountValue,
+        merchant_id: isTransfer ? null : merchantId ?? null,
+        expense_items: expenseItems as any
       };
       mutationData = { id: expenseToEdit.id, data: updateData };
     } else {
@@ -347,9 +638,15 @@ export const useTransactionForm = ({
         description: description,
         payment_method_id: paymentMethodId,
         transaction_type: transactionType,
-        expense_items: [expenseItem]
+        transfer_to_payment_method_id: isTransfer ? parseInt(transferTo) : undefined,
+        tags,
+        currency,
+        exchange_rate: rateValue,
+        original_amount: amountValue,
+        merchant_id: isTransfer ? undefined : merchantId,
+        expense_items: expenseItems
       };
-      mutationData = createData;
+      mutationData = { create: createData };
     }
     
     // Trigger the mutation
@@ -362,6 +659,62 @@ export const useTransactionForm = ({
     }
   };
   
+  // Duplicate resolution: save the pending transaction despite the matches
+  const saveAnyway = async () => {
+    if (!pendingExpense) return;
+    try {
+      await mutation.mutateAsync({ create: pendingExpense, skipDuplicateCheck: true });
+    } catch (error) {
+      // Error is handled by onError callback in useMutation
+    }
+  };
+  
+  // Duplicate resolution: the entry is the matched transaction, so no new one is
+  // saved. Tags and a description the match doesn't have yet are added to it.
+  const linkAsSame = async (expense: Expense) => {
+    const newTags = (pendingExpense?.tags || []).filter(tag => !(expense.tags || []).includes(tag));
+    const newDescription = !expense.description && pendingExpense?.description ? pendingExpense.description : undefined;
+    const name = expense.description || newDescription || 'the existing transaction';
+
+    if (newTags.length > 0 || newDescription) {
+      try {
+        await expenseApi.update(expense.id, {
+          ...(newTags.length > 0 ? { tags: [...(expense.tags || []), ...newTags] } : {}),
+          ...(newDescription ? { description: newDescription } : {}),
+        });
+        queryClient.invalidateQueries({ queryKey: ['expenses', userId] });
+        queryClient.invalidateQueries({ queryKey: ['tags', userId] });
+        queryClient.invalidateQueries({ queryKey: ['spendingByTag', userId] });
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description: `Failed to update "${name}": ${(error as Error).message}`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      toast({
+        title: 'Matched Existing Transaction',
+        description: `Added your ${newTags.length > 0 ? 'tags' : 'description'}${newTags.length > 0 && newDescription ? ' and description' : ''} to "${name}". No new transaction was saved.`,
+      });
+    } else {
+      toast({
+        title: 'Matched Existing Transaction',
+        description: `No new transaction was saved; "${name}" already has everything you entered.`,
+      });
+    }
+    if (onSuccess) {
+      onSuccess();
+    }
+    resetForm();
+  };
+  
+  // Duplicate resolution: go back to the form without saving
+  const cancelDuplicate = () => {
+    setDuplicateCandidates([]);
+    setPendingExpense(null);
+  };
+  
   const resetForm = () => {
     // Reset all form states to initial values
     setTransactionType('expense');
@@ -370,10 +723,23 @@ export const useTransactionForm = ({
     setCategory('');
     setIncomeCategory('');
     setPaymentMethod('');
+    setTransferTo('');
     setDescription('');
     setAmount('');
+    setTags([]);
+    setCurrencyState(BASE_CURRENCY);
+    setIsRateManual(false);
+    setIsSplitState(false);
+    setSplitLines([]);
     setIsEditMode(false);
     setFormErrors({});
+    setDuplicateCandidates([]);
+    setPendingExpense(null);
+    ruleValuesRef.current = {};
+    setAppliedRuleName(null);
+    setMerchantCategoryName(null);
+    setMerchantIdState(undefined);
+    setIsMerchantManual(false);
     
     // Reset tracking formData state
     setFormData({
@@ -388,10 +754,13 @@ export const useTransactionForm = ({
   // Calculate form validity
   const formIsValid = 
     !!date && 
-    !!(isExpense ? category : incomeCategory) && 
+    (transactionType === 'transfer'
+      ? !!transferTo && transferTo !== paymentMethod
+      : isSplit ? !validateSplitLines(splitLines, amount) : !!(isExpense ? category : incomeCategory)) && 
     !!paymentMethod && 
     !!description && 
     parseFloat(amount) > 0 &&
+    rateValue > 0 &&
     Object.keys(formErrors).length === 0;
   
   return {
@@ -418,12 +787,39 @@ export const useTransactionForm = ({
     setIncomeCategory,
     paymentMethod,
     setPaymentMethod,
+    transferTo,
+    setTransferTo,
     description,
     setDescription,
     amount,
     setAmount,
+    tags,
+    setTags,
+    currency,
+    setCurrency,
+    exchangeRate,
+    setExchangeRate,
+    baseAmount,
+    appliedRuleName,
+    merchantCategoryName,
+    merchants,
+    merchantId,
+    setMerchantId,
+    createMerchant,
+    isSplit,
+    setIsSplit,
+    splitLines,
+    addSplitLine,
+    removeSplitLine,
+    updateSplitLine,
+    splitTotal,
+    splitRemaining,
     errors: formErrors,
     formIsValid,
-    isEditMode
+    isEditMode,
+    duplicateCandidates,
+    saveAnyway,
+    linkAsSame,
+    cancelDuplicate
   };
 };
@@ -210,4 +210,11 @@ export const toastNotifications = {
       description: 'Document removed from list',
       duration: 3000,
     }),
+
+  documentTrashed: () =>
+    showToast('remove', {
+      title: 'Document Deleted',
+      description: 'Moved to Trash, where it can be restored',
+      duration: 3000,
+    }),
 }; 
\ No newline at end of file
@@ -1,9 +1,10 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode, useMemo } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabase/supabase';
-import { format, startOfMonth, endOfMonth, subMonths, startOfYear, endOfYear, startOfQuarter, endOfQuarter, isValid } from 'date-fns';
+import { format, startOfMonth, endOfMonth, subMonths, startOfYear, endOfYear, startOfQuarter, endOfQuarter } from 'date-fns';
 import { useAuth } from '@/lib/auth';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { DATE_FILTER_PARAMS, dateFilterToParams, parseDateFilter } from '@/lib/utils/date-filter';
 
 // Define filter types
 export type DateFilterType = 'month' | 'quarter' | 'year' | 'custom';
@@ -71,63 +72,37 @@ export const DashboardProvider: React.FC<DashboardProviderProps> = ({ children }
   const queryClient = useQueryClient();
   const [searchParams, setSearchParams] = useSearchParams();
 
-  const [dateFilter, setDateFilter] = useState<DateFilter>(() => {
-    const type = searchParams.get('type') as DateFilterType | null;
-    const year = parseInt(searchParams.get('year') || '', 10);
-    const month = parseInt(searchParams.get('month') || '', 10);
-    const quarter = parseInt(searchParams.get('quarter') || '', 10);
-    const from = searchParams.get('from');
-    const to = searchParams.get('to');
-
-    if (type && !isNaN(year)) {
-      if (type === 'month' && !isNaN(month)) {
-        return { type, year, month };
-      }
-      if (type === 'quarter' && !isNaN(quarter)) {
-        return { type, year, quarter };
-      }
-      if (type === 'year') {
-        return { type, year };
-      }
-      if (type === 'custom' && from && to) {
-        const fromDate = new Date(from);
-        const toDate = new Date(to);
-        if (isValid(fromDate) && isValid(toDate)) {
-          return { type, year, customRange: { from: fromDate, to: toDate } };
-        }
-      }
+  const [dateFilter, setDateFilter] = useState<DateFilter>(() => 
+    parseDateFilter(searchParams) ?? {
+      type: 'month',
+      month: new Date().getMonth(),
+      year: new Date().getFullYear(),
     }
-    // Default value
-    return {
-    type: 'month',
-    month: new Date().getMonth(),
-    year: new Date().getFullYear(),
-    };
-  });
+  );
 
   const { user, isAuthenticated } = useAuth();
   const userId = isAuthenticated && user ? user.id : undefined;
 
-  // Update URL when dateFilter changes
+  // Update URL when dateFilter changes. Other parameters (e.g. the transaction
+  // list filters) are kept.
   useEffect(() => {
-    const params = new URLSearchParams();
-    params.set('type', dateFilter.type);
-    params.set('year', dateFilter.year.toString());
-
-    if (dateFilter.month !== undefined) {
-      params.set('month', dateFilter.month.toString());
-    }
-    if (dateFilter.quarter !== undefined) {
-      params.set('quarter', dateFilter.quarter.toString());
-    }
-    if (dateFilter.customRange) {
-      params.set('from', dateFilter.customRange.from.toISOString().split('T')[0]);
-      params.set('to', dateFilter.customRange.to.toISOString().split('T')[0]);
-    }
-    
-    setSearchParams(params, { replace: true });
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      DATE_FILTER_PARAMS.forEach(key => params.delete(key));
+      dateFilterToParams(dateFilter).forEach((value, key) => params.set(key, value));
+      return params;
+    }, { replace: true });
   }, [dateFilter, setSearchParams]);
 
+  // Follow the URL when it changes under us, e.g. when a saved view link is opened
+  useEffect(() => {
+    const fromUrl = parseDateFilter(searchParams);
+    if (!fromUrl) return;
+    setDateFilter(prev =>
+      dateFilterToParams(prev).toString() === dateFilterToParams(fromUrl).toString() ? prev : fromUrl
+    );
+  }, [searchParams]);
+
   // --- Calculate Date Ranges using useMemo for stability ---
   const { startDate, endDate, prevStartDate, prevEndDate } = useMemo(() => {
     let currentStart: Date, currentEnd: Date;
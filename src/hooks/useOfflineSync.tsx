@@ -0,0 +1,42 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { transactionApi } from '@/lib/api/transactionApi';
+
+/**
+ * Replays transactions queued while offline. Runs through React Query, so it
+ * pauses while offline, runs again as soon as the connection returns and
+ * retries every minute in case requests still fail on a weak signal.
+ */
+export const useOfflineSync = (userId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  const { data, dataUpdatedAt } = useQuery({
+    queryKey: ['offlineSync', userId],
+    queryFn: () => transactionApi.syncPending(userId as string),
+    enabled: !!userId,
+    refetchOnReconnect: 'always',
+    refetchInterval: 60 * 1000,
+    retry: false,
+  });
+
+  // Show synced transactions, and what is left in the queue. Keyed on the
+  // update time because identical results keep the same data object.
+  useEffect(() => {
+    if (!data) return;
+    queryClient.invalidateQueries({ queryKey: ['pendingTransactions', userId] });
+    if (data.synced === 0) return;
+
+    console.log(`[useOfflineSync] Synced ${data.synced} offline transaction(s)`);
+    queryClient.invalidateQueries({ queryKey: ['expenses', userId] });
+    queryClient.invalidateQueries({ queryKey: ['dashboardSummary', userId] });
+    queryClient.invalidateQueries({ queryKey: ['spendingByCategory', userId] });
+    queryClient.invalidateQueries({ queryKey: ['spendingByPayment', userId] });
+    queryClient.invalidateQueries({ queryKey: ['budgetSpending'] });
+    queryClient.invalidateQueries({ queryKey: ['budgetCategorySpending'] });
+    queryClient.invalidateQueries({ queryKey: ['tags', userId] });
+    queryClient.invalidateQueries({ queryKey: ['spendingByTag', userId] });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dataUpdatedAt, queryClient, userId]);
+
+  return data;
+};
@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { recurringApi } from '@/lib/api/recurringApi';
+
+/**
+ * Posts due recurring transactions for the given user.
+ * Runs through React Query so that every page mounting Layout shares one run,
+ * repeated at most every 15 minutes.
+ */
+export const useRecurringPosting = (userId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['recurringPosting', userId],
+    queryFn: () => recurringApi.postDueOccurrences(userId as string),
+    enabled: !!userId,
+    staleTime: 15 * 60 * 1000,
+    retry: false,
+  });
+
+  // Refresh everything that shows transactions once something was posted
+  useEffect(() => {
+    if (!data || data.posted === 0) return;
+
+    console.log(`[useRecurringPosting] Posted ${data.posted} recurring transaction(s)`);
+    queryClient.invalidateQueries({ queryKey: ['expenses', userId] });
+    queryClient.invalidateQueries({ queryKey: ['dashboardSummary', userId] });
+    queryClient.invalidateQueries({ queryKey: ['spendingByCategory', userId] });
+    queryClient.invalidateQueries({ queryKey: ['spendingByPayment', userId] });
+    queryClient.invalidateQueries({ queryKey: ['budgetSpending'] });
+    queryClient.invalidateQueries({ queryKey: ['budgetCategorySpending'] });
+    queryClient.invalidateQueries({ queryKey: ['recurringTransactions', userId] });
+  }, [data, queryClient, userId]);
+
+  return data;
+};
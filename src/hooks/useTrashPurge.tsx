@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { trashApi } from '@/lib/api/trashApi';
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * Permanently deletes records that have been in the trash longer than the
+ * user's retention period. Shares one run per session through React Query,
+ * repeated at most every 6 hours.
+ */
+export const useTrashPurge = (userId: string | undefined, retentionDays: number | undefined) => {
+  const days = retentionDays || DEFAULT_RETENTION_DAYS;
+
+  const { data } = useQuery({
+    queryKey: ['trashPurge', userId, days],
+    queryFn: async () => {
+      const purged = await trashApi.purgeExpired(userId as string, days);
+      if (purged > 0) {
+        console.log(`[useTrashPurge] Purged ${purged} record(s) older than ${days} days`);
+      }
+      return purged;
+    },
+    enabled: !!userId,
+    staleTime: 6 * 60 * 60 * 1000,
+    retry: false,
+  });
+
+  return data;
+};
@@ -0,0 +1,44 @@
+/**
+ * Tables whose changes are recorded in the audit trail
+ */
+export type AuditTable = 'expense' | 'expense_item' | 'budget' | 'budget_category' | 'payment_methods' | 'documents';
+
+/**
+ * What happened to the row; 'delete' covers moving to the trash and
+ * 'restore' bringing it back
+ */
+export type AuditAction = 'insert' | 'update' | 'delete' | 'restore';
+
+/**
+ * One recorded change, written by the record_audit_log trigger
+ */
+export interface AuditLogEntry {
+  id: number;
+  user_id: string; // UUID of the data's owner
+  changed_by?: string; // UUID of who made the change; missing for background jobs
+  table_name: AuditTable;
+  record_id: string;
+  action: AuditAction;
+  old_values?: Record<string, unknown>; // Row before the change (updates and deletes)
+  new_values?: Record<string, unknown>; // Row after the change (inserts and updates)
+  changed_fields?: string[]; // Updates only
+  changed_at: string;
+}
+
+/**
+ * Audit trail filters; entity groups a parent table with its child rows
+ */
+export interface AuditLogFilters {
+  startDate: string;
+  endDate: string;
+  entity?: 'transaction' | 'budget' | 'payment_method' | 'document';
+  action?: AuditAction;
+}
+
+/**
+ * One page of audit entries and the number of matching entries
+ */
+export interface AuditLogPage {
+  rows: AuditLogEntry[];
+  total_count: number;
+}
@@ -12,11 +12,14 @@ export interface Budget {
   period: PeriodEnum;
   start_date?: string; // Date stored as string
   end_date?: string; // Date stored as string
+  rollover_enabled: boolean; // Carry leftover or overspend into the next period
+  rollover_cap?: number | null; // Largest carry either way; no limit when null
   created_by?: string; // UUID
   created_at: string;
   updated_by?: string; // UUID
   updated_at?: string;
   isdeleted: boolean;
+  deleted_at?: string; // When it was moved to the trash
   
   // For joined queries (optional)
   budget_categories?: BudgetCategory[];
@@ -29,6 +32,7 @@ export interface BudgetCategory {
   budget_id: number;
   category_id: number;
   alert_threshold?: number;
+  allocated_amount?: number | null; // Share of the budget set aside for this category
   created_by?: string; // UUID
   created_at: string;
   updated_by?: string; // UUID
@@ -50,17 +54,24 @@ export interface CreateBudgetRequest {
   period: PeriodEnum;
   start_date?: string;
   end_date?: string;
-  categories: {
-    category_id: number;
-    alert_threshold?: number;
-  }[];
+  rollover_enabled?: boolean;
+  rollover_cap?: number | null;
+  categories: BudgetCategoryInput[];
+}
+
+/**
+ * A category to put on a budget when creating or editing it
+ */
+export interface BudgetCategoryInput {
+  category_id: number;
+  alert_threshold?: number;
+  allocated_amount?: number | null;
 }
 
 /**
  * Interface for updating an existing budget
  * Contains only the fields that can be updated.
- * Note: Currently, category changes are not supported via this interface.
- *       Name is included but might not be directly editable in the form.
+ * Note: Name is included but might not be directly editable in the form.
  */
 export interface UpdateBudgetRequest {
   name?: string; // Optional, as it might not always be updated
@@ -68,7 +79,9 @@ export interface UpdateBudgetRequest {
   period?: PeriodEnum; // Optional
   start_date?: string; // Optional, if needed
   end_date?: string; // Optional, if needed
-  // We are NOT including categories here as we decided not to allow category changes during edit
+  rollover_enabled?: boolean;
+  rollover_cap?: number | null;
+  categories?: BudgetCategoryInput[]; // The full new list; left alone when omitted
 }
 
 /**
@@ -76,7 +89,8 @@ export interface UpdateBudgetRequest {
  */
 export interface BudgetWithSpending extends Budget {
   spent: number;
-  remaining: number;
+  rollover: number; // Carried in from earlier periods, negative after overspending
+  remaining: number; // amount + rollover - spent
   percentage: number;
   categories: {
     id: number;
@@ -84,4 +98,28 @@ export interface BudgetWithSpending extends Budget {
     spent: number;
     percentage: number;
   }[];
-}
\ No newline at end of file
+}
+
+/**
+ * Spending on one category line of a budget, from get_budget_category_spending_by_date
+ */
+export interface BudgetCategorySpending {
+  category_id: number;
+  category_name: string;
+  total_spent: number;
+  budget_amount: number;
+  allocated_amount: number | null;
+  percentage: number; // Of the allocation, or of the whole budget when there is none
+}
+
+/**
+ * How a budget did in one period, from get_budget_history
+ */
+export interface BudgetPeriodResult {
+  period_start: string; // YYYY-MM-DD
+  period_end: string; // YYYY-MM-DD
+  budgeted: number; // Budget amount plus the rollover
+  rollover: number; // Carried in from earlier periods; 0 without rollover
+  spent: number;
+  is_current: boolean; // The period still in progress
+}
@@ -0,0 +1,72 @@
+/**
+ * A user-defined rule that categorizes matching transactions.
+ * Every condition that is set must match; the first matching rule by
+ * priority (lowest first) wins.
+ */
+export interface CategorizationRule {
+  id: number;
+  user_id: string; // UUID
+  name: string;
+  priority: number;
+  transaction_type: 'expense' | 'income'; // Only transactions of this type are matched
+  description_contains?: string; // Case-insensitive
+  vendor_contains?: string; // Case-insensitive; the description stands in when there is no vendor
+  amount_min?: number; // Base currency, inclusive
+  amount_max?: number; // Base currency, inclusive
+  payment_method_id?: number; // Condition: paid with this method
+  set_category_id?: number; // Action for expense rules
+  set_income_category_id?: number; // Action for income rules
+  set_payment_method_id?: number; // Action: change the payment method
+  is_active: boolean;
+  created_by?: string; // UUID
+  created_at: string;
+  updated_by?: string; // UUID
+  updated_at?: string;
+  isdeleted: boolean;
+}
+
+/**
+ * Interface for saving a rule; new rules go to the end of the priority order
+ */
+export interface SaveCategorizationRuleRequest {
+  user_id: string;
+  name: string;
+  transaction_type: 'expense' | 'income';
+  description_contains?: string;
+  vendor_contains?: string;
+  amount_min?: number;
+  amount_max?: number;
+  payment_method_id?: number;
+  set_category_id?: number;
+  set_income_category_id?: number;
+  set_payment_method_id?: number;
+  is_active?: boolean;
+}
+
+/**
+ * The parts of a transaction that rules look at
+ */
+export interface RuleSubject {
+  transaction_type?: string;
+  description?: string;
+  vendor?: string; // Receipt vendor, when the transaction came from a document
+  amount?: number; // Base currency
+  payment_method_id?: number;
+}
+
+/**
+ * A change to an existing transaction found by re-running the rules
+ */
+export interface RuleChange {
+  expense_id: number;
+  date: string;
+  description?: string;
+  amount: number;
+  transaction_type: 'expense' | 'income';
+  rule_id: number;
+  rule_name: string;
+  from_category_id?: number;
+  to_category_id?: number; // Unset when the rule leaves the category alone
+  from_payment_method_id?: number;
+  to_payment_method_id?: number; // Unset when the rule leaves the payment method alone
+}
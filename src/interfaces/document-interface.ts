@@ -12,6 +12,7 @@ export interface Document {
   processing_error?: string;
   document_type?: DocumentType;
   vendor_name?: string;
+  merchant_id?: number; // Merchant the vendor was matched to
   transaction_date?: string;
   total_amount?: number;
   currency: string;
@@ -26,6 +27,24 @@ export interface Document {
   updated_by?: string;
   updated_at?: string;
   isdeleted: boolean;
+  deleted_at?: string; // When it was moved to the trash
+  lines?: DocumentLine[]; // Statement lines, only for bank statements
+}
+
+// One transaction line parsed from a bank statement
+export interface DocumentLine {
+  id: number;
+  document_id: number;
+  line_number: number;
+  transaction_date?: string;
+  description: string;
+  amount: number;
+  transaction_type: 'expense' | 'income';
+  suggested_category_id?: number;
+  suggested_category_type?: 'expense' | 'income';
+  created_expense_id?: number;
+  created_at: string;
+  isdeleted: boolean;
 }
 
 export type DocumentStatus = 
@@ -61,6 +80,7 @@ export interface DocumentProcessingResult {
   suggestedCategoryType: 'expense' | 'income';
   confidenceScore: number;
   suggestedPaymentMethodId?: number;
+  lines?: DocumentLine[]; // Set when documentType is 'bank_statement'
 }
 
 export interface CreateTransactionFromDocumentRequest {
@@ -77,4 +97,23 @@ export interface CreateTransactionFromDocumentResponse {
   expenseId?: number;
   documentId?: number;
   error?: string;
-} 
\ No newline at end of file
+}
+
+// A reviewed statement line to post as a transaction
+export interface DocumentLineSelection {
+  line_id: number;
+  date: string;
+  description: string;
+  amount: number;
+  transaction_type: 'expense' | 'income';
+  category_id: number;
+  allow_duplicate?: boolean; // Kept by the user although it looks like an existing transaction
+}
+
+export interface CreateTransactionsFromDocumentLinesResponse {
+  success: boolean;
+  documentId?: number;
+  expenseIds?: number[];
+  createdCount?: number;
+  error?: string;
+}
@@ -0,0 +1,24 @@
+/**
+ * Rate for converting one unit of a foreign currency into the base currency,
+ * effective from effective_date until the next rate for the same currency
+ */
+export interface ExchangeRate {
+  id: number;
+  user_id: string; // UUID
+  currency_code: string; // ISO 4217, e.g. "SGD"
+  rate_to_base: number;
+  effective_date: string;
+  created_at: string;
+  updated_at?: string;
+  isdeleted: boolean;
+}
+
+/**
+ * Interface for saving an exchange rate
+ */
+export interface SaveExchangeRateRequest {
+  user_id: string;
+  currency_code: string;
+  rate_to_base: number;
+  effective_date: string;
+}
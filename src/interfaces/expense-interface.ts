@@ -32,11 +32,25 @@ export interface Expense {
   updated_by?: string; // UUID
   updated_at?: string;
   isdeleted: boolean;
-  transaction_type?: 'expense' | 'income';
+  deleted_at?: string; // When it was moved to the trash
+  transaction_type?: 'expense' | 'income' | 'transfer' | 'refund';
+  transfer_to_payment_method_id?: number; // Destination of a transfer; payment_method_id is the source
+  refund_of_expense_id?: number; // Set on refunds: the expense being (partly) refunded
+  recurring_transaction_id?: number; // Set when posted from a recurring schedule
+  external_id?: string; // Statement transaction ID (OFX FITID), used to skip re-imports
+  client_request_id?: string; // UUID picked by the client before saving, so a retried save is never posted twice
+  check_number?: string; // Cheque number from the bank statement
+  tags?: string[]; // Free-form, normalized (lowercase, dash-separated)
+  currency?: string; // ISO code the transaction was made in; item amounts are always in the base currency
+  exchange_rate?: number; // Base-currency value of one unit of currency
+  original_amount?: number; // Total in the transaction currency
+  merchant_id?: number; // The merchant or payee, see merchant-interface
   
   // For joined queries (optional)
   payment_method?: PaymentMethod;
   expense_items?: ExpenseItem[];
+  refunded_amount?: number; // Total of refunds against this expense (transaction search only)
+  refund_of_description?: string; // Description of the refunded expense (transaction search only)
 }
 
 /**
@@ -47,7 +61,8 @@ export interface ExpenseItem {
   expense_id: number;
   category_id: number;
   income_category_id?: number; // Added for income transactions
-  amount: number;
+  amount: number; // Base currency
+  original_amount?: number; // In the transaction currency
   description?: string;
   created_by?: string; // UUID
   created_at: string;
@@ -69,7 +84,18 @@ export interface CreateExpenseRequest {
   description?: string;
   payment_method_id?: number;
   expense_items: CreateExpenseItemRequest[];
-  transaction_type?: 'expense' | 'income';
+  transaction_type?: 'expense' | 'income' | 'transfer' | 'refund';
+  transfer_to_payment_method_id?: number;
+  refund_of_expense_id?: number;
+  recurring_transaction_id?: number;
+  external_id?: string;
+  client_request_id?: string;
+  check_number?: string;
+  tags?: string[];
+  currency?: string;
+  exchange_rate?: number;
+  original_amount?: number;
+  merchant_id?: number;
 }
 
 /**
@@ -78,10 +104,85 @@ export interface CreateExpenseRequest {
  */
 export interface CreateExpenseItemRequest {
   category_id: number;
+  income_category_id?: number; // Used instead of category_id for income items
+  amount: number; // Base currency
+  original_amount?: number; // In the transaction currency, when it differs from the base
+  description?: string;
+}
+
+/**
+ * Changes applied to many transactions at once by the bulk actions
+ */
+export interface BulkExpenseUpdate {
+  date?: string;
+  payment_method_id?: number;
+  category_id?: number; // Only applied to expense items; income items keep their income category
+  income_category_id?: number; // Only applied to income items
+}
+
+/**
+ * A full or partial refund of an expense. The refund is booked against one of
+ * the original's expense categories so it offsets the same budget.
+ */
+export interface CreateRefundRequest {
+  date: string;
   amount: number;
+  category_id: number;
+  payment_method_id?: number;
   description?: string;
 }
 
+/**
+ * Totals for one tag over a period, from get_spending_by_tag
+ */
+export interface TagSummary {
+  tag: string;
+  expense_total: number;
+  income_total: number;
+  transaction_count: number;
+}
+
+/**
+ * Filters for the transaction list, applied by search_transactions
+ */
+export interface TransactionSearchFilters {
+  startDate: string;
+  endDate: string;
+  search?: string; // Search box text, parsed by parseTransactionQuery
+  categoryId?: number;
+  paymentMethodId?: number;
+  transactionType?: 'expense' | 'income' | 'transfer'; // 'expense' includes refunds
+  tag?: string;
+}
+
+export type TransactionQueryField = 'text' | 'amount' | 'category' | 'pm' | 'type' | 'tag' | 'before' | 'after';
+
+/**
+ * One term of a structured transaction search, e.g. amount>50 or -category:food
+ */
+export interface TransactionQueryTerm {
+  field: TransactionQueryField; // 'text' matches the transaction or item descriptions
+  op: ':' | '>' | '<' | '>=' | '<=' | '=';
+  value: string;
+  negate?: boolean;
+}
+
+/**
+ * A parsed search: every clause must match, and a clause matches when any of
+ * its terms does (terms joined by OR)
+ */
+export type TransactionQuery = TransactionQueryTerm[][];
+
+export type TransactionSort = 'date_desc' | 'date_asc' | 'amount_desc' | 'amount_asc' | 'description';
+
+/**
+ * One page of the transaction list and the number of matching transactions
+ */
+export interface TransactionPage {
+  rows: Expense[];
+  total_count: number;
+}
+
 /**
  * Interface for the expense with total amount calculated
  */
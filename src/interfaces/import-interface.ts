@@ -0,0 +1,99 @@
+import { FormErrors } from "./types/transaction";
+
+/**
+ * Target fields a CSV column can be mapped to
+ */
+export type ImportField = 'date' | 'description' | 'amount' | 'type' | 'category' | 'paymentMethod';
+
+/**
+ * Date layouts seen in bank and e-wallet exports
+ */
+export type ImportDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+/**
+ * How a CSV file's columns map onto transaction fields.
+ * Column values are header names from the file (null = not mapped).
+ */
+export interface ImportColumnMapping {
+  columns: Record<ImportField, string | null>;
+  dateFormat: ImportDateFormat;
+  // Used when no type column is mapped: negative amounts are expenses, positive are income.
+  // When true, every row is imported as an expense regardless of sign.
+  treatAllAsExpense: boolean;
+  defaultCategoryId?: number;
+  defaultIncomeCategoryId?: number;
+  defaultPaymentMethodId?: number;
+}
+
+/**
+ * Column mapping saved for a source (e.g. "Maybank current account")
+ */
+export interface ImportMapping {
+  id: number;
+  user_id: string; // UUID
+  source_name: string;
+  headers: string[]; // Header row the mapping was built for, used to recognise the source
+  mapping: ImportColumnMapping;
+  created_at: string;
+  updated_at?: string;
+  isdeleted: boolean;
+}
+
+/**
+ * Interface for saving a column mapping
+ */
+export interface SaveImportMappingRequest {
+  user_id: string;
+  source_name: string;
+  headers: string[];
+  mapping: ImportColumnMapping;
+}
+
+/**
+ * File formats the importer understands
+ */
+export type ImportFileFormat = 'csv' | 'ofx' | 'qif';
+
+/**
+ * A transaction read from an import file, before defaults and validation
+ * are applied. Amounts are signed: negative is money out.
+ */
+export interface ImportSourceRow {
+  date: Date | null;
+  description: string;
+  amount: number; // NaN when the value could not be read
+  transactionType?: 'expense' | 'income' | null; // Explicit type, otherwise taken from the sign
+  category?: string; // Category name as written in the file
+  paymentMethod?: string; // Payment method name as written in the file
+  externalId?: string; // Stable transaction ID (OFX FITID) used to skip re-imports
+  checkNumber?: string;
+}
+
+/**
+ * A parsed CSV file
+ */
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * One row of an import after mapping, as shown in the preview.
+ * Field values use the same string shapes as the transaction form.
+ */
+export interface ImportPreviewRow {
+  rowNumber: number; // 1-based line in the source file, header excluded
+  date: Date | null;
+  description: string;
+  amount: string; // Absolute amount
+  transactionType: 'expense' | 'income';
+  category: string; // Category ID (expense or income, depending on transactionType)
+  paymentMethod: string; // Payment method ID
+  externalId?: string;
+  checkNumber?: string;
+  alreadyImported?: boolean; // The same statement transaction was imported before
+  possibleDuplicate?: boolean; // Looks like a transaction that was entered another way
+  ruleName?: string; // Categorization rule that set the category or payment method
+  errors: FormErrors;
+  selected: boolean;
+}
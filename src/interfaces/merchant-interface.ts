@@ -0,0 +1,39 @@
+/**
+ * A merchant or payee. Aliases catch the other ways the same merchant
+ * appears in descriptions and receipts (e.g. "GRAB*RIDE", "GRABFOOD").
+ */
+export interface Merchant {
+  id: number;
+  user_id: string; // UUID
+  name: string;
+  aliases: string[];
+  default_category_id?: number; // Suggested for new expenses at this merchant
+  color?: string; // Logo colour as #rrggbb
+  created_by?: string; // UUID
+  created_at: string;
+  updated_by?: string; // UUID
+  updated_at?: string;
+  isdeleted: boolean;
+}
+
+/**
+ * Interface for saving a merchant
+ */
+export interface SaveMerchantRequest {
+  user_id: string;
+  name: string;
+  aliases?: string[];
+  default_category_id?: number;
+  color?: string;
+}
+
+/**
+ * Totals for one merchant over a period, from get_spending_by_merchant
+ */
+export interface MerchantSummary {
+  merchant_id: number;
+  merchant_name: string;
+  color?: string;
+  total: number; // Expenses less refunds
+  transaction_count: number;
+}
@@ -9,6 +9,7 @@ export interface PaymentMethod {
   updated_by?: string; // UUID
   updated_at?: string;
   isdeleted: boolean;
+  deleted_at?: string; // When it was moved to the trash
 }
 
 /**
@@ -0,0 +1,39 @@
+import { CreateExpenseRequest, Expense } from './expense-interface';
+
+/**
+ * pending: waiting to be sent; conflict: looks like a transaction already on
+ * the server; failed: the server rejected it
+ */
+export type PendingTransactionStatus = 'pending' | 'conflict' | 'failed';
+
+/**
+ * A transaction entered while offline, kept in IndexedDB until it is synced
+ */
+export interface PendingTransaction {
+  id: string; // UUID; saved as the expense's client_request_id so a replay never double-posts
+  user_id: string; // UUID
+  request: CreateExpenseRequest;
+  status: PendingTransactionStatus;
+  error?: string; // Why the server rejected it
+  duplicate_candidates?: Expense[]; // Similar transactions found when replaying
+  attempts: number;
+  created_at: string;
+}
+
+/**
+ * Outcome of saving a new transaction: written to the server, or queued
+ * to sync later
+ */
+export type SaveTransactionResult =
+  | { status: 'saved'; expense: Expense }
+  | { status: 'queued'; pending: PendingTransaction };
+
+/**
+ * Counts from one pass over the queue
+ */
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  remaining: number; // Still waiting, e.g. because the connection dropped again
+}
@@ -0,0 +1,67 @@
+import { PeriodEnum } from "./enums/PeriodEnum";
+import { ExpenseCategory } from "./expense-interface";
+import { PaymentMethod } from "./payment-method-interface";
+
+/**
+ * Interface for a recurring transaction schedule
+ */
+export interface RecurringTransaction {
+  id: number;
+  user_id: string; // UUID
+  description: string;
+  amount: number;
+  transaction_type: 'expense' | 'income';
+  category_id?: number;
+  income_category_id?: number;
+  payment_method_id?: number;
+  frequency: PeriodEnum;
+  interval_count: number; // e.g. 2 with WEEKLY = every two weeks
+  start_date: string; // Date stored as string (YYYY-MM-DD)
+  end_date?: string;
+  next_occurrence?: string; // Null once the schedule has ended
+  last_posted_date?: string;
+  skipped_dates: string[];
+  is_paused: boolean;
+  created_by?: string; // UUID
+  created_at: string;
+  updated_by?: string; // UUID
+  updated_at?: string;
+  isdeleted: boolean;
+  
+  // For joined queries (optional)
+  category?: ExpenseCategory;
+  payment_method?: PaymentMethod;
+}
+
+/**
+ * Interface for creating a new recurring schedule
+ * Omits auto-generated fields; next_occurrence starts at start_date
+ */
+export interface CreateRecurringTransactionRequest {
+  user_id: string;
+  description: string;
+  amount: number;
+  transaction_type: 'expense' | 'income';
+  category_id?: number;
+  income_category_id?: number;
+  payment_method_id?: number;
+  frequency: PeriodEnum;
+  interval_count?: number;
+  start_date: string;
+  end_date?: string;
+}
+
+/**
+ * Interface for updating a recurring schedule
+ * Changes only affect occurrences that have not been posted yet
+ */
+export type UpdateRecurringTransactionRequest = Partial<Omit<CreateRecurringTransactionRequest, 'user_id'>>;
+
+/**
+ * Result of posting due occurrences
+ */
+export interface PostDueOccurrencesResult {
+  posted: number;
+  skipped: number;
+  failed: number;
+}
@@ -0,0 +1,26 @@
+/**
+ * A named set of transaction list filters. The filters are stored as the
+ * list's URL query string (e.g. "type=month&year=2026&month=9&category=4").
+ */
+export interface SavedView {
+  id: number;
+  user_id: string; // UUID
+  name: string;
+  query: string;
+  is_pinned: boolean; // Shown in the sidebar
+  created_by?: string; // UUID
+  created_at: string;
+  updated_by?: string; // UUID
+  updated_at?: string;
+  isdeleted: boolean;
+}
+
+/**
+ * Interface for saving a view
+ */
+export interface SaveSavedViewRequest {
+  user_id: string;
+  name: string;
+  query: string;
+  is_pinned?: boolean;
+}
@@ -0,0 +1,16 @@
+/**
+ * Kinds of soft-deleted records shown in the trash
+ */
+export type TrashItemType = 'transaction' | 'budget' | 'document' | 'payment_method';
+
+/**
+ * A soft-deleted record as listed in the trash
+ */
+export interface TrashItem {
+  type: TrashItemType;
+  id: number;
+  label: string;
+  detail?: string; // e.g. date and amount of a transaction
+  deleted_at?: string; // Unset for rows deleted before deletion times were recorded
+  file_path?: string; // Documents only: storage object removed on purge
+}
@@ -6,10 +6,23 @@ export interface TransactionData {
   amount: string;
 }
 
+/**
+ * A single line of a split transaction as held by the form.
+ * Values are kept as strings to match the other form fields.
+ */
+export interface SplitLine {
+  category: string;
+  amount: string;
+  description: string;
+}
+
 export interface FormErrors {
   date?: string;
   category?: string;
   paymentMethod?: string;
   description?: string;
   amount?: string;
+  splitLines?: string;
+  transferTo?: string;
+  exchangeRate?: string;
 }
@@ -13,6 +13,7 @@ export interface Profile {
   user_id: string;
   display_name: string;
   avatar_url?: string;
+  trash_retention_days?: number; // Deleted records are purged after this many days
   created_at: string;
   updated_at: string;
 }
@@ -43,6 +44,7 @@ export interface ResetPasswordCredentials {
 export interface UpdateProfileData {
   display_name?: string;
   avatar_url?: string;
+  trash_retention_days?: number;
 }
 
 /**
@@ -0,0 +1,41 @@
+import { supabase } from '../supabase/supabase';
+import { AuditLogFilters, AuditLogPage, AuditTable } from '@/interfaces/audit-interface';
+
+// Tables shown for each entity filter
+const ENTITY_TABLES: Record<NonNullable<AuditLogFilters['entity']>, AuditTable[]> = {
+  transaction: ['expense', 'expense_item'],
+  budget: ['budget', 'budget_category'],
+  payment_method: ['payment_methods'],
+  document: ['documents'],
+};
+
+export const auditApi = {
+  // Get one page of a user's change history, newest first
+  getEntries: async (
+    userId: string,
+    filters: AuditLogFilters,
+    options: { limit: number; offset: number }
+  ): Promise<AuditLogPage> => {
+    let query = supabase
+      .from('audit_log')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .gte('changed_at', filters.startDate)
+      .lte('changed_at', filters.endDate);
+
+    if (filters.entity) {
+      query = query.in('table_name', ENTITY_TABLES[filters.entity]);
+    }
+    if (filters.action) {
+      query = query.eq('action', filters.action);
+    }
+
+    const { data, error, count } = await query
+      .order('changed_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) throw error;
+    return { rows: data || [], total_count: count ?? 0 };
+  }
+};
@@ -2,6 +2,9 @@ import { supabase } from '../supabase/supabase';
 import { 
   Budget, 
   BudgetCategory, 
+  BudgetCategoryInput,
+  BudgetCategorySpending,
+  BudgetPeriodResult,
   CreateBudgetRequest,
   UpdateBudgetRequest
 } from '@/interfaces/budget-interface';
@@ -21,6 +24,7 @@ export const budgetApi = {
       `)
       .eq('user_id', userId)
       .eq('isdeleted', false)
+      .eq('budget_categories.isdeleted', false) // Removed categories stay for history
       .order('created_at', { ascending: false });
     
     if (error) throw error;
@@ -44,6 +48,7 @@ export const budgetApi = {
       .eq('user_id', userId)
       .eq('period', periodLowercase)
       .eq('isdeleted', false)
+      .eq('budget_categories.isdeleted', false) // Removed categories stay for history
       .order('created_at', { ascending: false });
     
     if (error) throw error;
@@ -63,6 +68,7 @@ export const budgetApi = {
       `)
       .eq('id', id)
       .eq('isdeleted', false)
+      .eq('budget_categories.isdeleted', false) // Removed categories stay for history
       .single();
     
     if (error) throw error;
@@ -148,7 +154,9 @@ export const budgetApi = {
         amount: budget.amount,
         period: budget.period,
         start_date: formattedStartDate,
-        end_date: formattedEndDate
+        end_date: formattedEndDate,
+        rollover_enabled: budget.rollover_enabled ?? false,
+        rollover_cap: budget.rollover_cap ?? null
       };
       
       console.log(`BUDGET DEBUG [STEP 6 DATA]:`, budgetInsertData);
@@ -175,7 +183,8 @@ export const budgetApi = {
       const budgetCategories = budget.categories.map(cat => ({
         budget_id: budgetData.id,
         category_id: cat.category_id,
-        alert_threshold: cat.alert_threshold
+        alert_threshold: cat.alert_threshold,
+        allocated_amount: cat.allocated_amount ?? null
       }));
       
       console.log(`BUDGET DEBUG [STEP 7]: Inserting ${budgetCategories.length} budget categories:`, budgetCategories);
@@ -242,7 +251,9 @@ export const budgetApi = {
         amount: budget.amount,
         period: budget.period,
         start_date: budget.start_date,
-        end_date: budget.end_date
+        end_date: budget.end_date,
+        rollover_enabled: budget.rollover_enabled ?? false,
+        rollover_cap: budget.rollover_cap ?? null
       }])
       .select()
       .single();
@@ -253,7 +264,8 @@ export const budgetApi = {
     const budgetCategories = budget.categories.map(cat => ({
       budget_id: budgetData.id,
       category_id: cat.category_id,
-      alert_threshold: cat.alert_threshold
+      alert_threshold: cat.alert_threshold,
+      allocated_amount: cat.allocated_amount ?? null
     }));
     
     const { error: categoriesError } = await supabase
@@ -270,6 +282,11 @@ export const budgetApi = {
   update: async (budgetId: number, payload: UpdateBudgetRequest): Promise<Budget> => {
     console.log(`BUDGET API: Updating budget ${budgetId} with payload:`, payload);
 
+    // update_budget only knows the budget's own fields
+    if (payload.categories || payload.rollover_enabled !== undefined || payload.rollover_cap !== undefined) {
+      return budgetApi.updateWithCategories(budgetId, payload);
+    }
+
     // Prepare parameters for the RPC call, prefixing with 'p_' is a common convention
     const rpcParams: any = { // Use any temporarily for easier key deletion
       p_budget_id: budgetId,
@@ -318,8 +335,52 @@ export const budgetApi = {
     return updatedBudget as Budget;
   },
   
+  // Edit a budget together with its rollover settings and categories. Everything
+  // is applied in one transaction, so a failed step leaves the budget as it was.
+  updateWithCategories: async (budgetId: number, payload: UpdateBudgetRequest): Promise<Budget> => {
+    console.log(`BUDGET API: Updating budget ${budgetId} with categories:`, payload);
+
+    const { categories, ...changes } = payload;
+
+    // Remove undefined fields, so only the fields being edited are changed
+    Object.keys(changes).forEach(key => changes[key] === undefined && delete changes[key]);
+
+    const { data, error } = await supabase.rpc('update_budget_with_categories', {
+      p_budget_id: budgetId,
+      p_changes: changes,
+      p_categories: categories ?? null
+    });
+
+    if (error) {
+      console.error(`BUDGET API: Error updating budget ${budgetId}:`, error);
+      throw error; // Re-throw the error to be caught by useMutation's onError
+    }
+    if (!data?.success) {
+      throw new Error(data?.error || `Failed to update budget ${budgetId}`);
+    }
+
+    // Refetch so the result carries the new rollover settings and categories
+    const updatedBudget = await budgetApi.getById(budgetId);
+    if (!updatedBudget) {
+      throw new Error(`Failed to fetch budget ${budgetId} after update.`);
+    }
+    return updatedBudget;
+  },
+  
   // Add a category to a budget
   addCategory: async (budgetId: number, categoryId: number, alertThreshold?: number): Promise<void> => {
+    // A category removed earlier is brought back rather than added twice
+    const { data: restored, error: restoreError } = await supabase
+      .from('budget_category')
+      .update({ isdeleted: false, alert_threshold: alertThreshold, updated_at: new Date().toISOString() })
+      .eq('budget_id', budgetId)
+      .eq('category_id', categoryId)
+      .eq('isdeleted', true)
+      .select('budget_id');
+    
+    if (restoreError) throw restoreError;
+    if (restored && restored.length > 0) return;
+    
     const { error } = await supabase
       .from('budget_category')
       .insert([{
@@ -331,11 +392,11 @@ export const budgetApi = {
     if (error) throw error;
   },
   
-  // Remove a category from a budget
+  // Remove a category from a budget (soft delete, so its history is kept)
   removeCategory: async (budgetId: number, categoryId: number): Promise<void> => {
     const { error } = await supabase
       .from('budget_category')
-      .delete()
+      .update({ isdeleted: true, updated_at: new Date().toISOString() })
       .eq('budget_id', budgetId)
       .eq('category_id', categoryId);
     
@@ -407,6 +468,35 @@ export const budgetApi = {
     return data || 0;
   },
   
+  // Amount carried into the budget period containing the given date;
+  // always 0 unless rollover is enabled for the budget
+  getBudgetRollover: async (budgetId: number, date: string): Promise<number> => {
+    const { data, error } = await supabase.rpc('get_budget_rollover', {
+      budget_id: budgetId,
+      p_date: date
+    });
+
+    if (error) throw error;
+    return Number(data || 0);
+  },
+
+  // Budgeted vs spent for each of the budget's last `periods` periods,
+  // oldest first, ending with the current one
+  getBudgetHistory: async (budgetId: number, periods: number): Promise<BudgetPeriodResult[]> => {
+    const { data, error } = await supabase.rpc('get_budget_history', {
+      budget_id: budgetId,
+      p_periods: periods
+    });
+
+    if (error) throw error;
+    return (data || []).map((row: BudgetPeriodResult) => ({
+      ...row,
+      budgeted: Number(row.budgeted),
+      rollover: Number(row.rollover),
+      spent: Number(row.spent)
+    }));
+  },
+
   // Get budget spending breakdown by category
   getBudgetCategorySpending: async (budgetId: number): Promise<{category_name: string, category_id: number, total_spent: number}[]> => {
     const { data, error } = await supabase.rpc('get_budget_category_spending', {
@@ -418,7 +508,7 @@ export const budgetApi = {
   },
   
   // Get budget spending breakdown by category with date filter
-  getBudgetCategorySpendingByDate: async (budgetId: number, startDate: string, endDate: string): Promise<{category_name: string, category_id: number, total_spent: number, budget_amount: number, percentage: number}[]> => {
+  getBudgetCategorySpendingByDate: async (budgetId: number, startDate: string, endDate: string): Promise<BudgetCategorySpending[]> => {
     console.log(`Calling get_budget_category_spending_by_date for budget ${budgetId} from ${startDate} to ${endDate}`);
     
     const { data, error } = await supabase.rpc('get_budget_category_spending_by_date', {
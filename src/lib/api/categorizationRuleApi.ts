@@ -0,0 +1,188 @@
+import { supabase } from '../supabase/supabase';
+import {
+  CategorizationRule,
+  RuleChange,
+  SaveCategorizationRuleRequest
+} from '@/interfaces/categorization-rule-interface';
+import { expenseApi } from './expenseApi';
+import { findMatchingRule, getRuleCategoryId } from '../utils/categorization-rules';
+
+// Rows fetched per request when scanning existing transactions
+const PAGE_SIZE = 1000;
+
+interface ScannedExpense {
+  id: number;
+  date: string;
+  description?: string;
+  payment_method_id?: number;
+  transaction_type?: string;
+  expense_items: Array<{ amount: number; category_id?: number; income_category_id?: number; isdeleted: boolean }>;
+}
+
+export const categorizationRuleApi = {
+  // Get a user's rules in the order they are applied
+  getAllByUser: async (userId: string): Promise<CategorizationRule[]> => {
+    const { data, error } = await supabase
+      .from('categorization_rule')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('isdeleted', false)
+      .order('priority')
+      .order('id');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Create a rule at the end of the priority order
+  create: async (rule: SaveCategorizationRuleRequest): Promise<CategorizationRule> => {
+    const { data: last, error: lookupError } = await supabase
+      .from('categorization_rule')
+      .select('priority')
+      .eq('user_id', rule.user_id)
+      .eq('isdeleted', false)
+      .order('priority', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (lookupError) throw lookupError;
+
+    const { data, error } = await supabase
+      .from('categorization_rule')
+      .insert([{ ...rule, priority: last ? last.priority + 1 : 0 }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Update a rule's conditions, actions or active flag
+  update: async (id: number, payload: Partial<Omit<SaveCategorizationRuleRequest, 'user_id'>>): Promise<CategorizationRule> => {
+    const { data, error } = await supabase
+      .from('categorization_rule')
+      .update({ ...payload, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Store a new priority order; ruleIds lists every rule, highest priority first
+  reorder: async (ruleIds: number[]): Promise<void> => {
+    for (let index = 0; index < ruleIds.length; index++) {
+      const { error } = await supabase
+        .from('categorization_rule')
+        .update({ priority: index })
+        .eq('id', ruleIds[index]);
+
+      if (error) throw error;
+    }
+  },
+
+  // Delete a rule (soft delete). Transactions it categorized keep their category.
+  delete: async (id: number): Promise<void> => {
+    const { error } = await supabase
+      .from('categorization_rule')
+      .update({ isdeleted: true })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Run the rules over existing transactions and list what they would change,
+  // without saving anything. Transfers, refunds and split transactions are left
+  // alone since a rule sets a single category.
+  previewReapply: async (userId: string, rules: CategorizationRule[]): Promise<RuleChange[]> => {
+    const expenses: ScannedExpense[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('expense')
+        .select('id, date, description, payment_method_id, transaction_type, expense_items(amount, category_id, income_category_id, isdeleted)')
+        .eq('user_id', userId)
+        .eq('isdeleted', false)
+        .or('transaction_type.is.null,transaction_type.in.(expense,income)')
+        .order('date', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      expenses.push(...((data || []) as unknown as ScannedExpense[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    // Receipt vendors, for rules with a vendor condition
+    const { data: documents, error: documentsError } = await supabase
+      .from('documents')
+      .select('created_expense_id, vendor_name')
+      .eq('user_id', userId)
+      .not('created_expense_id', 'is', null);
+
+    if (documentsError) throw documentsError;
+    const vendors = new Map<number, string>(
+      (documents || []).map(document => [document.created_expense_id, document.vendor_name])
+    );
+
+    const changes: RuleChange[] = [];
+    for (const expense of expenses) {
+      const items = (expense.expense_items || []).filter(item => !item.isdeleted);
+      if (items.length !== 1) continue;
+
+      const item = items[0];
+      // Older rows may have no type; their income items carry an income category
+      const isIncome = expense.transaction_type === 'income' || (!expense.transaction_type && item.income_category_id != null);
+      const transactionType = isIncome ? 'income' : 'expense';
+      const rule = findMatchingRule(rules, {
+        transaction_type: transactionType,
+        description: expense.description,
+        vendor: vendors.get(expense.id),
+        amount: Number(item.amount),
+        payment_method_id: expense.payment_method_id,
+      });
+      if (!rule) continue;
+
+      const fromCategoryId = (transactionType === 'income' ? item.income_category_id : item.category_id) ?? undefined;
+      const ruleCategoryId = getRuleCategoryId(rule);
+      const toCategoryId = ruleCategoryId && ruleCategoryId !== fromCategoryId ? ruleCategoryId : undefined;
+      const toPaymentMethodId = rule.set_payment_method_id && rule.set_payment_method_id !== expense.payment_method_id
+        ? rule.set_payment_method_id
+        : undefined;
+      if (!toCategoryId && !toPaymentMethodId) continue;
+
+      changes.push({
+        expense_id: expense.id,
+        date: expense.date,
+        description: expense.description,
+        amount: Number(item.amount),
+        transaction_type: transactionType,
+        rule_id: rule.id,
+        rule_name: rule.name,
+        from_category_id: fromCategoryId,
+        to_category_id: toCategoryId,
+        from_payment_method_id: expense.payment_method_id,
+        to_payment_method_id: toPaymentMethodId,
+      });
+    }
+
+    return changes;
+  },
+
+  // Save changes from previewReapply, batching transactions that get the same update
+  applyChanges: async (changes: RuleChange[]): Promise<void> => {
+    const groups = new Map<string, RuleChange[]>();
+    changes.forEach(change => {
+      const key = `${change.transaction_type}:${change.to_category_id ?? ''}:${change.to_payment_method_id ?? ''}`;
+      groups.set(key, [...(groups.get(key) || []), change]);
+    });
+
+    for (const group of groups.values()) {
+      const { transaction_type, to_category_id, to_payment_method_id } = group[0];
+      await expenseApi.bulkUpdate(group.map(change => change.expense_id), {
+        ...(to_category_id && transaction_type === 'income' ? { income_category_id: to_category_id } : {}),
+        ...(to_category_id && transaction_type === 'expense' ? { category_id: to_category_id } : {}),
+        ...(to_payment_method_id ? { payment_method_id: to_payment_method_id } : {}),
+      });
+    }
+  }
+};
@@ -0,0 +1,79 @@
+import { supabase } from '../supabase/supabase';
+import {
+  DocumentLine,
+  DocumentLineSelection,
+  CreateTransactionsFromDocumentLinesResponse
+} from '@/interfaces/document-interface';
+
+export const documentApi = {
+  // Get the parsed lines of a bank statement document
+  getLines: async (documentId: number): Promise<DocumentLine[]> => {
+    const { data, error } = await supabase
+      .from('document_line')
+      .select('*')
+      .eq('document_id', documentId)
+      .eq('isdeleted', false)
+      .order('line_number');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Mark a document as recorded by a transaction that already exists
+  linkToExpense: async (documentId: number, expenseId: number): Promise<void> => {
+    const { error } = await supabase
+      .from('documents')
+      .update({
+        status: 'transaction_created',
+        created_expense_id: expenseId,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', documentId);
+
+    if (error) throw error;
+  },
+
+  // Move a document to the trash (soft delete)
+  delete: async (documentId: number): Promise<void> => {
+    const { error } = await supabase
+      .from('documents')
+      .update({ isdeleted: true })
+      .eq('id', documentId);
+
+    if (error) throw error;
+  },
+
+  // The transaction a document was turned into, if any
+  getCreatedExpenseId: async (documentId: number): Promise<number | null> => {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('created_expense_id')
+      .eq('id', documentId)
+      .single();
+
+    if (error) throw error;
+    return data?.created_expense_id ?? null;
+  },
+
+  // Post the selected statement lines as transactions in one batch
+  createTransactionsFromLines: async (
+    documentId: number,
+    paymentMethodId: number,
+    lines: DocumentLineSelection[]
+  ): Promise<CreateTransactionsFromDocumentLinesResponse> => {
+    const { data, error } = await supabase
+      .rpc('create_transactions_from_document_lines', {
+        p_document_id: documentId,
+        p_payment_method_id: paymentMethodId,
+        p_lines: lines
+      });
+
+    if (error) throw error;
+
+    const result = (typeof data === 'string' ? JSON.parse(data) : data) as CreateTransactionsFromDocumentLinesResponse;
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to create transactions');
+    }
+    return result;
+  }
+};
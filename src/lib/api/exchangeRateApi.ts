@@ -0,0 +1,66 @@
+import { supabase } from '../supabase/supabase';
+import { ExchangeRate, SaveExchangeRateRequest } from '@/interfaces/exchange-rate-interface';
+
+export const exchangeRateApi = {
+  // Get all of a user's rates, newest first within each currency
+  getAllByUser: async (userId: string): Promise<ExchangeRate[]> => {
+    const { data, error } = await supabase
+      .from('exchange_rate')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('isdeleted', false)
+      .order('currency_code')
+      .order('effective_date', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Save a rate, replacing the one for the same currency and date
+  save: async (request: SaveExchangeRateRequest): Promise<ExchangeRate> => {
+    const { data: existing, error: lookupError } = await supabase
+      .from('exchange_rate')
+      .select('id')
+      .eq('user_id', request.user_id)
+      .eq('currency_code', request.currency_code)
+      .eq('effective_date', request.effective_date)
+      .eq('isdeleted', false)
+      .maybeSingle();
+
+    if (lookupError) throw lookupError;
+
+    if (existing) {
+      const { data, error } = await supabase
+        .from('exchange_rate')
+        .update({
+          rate_to_base: request.rate_to_base,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', existing.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+
+    const { data, error } = await supabase
+      .from('exchange_rate')
+      .insert([request])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Delete a rate (soft delete)
+  delete: async (id: number): Promise<void> => {
+    const { error } = await supabase
+      .from('exchange_rate')
+      .update({ isdeleted: true })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+};
@@ -5,14 +5,19 @@ import {
   ExpenseCategory,
   CreateExpenseRequest,
   CreateExpenseItemRequest,
-  ExpenseWithTotal
+  ExpenseWithTotal,
+  BulkExpenseUpdate,
+  CreateRefundRequest,
+  TagSummary,
+  TransactionPage,
+  TransactionSearchFilters,
+  TransactionSort
 } from '@/interfaces/expense-interface';
 import { PaymentMethod } from '@/interfaces/payment-method-interface';
 import { 
   groupItemsByExpenseId, 
   groupPaymentMethodsById, 
   combineExpensesWithItems, 
-  countTotalItems,
   buildBaseExpenseQuery,
   handleSupabaseError,
   loadExpensesWithRelations,
@@ -21,12 +26,23 @@ import {
   createExpenseItemFromRequest,
   updateExpenseItems
 } from '../utils/expense-helpers';
+import {
+  DuplicateCheckInput,
+  DuplicateTransactionError,
+  findDuplicateCandidates,
+  getDuplicateSearchRange
+} from '../utils/duplicate-detection';
+import { BASE_CURRENCY } from '../utils/currency';
+import { parseTransactionQuery } from '../utils/transaction-query';
 import { PostgrestResponse, PostgrestError } from '@supabase/supabase-js';
 
 // Constants for timeouts
 const TIMEOUT_DEFAULT = 8000; // Default timeout of 8 seconds
 const TIMEOUT_LONG = 12000;   // Longer timeout for complex operations
 
+// Maximum IDs per .in() filter, to keep request URLs short
+const ID_CHUNK_SIZE = 100;
+
 // Type to help with the Supabase query responses
 interface SupabaseResponse<T> {
   data: T | null;
@@ -63,6 +79,18 @@ const withTimeout = async <T>(
   }
 };
 
+// Maps list filters to the parameters of filter_transactions / search_transactions
+const toSearchParams = (userId: string, filters: TransactionSearchFilters) => ({
+  p_user_id: userId,
+  p_start_date: filters.startDate,
+  p_end_date: filters.endDate,
+  p_query: parseTransactionQuery(filters.search),
+  p_category_id: filters.categoryId ?? null,
+  p_payment_method_id: filters.paymentMethodId ?? null,
+  p_transaction_type: filters.transactionType ?? null,
+  p_tag: filters.tag ?? null
+});
+
 // Helper function for consistent timestamp logging
 const logWithTimestamp = (message: string, data?: any) => {
   const timestamp = new Date().toISOString();
@@ -74,154 +102,83 @@ const logWithTimestamp = (message: string, data?: any) => {
 };
 
 export const expenseApi = {
-  // Get all expenses for a user with pagination and filters
-  getAllByUser: async (
-    userId: string, 
-    options?: {
-      limit?: number;
-      offset?: number;
-      startDate?: string;
-      endDate?: string;
-      categoryId?: number;
-      paymentMethodId?: number;
+  // Get one page of a user's transactions, filtered and sorted by the
+  // search_transactions RPC, with the number of matching transactions
+  search: async (
+    userId: string,
+    filters: TransactionSearchFilters,
+    options: { sort?: TransactionSort; limit: number; offset: number }
+  ): Promise<TransactionPage> => {
+    logWithTimestamp(`[expenseApi:search] Fetching transactions for user ${userId}`, { ...filters, ...options });
+    
+    const { data, error } = await withTimeout<TransactionPage>(
+      supabase.rpc('search_transactions', {
+        ...toSearchParams(userId, filters),
+        p_sort: options.sort || 'date_desc',
+        p_limit: options.limit,
+        p_offset: options.offset
+      }),
+      TIMEOUT_LONG,
+      'Fetching transactions timed out'
+    );
+    
+    if (error) {
+      return handleSupabaseError(error, "fetching transactions");
     }
-  ): Promise<Expense[]> => {
-    console.log(`💡 DIAGNOSTIC API: expenseApi.getAllByUser start - user ${userId} with options:`, {
-      ...options,
-      startDate: options?.startDate,
-      endDate: options?.endDate,
-      current_time: new Date().toISOString()
-    });
     
-    try {
-      // Use the helper function to build our base query
-      console.log(`💡 DIAGNOSTIC API: About to call buildBaseExpenseQuery with:`, {
-        userId,
-        options,
-        startDateType: options?.startDate ? typeof options.startDate : 'undefined',
-        endDateType: options?.endDate ? typeof options.endDate : 'undefined'
-      });
-      
-      // SPECIAL DEBUG: Try to directly fetch expense ID 52 to see if it exists
-      console.log("🔍 TARGETED DEBUG: Directly checking if expense ID 52 exists...");
-      const { data: targetExpense, error: targetError } = await supabase
-        .from('expense')
-        .select('*, expense_items(*)')
-        .eq('id', 52)
-        .single();
-        
-      if (targetError) {
-        console.warn("🔍 TARGETED DEBUG: Error fetching expense ID 52:", targetError.message);
-      } else if (targetExpense) {
-        console.log("🔍 TARGETED DEBUG: Found expense ID 52 directly:", {
-          id: targetExpense.id,
-          user_id: targetExpense.user_id,
-          date: targetExpense.date,
-          formattedDate: new Date(targetExpense.date).toLocaleString(),
-          payment_method_id: targetExpense.payment_method_id,
-          itemCount: targetExpense.expense_items?.length || 0,
-          wouldMatchCurrentUser: targetExpense.user_id === userId,
-          dateCheck: options?.startDate && options?.endDate ? {
-            startDate: options.startDate,
-            endDate: options.endDate,
-            expenseDate: targetExpense.date,
-            isInRange: new Date(targetExpense.date) >= new Date(options.startDate) && 
-                       new Date(targetExpense.date) <= new Date(options.endDate)
-          } : 'No date filters provided'
-        });
-      } else {
-        console.warn("🔍 TARGETED DEBUG: Expense ID 52 NOT FOUND in database!");
-      }
-      
-      const expenseQuery = buildBaseExpenseQuery(userId, options);
-      
-      console.log(`💡 DIAGNOSTIC API: Query built, about to execute it`);
-      
-      // Get the expense records with timeout protection
-      const { data: expenses, error: expenseError } = await withTimeout<Expense[]>(
-        expenseQuery,
+    return {
+      rows: (data?.rows || []).map(expense => ({
+        ...expense,
+        refunded_amount: Number(expense.refunded_amount || 0)
+      })),
+      total_count: Number(data?.total_count || 0)
+    };
+  },
+  
+  // IDs and types of every transaction matching the filters, for "select all"
+  getMatchingIds: async (
+    userId: string,
+    filters: TransactionSearchFilters
+  ): Promise<Array<{ id: number; transaction_type: Expense['transaction_type'] }>> => {
+    const { data, error } = await withTimeout<Array<{ id: number; transaction_type: Expense['transaction_type'] }>>(
+      supabase
+        .rpc('filter_transactions', toSearchParams(userId, filters))
+        .select('id, transaction_type'),
+      TIMEOUT_LONG,
+      'Fetching matching transactions timed out'
+    );
+    
+    if (error) {
+      return handleSupabaseError(error, "fetching matching transactions");
+    }
+    
+    return data || [];
+  },
+  
+  // Get several expenses with their items and payment methods, newest first
+  getByIds: async (ids: number[]): Promise<Expense[]> => {
+    const expenses: Expense[] = [];
+    
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+      const { data, error } = await withTimeout<Expense[]>(
+        supabase
+          .from('expense')
+          .select('*')
+          .in('id', ids.slice(i, i + ID_CHUNK_SIZE))
+          .eq('isdeleted', false),
         TIMEOUT_DEFAULT,
-        'Fetching expenses timed out'
+        'Fetching transactions timed out'
       );
       
-      console.log(`💡 DIAGNOSTIC API: Query executed, result status:`, {
-        success: !expenseError,
-        errorMessage: expenseError?.message,
-        resultCount: expenses?.length || 0
-      });
-      
-      if (expenseError) {
-        console.error('💡 DIAGNOSTIC API: Error fetching expenses:', expenseError);
-        return handleSupabaseError(expenseError, "fetching expenses");
-      }
-      
-      if (!expenses || expenses.length === 0) {
-        console.log(`💡 DIAGNOSTIC API: No expenses found for user: ${userId} with filters:`, {
-          startDate: options?.startDate,
-          endDate: options?.endDate
-        });
-        return [];
-      }
-      
-      // TARGETED DEBUG: Check if expense ID 52 is in the results from the normal query
-      const hasTarget = expenses.some(e => e.id === 52);
-      console.log(`🔍 TARGETED DEBUG: Expense ID 52 ${hasTarget ? 'IS' : 'IS NOT'} in the query results`);
-      if (!hasTarget && targetExpense) {
-        console.warn("🔍 TARGETED DEBUG: Expense ID 52 exists but was filtered out by the query. Likely reasons:", {
-          differentUserId: targetExpense.user_id !== userId,
-          outsideDateRange: options?.startDate && options?.endDate ? 
-            !(new Date(targetExpense.date) >= new Date(options.startDate) && 
-              new Date(targetExpense.date) <= new Date(options.endDate)) : 
-            false,
-          isDeleted: targetExpense.isdeleted === true
-        });
-      }
-      
-      console.log(`💡 DIAGNOSTIC API: Found ${expenses.length} raw expenses before loading relations`);
-      if (expenses.length > 0) {
-        // Log the date range of the first few expenses
-        expenses.slice(0, 3).forEach((expense, i) => {
-          console.log(`💡 DIAGNOSTIC API: Expense[${i}] ID=${expense.id}, date=${expense.date}, formatted=${new Date(expense.date).toLocaleString()}`);
-        });
-      }
-      
-      // Load expenses with their related items and payment methods
-      console.time('💡 DIAGNOSTIC API: loadExpensesWithRelations duration');
-      const result = await loadExpensesWithRelations(expenses);
-      console.timeEnd('💡 DIAGNOSTIC API: loadExpensesWithRelations duration');
-      
-      // Log how many expense items we found
-      const itemCount = countTotalItems(result);
-      console.log(`💡 DIAGNOSTIC API: Found ${result.length} expenses with ${itemCount} total expense items`);
-      
-      // Check if any expenses have no items
-      const expensesWithNoItems = result.filter(e => !e.expense_items || e.expense_items.length === 0);
-      if (expensesWithNoItems.length > 0) {
-        console.warn(`💡 DIAGNOSTIC API: Found ${expensesWithNoItems.length} expenses with no items!`);
-        expensesWithNoItems.forEach((e, i) => {
-          if (i < 3) { // Just log the first 3 to avoid console spam
-            console.warn(`💡 DIAGNOSTIC API: Expense with no items: ID=${e.id}, date=${e.date}, type=${e.transaction_type}`);
-          }
-        });
+      if (error) {
+        return handleSupabaseError(error, "fetching transactions");
       }
       
-      // Log transaction types distribution
-      const expenseCount = result.filter(e => e.transaction_type === 'expense').length;
-      const incomeCount = result.filter(e => e.transaction_type === 'income').length;
-      const unknownCount = result.filter(e => !e.transaction_type).length;
-      
-      console.log(`💡 DIAGNOSTIC API: Transaction type distribution:`, {
-        expense: expenseCount,
-        income: incomeCount,
-        unknown: unknownCount,
-        total: result.length
-      });
-      
-      return result;
-    } catch (error) {
-      console.error(`💡 DIAGNOSTIC API: Error in getAllByUser:`, error);
-      throw error;
+      expenses.push(...(data || []));
     }
+    
+    const result = await loadExpensesWithRelations(expenses);
+    return result.sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id);
   },
   
   // Get recent expenses for a user
@@ -293,45 +250,245 @@ export const expenseApi = {
     }
   },
   
-  // Create new expense with items
-  create: async (expense: CreateExpenseRequest): Promise<Expense> => {
+  // Create new expense with items. Throws DuplicateTransactionError when a
+  // likely duplicate exists, unless skipDuplicateCheck is set.
+  create: async (
+    expense: CreateExpenseRequest,
+    options?: { skipDuplicateCheck?: boolean }
+  ): Promise<Expense> => {
     logWithTimestamp(`[expenseApi:create] Creating new transaction`, expense);
     
     try {
-      // First create the expense with timeout protection
-      const expensePromise = supabase
-        .from('expense')
-        .insert([{
-          user_id: expense.user_id,
+      if (!options?.skipDuplicateCheck) {
+        const candidates = await expenseApi.findDuplicates(expense.user_id, {
           date: expense.date,
+          amount: expense.expense_items.reduce((sum, item) => sum + Number(item.amount || 0), 0),
           description: expense.description,
           payment_method_id: expense.payment_method_id,
           transaction_type: expense.transaction_type || 'expense'
-        }])
-        .select()
-        .single();
+        });
+        
+        if (candidates.length > 0) {
+          logWithTimestamp(`[expenseApi:create] Found ${candidates.length} possible duplicates`);
+          throw new DuplicateTransactionError(candidates);
+        }
+      }
       
-      const { data: expenseData, error: expenseError } = await withTimeout<Expense>(
-        expensePromise,
+      // Header and items are saved in one database transaction, so a lost
+      // connection can't leave a transaction without its items
+      const isIncome = expense.transaction_type === 'income';
+      const createPromise = supabase.rpc('create_expense_with_items', {
+        p_expense: {
+          user_id: expense.user_id,
+          date: expense.date,
+          description: expense.description,
+          payment_method_id: expense.payment_method_id,
+          transaction_type: expense.transaction_type || 'expense',
+          transfer_to_payment_method_id: expense.transfer_to_payment_method_id,
+          refund_of_expense_id: expense.refund_of_expense_id,
+          recurring_transaction_id: expense.recurring_transaction_id,
+          external_id: expense.external_id,
+          client_request_id: expense.client_request_id,
+          check_number: expense.check_number,
+          tags: expense.tags || [],
+          currency: expense.currency || BASE_CURRENCY,
+          exchange_rate: expense.exchange_rate || 1,
+          original_amount: expense.original_amount,
+          merchant_id: expense.merchant_id
+        },
+        p_items: expense.expense_items.map(item => createExpenseItemFromRequest(undefined, item, isIncome))
+      });
+      
+      const { data: expenseId, error: createError } = await withTimeout<number>(
+        createPromise,
         TIMEOUT_DEFAULT,
         'Creating expense record timed out'
       );
       
-      if (expenseError) {
-        return handleSupabaseError(expenseError, "creating expense");
+      if (createError) {
+        return handleSupabaseError(createError, "creating expense");
       }
       
-      if (!expenseData) {
+      if (!expenseId) {
         throw new Error("Failed to create expense - no data returned");
       }
       
-      // Then create the expense items with timeout protection
-      const isIncome = expense.transaction_type === 'income';
-      const expenseItems = expense.expense_items.map(item => 
-        createExpenseItemFromRequest(expenseData.id, item, isIncome)
+      // Return the created expense with items
+      logWithTimestamp(`[expenseApi:create] Successfully created expense ID ${expenseId}`);
+      return await expenseApi.getById(expenseId) as Expense;
+    } catch (error) {
+      console.error("[expenseApi:create] Error creating expense:", error);
+      throw error;
+    }
+  },
+  
+  // Total already refunded against an expense, optionally leaving out one refund (when editing it)
+  getRefundedTotal: async (expenseId: number, excludeRefundId?: number): Promise<number> => {
+    const { data: refunds, error } = await withTimeout<Expense[]>(
+      supabase
+        .from('expense')
+        .select('id')
+        .eq('refund_of_expense_id', expenseId)
+        .eq('isdeleted', false),
+      TIMEOUT_DEFAULT,
+      'Fetching refunds timed out'
+    );
+    
+    if (error) {
+      return handleSupabaseError(error, "fetching refunds");
+    }
+    
+    const refundIds = (refunds || []).map(refund => refund.id).filter(id => id !== excludeRefundId);
+    if (refundIds.length === 0) return 0;
+    
+    const items = await fetchExpenseItems(refundIds);
+    return (items || []).reduce((sum, item) => sum + Number(item.amount), 0);
+  },
+  
+  // Record a full or partial refund of an expense. Refunds can't add up to more
+  // than the original amount.
+  createRefund: async (original: Expense, refund: CreateRefundRequest): Promise<Expense> => {
+    logWithTimestamp(`[expenseApi:createRefund] Refunding ${refund.amount} of expense ID ${original.id}`);
+    
+    if ((original.transaction_type || 'expense') !== 'expense') {
+      throw new Error("Only expenses can be refunded");
+    }
+    
+    const originalTotal = (original.expense_items || []).reduce((sum, item) => sum + Number(item.amount), 0);
+    const refunded = await expenseApi.getRefundedTotal(original.id);
+    
+    if (refund.amount > originalTotal - refunded + 0.005) {
+      throw new Error(`Refund exceeds the ${(originalTotal - refunded).toFixed(2)} left to refund`);
+    }
+    
+    const description = refund.description || `Refund: ${original.description || 'transaction'}`;
+    
+    return await expenseApi.create({
+      user_id: original.user_id,
+      date: refund.date,
+      description,
+      payment_method_id: refund.payment_method_id ?? original.payment_method_id,
+      transaction_type: 'refund',
+      refund_of_expense_id: original.id,
+      merchant_id: original.merchant_id,
+      tags: original.tags || [],
+      expense_items: [{
+        category_id: refund.category_id,
+        amount: refund.amount,
+        description
+      }]
+    }, { skipDuplicateCheck: true });
+  },
+  
+  // Record the currency a single-item transaction was paid in, for transactions
+  // created elsewhere (e.g. from a document) with the amount already converted
+  setOriginalCurrency: async (id: number, currency: string, exchangeRate: number, originalAmount: number): Promise<void> => {
+    logWithTimestamp(`[expenseApi:setOriginalCurrency] Expense ${id} paid in ${currency} at ${exchangeRate}`);
+    
+    const { error: expenseError } = await withTimeout(
+      supabase
+        .from('expense')
+        .update({ currency, exchange_rate: exchangeRate, original_amount: originalAmount })
+        .eq('id', id),
+      TIMEOUT_DEFAULT,
+      'Updating expense currency timed out'
+    );
+    
+    if (expenseError) {
+      return handleSupabaseError(expenseError, "updating expense currency");
+    }
+    
+    const { error: itemsError } = await withTimeout(
+      supabase
+        .from('expense_item')
+        .update({ original_amount: originalAmount })
+        .eq('expense_id', id)
+        .eq('isdeleted', false),
+      TIMEOUT_DEFAULT,
+      'Updating expense item currency timed out'
+    );
+    
+    if (itemsError) {
+      return handleSupabaseError(itemsError, "updating expense item currency");
+    }
+  },
+  
+  // Get transactions in a date range with their items, for duplicate checks
+  getForDuplicateCheck: async (userId: string, startDate: string, endDate: string): Promise<Expense[]> => {
+    const { data: expenses, error } = await withTimeout<Expense[]>(
+      buildBaseExpenseQuery(userId, { startDate, endDate }),
+      TIMEOUT_DEFAULT,
+      'Fetching transactions for duplicate check timed out'
+    );
+    
+    if (error) {
+      return handleSupabaseError(error, "fetching transactions for duplicate check");
+    }
+    
+    return expenses && expenses.length > 0 ? await loadExpensesWithRelations(expenses) : [];
+  },
+  
+  // Find existing transactions that look like the same real-world transaction
+  findDuplicates: async (userId: string, input: DuplicateCheckInput, excludeExpenseId?: number): Promise<Expense[]> => {
+    const { startDate, endDate } = getDuplicateSearchRange(input.date);
+    const expenses = await expenseApi.getForDuplicateCheck(userId, startDate, endDate);
+    
+    return findDuplicateCandidates(
+      input,
+      expenses.filter(expense => expense.id !== excludeExpenseId)
+    );
+  },
+  
+  // Create many transactions at once (used by imports). Headers are inserted in
+  // one call and their items in a second, so a large import is two round trips.
+  createMany: async (expenses: CreateExpenseRequest[]): Promise<Expense[]> => {
+    logWithTimestamp(`[expenseApi:createMany] Creating ${expenses.length} transactions`);
+    
+    if (expenses.length === 0) return [];
+    
+    try {
+      const expensesPromise = supabase
+        .from('expense')
+        .insert(expenses.map(expense => ({
+          user_id: expense.user_id,
+          date: expense.date,
+          description: expense.description,
+          payment_method_id: expense.payment_method_id,
+          transaction_type: expense.transaction_type || 'expense',
+          transfer_to_payment_method_id: expense.transfer_to_payment_method_id,
+          refund_of_expense_id: expense.refund_of_expense_id,
+          recurring_transaction_id: expense.recurring_transaction_id,
+          external_id: expense.external_id,
+          check_number: expense.check_number,
+          tags: expense.tags || [],
+          currency: expense.currency || BASE_CURRENCY,
+          exchange_rate: expense.exchange_rate || 1,
+          original_amount: expense.original_amount,
+          merchant_id: expense.merchant_id
+        })))
+        .select();
+      
+      const { data: expenseRows, error: expenseError } = await withTimeout<Expense[]>(
+        expensesPromise,
+        TIMEOUT_LONG,
+        'Creating expense records timed out'
       );
       
-      logWithTimestamp(`[expenseApi:create] Creating expense items for ID ${expenseData.id}`, expenseItems);
+      if (expenseError) {
+        return handleSupabaseError(expenseError, "creating expenses");
+      }
+      
+      if (!expenseRows || expenseRows.length !== expenses.length) {
+        throw new Error("Failed to create expenses - unexpected number of rows returned");
+      }
+      
+      // Rows come back in insert order, so items are matched by position
+      const expenseItems = expenseRows.flatMap((row, index) => {
+        const isIncome = expenses[index].transaction_type === 'income';
+        return expenses[index].expense_items.map(item =>
+          createExpenseItemFromRequest(row.id, item, isIncome)
+        );
+      });
       
       const itemsPromise = supabase
         .from('expense_item')
@@ -339,23 +496,74 @@ export const expenseApi = {
       
       const { error: itemsError } = await withTimeout<ExpenseItem[]>(
         itemsPromise,
-        TIMEOUT_DEFAULT,
+        TIMEOUT_LONG,
         'Creating expense items timed out'
       );
       
       if (itemsError) {
+        // Don't leave headers without items behind
+        await supabase
+          .from('expense')
+          .update({ isdeleted: true })
+          .in('id', expenseRows.map(row => row.id));
         return handleSupabaseError(itemsError, "creating expense items");
       }
       
-      // Return the created expense with items
-      logWithTimestamp(`[expenseApi:create] Successfully created expense ID ${expenseData.id}`);
-      return await expenseApi.getById(expenseData.id) as Expense;
+      logWithTimestamp(`[expenseApi:createMany] Successfully created ${expenseRows.length} transactions`);
+      return expenseRows;
     } catch (error) {
-      console.error("[expenseApi:create] Error creating expense:", error);
+      console.error("[expenseApi:createMany] Error creating expenses:", error);
       throw error;
     }
   },
   
+  // Whether a transaction saved under the given client request ID exists
+  isRequestSaved: async (userId: string, clientRequestId: string): Promise<boolean> => {
+    const { data, error } = await withTimeout<Array<{ id: number }>>(
+      supabase
+        .from('expense')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('client_request_id', clientRequestId)
+        .limit(1),
+      TIMEOUT_DEFAULT,
+      'Checking saved transactions timed out'
+    );
+    
+    if (error) {
+      return handleSupabaseError(error, "checking saved transactions");
+    }
+    
+    return (data || []).length > 0;
+  },
+  
+  // Returns which of the given statement transaction IDs were already imported
+  getImportedExternalIds: async (userId: string, externalIds: string[]): Promise<Set<string>> => {
+    const imported = new Set<string>();
+    
+    for (let i = 0; i < externalIds.length; i += ID_CHUNK_SIZE) {
+      const chunk = externalIds.slice(i, i + ID_CHUNK_SIZE);
+      const { data, error } = await withTimeout<Array<{ external_id: string }>>(
+        supabase
+          .from('expense')
+          .select('external_id')
+          .eq('user_id', userId)
+          .eq('isdeleted', false)
+          .in('external_id', chunk),
+        TIMEOUT_DEFAULT,
+        'Checking imported transactions timed out'
+      );
+      
+      if (error) {
+        return handleSupabaseError(error, "checking imported transactions");
+      }
+      
+      (data || []).forEach(row => imported.add(row.external_id));
+    }
+    
+    return imported;
+  },
+  
   // Update expense
   update: async (id: number, expense: Partial<Expense>): Promise<Expense> => {
     // We need to handle expense_items separately
@@ -445,6 +653,101 @@ export const expenseApi = {
     }
   },
   
+  // Apply the same changes to many transactions. Header fields and the
+  // category are each one update per chunk of IDs, not one call per transaction.
+  bulkUpdate: async (ids: number[], changes: BulkExpenseUpdate): Promise<void> => {
+    logWithTimestamp(`[expenseApi:bulkUpdate] Updating ${ids.length} transactions`, changes);
+    
+    const { category_id, income_category_id, ...headerChanges } = changes;
+    
+    try {
+      for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+        const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+        
+        if (Object.keys(headerChanges).length > 0) {
+          const { error } = await withTimeout<Expense[]>(
+            supabase
+              .from('expense')
+              .update(headerChanges)
+              .in('id', chunk),
+            TIMEOUT_LONG,
+            'Updating transactions timed out'
+          );
+          
+          if (error) {
+            return handleSupabaseError(error, "updating transactions");
+          }
+        }
+        
+        if (category_id) {
+          const { error } = await withTimeout<ExpenseItem[]>(
+            supabase
+              .from('expense_item')
+              .update({ category_id })
+              .in('expense_id', chunk)
+              .is('income_category_id', null)
+              .eq('isdeleted', false),
+            TIMEOUT_LONG,
+            'Updating transaction categories timed out'
+          );
+          
+          if (error) {
+            return handleSupabaseError(error, "updating transaction categories");
+          }
+        }
+        
+        if (income_category_id) {
+          const { error } = await withTimeout<ExpenseItem[]>(
+            supabase
+              .from('expense_item')
+              .update({ income_category_id })
+              .in('expense_id', chunk)
+              .not('income_category_id', 'is', null)
+              .eq('isdeleted', false),
+            TIMEOUT_LONG,
+            'Updating transaction categories timed out'
+          );
+          
+          if (error) {
+            return handleSupabaseError(error, "updating transaction categories");
+          }
+        }
+      }
+      
+      logWithTimestamp(`[expenseApi:bulkUpdate] Successfully updated ${ids.length} transactions`);
+    } catch (error) {
+      console.error("[expenseApi:bulkUpdate] Error updating transactions:", error);
+      throw error;
+    }
+  },
+  
+  // Soft delete many transactions at once
+  bulkDelete: async (ids: number[]): Promise<void> => {
+    logWithTimestamp(`[expenseApi:bulkDelete] Soft deleting ${ids.length} transactions`);
+    
+    try {
+      for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+        const { error } = await withTimeout<{ isdeleted: boolean }>(
+          supabase
+            .from('expense')
+            .update({ isdeleted: true })
+            .in('id', ids.slice(i, i + ID_CHUNK_SIZE)),
+          TIMEOUT_LONG,
+          'Deleting transactions timed out'
+        );
+        
+        if (error) {
+          return handleSupabaseError(error, "deleting transactions");
+        }
+      }
+      
+      logWithTimestamp(`[expenseApi:bulkDelete] Successfully deleted ${ids.length} transactions`);
+    } catch (error) {
+      console.error("[expenseApi:bulkDelete] Error deleting transactions:", error);
+      throw error;
+    }
+  },
+  
   // Add a new expense item to an existing expense
   addExpenseItem: async (expenseId: number, item: CreateExpenseItemRequest): Promise<void> => {
     logWithTimestamp(`[expenseApi:addExpenseItem] Adding item to expense ID ${expenseId}`, item);
@@ -591,6 +894,56 @@ export const expenseApi = {
     }
   },
   
+  // Get the tags the user has used, most used first
+  getUserTags: async (userId: string): Promise<string[]> => {
+    const { data, error } = await withTimeout<Array<{ tag: string; usage_count: number }>>(
+      supabase.rpc('get_user_tags', { p_user_id: userId }),
+      TIMEOUT_DEFAULT,
+      'Fetching tags timed out'
+    );
+    
+    if (error) {
+      return handleSupabaseError(error, "fetching tags");
+    }
+    
+    return (data || []).map(row => row.tag);
+  },
+  
+  // Get expense and income totals per tag for a time period
+  getSummaryByTag: async (
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<TagSummary[]> => {
+    logWithTimestamp(`[expenseApi:getSummaryByTag] Fetching tag summary for user ${userId} from ${startDate} to ${endDate}`);
+    
+    try {
+      const { data, error } = await withTimeout<TagSummary[]>(
+        supabase.rpc('get_spending_by_tag', {
+          p_user_id: userId,
+          p_start_date: startDate,
+          p_end_date: endDate
+        }),
+        TIMEOUT_LONG, // Use longer timeout for aggregate RPC functions
+        'Fetching spending by tag timed out'
+      );
+      
+      if (error) {
+        return handleSupabaseError(error, "fetching spending by tag");
+      }
+      
+      return (data || []).map(row => ({
+        tag: row.tag,
+        expense_total: Number(row.expense_total || 0),
+        income_total: Number(row.income_total || 0),
+        transaction_count: Number(row.transaction_count)
+      }));
+    } catch (error) {
+      console.error(`[expenseApi:getSummaryByTag] Error fetching tag summary:`, error);
+      throw error;
+    }
+  },
+  
   // Get expense summary by payment method for a time period
   getSummaryByPaymentMethod: async (
     userId: string, 
@@ -0,0 +1,66 @@
+import { supabase } from '../supabase/supabase';
+import { ImportMapping, SaveImportMappingRequest } from '@/interfaces/import-interface';
+
+export const importMappingApi = {
+  // Get all saved column mappings for a user
+  getAllByUser: async (userId: string): Promise<ImportMapping[]> => {
+    const { data, error } = await supabase
+      .from('import_mapping')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('isdeleted', false)
+      .order('source_name');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Save a mapping for a source, replacing the existing one with the same name
+  save: async (request: SaveImportMappingRequest): Promise<ImportMapping> => {
+    const { data: existing, error: lookupError } = await supabase
+      .from('import_mapping')
+      .select('id')
+      .eq('user_id', request.user_id)
+      .eq('isdeleted', false)
+      .eq('source_key', request.source_name.toLowerCase())
+      .maybeSingle();
+
+    if (lookupError) throw lookupError;
+
+    if (existing) {
+      const { data, error } = await supabase
+        .from('import_mapping')
+        .update({
+          source_name: request.source_name,
+          headers: request.headers,
+          mapping: request.mapping,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', existing.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+
+    const { data, error } = await supabase
+      .from('import_mapping')
+      .insert([request])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Delete a saved mapping (soft delete)
+  delete: async (id: number): Promise<void> => {
+    const { error } = await supabase
+      .from('import_mapping')
+      .update({ isdeleted: true })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+};
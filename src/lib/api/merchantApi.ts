@@ -0,0 +1,170 @@
+import { supabase } from '../supabase/supabase';
+import { Merchant, MerchantSummary, SaveMerchantRequest } from '@/interfaces/merchant-interface';
+import { cleanMerchantName, findMerchant, getMerchantColor } from '../utils/merchants';
+
+// Rows fetched per request when scanning existing transactions
+const PAGE_SIZE = 1000;
+// Ids per update when linking transactions, to keep the request URL short
+const ID_CHUNK_SIZE = 100;
+
+export const merchantApi = {
+  // Get a user's merchants, alphabetically
+  getAllByUser: async (userId: string): Promise<Merchant[]> => {
+    const { data, error } = await supabase
+      .from('merchant')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('isdeleted', false)
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Create a merchant, giving it a colour if none was picked
+  create: async (merchant: SaveMerchantRequest): Promise<Merchant> => {
+    const { data, error } = await supabase
+      .from('merchant')
+      .insert([{ ...merchant, color: merchant.color || getMerchantColor(merchant) }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Update a merchant's name, aliases, default category or colour
+  update: async (id: number, payload: Partial<Omit<SaveMerchantRequest, 'user_id'>>): Promise<Merchant> => {
+    const { data, error } = await supabase
+      .from('merchant')
+      .update({ ...payload, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Delete a merchant (soft delete) and unlink its transactions and documents
+  delete: async (id: number): Promise<void> => {
+    const { error: expenseError } = await supabase
+      .from('expense')
+      .update({ merchant_id: null })
+      .eq('merchant_id', id);
+
+    if (expenseError) throw expenseError;
+
+    const { error: documentError } = await supabase
+      .from('documents')
+      .update({ merchant_id: null })
+      .eq('merchant_id', id);
+
+    if (documentError) throw documentError;
+
+    const { error } = await supabase
+      .from('merchant')
+      .update({ isdeleted: true })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // The merchant a vendor name belongs to, creating one when nothing matches
+  findOrCreate: async (userId: string, vendorName: string): Promise<Merchant | undefined> => {
+    const name = cleanMerchantName(vendorName);
+    if (!name) return undefined;
+
+    const merchants = await merchantApi.getAllByUser(userId);
+    const existing = findMerchant(merchants, vendorName);
+    if (existing) return existing;
+
+    return merchantApi.create({ user_id: userId, name });
+  },
+
+  // Link one transaction to a merchant, e.g. one created from a document
+  linkExpense: async (expenseId: number, merchantId: number): Promise<void> => {
+    const { error } = await supabase
+      .from('expense')
+      .update({ merchant_id: merchantId })
+      .eq('id', expenseId);
+
+    if (error) throw error;
+  },
+
+  // Net spending and transaction counts per merchant for a period
+  getSummary: async (userId: string, startDate: string, endDate: string): Promise<MerchantSummary[]> => {
+    const { data, error } = await supabase.rpc('get_spending_by_merchant', {
+      p_user_id: userId,
+      p_start_date: startDate,
+      p_end_date: endDate
+    });
+
+    if (error) throw error;
+    return (data || []).map((row: MerchantSummary) => ({
+      ...row,
+      total: Number(row.total),
+      transaction_count: Number(row.transaction_count)
+    }));
+  },
+
+  // Link past expenses and refunds without a merchant to the merchant their
+  // description or receipt vendor matches. Returns how many were linked.
+  linkUnassignedTransactions: async (userId: string, merchants: Merchant[]): Promise<number> => {
+    if (merchants.length === 0) return 0;
+
+    const expenses: Array<{ id: number; description?: string }> = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('expense')
+        .select('id, description')
+        .eq('user_id', userId)
+        .eq('isdeleted', false)
+        .is('merchant_id', null)
+        .or('transaction_type.is.null,transaction_type.in.(expense,refund)')
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      expenses.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const { data: documents, error: documentsError } = await supabase
+      .from('documents')
+      .select('created_expense_id, vendor_name, merchant_id')
+      .eq('user_id', userId)
+      .not('created_expense_id', 'is', null);
+
+    if (documentsError) throw documentsError;
+    const receipts = new Map<number, { vendor_name?: string; merchant_id?: number }>(
+      (documents || []).map(document => [document.created_expense_id, document])
+    );
+
+    const groups = new Map<number, number[]>();
+    for (const expense of expenses) {
+      const receipt = receipts.get(expense.id);
+      const merchantId = receipt?.merchant_id
+        ?? findMerchant(merchants, receipt?.vendor_name)?.id
+        ?? findMerchant(merchants, expense.description)?.id;
+      if (!merchantId) continue;
+      groups.set(merchantId, [...(groups.get(merchantId) || []), expense.id]);
+    }
+
+    let linked = 0;
+    for (const [merchantId, ids] of groups) {
+      for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+        const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+        const { error } = await supabase
+          .from('expense')
+          .update({ merchant_id: merchantId })
+          .in('id', chunk);
+
+        if (error) throw error;
+        linked += chunk.length;
+      }
+    }
+
+    return linked;
+  }
+};
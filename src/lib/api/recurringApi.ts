@@ -0,0 +1,240 @@
+import { parseISO, subDays } from 'date-fns';
+import { supabase } from '../supabase/supabase';
+import {
+  RecurringTransaction,
+  CreateRecurringTransactionRequest,
+  UpdateRecurringTransactionRequest,
+  PostDueOccurrencesResult
+} from '@/interfaces/recurring-interface';
+import { CreateExpenseItemRequest } from '@/interfaces/expense-interface';
+import { expenseApi } from './expenseApi';
+import { getDueOccurrences, getNextOccurrenceAfter, toDateOnlyString } from '../utils/recurrence';
+
+// Builds the single expense item posted for an occurrence
+const buildOccurrenceItem = (schedule: RecurringTransaction): CreateExpenseItemRequest => {
+  const isIncome = schedule.transaction_type === 'income';
+  return {
+    category_id: isIncome ? null : schedule.category_id,
+    income_category_id: isIncome ? schedule.income_category_id : undefined,
+    amount: Number(schedule.amount),
+    description: schedule.description
+  };
+};
+
+export const recurringApi = {
+  // Get all recurring schedules for a user
+  getAllByUser: async (userId: string): Promise<RecurringTransaction[]> => {
+    const { data, error } = await supabase
+      .from('recurring_transaction')
+      .select(`
+        *,
+        category:expense_category(*),
+        payment_method:payment_methods(*)
+      `)
+      .eq('user_id', userId)
+      .eq('isdeleted', false)
+      .order('next_occurrence', { ascending: true, nullsFirst: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Get a recurring schedule by ID
+  getById: async (id: number): Promise<RecurringTransaction | null> => {
+    const { data, error } = await supabase
+      .from('recurring_transaction')
+      .select('*')
+      .eq('id', id)
+      .eq('isdeleted', false)
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Create a new recurring schedule; the first occurrence is the start date
+  create: async (schedule: CreateRecurringTransactionRequest): Promise<RecurringTransaction> => {
+    const { data, error } = await supabase
+      .from('recurring_transaction')
+      .insert([{
+        ...schedule,
+        interval_count: schedule.interval_count ?? 1,
+        next_occurrence: schedule.start_date
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Update a schedule. Posted transactions are left untouched; when the rule
+  // changes, next_occurrence is recalculated from the last posted date but
+  // never moves earlier than it was or than today, so occurrences skipped by
+  // a pause are not back-posted.
+  update: async (id: number, payload: UpdateRecurringTransactionRequest): Promise<RecurringTransaction> => {
+    const existing = await recurringApi.getById(id);
+    if (!existing) {
+      throw new Error(`Recurring transaction ${id} not found`);
+    }
+
+    const merged = { ...existing, ...payload };
+    const ruleChanged = ['frequency', 'interval_count', 'start_date', 'end_date']
+      .some(key => key in payload && payload[key] !== existing[key]);
+
+    let nextOccurrence = existing.next_occurrence ?? null;
+    if (ruleChanged) {
+      const todayStr = toDateOnlyString(new Date());
+      const earliest = [todayStr, existing.next_occurrence]
+        .filter(Boolean)
+        .reduce((latest, date) => (date > latest ? date : latest));
+      const after = existing.last_posted_date && existing.last_posted_date >= earliest
+        ? existing.last_posted_date
+        : toDateOnlyString(subDays(parseISO(earliest), 1));
+      nextOccurrence = getNextOccurrenceAfter(merged, after);
+    }
+
+    const { data, error } = await supabase
+      .from('recurring_transaction')
+      .update({
+        ...payload,
+        next_occurrence: nextOccurrence,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Pause or resume a schedule. Resuming does not back-post the occurrences
+  // that fell inside the pause; the schedule picks up from today.
+  setPaused: async (schedule: RecurringTransaction, isPaused: boolean): Promise<void> => {
+    const todayStr = toDateOnlyString(new Date());
+    const update: Partial<RecurringTransaction> = {
+      is_paused: isPaused,
+      updated_at: new Date().toISOString()
+    };
+
+    if (!isPaused && schedule.next_occurrence && schedule.next_occurrence < todayStr) {
+      update.next_occurrence = getNextOccurrenceAfter(schedule, toDateOnlyString(subDays(new Date(), 1)));
+    }
+
+    const { error } = await supabase
+      .from('recurring_transaction')
+      .update(update)
+      .eq('id', schedule.id);
+
+    if (error) throw error;
+  },
+
+  // Skip (or un-skip) a single future occurrence
+  setOccurrenceSkipped: async (schedule: RecurringTransaction, date: string, skipped: boolean): Promise<void> => {
+    const current = schedule.skipped_dates || [];
+    const skippedDates = skipped
+      ? Array.from(new Set([...current, date])).sort()
+      : current.filter(d => d !== date);
+
+    const { error } = await supabase
+      .from('recurring_transaction')
+      .update({ skipped_dates: skippedDates, updated_at: new Date().toISOString() })
+      .eq('id', schedule.id);
+
+    if (error) throw error;
+  },
+
+  // Delete a schedule (soft delete). Already posted transactions are kept.
+  delete: async (id: number): Promise<void> => {
+    const { error } = await supabase
+      .from('recurring_transaction')
+      .update({ isdeleted: true })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Post every occurrence that is due up to today as a normal transaction.
+  // Each occurrence is claimed first by moving next_occurrence forward with a
+  // compare-and-set, so two open tabs can never post the same occurrence twice.
+  postDueOccurrences: async (userId: string, today: Date = new Date()): Promise<PostDueOccurrencesResult> => {
+    const result: PostDueOccurrencesResult = { posted: 0, skipped: 0, failed: 0 };
+    const todayStr = toDateOnlyString(today);
+
+    const { data: schedules, error } = await supabase
+      .from('recurring_transaction')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('isdeleted', false)
+      .eq('is_paused', false)
+      .not('next_occurrence', 'is', null)
+      .lte('next_occurrence', todayStr);
+
+    if (error) throw error;
+
+    for (const schedule of (schedules || []) as RecurringTransaction[]) {
+      // Last occurrence actually posted, so a failed claim rolls back to it
+      let lastPostedDate = schedule.last_posted_date ?? null;
+
+      for (const occurrence of getDueOccurrences(schedule, todayStr)) {
+        const following = getNextOccurrenceAfter(schedule, occurrence);
+        const isSkipped = (schedule.skipped_dates || []).includes(occurrence);
+
+        const { data: claimed, error: claimError } = await supabase
+          .from('recurring_transaction')
+          .update({
+            next_occurrence: following,
+            ...(isSkipped ? {} : { last_posted_date: occurrence })
+          })
+          .eq('id', schedule.id)
+          .eq('next_occurrence', occurrence)
+          .select('id');
+
+        if (claimError) {
+          console.error(`Error claiming occurrence ${occurrence} of recurring transaction ${schedule.id}:`, claimError);
+          result.failed++;
+          break;
+        }
+
+        // Another session already handled this occurrence
+        if (!claimed || claimed.length === 0) {
+          break;
+        }
+
+        if (isSkipped) {
+          result.skipped++;
+          continue;
+        }
+
+        try {
+          await expenseApi.create({
+            user_id: schedule.user_id,
+            date: occurrence,
+            description: schedule.description,
+            payment_method_id: schedule.payment_method_id,
+            transaction_type: schedule.transaction_type,
+            recurring_transaction_id: schedule.id,
+            expense_items: [buildOccurrenceItem(schedule)]
+          }, { skipDuplicateCheck: true }); // The claim above already guarantees one post per occurrence
+          lastPostedDate = occurrence;
+          result.posted++;
+        } catch (postError) {
+          console.error(`Error posting occurrence ${occurrence} of recurring transaction ${schedule.id}:`, postError);
+
+          // Release the claim so the occurrence is retried next time
+          await supabase
+            .from('recurring_transaction')
+            .update({ next_occurrence: occurrence, last_posted_date: lastPostedDate })
+            .eq('id', schedule.id)
+            .eq('next_occurrence', following);
+
+          result.failed++;
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+};
@@ -0,0 +1,52 @@
+import { supabase } from '../supabase/supabase';
+import { SavedView, SaveSavedViewRequest } from '@/interfaces/saved-view-interface';
+
+export const savedViewApi = {
+  // Get a user's saved views, alphabetically
+  getAllByUser: async (userId: string): Promise<SavedView[]> => {
+    const { data, error } = await supabase
+      .from('saved_view')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('isdeleted', false)
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Save the current filters as a new view
+  create: async (view: SaveSavedViewRequest): Promise<SavedView> => {
+    const { data, error } = await supabase
+      .from('saved_view')
+      .insert([view])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Rename a view, replace its filters or pin/unpin it
+  update: async (id: number, payload: Partial<Omit<SaveSavedViewRequest, 'user_id'>>): Promise<SavedView> => {
+    const { data, error } = await supabase
+      .from('saved_view')
+      .update({ ...payload, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Delete a view (soft delete)
+  delete: async (id: number): Promise<void> => {
+    const { error } = await supabase
+      .from('saved_view')
+      .update({ isdeleted: true })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+};
@@ -1,17 +1,121 @@
+import { CreateExpenseRequest } from '@/interfaces/expense-interface';
+import {
+  PendingTransaction,
+  SaveTransactionResult,
+  SyncResult
+} from '@/interfaces/pending-transaction-interface';
+import { expenseApi } from './expenseApi';
+import { DuplicateTransactionError } from '../utils/duplicate-detection';
+import { isNetworkError, offlineQueue } from '../utils/offline-queue';
 
-import { TransactionData } from "@/interfaces/types/transaction";
+const queue = async (expense: CreateExpenseRequest, id: string = crypto.randomUUID()): Promise<PendingTransaction> => {
+  const pending: PendingTransaction = {
+    id,
+    user_id: expense.user_id,
+    request: expense,
+    status: 'pending',
+    attempts: 0,
+    created_at: new Date().toISOString(),
+  };
+  await offlineQueue.put(pending);
+  return pending;
+};
 
 /**
- * Simulates saving a transaction to a backend
- * @param data Transaction data to save
- * @returns Promise that resolves to success boolean
+ * Sends one queued transaction. Throws network errors so the caller can stop
+ * and try again later; everything else is recorded on the entry.
  */
-export const saveTransaction = (data: TransactionData): Promise<boolean> => {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      const isSuccess = Math.random() < 0.9;
-      console.log("Transaction saved:", data);
-      resolve(isSuccess);
-    }, 1500);
-  });
+const replay = async (pending: PendingTransaction, skipDuplicateCheck = false): Promise<PendingTransaction['status'] | 'synced'> => {
+  const clientRequestId = pending.request.client_request_id ?? pending.id;
+
+  try {
+    // An earlier attempt may have reached the server before the connection
+    // dropped; it was saved whole, header and items together
+    if (await expenseApi.isRequestSaved(pending.user_id, clientRequestId)) {
+      await offlineQueue.remove(pending.id);
+      return 'synced';
+    }
+
+    await expenseApi.create(
+      { ...pending.request, client_request_id: clientRequestId },
+      { skipDuplicateCheck }
+    );
+    await offlineQueue.remove(pending.id);
+    return 'synced';
+  } catch (error) {
+    if (isNetworkError(error)) throw error;
+
+    const conflict = error instanceof DuplicateTransactionError;
+    await offlineQueue.put({
+      ...pending,
+      status: conflict ? 'conflict' : 'failed',
+      error: conflict ? undefined : (error as Error).message,
+      duplicate_candidates: conflict ? error.candidates : undefined,
+      attempts: pending.attempts + 1,
+    });
+    return conflict ? 'conflict' : 'failed';
+  }
+};
+
+export const transactionApi = {
+  // Create a transaction, or queue it when the server can't be reached.
+  // Duplicate warnings are thrown as usual while online.
+  saveTransaction: async (
+    expense: CreateExpenseRequest,
+    options?: { skipDuplicateCheck?: boolean }
+  ): Promise<SaveTransactionResult> => {
+    if (!navigator.onLine) {
+      return { status: 'queued', pending: await queue(expense) };
+    }
+
+    // Save under the id it would be queued with, so a replay can tell when
+    // this attempt reached the server before the connection dropped
+    const id = crypto.randomUUID();
+    const tagged = { ...expense, client_request_id: expense.client_request_id ?? id };
+
+    try {
+      return { status: 'saved', expense: await expenseApi.create(tagged, options) };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      console.warn('[transactionApi:saveTransaction] Server unreachable, queueing transaction', error);
+      return { status: 'queued', pending: await queue(tagged, id) };
+    }
+  },
+
+  // Transactions waiting to be synced, oldest first
+  getPending: (userId: string): Promise<PendingTransaction[]> => offlineQueue.getAll(userId),
+
+  // Replay queued transactions in the order they were entered. Conflicts and
+  // rejected entries stay in the queue for the user to resolve.
+  syncPending: async (userId: string): Promise<SyncResult> => {
+    const entries = await offlineQueue.getAll(userId);
+    const result: SyncResult = { synced: 0, conflicts: 0, failed: 0, remaining: 0 };
+
+    for (const [index, pending] of entries.entries()) {
+      if (pending.status !== 'pending') continue;
+      try {
+        const status = await replay(pending);
+        if (status === 'synced') result.synced++;
+        else if (status === 'conflict') result.conflicts++;
+        else result.failed++;
+      } catch (error) {
+        console.warn('[transactionApi:syncPending] Connection lost, stopping sync', error);
+        result.remaining = entries.slice(index).filter(entry => entry.status === 'pending').length;
+        break;
+      }
+    }
+
+    return result;
+  },
+
+  // Send a conflicting or rejected entry again. keepDuplicate saves it even
+  // though it looks like an existing transaction.
+  retryPending: async (id: string, options?: { keepDuplicate?: boolean }): Promise<PendingTransaction['status'] | 'synced'> => {
+    const pending = await offlineQueue.get(id);
+    if (!pending) return 'synced';
+    return replay({ ...pending, status: 'pending' }, options?.keepDuplicate);
+  },
+
+  // Drop a queued transaction without saving it
+  discardPending: (id: string): Promise<void> => offlineQueue.remove(id),
 };
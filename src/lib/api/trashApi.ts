@@ -0,0 +1,157 @@
+import { supabase } from '../supabase/supabase';
+import { TrashItem, TrashItemType } from '@/interfaces/trash-interface';
+import { Expense } from '@/interfaces/expense-interface';
+import { fetchExpenseItems } from '../utils/expense-helpers';
+import { formatCurrency } from '@/lib/utils';
+
+// Table holding each kind of trash item
+const TRASH_TABLES: Record<TrashItemType, string> = {
+  transaction: 'expense',
+  budget: 'budget',
+  document: 'documents',
+  payment_method: 'payment_methods',
+};
+
+const DOCUMENT_BUCKET = 'document-uploads';
+
+// Soft-deleted transactions with their totals
+const getDeletedTransactions = async (userId: string): Promise<TrashItem[]> => {
+  const { data, error } = await supabase
+    .from('expense')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('isdeleted', true)
+    .order('deleted_at', { ascending: false });
+
+  if (error) throw error;
+
+  const expenses = (data || []) as Expense[];
+  const items = expenses.length > 0 ? await fetchExpenseItems(expenses.map(expense => expense.id)) : [];
+
+  return expenses.map(expense => {
+    const total = (items || [])
+      .filter(item => item.expense_id === expense.id)
+      .reduce((sum, item) => sum + Number(item.amount), 0);
+    return {
+      type: 'transaction' as const,
+      id: expense.id,
+      label: expense.description || 'Unnamed Transaction',
+      detail: `${expense.date} · ${expense.transaction_type || 'expense'} · ${formatCurrency(total)}`,
+      deleted_at: expense.deleted_at,
+    };
+  });
+};
+
+export const trashApi = {
+  // Everything of the user's that is in the trash, most recently deleted first
+  getAll: async (userId: string): Promise<TrashItem[]> => {
+    const [transactions, budgets, documents, paymentMethods] = await Promise.all([
+      getDeletedTransactions(userId),
+      supabase
+        .from('budget')
+        .select('id, name, amount, period, deleted_at')
+        .eq('user_id', userId)
+        .eq('isdeleted', true),
+      supabase
+        .from('documents')
+        .select('id, original_filename, vendor_name, file_path, deleted_at')
+        .eq('user_id', userId)
+        .eq('isdeleted', true),
+      // Payment methods are shared, so only the ones the user created are theirs to purge
+      supabase
+        .from('payment_methods')
+        .select('id, method_name, deleted_at')
+        .eq('created_by', userId)
+        .eq('isdeleted', true),
+    ]);
+
+    if (budgets.error) throw budgets.error;
+    if (documents.error) throw documents.error;
+    if (paymentMethods.error) throw paymentMethods.error;
+
+    const items: TrashItem[] = [
+      ...transactions,
+      ...(budgets.data || []).map(budget => ({
+        type: 'budget' as const,
+        id: budget.id,
+        label: budget.name,
+        detail: `${formatCurrency(Number(budget.amount))} ${budget.period}`,
+        deleted_at: budget.deleted_at,
+      })),
+      ...(documents.data || []).map(document => ({
+        type: 'document' as const,
+        id: document.id,
+        label: document.original_filename,
+        detail: document.vendor_name || undefined,
+        deleted_at: document.deleted_at,
+        file_path: document.file_path,
+      })),
+      ...(paymentMethods.data || []).map(method => ({
+        type: 'payment_method' as const,
+        id: method.id,
+        label: method.method_name,
+        deleted_at: method.deleted_at,
+      })),
+    ];
+
+    return items.sort((a, b) => (b.deleted_at || '').localeCompare(a.deleted_at || ''));
+  },
+
+  // Put records back where they were
+  restore: async (type: TrashItemType, ids: number[]): Promise<void> => {
+    if (ids.length === 0) return;
+
+    const { error } = await supabase
+      .from(TRASH_TABLES[type])
+      .update({ isdeleted: false })
+      .in('id', ids);
+
+    if (error) throw error;
+  },
+
+  // Delete records for good, along with their child rows and stored files.
+  // The rows go in one transaction; files are removed only once they are gone.
+  purge: async (items: TrashItem[]): Promise<void> => {
+    const idsOf = (type: TrashItemType) => items.filter(item => item.type === type).map(item => item.id);
+
+    const { data, error } = await supabase.rpc('purge_trash', {
+      p_transaction_ids: idsOf('transaction'),
+      p_budget_ids: idsOf('budget'),
+      p_document_ids: idsOf('document'),
+      p_payment_method_ids: idsOf('payment_method'),
+    });
+
+    if (error) throw error;
+
+    const filePaths: string[] = data?.filePaths || [];
+    if (filePaths.length > 0) {
+      const { error: storageError } = await supabase.storage.from(DOCUMENT_BUCKET).remove(filePaths);
+      // The records are already gone; a leftover file is only wasted space
+      if (storageError) console.error('[trashApi:purge] Could not remove document files:', storageError);
+    }
+  },
+
+  // Purge everything that has been in the trash longer than the retention period.
+  // Each kind is purged on its own so one blocked purge doesn't hold up the rest.
+  // Payment methods are shared, so they are only ever purged by hand.
+  purgeExpired: async (userId: string, retentionDays: number): Promise<number> => {
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const expired = (await trashApi.getAll(userId))
+      .filter(item => item.deleted_at && new Date(item.deleted_at).getTime() < cutoff);
+
+    let purged = 0;
+    for (const type of Object.keys(TRASH_TABLES) as TrashItemType[]) {
+      if (type === 'payment_method') continue;
+      const batch = expired.filter(item => item.type === type);
+      if (batch.length === 0) continue;
+
+      try {
+        await trashApi.purge(batch);
+        purged += batch.length;
+      } catch (error) {
+        console.error(`[trashApi:purgeExpired] Could not purge ${type} records:`, error);
+      }
+    }
+    return purged;
+  }
+};
@@ -7,10 +7,11 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export function formatCurrency(amount: number): string {
+// Formats an amount in the base currency unless another ISO currency code is given
+export function formatCurrency(amount: number, currency: string = 'MYR'): string {
   return new Intl.NumberFormat('en-MY', {
     style: 'currency',
-    currency: 'MYR',
+    currency,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2
   }).format(amount);
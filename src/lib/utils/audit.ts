@@ -0,0 +1,78 @@
+import { AuditLogEntry, AuditTable } from '@/interfaces/audit-interface';
+
+const TABLE_LABELS: Record<AuditTable, string> = {
+  expense: 'Transaction',
+  expense_item: 'Transaction item',
+  budget: 'Budget',
+  budget_category: 'Budget category',
+  payment_methods: 'Payment method',
+  documents: 'Document',
+};
+
+// Bookkeeping columns left out of diffs
+const HIDDEN_FIELDS = ['id', 'user_id', 'created_by', 'created_at', 'updated_by', 'updated_at', 'deleted_at'];
+
+const FIELD_LABELS: Record<string, string> = {
+  isdeleted: 'In trash',
+  method_name: 'Name',
+  original_filename: 'File name',
+  alert_threshold: 'Alert threshold',
+};
+
+export interface AuditFieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * "Transaction: Groceries", or the table and id when the row has no name
+ */
+export const getAuditEntityLabel = (entry: AuditLogEntry): string => {
+  const row = entry.new_values ?? entry.old_values ?? {};
+  const name = row.description ?? row.name ?? row.method_name ?? row.original_filename;
+  const label = TABLE_LABELS[entry.table_name] ?? entry.table_name;
+  return name ? `${label}: ${name}` : `${label} #${entry.record_id}`;
+};
+
+/**
+ * "category_id" -> "Category", "transaction_type" -> "Transaction type"
+ */
+export const formatAuditField = (field: string): string =>
+  FIELD_LABELS[field] ?? field.replace(/_id$/, '').replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+/**
+ * The fields to show for an entry: what changed for updates, the values set
+ * for inserts and the values lost for hard deletes
+ */
+export const getAuditFieldChanges = (entry: AuditLogEntry): AuditFieldChange[] => {
+  const before = entry.old_values ?? {};
+  const after = entry.new_values ?? {};
+  const isSet = (value: unknown) => value !== null && value !== undefined && value !== '';
+
+  let fields: string[];
+  if (entry.changed_fields) {
+    fields = entry.changed_fields;
+  } else if (entry.action === 'insert') {
+    fields = Object.keys(after).filter(field => isSet(after[field]) && field !== 'isdeleted');
+  } else {
+    fields = Object.keys(before).filter(field => isSet(before[field]) && field !== 'isdeleted');
+  }
+
+  return fields
+    .filter(field => !HIDDEN_FIELDS.includes(field))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+};
+
+/**
+ * Display text for a recorded value. Ids are shown by name when the caller
+ * can look them up.
+ */
+export const formatAuditValue = (value: unknown, names?: Map<number, string>): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number' && names?.has(value)) return names.get(value) as string;
+  if (Array.isArray(value)) return value.length > 0 ? value.map(item => String(item)).join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
@@ -0,0 +1,70 @@
+import { format, parseISO } from 'date-fns';
+import { BudgetPeriodResult } from '@/interfaces/budget-interface';
+import { PeriodEnum } from '@/interfaces/enums/PeriodEnum';
+
+// How many periods of history to show per budget period
+export const HISTORY_PERIODS: Record<PeriodEnum, number> = {
+  [PeriodEnum.DAILY]: 30,
+  [PeriodEnum.WEEKLY]: 12,
+  [PeriodEnum.MONTHLY]: 12,
+  [PeriodEnum.QUARTERLY]: 8,
+  [PeriodEnum.YEARLY]: 5,
+};
+
+const PERIOD_LABEL_FORMATS: Record<PeriodEnum, string> = {
+  [PeriodEnum.DAILY]: 'MMM d',
+  [PeriodEnum.WEEKLY]: "'Wk of' MMM d",
+  [PeriodEnum.MONTHLY]: 'MMM yyyy',
+  [PeriodEnum.QUARTERLY]: 'QQQ yyyy',
+  [PeriodEnum.YEARLY]: 'yyyy',
+};
+
+/**
+ * Short name for a period window, e.g. "Mar 2026" or "Q1 2026"
+ */
+export const formatBudgetPeriod = (period: PeriodEnum, periodStart: string): string =>
+  format(parseISO(periodStart), PERIOD_LABEL_FORMATS[period] ?? 'MMM d, yyyy');
+
+export interface BudgetHistorySummary {
+  hits: number;
+  misses: number;
+  streak: { result: 'hit' | 'miss'; count: number } | null; // Run ending with the latest finished period
+  averageUtilisation: number | null; // Percent of the budget spent, on average
+}
+
+/**
+ * A period is a hit when spending stayed within the budget
+ */
+export const isBudgetHit = (period: BudgetPeriodResult): boolean => period.spent <= period.budgeted;
+
+export const getUtilisation = (period: BudgetPeriodResult): number =>
+  period.budgeted > 0 ? Math.round((period.spent / period.budgeted) * 100) : 0;
+
+/**
+ * Hit/miss counts, the current streak and average utilisation over the
+ * finished periods; the period still in progress isn't judged yet
+ */
+export const summarizeBudgetHistory = (history: BudgetPeriodResult[]): BudgetHistorySummary => {
+  const finished = history.filter(period => !period.is_current);
+  const hits = finished.filter(isBudgetHit).length;
+
+  let streak: BudgetHistorySummary['streak'] = null;
+  for (let i = finished.length - 1; i >= 0; i--) {
+    const result = isBudgetHit(finished[i]) ? 'hit' : 'miss';
+    if (!streak) streak = { result, count: 1 };
+    else if (streak.result === result) streak.count++;
+    else break;
+  }
+
+  const budgeted = finished.filter(period => period.budgeted > 0);
+  const averageUtilisation = budgeted.length > 0
+    ? Math.round(budgeted.reduce((sum, period) => sum + period.spent / period.budgeted, 0) / budgeted.length * 100)
+    : null;
+
+  return {
+    hits,
+    misses: finished.length - hits,
+    streak,
+    averageUtilisation,
+  };
+};
@@ -0,0 +1,77 @@
+import { addDays, differenceInCalendarDays, isAfter, isBefore, parseISO, startOfDay } from 'date-fns';
+import { toDateOnlyString } from './recurrence';
+
+export type BudgetPaceStatus = 'on_track' | 'off_pace' | 'exhausted' | 'ended';
+
+export interface BudgetPace {
+  status: BudgetPaceStatus;
+  elapsedFraction: number; // Share of the period gone by, today included (0-1)
+  projectedSpend: number; // Spend by the end of the period at the current daily rate
+  safeDailySpend: number; // What can still be spent per day, today included, to stay within budget
+  daysLeft: number; // Days left in the period, today included
+  exhaustionDate: string | null; // YYYY-MM-DD the budget runs out at the current rate, if within the period
+}
+
+// A pace read from fewer days than this is mostly noise (one big purchase on
+// day one would project to many times the budget)
+const MIN_DAYS_FOR_PACE = 3;
+
+/**
+ * Forecast for a budget period from the spending so far: where the current
+ * daily rate ends up, how much is safe to spend per day from here, and when
+ * the budget runs out if nothing changes. Takes the period as the date
+ * strings the dashboard uses (a date or an ISO timestamp).
+ */
+export const getBudgetPace = ({
+  available,
+  spent,
+  startDate,
+  endDate,
+  today = new Date(),
+}: {
+  available: number;
+  spent: number;
+  startDate: string;
+  endDate: string;
+  today?: Date;
+}): BudgetPace => {
+  const start = parseISO(startDate.slice(0, 10));
+  const end = parseISO(endDate.slice(0, 10));
+  const day = startOfDay(today);
+
+  const totalDays = Math.max(1, differenceInCalendarDays(end, start) + 1);
+  const elapsedDays = isBefore(day, start)
+    ? 0
+    : isAfter(day, end)
+      ? totalDays
+      : differenceInCalendarDays(day, start) + 1;
+  const daysLeft = isBefore(day, start) ? totalDays : Math.max(0, differenceInCalendarDays(end, day) + 1);
+
+  const dailyRate = elapsedDays > 0 ? spent / elapsedDays : 0;
+  const projectedSpend = spent + dailyRate * (totalDays - elapsedDays);
+  const left = available - spent;
+
+  let exhaustionDate: string | null = null;
+  if (left > 0 && dailyRate > 0) {
+    const runsOut = addDays(day, Math.ceil(left / dailyRate));
+    if (!isAfter(runsOut, end)) exhaustionDate = toDateOnlyString(runsOut);
+  }
+
+  let status: BudgetPaceStatus = 'on_track';
+  if (left <= 0 && (spent > 0 || available < 0)) {
+    status = 'exhausted';
+  } else if (isAfter(day, end)) {
+    status = 'ended';
+  } else if (projectedSpend > available && elapsedDays >= Math.min(MIN_DAYS_FOR_PACE, totalDays)) {
+    status = 'off_pace';
+  }
+
+  return {
+    status,
+    elapsedFraction: elapsedDays / totalDays,
+    projectedSpend,
+    safeDailySpend: daysLeft > 0 ? Math.max(0, left) / daysLeft : 0,
+    daysLeft,
+    exhaustionDate,
+  };
+};
@@ -0,0 +1,80 @@
+import { BudgetCategorySpending, BudgetWithSpending } from '@/interfaces/budget-interface';
+
+export type BudgetProgress = Pick<BudgetWithSpending, 'spent' | 'rollover' | 'remaining' | 'percentage'> & {
+  available: number; // Budget amount plus the rollover
+};
+
+/**
+ * Spending against a budget for the current period, counting whatever was
+ * carried in from earlier periods. A budget whose overspend has used up the
+ * whole period shows as fully spent.
+ */
+export const getBudgetProgress = (amount: number, spent: number, rollover = 0): BudgetProgress => {
+  const available = amount + rollover;
+  const percentage = available > 0
+    ? Math.round((spent / available) * 100)
+    : (spent > 0 || available < 0 ? 100 : 0);
+
+  return {
+    spent,
+    rollover,
+    available,
+    remaining: available - spent,
+    percentage,
+  };
+};
+
+export interface BudgetAllocationLine {
+  key: string;
+  name: string;
+  spent: number;
+  allocated: number;
+  percentage: number;
+}
+
+const isAllocated = (category: { allocated_amount?: number | null }) =>
+  category.allocated_amount !== null && category.allocated_amount !== undefined;
+
+/**
+ * Whether any category of a budget has its own allocation
+ */
+export const hasAllocations = (categories: { allocated_amount?: number | null }[] = []): boolean =>
+  categories.some(isAllocated);
+
+/**
+ * Total set aside for individual categories
+ */
+export const getAllocatedTotal = (categories: { allocated_amount?: number | null }[]): number =>
+  categories.reduce((sum, category) => sum + Number(category.allocated_amount || 0), 0);
+
+/**
+ * Spent vs allocated for each category with an allocation, followed by an
+ * "Unallocated" line for the rest of the budget and the categories without
+ * one. Empty when nothing in the budget is allocated.
+ */
+export const getAllocationLines = (available: number, spending: BudgetCategorySpending[]): BudgetAllocationLine[] => {
+  const allocated = spending.filter(isAllocated);
+  if (allocated.length === 0) return [];
+
+  const toLine = (key: string, name: string, spent: number, amount: number): BudgetAllocationLine => ({
+    key,
+    name,
+    spent,
+    allocated: amount,
+    percentage: amount > 0 ? Math.round((spent / amount) * 100) : (spent > 0 ? 100 : 0),
+  });
+
+  const lines = allocated.map(line =>
+    toLine(String(line.category_id), line.category_name, Number(line.total_spent), Number(line.allocated_amount))
+  );
+
+  const unallocatedSpent = spending
+    .filter(line => !allocated.includes(line))
+    .reduce((sum, line) => sum + Number(line.total_spent), 0);
+  const unallocated = available - getAllocatedTotal(allocated);
+  if (unallocated !== 0 || unallocatedSpent > 0) {
+    lines.push(toLine('unallocated', 'Unallocated', unallocatedSpent, unallocated));
+  }
+
+  return lines;
+};
@@ -0,0 +1,70 @@
+import { CategorizationRule, RuleSubject } from '@/interfaces/categorization-rule-interface';
+
+const containsText = (value: string | undefined, fragment: string): boolean =>
+  (value || '').toLowerCase().includes(fragment.trim().toLowerCase());
+
+/**
+ * True when every condition the rule sets holds for the transaction
+ */
+export const ruleMatches = (rule: CategorizationRule, subject: RuleSubject): boolean => {
+  if (!rule.is_active) return false;
+  if ((subject.transaction_type || 'expense') !== rule.transaction_type) return false;
+
+  if (rule.description_contains && !containsText(subject.description, rule.description_contains)) {
+    return false;
+  }
+  if (rule.vendor_contains && !containsText(subject.vendor || subject.description, rule.vendor_contains)) {
+    return false;
+  }
+
+  const hasAmountCondition = rule.amount_min != null || rule.amount_max != null;
+  if (hasAmountCondition) {
+    if (subject.amount == null || isNaN(subject.amount)) return false;
+    const amount = Math.abs(subject.amount);
+    if (rule.amount_min != null && amount < Number(rule.amount_min)) return false;
+    if (rule.amount_max != null && amount > Number(rule.amount_max)) return false;
+  }
+
+  if (rule.payment_method_id && subject.payment_method_id !== rule.payment_method_id) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * First matching rule in priority order, if any
+ */
+export const findMatchingRule = (rules: CategorizationRule[], subject: RuleSubject): CategorizationRule | undefined =>
+  [...rules]
+    .sort((a, b) => a.priority - b.priority || a.id - b.id)
+    .find(rule => ruleMatches(rule, subject));
+
+/**
+ * Category the rule assigns, for the rule's transaction type
+ */
+export const getRuleCategoryId = (rule: CategorizationRule): number | undefined =>
+  (rule.transaction_type === 'income' ? rule.set_income_category_id : rule.set_category_id) ?? undefined;
+
+/**
+ * Short summary of a rule's conditions, e.g. 'description contains "grab" · RM 0–50'
+ */
+export const describeRuleConditions = (
+  rule: CategorizationRule,
+  paymentMethodName?: (id: number) => string | undefined
+): string => {
+  const parts: string[] = [];
+  if (rule.description_contains) parts.push(`description contains "${rule.description_contains}"`);
+  if (rule.vendor_contains) parts.push(`vendor contains "${rule.vendor_contains}"`);
+  if (rule.amount_min != null && rule.amount_max != null) {
+    parts.push(`RM ${Number(rule.amount_min)}–${Number(rule.amount_max)}`);
+  } else if (rule.amount_min != null) {
+    parts.push(`at least RM ${Number(rule.amount_min)}`);
+  } else if (rule.amount_max != null) {
+    parts.push(`up to RM ${Number(rule.amount_max)}`);
+  }
+  if (rule.payment_method_id) {
+    parts.push(`paid with ${paymentMethodName?.(rule.payment_method_id) || 'payment method'}`);
+  }
+  return parts.join(' · ');
+};
@@ -0,0 +1,347 @@
+import { isValid, parse } from 'date-fns';
+import { CreateExpenseRequest, Expense } from '@/interfaces/expense-interface';
+import {
+  ImportColumnMapping,
+  ImportDateFormat,
+  ImportField,
+  ImportMapping,
+  ImportPreviewRow,
+  ImportSourceRow,
+  ParsedCsv
+} from '@/interfaces/import-interface';
+import { validateTransaction } from '@/lib/validation/transactionValidation';
+import { toDateOnlyString } from './recurrence';
+import { isLikelyDuplicate } from './duplicate-detection';
+import { CategorizationRule } from '@/interfaces/categorization-rule-interface';
+import { findMatchingRule, getRuleCategoryId } from './categorization-rules';
+
+type NamedOption = { id: number; name: string };
+
+// Header keywords used to pre-fill the column mapping
+const FIELD_HEADER_HINTS: Record<ImportField, string[]> = {
+  date: ['date', 'posting date', 'transaction date', 'tarikh'],
+  description: ['description', 'details', 'narration', 'merchant', 'reference', 'keterangan'],
+  amount: ['amount', 'value', 'debit/credit', 'jumlah'],
+  type: ['type', 'dr/cr', 'cr/dr', 'debit or credit'],
+  category: ['category', 'kategori'],
+  paymentMethod: ['payment method', 'method', 'account', 'wallet'],
+};
+
+const DATE_FORMAT_PATTERNS: Record<ImportDateFormat, string[]> = {
+  'YYYY-MM-DD': ['yyyy-MM-dd', 'yyyy/MM/dd'],
+  'DD/MM/YYYY': ['dd/MM/yyyy', 'd/M/yyyy', 'dd-MM-yyyy', 'dd/MM/yy', 'dd MMM yyyy'],
+  'MM/DD/YYYY': ['MM/dd/yyyy', 'M/d/yyyy', 'MM-dd-yyyy', 'MM/dd/yy', 'MMM dd yyyy'],
+};
+
+/**
+ * Picks the most likely delimiter by counting candidates on the header line
+ */
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t', '|'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',');
+};
+
+/**
+ * Parses CSV text into a header row and data rows.
+ * Handles quoted fields, escaped quotes ("") and CRLF line endings.
+ * Blank lines are dropped.
+ */
+export const parseCsv = (text: string): ParsedCsv => {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records
+    .map(row => row.map(cell => cell.trim()))
+    .filter(row => row.some(cell => cell !== ''));
+
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers, rows };
+};
+
+/**
+ * Creates a mapping pre-filled from the header names
+ */
+export const guessColumnMapping = (headers: string[]): ImportColumnMapping => {
+  const normalized = headers.map(header => header.toLowerCase());
+  const used = new Set<string>();
+
+  const columns = (Object.keys(FIELD_HEADER_HINTS) as ImportField[]).reduce((acc, field) => {
+    const hints = FIELD_HEADER_HINTS[field];
+    // Prefer an exact header match, then a header containing the keyword
+    const index = [
+      normalized.findIndex(header => hints.includes(header) && !used.has(header)),
+      normalized.findIndex(header => hints.some(hint => header.includes(hint)) && !used.has(header)),
+    ].find(i => i >= 0);
+
+    acc[field] = index !== undefined ? headers[index] : null;
+    if (index !== undefined) used.add(normalized[index]);
+    return acc;
+  }, {} as Record<ImportField, string | null>);
+
+  return {
+    columns,
+    dateFormat: 'DD/MM/YYYY',
+    treatAllAsExpense: false,
+  };
+};
+
+/**
+ * Finds a saved mapping built for the same header row (case and order insensitive)
+ */
+export const findMappingForHeaders = (mappings: ImportMapping[], headers: string[]): ImportMapping | undefined => {
+  const key = headers.map(header => header.toLowerCase()).sort().join('|');
+  return mappings.find(mapping =>
+    (mapping.headers || []).map(header => header.toLowerCase()).sort().join('|') === key
+  );
+};
+
+/**
+ * Parses a date cell using the mapping's date format.
+ * ISO dates are always accepted, whatever the selected format.
+ */
+export const parseImportDate = (value: string, dateFormat: ImportDateFormat): Date | null => {
+  const trimmed = (value || '').trim();
+  if (!trimmed) return null;
+
+  // Some exports append a time to the date
+  const datePart = trimmed.split(/[ T](?=\d{1,2}:\d{2})/)[0];
+  const patterns = [...DATE_FORMAT_PATTERNS[dateFormat], ...DATE_FORMAT_PATTERNS['YYYY-MM-DD']];
+
+  for (const pattern of patterns) {
+    const parsed = parse(datePart, pattern, new Date());
+    // "yyyy" happily reads "26" as the year 26, so fall through to the "yy" pattern
+    if (isValid(parsed) && parsed.getFullYear() >= 1900) return parsed;
+  }
+  return null;
+};
+
+/**
+ * Parses an amount cell such as "RM 1,234.50", "-12.00", "(12.00)" or "12.00 DR".
+ * Returns a signed number, or NaN when the cell is not a number.
+ */
+export const parseImportAmount = (value: string): number => {
+  let text = (value || '').trim().toUpperCase();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/\bDR\b|\bD$/.test(text)) {
+    negative = true;
+  }
+
+  text = text.replace(/[^0-9.\-+]/g, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+  if (!text) return NaN;
+
+  const amount = parseFloat(text);
+  return isNaN(amount) ? NaN : (negative ? -amount : amount);
+};
+
+/**
+ * Reads a transaction type from a type column value
+ */
+const parseImportType = (value: string): 'expense' | 'income' | null => {
+  const text = (value || '').trim().toLowerCase();
+  if (!text) return null;
+  if (['income', 'credit', 'cr', 'c', 'deposit', 'in', 'received'].includes(text)) return 'income';
+  if (['expense', 'debit', 'dr', 'd', 'withdrawal', 'out', 'payment', 'sent'].includes(text)) return 'expense';
+  return null;
+};
+
+/**
+ * Matches a cell against option names, ignoring case
+ */
+const matchOption = (value: string | undefined, options: NamedOption[]): NamedOption | undefined => {
+  const text = (value || '').trim().toLowerCase();
+  if (!text) return undefined;
+  return options.find(option => option.name.toLowerCase() === text);
+};
+
+/**
+ * Reads CSV rows into source rows using the mapping's columns
+ */
+export const readCsvRows = (csv: ParsedCsv, mapping: ImportColumnMapping): ImportSourceRow[] => {
+  const cell = (row: string[], field: ImportField) => {
+    const header = mapping.columns[field];
+    const index = header ? csv.headers.indexOf(header) : -1;
+    return index >= 0 ? (row[index] ?? '') : '';
+  };
+
+  return csv.rows.map(row => ({
+    date: parseImportDate(cell(row, 'date'), mapping.dateFormat),
+    description: cell(row, 'description'),
+    amount: parseImportAmount(cell(row, 'amount')),
+    transactionType: parseImportType(cell(row, 'type')),
+    category: cell(row, 'category'),
+    paymentMethod: cell(row, 'paymentMethod'),
+  }));
+};
+
+/**
+ * Applies categorization rules and the mapping's defaults to source rows and
+ * validates every row the same way the transaction form does. A category or
+ * payment method named in the file wins over a rule, and a rule over the defaults.
+ */
+export const buildPreviewRows = (
+  sourceRows: ImportSourceRow[],
+  mapping: ImportColumnMapping,
+  options: {
+    expenseCategories: NamedOption[];
+    incomeCategories: NamedOption[];
+    paymentMethods: NamedOption[];
+    rules?: CategorizationRule[];
+  }
+): ImportPreviewRow[] => {
+  return sourceRows.map((source, index) => {
+    let transactionType: 'expense' | 'income' = 'expense';
+    if (source.transactionType) {
+      transactionType = source.transactionType;
+    } else if (!mapping.treatAllAsExpense && source.amount > 0) {
+      transactionType = 'income';
+    }
+
+    const isIncome = transactionType === 'income';
+    const categories = isIncome ? options.incomeCategories : options.expenseCategories;
+    const defaultCategoryId = isIncome ? mapping.defaultIncomeCategoryId : mapping.defaultCategoryId;
+    const fileCategory = matchOption(source.category, categories)?.id;
+    const filePaymentMethod = matchOption(source.paymentMethod, options.paymentMethods)?.id;
+
+    const rule = findMatchingRule(options.rules || [], {
+      transaction_type: transactionType,
+      description: source.description,
+      amount: source.amount,
+      payment_method_id: filePaymentMethod ?? mapping.defaultPaymentMethodId,
+    });
+    const ruleCategory = rule ? getRuleCategoryId(rule) : undefined;
+    const category = fileCategory ?? ruleCategory ?? defaultCategoryId;
+    const paymentMethod = filePaymentMethod ?? rule?.set_payment_method_id ?? mapping.defaultPaymentMethodId;
+    const ruleApplied = !!rule && ((!fileCategory && !!ruleCategory) || (!filePaymentMethod && !!rule.set_payment_method_id));
+
+    const previewRow = {
+      rowNumber: index + 1,
+      date: source.date,
+      description: source.description,
+      amount: isNaN(source.amount) ? '' : Math.abs(source.amount).toFixed(2),
+      transactionType,
+      category: category ? category.toString() : '',
+      paymentMethod: paymentMethod ? paymentMethod.toString() : '',
+      externalId: source.externalId,
+      checkNumber: source.checkNumber,
+      ruleName: ruleApplied ? rule.name : undefined,
+    };
+
+    const errors = validateTransaction({
+      ...previewRow,
+      date: source.date ?? new Date(),
+    });
+    if (!source.date) {
+      errors.date = "Date could not be read with the selected format";
+    }
+
+    return {
+      ...previewRow,
+      errors,
+      selected: Object.keys(errors).length === 0,
+    };
+  });
+};
+
+/**
+ * Flags rows whose statement transaction was imported before and deselects them
+ */
+export const markAlreadyImported = (rows: ImportPreviewRow[], importedIds: Set<string>): ImportPreviewRow[] =>
+  rows.map(row => row.externalId && importedIds.has(row.externalId)
+    ? { ...row, alreadyImported: true, selected: false }
+    : row
+  );
+
+/**
+ * Flags rows that look like existing transactions and deselects them.
+ * Unlike already-imported rows they stay selectable, since the match may be wrong.
+ */
+export const markPossibleDuplicates = (rows: ImportPreviewRow[], existing: Expense[]): ImportPreviewRow[] =>
+  rows.map(row => {
+    if (row.alreadyImported || !row.date || !row.amount) return row;
+
+    const isDuplicate = existing.some(expense => isLikelyDuplicate({
+      date: toDateOnlyString(row.date as Date),
+      amount: parseFloat(row.amount),
+      description: row.description,
+      payment_method_id: parseInt(row.paymentMethod) || undefined,
+      transaction_type: row.transactionType,
+    }, expense));
+
+    return isDuplicate ? { ...row, possibleDuplicate: true, selected: false } : row;
+  });
+
+/**
+ * Converts a valid preview row into a create request
+ */
+export const toCreateExpenseRequest = (row: ImportPreviewRow, userId: string): CreateExpenseRequest => {
+  const isIncome = row.transactionType === 'income';
+  const categoryId = parseInt(row.category);
+
+  return {
+    user_id: userId,
+    date: toDateOnlyString(row.date as Date),
+    description: row.description.trim(),
+    payment_method_id: parseInt(row.paymentMethod),
+    transaction_type: row.transactionType,
+    external_id: row.externalId,
+    check_number: row.checkNumber,
+    expense_items: [{
+      category_id: isIncome ? null : categoryId,
+      income_category_id: isIncome ? categoryId : undefined,
+      amount: parseFloat(row.amount),
+      description: row.description.trim(),
+    }],
+  };
+};
@@ -0,0 +1,33 @@
+import { ExchangeRate } from '@/interfaces/exchange-rate-interface';
+
+/**
+ * Currency every total, budget and report is kept in
+ */
+export const BASE_CURRENCY = 'MYR';
+
+/**
+ * Currencies offered when recording a transaction
+ */
+export const SUPPORTED_CURRENCIES = [
+  'MYR', 'SGD', 'USD', 'EUR', 'GBP', 'AUD', 'JPY', 'CNY', 'HKD', 'THB', 'IDR', 'PHP', 'VND', 'KRW', 'INR',
+];
+
+/**
+ * The rate in effect for a currency on a date: the latest one that starts on
+ * or before it. Returns 1 for the base currency and undefined when no rate applies.
+ */
+export const findRate = (rates: ExchangeRate[], currency: string, date: string): number | undefined => {
+  if (currency === BASE_CURRENCY) return 1;
+
+  const match = rates
+    .filter(rate => rate.currency_code === currency && rate.effective_date <= date)
+    .sort((a, b) => b.effective_date.localeCompare(a.effective_date))[0];
+
+  return match ? Number(match.rate_to_base) : undefined;
+};
+
+/**
+ * Converts an amount in a foreign currency to the base currency, rounded to cents
+ */
+export const convertToBase = (amount: number, rate: number): number =>
+  Math.round(amount * rate * 100) / 100;
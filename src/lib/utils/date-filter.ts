@@ -0,0 +1,58 @@
+import { isValid } from 'date-fns';
+import type { DateFilter, DateFilterType } from '@/context/DashboardContext';
+
+// URL parameters that hold the date filter
+export const DATE_FILTER_PARAMS = ['type', 'year', 'month', 'quarter', 'from', 'to'];
+
+/**
+ * Reads a date filter from URL parameters; null when they don't describe one
+ */
+export const parseDateFilter = (searchParams: URLSearchParams): DateFilter | null => {
+  const type = searchParams.get('type') as DateFilterType | null;
+  const year = parseInt(searchParams.get('year') || '', 10);
+  const month = parseInt(searchParams.get('month') || '', 10);
+  const quarter = parseInt(searchParams.get('quarter') || '', 10);
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+
+  if (type && !isNaN(year)) {
+    if (type === 'month' && !isNaN(month)) {
+      return { type, year, month };
+    }
+    if (type === 'quarter' && !isNaN(quarter)) {
+      return { type, year, quarter };
+    }
+    if (type === 'year') {
+      return { type, year };
+    }
+    if (type === 'custom' && from && to) {
+      const fromDate = new Date(from);
+      const toDate = new Date(to);
+      if (isValid(fromDate) && isValid(toDate)) {
+        return { type, year, customRange: { from: fromDate, to: toDate } };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Writes a date filter as URL parameters
+ */
+export const dateFilterToParams = (dateFilter: DateFilter): URLSearchParams => {
+  const params = new URLSearchParams();
+  params.set('type', dateFilter.type);
+  params.set('year', dateFilter.year.toString());
+
+  if (dateFilter.month !== undefined) {
+    params.set('month', dateFilter.month.toString());
+  }
+  if (dateFilter.quarter !== undefined) {
+    params.set('quarter', dateFilter.quarter.toString());
+  }
+  if (dateFilter.customRange) {
+    params.set('from', dateFilter.customRange.from.toISOString().split('T')[0]);
+    params.set('to', dateFilter.customRange.to.toISOString().split('T')[0]);
+  }
+  return params;
+};
@@ -0,0 +1,103 @@
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import { Expense } from '@/interfaces/expense-interface';
+import { toDateOnlyString } from './recurrence';
+
+// How far apart two entries of the same purchase can be dated
+export const DUPLICATE_DATE_WINDOW_DAYS = 3;
+
+// Minimum description similarity (0-1) for two entries to count as the same
+const DESCRIPTION_SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * The fields of a new transaction that duplicate detection looks at
+ */
+export interface DuplicateCheckInput {
+  date: string; // YYYY-MM-DD
+  amount: number; // Transaction total
+  description?: string;
+  payment_method_id?: number;
+  transaction_type?: 'expense' | 'income' | 'transfer' | 'refund';
+}
+
+/**
+ * Thrown by expenseApi.create when likely duplicates exist.
+ * Callers can show the matches and retry with skipDuplicateCheck.
+ */
+export class DuplicateTransactionError extends Error {
+  candidates: Expense[];
+
+  constructor(candidates: Expense[]) {
+    super(`Found ${candidates.length} similar transaction${candidates.length === 1 ? '' : 's'}`);
+    this.name = 'DuplicateTransactionError';
+    this.candidates = candidates;
+
+    // Needed for instanceof to work properly with custom errors
+    Object.setPrototypeOf(this, DuplicateTransactionError.prototype);
+  }
+}
+
+/**
+ * Date range to search for duplicates of a transaction on the given date
+ */
+export const getDuplicateSearchRange = (date: string): { startDate: string; endDate: string } => {
+  const day = parseISO(date);
+  return {
+    startDate: toDateOnlyString(addDays(day, -DUPLICATE_DATE_WINDOW_DAYS)),
+    endDate: toDateOnlyString(addDays(day, DUPLICATE_DATE_WINDOW_DAYS)),
+  };
+};
+
+const normalizeDescription = (value?: string): string[] =>
+  (value || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 1);
+
+/**
+ * Similarity of two descriptions between 0 and 1, based on shared words.
+ * A description fully contained in the other (e.g. "Grab" and "Grab ride KLCC") counts as a match.
+ */
+export const descriptionSimilarity = (a?: string, b?: string): number => {
+  const tokensA = normalizeDescription(a);
+  const tokensB = normalizeDescription(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const setB = new Set(tokensB);
+  const shared = tokensA.filter(token => setB.has(token)).length;
+  if (shared === Math.min(tokensA.length, tokensB.length)) return 1;
+
+  return (2 * shared) / (tokensA.length + tokensB.length);
+};
+
+/**
+ * Total of an existing transaction's items
+ */
+export const getExpenseTotal = (expense: Expense): number =>
+  (expense.expense_items || []).reduce((sum, item) => sum + Number(item.amount || 0), 0);
+
+/**
+ * Whether an existing transaction looks like the same real-world transaction:
+ * same amount within a few days, same payment method and a similar description
+ */
+export const isLikelyDuplicate = (input: DuplicateCheckInput, expense: Expense): boolean => {
+  if ((expense.transaction_type || 'expense') !== (input.transaction_type || 'expense')) return false;
+  if (input.payment_method_id && expense.payment_method_id !== input.payment_method_id) return false;
+  if (Math.abs(getExpenseTotal(expense) - input.amount) >= 0.005) return false;
+
+  const daysApart = Math.abs(differenceInCalendarDays(parseISO(expense.date), parseISO(input.date)));
+  if (daysApart > DUPLICATE_DATE_WINDOW_DAYS) return false;
+
+  return descriptionSimilarity(input.description, expense.description) >= DESCRIPTION_SIMILARITY_THRESHOLD;
+};
+
+/**
+ * Returns the likely duplicates of a transaction, closest date first
+ */
+export const findDuplicateCandidates = (input: DuplicateCheckInput, expenses: Expense[]): Expense[] =>
+  expenses
+    .filter(expense => isLikelyDuplicate(input, expense))
+    .sort((a, b) =>
+      Math.abs(differenceInCalendarDays(parseISO(a.date), parseISO(input.date))) -
+      Math.abs(differenceInCalendarDays(parseISO(b.date), parseISO(input.date)))
+    );
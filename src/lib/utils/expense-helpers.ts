@@ -149,7 +149,8 @@ export const fetchExpenseItems = async (expenseIds: number[]) => {
       category:expense_category(*)
     `)
     .in('expense_id', expenseIds)
-    .eq('isdeleted', false);
+    .eq('isdeleted', false)
+    .order('id');
     
   if (itemsError) {
     return handleSupabaseError(itemsError, "fetching expense items");
@@ -221,6 +222,7 @@ export const createExpenseItemFromRequest = (
       category_id: null, // For income, use null for category_id
       income_category_id: item.income_category_id, // Use income_category_id for income
       amount: item.amount,
+      original_amount: item.original_amount,
       description: item.description
     };
   }
@@ -230,6 +232,7 @@ export const createExpenseItemFromRequest = (
     expense_id: expenseId,
     category_id: item.category_id,
     amount: item.amount,
+    original_amount: item.original_amount,
     description: item.description,
     income_category_id: null // Explicitly set to null for expense items
   };
@@ -248,9 +251,10 @@ export const updateExpenseItems = async (
   // First fetch existing non-deleted expense items for this expense
   const { data: existingItems, error: fetchError } = await supabase
     .from('expense_item')
-    .select('id, category_id, income_category_id, amount, description')
+    .select('id, category_id, income_category_id, amount, original_amount, description')
     .eq('expense_id', expenseId)
-    .eq('isdeleted', false);
+    .eq('isdeleted', false)
+    .order('id');
     
   if (fetchError) {
     return handleSupabaseError(fetchError, "fetching existing expense items");
@@ -258,35 +262,41 @@ export const updateExpenseItems = async (
   
   console.log(`Found ${existingItems?.length || 0} existing items for expense ID ${expenseId}`, existingItems);
   
-  // If we have existing items, update the first one instead of deleting and creating new
+  // If we have existing items, update them in place (matched by position) instead of deleting and creating new
   if (existingItems && existingItems.length > 0) {
-    const firstItemId = existingItems[0].id;
-    const firstNewItem = newItems[0];
-    
-    // Update the existing item with new data
-    const updateData = isIncome 
-      ? {
-          category_id: null,
-          income_category_id: firstNewItem.income_category_id,
-          amount: firstNewItem.amount,
-          description: firstNewItem.description
-        }
-      : {
-          category_id: firstNewItem.category_id,
-          income_category_id: null,
-          amount: firstNewItem.amount,
-          description: firstNewItem.description
-        };
+    const itemsToUpdate = existingItems.slice(0, newItems.length);
     
-    console.log(`Updating item ID ${firstItemId} with data:`, updateData);
-    
-    const { error: updateItemError } = await supabase
-      .from('expense_item')
-      .update(updateData)
-      .eq('id', firstItemId);
+    for (let index = 0; index < itemsToUpdate.length; index++) {
+      const existingItemId = itemsToUpdate[index].id;
+      const newItem = newItems[index];
+      
+      // Update the existing item with new data
+      const updateData = isIncome 
+        ? {
+            category_id: null,
+            income_category_id: newItem.income_category_id,
+            amount: newItem.amount,
+            original_amount: newItem.original_amount,
+            description: newItem.description
+          }
+        : {
+            category_id: newItem.category_id,
+            income_category_id: null,
+            amount: newItem.amount,
+            original_amount: newItem.original_amount,
+            description: newItem.description
+          };
       
-    if (updateItemError) {
-      return handleSupabaseError(updateItemError, "updating expense item");
+      console.log(`Updating item ID ${existingItemId} with data:`, updateData);
+      
+      const { error: updateItemError } = await supabase
+        .from('expense_item')
+        .update(updateData)
+        .eq('id', existingItemId);
+        
+      if (updateItemError) {
+        return handleSupabaseError(updateItemError, "updating expense item");
+      }
     }
     
     // If there are more new items than existing ones, add them
@@ -298,6 +308,7 @@ export const updateExpenseItems = async (
               category_id: null,
               income_category_id: item.income_category_id,
               amount: item.amount,
+              original_amount: item.original_amount,
               description: item.description
             }
           : {
@@ -305,6 +316,7 @@ export const updateExpenseItems = async (
               category_id: item.category_id,
               income_category_id: null,
               amount: item.amount,
+              original_amount: item.original_amount,
               description: item.description
             };
       });
@@ -344,6 +356,7 @@ export const updateExpenseItems = async (
             category_id: null,
             income_category_id: item.income_category_id,
             amount: item.amount,
+            original_amount: item.original_amount,
             description: item.description
           }
         : {
@@ -351,6 +364,7 @@ export const updateExpenseItems = async (
             category_id: item.category_id,
             income_category_id: null,
             amount: item.amount,
+            original_amount: item.original_amount,
             description: item.description
           };
     });
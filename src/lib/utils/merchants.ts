@@ -0,0 +1,68 @@
+import { Merchant } from '@/interfaces/merchant-interface';
+
+// Colours offered for new merchants, picked by name so a merchant keeps its colour
+export const MERCHANT_COLORS = ['#7c3aed', '#2563eb', '#0891b2', '#059669', '#65a30d', '#d97706', '#dc2626', '#db2777'];
+
+/**
+ * Lowercases a description or vendor name and drops what card terminals add
+ * around the merchant: reference numbers, asterisks and other punctuation
+ * ("GRAB*RIDE 1234" -> "grab ride")
+ */
+export const normalizeMerchantText = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[*#_/\\.,:;'"()-]+/g, ' ')
+    .replace(/\b\d+\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Spacing differs between sources ("GRABFOOD" vs "Grab Food"), so matching ignores it
+const compactMerchantText = (value: string): string => normalizeMerchantText(value).replace(/\s/g, '');
+
+/**
+ * The merchant whose name or alias appears in the text. The longest match
+ * wins, so "grabfood" beats "grab". Very short aliases must match the whole text.
+ */
+export const findMerchant = (merchants: Merchant[], text: string | undefined): Merchant | undefined => {
+  const target = compactMerchantText(text || '');
+  if (!target) return undefined;
+
+  let best: Merchant | undefined;
+  let bestLength = 0;
+  for (const merchant of merchants) {
+    for (const key of [merchant.name, ...(merchant.aliases || [])]) {
+      const compactKey = compactMerchantText(key);
+      const matches = compactKey.length >= 3 ? target.includes(compactKey) : target === compactKey;
+      if (matches && compactKey.length > bestLength) {
+        best = merchant;
+        bestLength = compactKey.length;
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * A display name for a merchant created from raw text: reference numbers
+ * removed, and all-caps terminal text turned into title case
+ */
+export const cleanMerchantName = (value: string): string => {
+  const trimmed = value.replace(/[*#]+/g, ' ').replace(/\b\d{3,}\b/g, ' ').replace(/\s+/g, ' ').trim();
+  if (trimmed !== trimmed.toUpperCase()) return trimmed;
+  return trimmed.toLowerCase().replace(/\b\w/g, letter => letter.toUpperCase());
+};
+
+/**
+ * Aliases as entered in the merchant form, comma-separated; blanks and repeats are dropped
+ */
+export const parseAliases = (value: string): string[] =>
+  [...new Set(value.split(',').map(alias => alias.trim()).filter(Boolean))];
+
+/**
+ * Stable colour for a merchant without one
+ */
+export const getMerchantColor = (merchant: Pick<Merchant, 'name' | 'color'>): string => {
+  if (merchant.color) return merchant.color;
+  const hash = [...merchant.name].reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  return MERCHANT_COLORS[hash % MERCHANT_COLORS.length];
+};
@@ -0,0 +1,79 @@
+import { PendingTransaction } from '@/interfaces/pending-transaction-interface';
+
+const DB_NAME = 'finance-zen-offline';
+const DB_VERSION = 1;
+const STORE = 'pendingTransactions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('user_id', 'user_id');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request against the store and resolves with its result
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Persistent queue of transactions entered while offline. Kept in IndexedDB
+ * so it survives reloads and closing the app.
+ */
+export const offlineQueue = {
+  // A user's queued transactions, oldest first
+  getAll: async (userId: string): Promise<PendingTransaction[]> => {
+    const entries = await withStore<PendingTransaction[]>('readonly', store =>
+      store.index('user_id').getAll(userId)
+    );
+    return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  },
+
+  get: (id: string): Promise<PendingTransaction | undefined> =>
+    withStore('readonly', store => store.get(id)),
+
+  // Add or replace an entry
+  put: async (entry: PendingTransaction): Promise<void> => {
+    await withStore('readwrite', store => store.put(entry));
+  },
+
+  remove: async (id: string): Promise<void> => {
+    await withStore('readwrite', store => store.delete(id));
+  },
+};
+
+/**
+ * Whether an error means the server could not be reached (as opposed to the
+ * server rejecting the request)
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  // Only fetch failures count; other TypeErrors are bugs and must not be retried forever
+  const message = error instanceof Error
+    ? error.message
+    : (error as { message?: string })?.message ?? String(error);
+  return /failed to fetch|networkerror|network request failed|load failed|timed out/i.test(message);
+};
@@ -0,0 +1,201 @@
+import { isValid, parse, setDate, subDays, subMonths } from 'date-fns';
+import { toDateOnlyString } from './recurrence';
+
+/**
+ * A category or payment method the quick-add parser can recognise by name
+ */
+export interface QuickAddOption {
+  id: number;
+  name: string;
+}
+
+export interface QuickAddOptions {
+  categories: QuickAddOption[]; // Expense categories
+  incomeCategories: QuickAddOption[];
+  paymentMethods: QuickAddOption[];
+  today?: Date;
+}
+
+/**
+ * A transaction read from a quick-add phrase. Anything not found is left
+ * undefined for the user to fill in.
+ */
+export interface QuickAddDraft {
+  description: string;
+  amount?: number;
+  date: string; // YYYY-MM-DD
+  transactionType: 'expense' | 'income';
+  categoryId?: number; // Expense or income category, per transactionType
+  paymentMethodId?: number;
+}
+
+// Words that make a phrase income rather than spending
+const INCOME_WORDS = ['salary', 'income', 'bonus', 'received', 'receive', 'dividend', 'allowance', 'commission', 'payout'];
+
+// Linking words dropped when they lead into a date or payment method ("by cash", "on monday")
+const FILLER_WORDS = ['on', 'by', 'via', 'using', 'with', 'paid'];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+interface Token {
+  raw: string;
+  word: string; // Lowercase, without punctuation
+  used: boolean;
+}
+
+const toWord = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const nameWords = (name: string) => name.split(/[\s/&,+-]+/).map(toWord).filter(Boolean);
+
+/**
+ * Finds the option whose full name appears in the unused tokens, longest name
+ * first; failing that, a single token equal to a distinctive word of one
+ * option's name ("card" for "Credit Card"). Marks the matched tokens used.
+ */
+const matchOption = (tokens: Token[], options: QuickAddOption[]): QuickAddOption | undefined => {
+  const byLength = [...options].sort((a, b) => nameWords(b.name).length - nameWords(a.name).length);
+
+  for (const option of byLength) {
+    const words = nameWords(option.name);
+    if (words.length === 0) continue;
+    for (let start = 0; start + words.length <= tokens.length; start++) {
+      const span = tokens.slice(start, start + words.length);
+      if (span.every((token, i) => !token.used && token.word === words[i])) {
+        span.forEach(token => { token.used = true; });
+        return option;
+      }
+    }
+  }
+
+  for (const token of tokens) {
+    if (token.used || token.word.length < 3) continue;
+    const matches = options.filter(option => nameWords(option.name).includes(token.word));
+    if (matches.length === 1) {
+      token.used = true;
+      return matches[0];
+    }
+  }
+  return undefined;
+};
+
+// Marks a filler word right before the token at index as used
+const dropFillerBefore = (tokens: Token[], index: number) => {
+  const previous = tokens[index - 1];
+  if (previous && !previous.used && FILLER_WORDS.includes(previous.word)) {
+    previous.used = true;
+  }
+};
+
+/**
+ * Reads a date from the tokens: today, yesterday, weekdays (the most recent
+ * one, "last friday" included), ordinals ("25th", the latest such day not in
+ * the future), "3 days ago", ISO dates and day/month(/year).
+ */
+const matchDate = (tokens: Token[], today: Date): Date | undefined => {
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.used) continue;
+    const lower = token.raw.toLowerCase();
+    let date: Date | undefined;
+    let span = 1;
+
+    if (token.word === 'today') {
+      date = today;
+    } else if (token.word === 'yesterday') {
+      date = subDays(today, 1);
+    } else if (WEEKDAYS.includes(token.word)) {
+      const back = (today.getDay() - WEEKDAYS.indexOf(token.word) + 7) % 7 || 7;
+      date = subDays(today, back);
+      if (tokens[i - 1]?.word === 'last') tokens[i - 1].used = true;
+    } else if (/^\d{1,2}(st|nd|rd|th)$/.test(lower)) {
+      const day = parseInt(lower, 10);
+      if (day >= 1 && day <= 31) {
+        date = setDate(today, day);
+        if (date > today || date.getDate() !== day) {
+          date = setDate(subMonths(today, 1), day);
+        }
+      }
+    } else if (/^\d+$/.test(lower) && tokens[i + 1]?.word === 'days' && tokens[i + 2]?.word === 'ago') {
+      date = subDays(today, parseInt(lower, 10));
+      span = 3;
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(lower)) {
+      date = parse(lower, 'yyyy-MM-dd', today);
+    } else if (/^\d{1,2}\/\d{1,2}(\/\d{2}(\d{2})?)?$/.test(lower)) {
+      const parts = lower.split('/');
+      const format = parts.length === 2 ? 'd/M' : parts[2].length === 2 ? 'd/M/yy' : 'd/M/yyyy';
+      date = parse(lower, format, today);
+      if (parts.length === 2 && date > today) date = subMonths(date, 12);
+    }
+
+    if (date && isValid(date)) {
+      tokens.slice(i, i + span).forEach(t => { t.used = true; });
+      dropFillerBefore(tokens, i);
+      return date;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Reads the amount: "8.50", "RM8.50", "RM 8.50", "5,200" or "5.2k". A token
+ * with a currency prefix or decimals wins over a bare number.
+ */
+const matchAmount = (tokens: Token[]): number | undefined => {
+  const candidates = tokens
+    .map((token, index) => ({ token, index, match: token.raw.match(/^(rm)?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?(k)?$/i) }))
+    .filter(candidate => !candidate.token.used && candidate.match);
+  if (candidates.length === 0) return undefined;
+
+  const score = ({ token, index, match }: typeof candidates[number]) =>
+    (match[1] || tokens[index - 1]?.word === 'rm' ? 2 : 0) + (match[3] || match[4] ? 1 : 0) + (token.raw.includes(',') ? 1 : 0);
+  const best = candidates.reduce((a, b) => (score(b) > score(a) ? b : a));
+
+  const [, , whole, decimals, thousands] = best.match;
+  let amount = parseFloat(`${whole.replace(/,/g, '')}.${decimals || '0'}`);
+  if (thousands) amount *= 1000;
+
+  best.token.used = true;
+  if (tokens[best.index - 1]?.word === 'rm') tokens[best.index - 1].used = true;
+  return amount > 0 ? amount : undefined;
+};
+
+/**
+ * Turns a phrase such as "nasi lemak 8.50 cash yesterday" or "salary 5200
+ * bank transfer 25th" into a draft transaction. Purely local and
+ * deterministic: payment methods and categories are matched by name, and
+ * whatever is left becomes the description.
+ */
+export const parseQuickAdd = (text: string, options: QuickAddOptions): QuickAddDraft => {
+  const today = options.today ?? new Date();
+  const tokens: Token[] = text.trim().split(/\s+/).filter(Boolean).map(raw => ({ raw, word: toWord(raw), used: false }));
+
+  const paymentMethod = matchOption(tokens, options.paymentMethods);
+  if (paymentMethod) {
+    dropFillerBefore(tokens, tokens.findIndex(token => token.used));
+  }
+  const date = matchDate(tokens, today) ?? today;
+  const amount = matchAmount(tokens);
+
+  const saysIncome = tokens.some(token => !token.used && INCOME_WORDS.includes(token.word));
+  let transactionType: QuickAddDraft['transactionType'] = saysIncome ? 'income' : 'expense';
+
+  // Income phrases only look at income categories; an expense phrase that
+  // only matches an income category becomes income
+  let category = matchOption(tokens, saysIncome ? options.incomeCategories : options.categories);
+  if (!category && !saysIncome) {
+    category = matchOption(tokens, options.incomeCategories);
+    if (category) transactionType = 'income';
+  }
+
+  const rest = tokens.filter(token => !token.used).map(token => token.raw).join(' ');
+  const description = rest || category?.name || '';
+
+  return {
+    description: description.charAt(0).toUpperCase() + description.slice(1),
+    amount,
+    date: toDateOnlyString(date),
+    transactionType,
+    categoryId: category?.id,
+    paymentMethodId: paymentMethod?.id,
+  };
+};
@@ -0,0 +1,100 @@
+import { addDays, addMonths, addQuarters, addWeeks, addYears, format, parseISO } from 'date-fns';
+import { PeriodEnum } from '@/interfaces/enums/PeriodEnum';
+import { RecurringTransaction } from '@/interfaces/recurring-interface';
+
+// Safety cap so a bad schedule can never loop forever
+const MAX_OCCURRENCE_STEPS = 10000;
+
+type ScheduleRule = Pick<RecurringTransaction, 'frequency' | 'interval_count' | 'start_date' | 'end_date'>;
+
+/**
+ * Formats a date as YYYY-MM-DD using local date components
+ */
+export const toDateOnlyString = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Returns the nth occurrence of a schedule, counted from its start date.
+ * Always anchoring on the start date keeps month-end schedules from drifting
+ * (a rent due on the 31st stays on the last day of shorter months).
+ */
+export const getOccurrenceDate = (rule: ScheduleRule, index: number): string => {
+  const start = parseISO(rule.start_date);
+  const steps = index * Math.max(1, rule.interval_count || 1);
+
+  switch (rule.frequency) {
+    case PeriodEnum.DAILY:
+      return toDateOnlyString(addDays(start, steps));
+    case PeriodEnum.WEEKLY:
+      return toDateOnlyString(addWeeks(start, steps));
+    case PeriodEnum.MONTHLY:
+      return toDateOnlyString(addMonths(start, steps));
+    case PeriodEnum.QUARTERLY:
+      return toDateOnlyString(addQuarters(start, steps));
+    case PeriodEnum.YEARLY:
+      return toDateOnlyString(addYears(start, steps));
+    default:
+      throw new Error(`Unsupported recurrence frequency: ${rule.frequency}`);
+  }
+};
+
+/**
+ * Returns the first occurrence strictly after the given date,
+ * or null if the schedule ends before then
+ */
+export const getNextOccurrenceAfter = (rule: ScheduleRule, afterDate: string): string | null => {
+  for (let index = 0; index < MAX_OCCURRENCE_STEPS; index++) {
+    const occurrence = getOccurrenceDate(rule, index);
+    if (rule.end_date && occurrence > rule.end_date) {
+      return null;
+    }
+    if (occurrence > afterDate) {
+      return occurrence;
+    }
+  }
+  return null;
+};
+
+/**
+ * Lists the occurrences from next_occurrence up to and including the given date
+ */
+export const getDueOccurrences = (schedule: RecurringTransaction, upToDate: string): string[] => {
+  const due: string[] = [];
+  let occurrence = schedule.next_occurrence ?? null;
+
+  while (occurrence && occurrence <= upToDate && due.length < MAX_OCCURRENCE_STEPS) {
+    due.push(occurrence);
+    occurrence = getNextOccurrenceAfter(schedule, occurrence);
+  }
+
+  return due;
+};
+
+/**
+ * Lists the next few future occurrences, starting at next_occurrence
+ */
+export const getUpcomingOccurrences = (schedule: RecurringTransaction, count: number): string[] => {
+  const upcoming: string[] = [];
+  let occurrence = schedule.next_occurrence ?? null;
+
+  while (occurrence && upcoming.length < count) {
+    upcoming.push(occurrence);
+    occurrence = getNextOccurrenceAfter(schedule, occurrence);
+  }
+
+  return upcoming;
+};
+
+/**
+ * Human-readable cadence, e.g. "Monthly" or "Every 2 weeks"
+ */
+export const describeFrequency = (frequency: PeriodEnum, intervalCount: number = 1): string => {
+  const units: Record<PeriodEnum, [string, string]> = {
+    [PeriodEnum.DAILY]: ['Daily', 'days'],
+    [PeriodEnum.WEEKLY]: ['Weekly', 'weeks'],
+    [PeriodEnum.MONTHLY]: ['Monthly', 'months'],
+    [PeriodEnum.QUARTERLY]: ['Quarterly', 'quarters'],
+    [PeriodEnum.YEARLY]: ['Yearly', 'years'],
+  };
+  const [single, plural] = units[frequency] ?? [frequency, frequency];
+  return intervalCount > 1 ? `Every ${intervalCount} ${plural}` : single;
+};
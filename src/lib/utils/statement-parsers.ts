@@ -0,0 +1,133 @@
+import { parse as parseDate, isValid } from 'date-fns';
+import { ImportDateFormat, ImportSourceRow } from '@/interfaces/import-interface';
+import { parseImportAmount, parseImportDate } from './csv-import';
+import { toDateOnlyString } from './recurrence';
+
+/**
+ * Account details found in a statement file, used to recognise the source
+ */
+export interface StatementInfo {
+  format: 'ofx' | 'qif';
+  accountId?: string; // OFX ACCTID, QIF account type (e.g. "Bank", "CCard")
+  rows: ImportSourceRow[];
+}
+
+/**
+ * Reads the value of an OFX element. Works for both SGML (OFX 1.x, no
+ * closing tags) and XML (OFX 2.x) files.
+ */
+const getOfxValue = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1]?.trim();
+  return value ? decodeOfxEntities(value) : undefined;
+};
+
+const decodeOfxEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+/**
+ * Parses an OFX date such as 20261001, 20261001120000 or 20261001120000.000[+8:MYT].
+ * Only the calendar date is kept.
+ */
+const parseOfxDate = (value: string | undefined): Date | null => {
+  const digits = (value || '').match(/^(\d{8})/)?.[1];
+  if (!digits) return null;
+
+  const parsed = parseDate(digits, 'yyyyMMdd', new Date());
+  return isValid(parsed) ? parsed : null;
+};
+
+/**
+ * Parses an OFX/QFX statement into source rows.
+ * FITIDs are only unique within an account, so the account ID is part of the external ID.
+ */
+export const parseOfx = (text: string): StatementInfo => {
+  const accountId = getOfxValue(text, 'ACCTID');
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+
+  const rows = blocks.map((block): ImportSourceRow => {
+    const fitId = getOfxValue(block, 'FITID');
+    const name = getOfxValue(block, 'NAME');
+    const memo = getOfxValue(block, 'MEMO');
+
+    return {
+      date: parseOfxDate(getOfxValue(block, 'DTPOSTED')),
+      description: name || memo || '',
+      // TRNAMT is signed; TRNTYPE is informational only
+      amount: parseImportAmount(getOfxValue(block, 'TRNAMT') || ''),
+      externalId: fitId ? `ofx:${accountId || 'unknown'}:${fitId}` : undefined,
+      checkNumber: getOfxValue(block, 'CHECKNUM'),
+    };
+  });
+
+  return { format: 'ofx', accountId, rows };
+};
+
+/**
+ * Parses a QIF statement into source rows.
+ * QIF has no transaction IDs, so a stable ID is derived from the date, amount
+ * and check number (or payee), plus a counter for identical rows in the file.
+ * Split lines (S/E/$) are ignored; the transaction total is imported.
+ */
+export const parseQif = (text: string, dateFormat: ImportDateFormat): StatementInfo => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const accountId = lines.find(line => line.startsWith('!Type:'))?.slice(6).trim();
+  const rows: ImportSourceRow[] = [];
+  const seen = new Map<string, number>();
+
+  let current: Record<string, string> = {};
+
+  const flush = () => {
+    if (!current.D && !current.T && !current.U) {
+      current = {};
+      return;
+    }
+
+    // Quicken writes dates like 10/ 1'26
+    const date = parseImportDate((current.D || '').replace(/'/g, '/').replace(/\s+/g, ''), dateFormat);
+    const amount = parseImportAmount(current.T || current.U || '');
+    const checkNumber = current.N && /^\d+$/.test(current.N) ? current.N : undefined;
+
+    const baseId = [
+      date ? toDateOnlyString(date) : current.D,
+      isNaN(amount) ? current.T : amount.toFixed(2),
+      checkNumber || current.P || current.M || ''
+    ].join(':');
+    const occurrence = (seen.get(baseId) || 0) + 1;
+    seen.set(baseId, occurrence);
+
+    rows.push({
+      date,
+      description: current.P || current.M || '',
+      amount,
+      category: current.L && !current.L.startsWith('[') ? current.L.split(':')[0] : undefined,
+      externalId: `qif:${accountId || 'unknown'}:${baseId}:${occurrence}`,
+      checkNumber,
+    });
+    current = {};
+  };
+
+  for (const rawLine of lines) {
+    const line = rawLine.trimEnd();
+    if (!line || line.startsWith('!')) continue;
+
+    if (line.startsWith('^')) {
+      flush();
+      continue;
+    }
+
+    const code = line[0];
+    // Keep the first value for each code; split lines repeat S/E/$
+    if (!['S', 'E', '$'].includes(code) && current[code] === undefined) {
+      current[code] = line.slice(1).trim();
+    }
+  }
+  flush();
+
+  return { format: 'qif', accountId, rows };
+};
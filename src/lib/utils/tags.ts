@@ -0,0 +1,33 @@
+/**
+ * Normalizes a tag the way it is stored: lowercase, trimmed, with runs of
+ * spaces or underscores turned into a single dash ("Trip Penang" -> "trip-penang")
+ */
+export const normalizeTag = (value: string): string =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^a-z0-9\-:.]/g, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+
+/**
+ * Adds a tag to a list, ignoring blanks and tags already present
+ */
+export const addTag = (tags: string[], value: string): string[] => {
+  const tag = normalizeTag(value);
+  return !tag || tags.includes(tag) ? tags : [...tags, tag];
+};
+
+/**
+ * Suggestions for a partly typed tag: matches by prefix first, then anywhere
+ */
+export const suggestTags = (input: string, knownTags: string[], selected: string[], limit = 6): string[] => {
+  const query = normalizeTag(input);
+  const available = knownTags.filter(tag => !selected.includes(tag));
+  if (!query) return available.slice(0, limit);
+
+  const prefixMatches = available.filter(tag => tag.startsWith(query));
+  const otherMatches = available.filter(tag => !tag.startsWith(query) && tag.includes(query));
+  return [...prefixMatches, ...otherMatches].slice(0, limit);
+};
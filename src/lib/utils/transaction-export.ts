@@ -0,0 +1,64 @@
+import { Expense } from '@/interfaces/expense-interface';
+import { PaymentMethod } from '@/interfaces/payment-method-interface';
+import { BASE_CURRENCY } from './currency';
+
+const EXPORT_HEADERS = ['Date', 'Description', 'Type', 'Category', 'Payment Method', 'Tags', 'Amount', 'Currency', 'Original Amount', 'Exchange Rate'];
+
+/**
+ * Quotes a CSV cell when it contains a delimiter, quote or line break
+ */
+const escapeCsvCell = (value: string | number | undefined | null): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Converts transactions to CSV, one row per line item so split transactions
+ * keep their categories. Expenses are exported as negative amounts, refunds as
+ * positive amounts in the refunded category, and transfers as unsigned amounts
+ * with both payment methods. Amount is in the base currency; foreign
+ * transactions also carry their original amount and rate.
+ */
+export const transactionsToCsv = (expenses: Expense[], paymentMethods: PaymentMethod[] = []): string => {
+  const rows = expenses.flatMap(expense => {
+    const isExpense = (expense.transaction_type || 'expense') === 'expense';
+    const isTransfer = expense.transaction_type === 'transfer';
+    const items = expense.expense_items || [];
+    const paymentMethod = isTransfer
+      ? `${expense.payment_method?.method_name || ''} -> ${paymentMethods.find(method => method.id === expense.transfer_to_payment_method_id)?.method_name || ''}`
+      : expense.payment_method?.method_name;
+    const sign = isExpense ? -1 : 1;
+
+    return items.map(item => [
+      expense.date,
+      item.description || expense.description,
+      expense.transaction_type || 'expense',
+      item.category?.name,
+      paymentMethod,
+      (expense.tags || []).join(' '),
+      (sign * Number(item.amount)).toFixed(2),
+      expense.currency || BASE_CURRENCY,
+      (sign * Number(item.original_amount ?? item.amount)).toFixed(2),
+      expense.exchange_rate ?? 1,
+    ]);
+  });
+
+  return [EXPORT_HEADERS, ...rows]
+    .map(row => row.map(escapeCsvCell).join(','))
+    .join('\r\n');
+};
+
+/**
+ * Starts a browser download of CSV text
+ */
+export const downloadCsv = (csv: string, filename: string): void => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
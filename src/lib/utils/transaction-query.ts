@@ -0,0 +1,143 @@
+import { isValid, parseISO } from 'date-fns';
+import { TransactionQuery, TransactionQueryField, TransactionQueryTerm } from '@/interfaces/expense-interface';
+
+/**
+ * Fields the search box understands, with the names they can be typed as
+ */
+export const QUERY_FIELDS: Array<{ field: Exclude<TransactionQueryField, 'text'>; names: string[]; hint: string }> = [
+  { field: 'amount', names: ['amount'], hint: 'amount>50, amount<=20, amount:12.50' },
+  { field: 'category', names: ['category', 'cat'], hint: 'category:food' },
+  { field: 'pm', names: ['pm', 'payment'], hint: 'pm:duitnow' },
+  { field: 'type', names: ['type'], hint: 'type:income' },
+  { field: 'tag', names: ['tag'], hint: 'tag:trip-penang' },
+  { field: 'before', names: ['before'], hint: 'before:2026-09-01' },
+  { field: 'after', names: ['after'], hint: 'after:2026-08-31' },
+];
+
+export const QUERY_TYPES = ['expense', 'income', 'transfer', 'refund'];
+
+// [-]["field"(op)](value | "quoted value"), or a bare OR
+const TOKEN_PATTERN = /(-?)(?:([a-z]+)(>=|<=|:|>|<|=))?("[^"]*"?|\S+)/gi;
+
+const fieldFor = (name: string) =>
+  QUERY_FIELDS.find(definition => definition.names.includes(name.toLowerCase()))?.field;
+
+const unquote = (value: string) => value.startsWith('"') ? value.replace(/^"|"$/g, '') : value;
+
+/**
+ * Turns one token into a term. Anything that isn't valid syntax (unknown
+ * field, bad number or date) becomes plain text, so the search still works.
+ */
+const toTerm = (raw: string, negate: boolean, name?: string, op?: string, rawValue = ''): TransactionQueryTerm | null => {
+  const value = unquote(rawValue).trim();
+  const text: TransactionQueryTerm | null = unquote(raw).trim()
+    ? { field: 'text', op: ':', value: unquote(raw).trim(), negate }
+    : null;
+  const field = name ? fieldFor(name) : undefined;
+  if (!field || !value) return text;
+
+  switch (field) {
+    case 'amount': {
+      const amount = Number(value.replace(/,/g, ''));
+      return isNaN(amount) ? text : { field, op: op as TransactionQueryTerm['op'], value: amount.toString(), negate };
+    }
+    case 'type':
+      return op === ':' && QUERY_TYPES.includes(value.toLowerCase())
+        ? { field, op, value: value.toLowerCase(), negate }
+        : text;
+    case 'before':
+    case 'after':
+      return op === ':' && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value))
+        ? { field, op, value, negate }
+        : text;
+    default:
+      return op === ':' ? { field, op, value, negate } : text;
+  }
+};
+
+/**
+ * Parses the search box into a structured query:
+ * - words and "quoted phrases" match descriptions; a leading - excludes them
+ * - amount>50 (also <, >=, <=, = or :), category:food, pm:duitnow, type:income,
+ *   tag:trip, before:2026-09-01 and after:2026-08-31 match fields
+ * - OR between two terms matches either; everything else must all match
+ * Returns null for an empty search.
+ */
+export const parseTransactionQuery = (input?: string): TransactionQuery | null => {
+  const clauses: TransactionQuery = [];
+  let joinNext = false;
+
+  for (const match of (input || '').matchAll(TOKEN_PATTERN)) {
+    const [token, minus, name, op, rawValue] = match;
+    if (token === 'OR') {
+      joinNext = clauses.length > 0;
+      continue;
+    }
+
+    const negate = minus === '-';
+    const term = toTerm(negate ? token.slice(1) : token, negate, name, op, rawValue);
+    if (!term) continue;
+
+    if (joinNext) {
+      clauses[clauses.length - 1].push(term);
+    } else {
+      clauses.push([term]);
+    }
+    joinNext = false;
+  }
+
+  return clauses.length > 0 ? clauses : null;
+};
+
+export interface QuerySuggestion {
+  label: string; // Shown in the list
+  insert: string; // Replaces the token being typed
+  hint?: string;
+}
+
+/**
+ * Autocomplete for the token at the end of the search box: field names while
+ * typing a word, then values (categories, payment methods, types, tags) after
+ * "field:". Values with spaces are quoted.
+ */
+export const getQuerySuggestions = (
+  input: string,
+  values: Partial<Record<TransactionQueryField, string[]>>,
+  limit = 8
+): QuerySuggestion[] => {
+  const token = input.match(/(?:^|\s)(-?)([^\s]*)$/);
+  if (!token) return [];
+  const [, minus, current] = token;
+
+  const separator = current.indexOf(':');
+  if (separator === -1) {
+    if (!current) return [];
+    return QUERY_FIELDS
+      .filter(definition => definition.names[0].startsWith(current.toLowerCase()))
+      .map(definition => ({ label: `${definition.names[0]}:`, insert: `${minus}${definition.names[0]}:`, hint: definition.hint }))
+      .slice(0, limit);
+  }
+
+  const name = current.slice(0, separator);
+  const field = fieldFor(name);
+  if (!field) return [];
+
+  const typed = unquote(current.slice(separator + 1)).toLowerCase();
+  const options = field === 'type' ? QUERY_TYPES : values[field] || [];
+  return options
+    .filter(option => option.toLowerCase().includes(typed) && option.toLowerCase() !== typed)
+    .map(option => ({
+      label: option,
+      insert: `${minus}${name}:${/\s/.test(option) ? `"${option}"` : option}`,
+    }))
+    .slice(0, limit);
+};
+
+/**
+ * Replaces the token at the end of the search box with a suggestion
+ */
+export const applyQuerySuggestion = (input: string, suggestion: QuerySuggestion): string => {
+  const completed = input.replace(/(^|\s)-?[^\s]*$/, `$1${suggestion.insert}`);
+  // Field names keep the cursor after the colon; values end the term
+  return suggestion.insert.endsWith(':') ? completed : `${completed} `;
+};
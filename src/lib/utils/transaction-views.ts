@@ -0,0 +1,103 @@
+import { TransactionSort } from '@/interfaces/expense-interface';
+import { DATE_FILTER_PARAMS } from './date-filter';
+
+export type TransactionTypeFilter = 'all' | 'expense' | 'income' | 'transfer';
+
+/**
+ * Transaction list filters as kept in the URL; 'all' means no filter
+ */
+export interface TransactionListFilters {
+  search: string;
+  category: string; // Category id or 'all'
+  paymentMethod: string; // Payment method id or 'all'
+  transactionType: TransactionTypeFilter;
+  tag: string; // Tag or 'all'
+  sort: TransactionSort;
+  pageSize: number;
+}
+
+export const PAGE_SIZES = [5, 10, 20, 50];
+
+export const DEFAULT_LIST_FILTERS: TransactionListFilters = {
+  search: '',
+  category: 'all',
+  paymentMethod: 'all',
+  transactionType: 'all',
+  tag: 'all',
+  sort: 'date_desc',
+  pageSize: 5,
+};
+
+// URL parameter for each list filter
+const LIST_FILTER_PARAMS: Record<keyof TransactionListFilters, string> = {
+  search: 'q',
+  category: 'category',
+  paymentMethod: 'payment',
+  transactionType: 'txType',
+  tag: 'tag',
+  sort: 'sort',
+  pageSize: 'pageSize',
+};
+
+const SORTS: TransactionSort[] = ['date_desc', 'date_asc', 'amount_desc', 'amount_asc', 'description'];
+const TRANSACTION_TYPES: TransactionTypeFilter[] = ['all', 'expense', 'income', 'transfer'];
+
+/**
+ * Reads the list filters from URL parameters, falling back to the defaults
+ * for anything missing or invalid
+ */
+export const parseListFilters = (searchParams: URLSearchParams): TransactionListFilters => {
+  const get = (key: keyof TransactionListFilters) => searchParams.get(LIST_FILTER_PARAMS[key]);
+  const sort = get('sort') as TransactionSort;
+  const transactionType = get('transactionType') as TransactionTypeFilter;
+  const pageSize = parseInt(get('pageSize') || '', 10);
+
+  return {
+    search: get('search') || DEFAULT_LIST_FILTERS.search,
+    category: get('category') || DEFAULT_LIST_FILTERS.category,
+    paymentMethod: get('paymentMethod') || DEFAULT_LIST_FILTERS.paymentMethod,
+    transactionType: TRANSACTION_TYPES.includes(transactionType) ? transactionType : DEFAULT_LIST_FILTERS.transactionType,
+    tag: get('tag') || DEFAULT_LIST_FILTERS.tag,
+    sort: SORTS.includes(sort) ? sort : DEFAULT_LIST_FILTERS.sort,
+    pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_LIST_FILTERS.pageSize,
+  };
+};
+
+/**
+ * Writes list filters into a copy of the URL parameters. Defaults are left out
+ * to keep links short.
+ */
+export const withListFilters = (
+  searchParams: URLSearchParams,
+  changes: Partial<TransactionListFilters>
+): URLSearchParams => {
+  const params = new URLSearchParams(searchParams);
+  (Object.keys(changes) as Array<keyof TransactionListFilters>).forEach(key => {
+    const value = String(changes[key] ?? '');
+    if (value === '' || value === String(DEFAULT_LIST_FILTERS[key])) {
+      params.delete(LIST_FILTER_PARAMS[key]);
+    } else {
+      params.set(LIST_FILTER_PARAMS[key], value);
+    }
+  });
+  return params;
+};
+
+/**
+ * The part of the URL a saved view stores: the date filter and list filters
+ */
+export const getViewQuery = (searchParams: URLSearchParams): string => {
+  const keys = [...DATE_FILTER_PARAMS, ...Object.values(LIST_FILTER_PARAMS)];
+  const params = new URLSearchParams();
+  keys.forEach(key => {
+    const value = searchParams.get(key);
+    if (value !== null) params.set(key, value);
+  });
+  return params.toString();
+};
+
+/**
+ * Link that opens the transaction list with a saved view's filters
+ */
+export const getViewPath = (query: string): string =>
+  query ? `/transactions?${query}` : '/transactions';
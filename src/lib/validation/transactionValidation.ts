@@ -1,4 +1,4 @@
-import { FormErrors, TransactionData } from "@/interfaces/types/transaction";
+import { FormErrors, SplitLine, TransactionData } from "@/interfaces/types/transaction";
 
 /**
  * Validates transaction form data
@@ -58,3 +58,43 @@ export const isFormValid = (data: {
     data.date <= new Date()
   );
 };
+
+/**
+ * Validates the lines of a split transaction against the transaction total
+ * @param lines Split lines entered in the form
+ * @param total Transaction total as entered in the amount field
+ * @returns Error message, or undefined when the lines are valid
+ */
+export const validateSplitLines = (lines: SplitLine[], total: string): string | undefined => {
+  if (lines.length < 2) {
+    return "A split needs at least two lines";
+  }
+  
+  if (lines.some(line => !line.category)) {
+    return "Every line needs a category";
+  }
+  
+  if (lines.some(line => isNaN(parseFloat(line.amount)) || parseFloat(line.amount) <= 0)) {
+    return "Every line needs a positive amount";
+  }
+  
+  const totalNum = parseFloat(total);
+  const linesTotal = sumSplitLines(lines);
+  if (!isNaN(totalNum) && Math.abs(linesTotal - totalNum) >= 0.005) {
+    return `Lines add up to ${linesTotal.toFixed(2)} but the total is ${totalNum.toFixed(2)}`;
+  }
+  
+  return undefined;
+};
+
+/**
+ * Sums the amounts of split lines, ignoring lines without a valid amount
+ * @param lines Split lines entered in the form
+ * @returns Sum of the line amounts
+ */
+export const sumSplitLines = (lines: SplitLine[]): number => {
+  return lines.reduce((sum, line) => {
+    const value = parseFloat(line.amount);
+    return isNaN(value) ? sum : sum + value;
+  }, 0);
+};
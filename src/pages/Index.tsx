@@ -10,7 +10,7 @@ import SpendingChart from '@/components/Charts/SpendingChart';
 import TransactionList from '@/components/Transactions/TransactionList';
 import BudgetTracker from '@/components/Budgets/BudgetTracker';
 import BudgetForm from '@/components/Budgets/BudgetForm';
-import { Budget, CreateBudgetRequest, UpdateBudgetRequest } from '@/interfaces/budget-interface';
+import { Budget, BudgetCategoryInput, CreateBudgetRequest, UpdateBudgetRequest } from '@/interfaces/budget-interface';
 import { Document } from '@/interfaces/document-interface';
 import DateFilter from '@/components/Dashboard/DateFilter';
 import TransactionForm from '@/components/Transactions/TransactionForm';
@@ -165,9 +165,10 @@ const Index = () => {
   const handleBudgetSubmit = (formData: {
     amount: string;
     period: PeriodEnum;
-    categoryId?: number;
+    categories: BudgetCategoryInput[];
     categoryName?: string;
-    alert_threshold?: number;
+    rollover_enabled?: boolean;
+    rollover_cap?: string;
   }) => {
     console.log('Dashboard handleBudgetSubmit called with form data:', formData);
     console.log('Current editingBudget state:', editingBudget);
@@ -183,11 +184,19 @@ const Index = () => {
         throw new Error("Invalid amount provided.");
       }
 
+      // An empty cap means the carry is unlimited
+      const rolloverCap = formData.rollover_enabled && formData.rollover_cap
+        ? parseFloat(formData.rollover_cap)
+        : null;
+
       if (editingBudget) {
         const updatePayload: UpdateBudgetRequest = {
           name: editingBudget.name,
           amount: amount,
           period: formData.period,
+          rollover_enabled: formData.rollover_enabled ?? false,
+          rollover_cap: rolloverCap,
+          categories: formData.categories,
         };
 
         console.log('Updating budget with payload:', updatePayload);
@@ -196,7 +205,7 @@ const Index = () => {
       } else {
         console.log("Preparing to CREATE new budget from dashboard");
         
-        if (!formData.categoryId) {
+        if (formData.categories.length === 0) {
             throw new Error("Category is required to create a budget.");
         }
 
@@ -206,12 +215,9 @@ const Index = () => {
           amount: amount,
           period: formData.period,
           start_date: new Date().toISOString(),
-          categories: [
-            {
-              category_id: formData.categoryId,
-              alert_threshold: formData.alert_threshold || amount * 0.8
-            }
-          ]
+          rollover_enabled: formData.rollover_enabled ?? false,
+          rollover_cap: rolloverCap,
+          categories: formData.categories
         };
 
         console.log('Creating budget with data:', newBudget);
@@ -12,7 +12,7 @@ import { formatCurrency } from '@/lib/utils';
 import { budgetApi } from '@/lib/api/budgetApi';
 import { CreateBudgetRequest, UpdateBudgetRequest, Budget } from '@/interfaces/budget-interface';
 import { useToast } from '@/components/ui/use-toast.ts';
-import BudgetForm from '@/components/Budgets/BudgetForm';
+import BudgetForm, { BudgetFormSubmitData } from '@/components/Budgets/BudgetForm';
 import { 
   Dialog, 
   DialogContent, 
@@ -157,12 +157,7 @@ const BudgetPage = () => {
   };
   
   // Updated handler for form submission
-  const handleMainPageBudgetSubmit = (formData: {
-    amount: number;
-    period: PeriodEnum;
-    categoryId?: number;
-    categoryName?: string;
-  }) => {
+  const handleMainPageBudgetSubmit = (formData: BudgetFormSubmitData) => {
     console.log('MAIN PAGE handleBudgetSubmit called with form data:', formData);
     console.log('Current budgetToEdit state:', budgetToEdit);
 
@@ -171,11 +166,25 @@ const BudgetPage = () => {
         throw new Error("User ID is missing. Cannot proceed.");
       }
 
+      // Convert string amount to number
+      const amount = parseFloat(formData.amount);
+      if (isNaN(amount) || amount <= 0) {
+        throw new Error("Invalid amount provided.");
+      }
+
+      // An empty cap means the carry is unlimited
+      const rolloverCap = formData.rollover_enabled && formData.rollover_cap
+        ? parseFloat(formData.rollover_cap)
+        : null;
+
       if (budgetToEdit) {
         const updatePayload: UpdateBudgetRequest = {
           name: budgetToEdit.name,
-          amount: formData.amount,
+          amount,
           period: formData.period,
+          rollover_enabled: formData.rollover_enabled ?? false,
+          rollover_cap: rolloverCap,
+          categories: formData.categories,
         };
 
         console.log('Updating budget with payload:', updatePayload);
@@ -184,22 +193,19 @@ const BudgetPage = () => {
       } else {
         console.log("Preparing to CREATE new budget");
         
-        if (!formData.categoryId) {
+        if (formData.categories.length === 0) {
             throw new Error("Category is required to create a budget.");
         }
 
         const newBudget: CreateBudgetRequest = {
           user_id: userId,
           name: `${formData.categoryName || 'New'} Budget`,
-          amount: formData.amount,
+          amount,
           period: formData.period,
           start_date: new Date().toISOString(),
-          categories: [
-            {
-              category_id: formData.categoryId,
-              alert_threshold: formData.amount * 0.8
-            }
-          ]
+          rollover_enabled: formData.rollover_enabled ?? false,
+          rollover_cap: rolloverCap,
+          categories: formData.categories
         };
 
         console.log('Creating budget with data:', newBudget);
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import Layout from '@/components/Layout/Layout';
+import PageHeader from '@/components/Layout/PageHeader';
+import { exchangeRateApi } from '@/lib/api/exchangeRateApi';
+import { ExchangeRate } from '@/interfaces/exchange-rate-interface';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from '@/lib/utils/currency';
+import { useDashboard } from '@/context/DashboardContext';
+import { useToast } from '@/components/ui/use-toast.ts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card.tsx';
+import { Button } from '@/components/ui/button.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table.tsx';
+import { Plus, LoaderCircle, AlertTriangle, Trash2 } from 'lucide-react';
+
+const FOREIGN_CURRENCIES = SUPPORTED_CURRENCIES.filter(code => code !== BASE_CURRENCY);
+
+const ExchangeRatesPage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { userId } = useDashboard();
+
+  const [currencyCode, setCurrencyCode] = useState(FOREIGN_CURRENCIES[0]);
+  const [rate, setRate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const { data: rates = [], isLoading, error } = useQuery({
+    queryKey: ['exchangeRates', userId],
+    queryFn: () => exchangeRateApi.getAllByUser(userId as string),
+    enabled: !!userId,
+  });
+
+  const rateValue = parseFloat(rate);
+  const canSave = !!userId && rateValue > 0 && !!effectiveDate;
+
+  const saveMutation = useMutation({
+    mutationFn: () => exchangeRateApi.save({
+      user_id: userId as string,
+      currency_code: currencyCode,
+      rate_to_base: rateValue,
+      effective_date: effectiveDate,
+    }),
+    onSuccess: (saved: ExchangeRate) => {
+      queryClient.invalidateQueries({ queryKey: ['exchangeRates', userId] });
+      toast({
+        title: "Success!",
+        description: `1 ${saved.currency_code} = ${saved.rate_to_base} ${BASE_CURRENCY} from ${saved.effective_date}.`,
+      });
+      setRate('');
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save exchange rate: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => exchangeRateApi.delete(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchangeRates', userId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete exchange rate: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSave) {
+      saveMutation.mutate();
+    }
+  };
+
+  return (
+    <Layout>
+      <PageHeader title="Exchange Rates" showBack={true} />
+      <div className="p-4 md:p-8 pt-20 lg:pt-6">
+        <div className="space-y-4 mb-6">
+          <h2 className="text-3xl font-bold tracking-tight">Exchange Rates</h2>
+          <p className="text-muted-foreground">
+            Foreign-currency transactions are converted to {BASE_CURRENCY} with the latest rate on or before their date.
+            Totals, budgets and reports are always in {BASE_CURRENCY}.
+          </p>
+        </div>
+
+        <Card className="shadow-purple mb-6">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-lg sm:text-xl font-bold">Add Rate</CardTitle>
+            <CardDescription>Saving a rate for a currency and date that already has one replaces it</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-4 sm:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="currencyCode">Currency</Label>
+                <Select value={currencyCode} onValueChange={setCurrencyCode}>
+                  <SelectTrigger id="currencyCode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FOREIGN_CURRENCIES.map(code => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate">{BASE_CURRENCY} per 1 {currencyCode}</Label>
+                <Input
+                  id="rate"
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="e.g. 3.45"
+                  value={rate}
+                  onChange={(e) => setRate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="effectiveDate">Effective from</Label>
+                <Input
+                  id="effectiveDate"
+                  type="date"
+                  value={effectiveDate}
+                  onChange={(e) => setEffectiveDate(e.target.value)}
+                />
+              </div>
+              <Button type="submit" disabled={!canSave || saveMutation.isPending}>
+                {saveMutation.isPending ? <LoaderCircle className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                <span className="ml-2">Save Rate</span>
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-purple">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-lg sm:text-xl font-bold">Rates</CardTitle>
+            <CardDescription>Newest first within each currency</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading && (
+              <div className="flex justify-center items-center py-8">
+                <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+                <span>Loading exchange rates...</span>
+              </div>
+            )}
+
+            {error && (
+              <div className="text-center py-8 text-destructive">
+                <AlertTriangle className="mx-auto h-8 w-8 mb-2" />
+                <p>{error.message}</p>
+              </div>
+            )}
+
+            {!isLoading && !error && rates.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No rates yet. Add one before recording a transaction in another currency, or enter the rate on the transaction itself.
+              </p>
+            )}
+
+            {!isLoading && !error && rates.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Currency</TableHead>
+                    <TableHead>Rate ({BASE_CURRENCY})</TableHead>
+                    <TableHead>Effective from</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rates.map(row => (
+                    <TableRow key={row.id}>
+                      <TableCell className="font-medium">{row.currency_code}</TableCell>
+                      <TableCell>{Number(row.rate_to_base)}</TableCell>
+                      <TableCell>{format(new Date(row.effective_date), 'dd MMM yyyy')}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full transition-colors"
+                          onClick={() => deleteMutation.mutate(row.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete rate</span>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default ExchangeRatesPage;
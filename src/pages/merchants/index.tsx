@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Layout from '@/components/Layout/Layout';
+import PageHeader from '@/components/Layout/PageHeader';
+import MerchantForm, { MerchantFormValues } from '@/components/Merchants/MerchantForm';
+import { MerchantDot } from '@/components/Transactions/MerchantPicker';
+import { merchantApi } from '@/lib/api/merchantApi';
+import { expenseApi } from '@/lib/api/expenseApi';
+import { formatCurrency } from '@/lib/utils';
+import { parseAliases } from '@/lib/utils/merchants';
+import { Merchant } from '@/interfaces/merchant-interface';
+import { useDashboard } from '@/context/DashboardContext';
+import { useToast } from '@/components/ui/use-toast.ts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card.tsx';
+import { Button } from '@/components/ui/button.tsx';
+import { Badge } from '@/components/ui/badge.tsx';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog.tsx';
+import { Plus, LoaderCircle, AlertTriangle, Pencil, Trash2, Link2 } from 'lucide-react';
+
+const MerchantsPage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { userId, startDate, endDate, dateRangeText } = useDashboard();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [merchantToEdit, setMerchantToEdit] = useState<Merchant | null>(null);
+  const [merchantToDelete, setMerchantToDelete] = useState<Merchant | null>(null);
+
+  const { data: merchants = [], isLoading, error } = useQuery({
+    queryKey: ['merchants', userId],
+    queryFn: () => merchantApi.getAllByUser(userId as string),
+    enabled: !!userId,
+  });
+
+  const { data: merchantTotals = [] } = useQuery({
+    queryKey: ['merchantSummary', userId, startDate, endDate],
+    queryFn: () => merchantApi.getSummary(userId as string, startDate, endDate),
+    enabled: !!userId,
+  });
+
+  const { data: expenseCategories = [] } = useQuery({
+    queryKey: ['expenseCategories'],
+    queryFn: expenseApi.getCategories,
+  });
+
+  const invalidateMerchants = () => {
+    queryClient.invalidateQueries({ queryKey: ['merchants', userId] });
+    queryClient.invalidateQueries({ queryKey: ['merchantSummary', userId] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: MerchantFormValues) => {
+      const request = {
+        name: values.name.trim(),
+        aliases: parseAliases(values.aliases),
+        default_category_id: values.defaultCategoryId ?? null,
+        color: values.color,
+      };
+      if (merchantToEdit) {
+        return await merchantApi.update(merchantToEdit.id, request);
+      }
+      return await merchantApi.create({ ...request, user_id: userId as string });
+    },
+    onSuccess: () => {
+      invalidateMerchants();
+      toast({
+        title: "Success!",
+        description: merchantToEdit ? "Merchant updated." : "Merchant created.",
+      });
+      setIsFormOpen(false);
+      setMerchantToEdit(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save merchant: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: () => merchantApi.linkUnassignedTransactions(userId as string, merchants),
+    onSuccess: (linked) => {
+      invalidateMerchants();
+      queryClient.invalidateQueries({ queryKey: ['expenses', userId] });
+      toast({
+        title: "Transactions linked",
+        description: linked === 0
+          ? "No unlinked transactions matched a merchant."
+          : `${linked} transaction${linked === 1 ? '' : 's'} linked to a merchant.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to link transactions: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => merchantApi.delete(id),
+    onSuccess: () => {
+      invalidateMerchants();
+      queryClient.invalidateQueries({ queryKey: ['expenses', userId] });
+      toast({
+        title: "Deleted",
+        description: "Merchant deleted. Its transactions are kept without a merchant.",
+      });
+      setMerchantToDelete(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete merchant: ${error.message}`,
+        variant: "destructive",
+      });
+      setMerchantToDelete(null);
+    }
+  });
+
+  const handleFormOpenChange = (open: boolean) => {
+    setIsFormOpen(open);
+    if (!open) {
+      setMerchantToEdit(null);
+    }
+  };
+
+  const handleEdit = (merchant: Merchant) => {
+    setMerchantToEdit(merchant);
+    setIsFormOpen(true);
+  };
+
+  const categoryName = (id?: number) => expenseCategories.find(category => category.id === id)?.name;
+
+  return (
+    <Layout>
+      <PageHeader title="Merchants" showBack={true} />
+      <div className="p-4 md:p-8 pt-20 lg:pt-6">
+        <div className="space-y-4 mb-6">
+          <h2 className="text-3xl font-bold tracking-tight">Merchants</h2>
+          <p className="text-muted-foreground">
+            One merchant for every way a shop appears in your descriptions and receipts. Aliases such as
+            "GRAB*RIDE" or "GRABFOOD" link new transactions automatically.
+          </p>
+        </div>
+
+        <Card className="shadow-purple">
+          <CardHeader className="flex flex-row items-start justify-between gap-4 pb-4">
+            <div>
+              <CardTitle className="text-lg sm:text-xl font-bold">Merchants</CardTitle>
+              <CardDescription>Totals for {dateRangeText}</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => linkMutation.mutate()}
+                disabled={!userId || merchants.length === 0 || linkMutation.isPending}
+              >
+                {linkMutation.isPending ? <LoaderCircle className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+                <span className="hidden sm:inline ml-2">Link Past Transactions</span>
+              </Button>
+              <Button onClick={() => setIsFormOpen(true)} disabled={!userId}>
+                <Plus className="h-4 w-4" />
+                <span className="hidden sm:inline ml-2">Add Merchant</span>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading && (
+              <div className="flex justify-center items-center py-8">
+                <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+                <span>Loading merchants...</span>
+              </div>
+            )}
+
+            {error && (
+              <div className="text-center py-8 text-destructive">
+                <AlertTriangle className="mx-auto h-8 w-8 mb-2" />
+                <p>{error.message}</p>
+              </div>
+            )}
+
+            {!isLoading && !error && merchants.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No merchants yet. Add one, or create one from the merchant field when adding a transaction.
+              </p>
+            )}
+
+            {!isLoading && !error && merchants.length > 0 && (
+              <ul className="divide-y">
+                {merchants.map(merchant => {
+                  const totals = merchantTotals.find(row => row.merchant_id === merchant.id);
+                  const defaultCategory = categoryName(merchant.default_category_id);
+                  return (
+                    <li key={merchant.id} className="flex flex-col sm:flex-row sm:items-center gap-3 py-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <MerchantDot merchant={merchant} />
+                          <span className="font-medium truncate">{merchant.name}</span>
+                          {defaultCategory && <Badge variant="secondary">{defaultCategory}</Badge>}
+                        </div>
+                        {merchant.aliases?.length > 0 && (
+                          <p className="text-sm text-muted-foreground mt-1 ml-[18px] truncate">
+                            Also: {merchant.aliases.join(', ')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="text-sm text-right ml-[18px] sm:ml-0">
+                        <div className="font-medium">{formatCurrency(totals?.total ?? 0)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {totals?.transaction_count ?? 0} transaction{totals?.transaction_count === 1 ? '' : 's'}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1 ml-[18px] sm:ml-0">
+                        <Button variant="ghost" size="icon" onClick={() => handleEdit(merchant)}>
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only">Edit merchant</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full transition-colors"
+                          onClick={() => setMerchantToDelete(merchant)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete merchant</span>
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <MerchantForm
+        open={isFormOpen}
+        onOpenChange={handleFormOpenChange}
+        onSubmit={(values) => saveMutation.mutate(values)}
+        initialData={merchantToEdit}
+        isSubmitting={saveMutation.isPending}
+      />
+
+      <AlertDialog open={!!merchantToDelete} onOpenChange={(open) => !open && setMerchantToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete merchant?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{merchantToDelete?.name}" will be removed. Its transactions and receipts are kept, without a merchant.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => merchantToDelete && deleteMutation.mutate(merchantToDelete.id)}
+              disabled={deleteMutation.isPending}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              {deleteMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+};
+
+export default MerchantsPage;
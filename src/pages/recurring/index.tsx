@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Layout from '@/components/Layout/Layout';
+import PageHeader from '@/components/Layout/PageHeader';
+import RecurringForm, { RecurringFormValues } from '@/components/Recurring/RecurringForm';
+import RecurringList from '@/components/Recurring/RecurringList';
+import { recurringApi } from '@/lib/api/recurringApi';
+import {
+  RecurringTransaction,
+  CreateRecurringTransactionRequest
+} from '@/interfaces/recurring-interface';
+import { useDashboard } from '@/context/DashboardContext';
+import { useToast } from '@/components/ui/use-toast.ts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card.tsx';
+import { Button } from '@/components/ui/button.tsx';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog.tsx';
+import { Plus, LoaderCircle, AlertTriangle } from 'lucide-react';
+
+// Converts form values into the request shape used by recurringApi
+const toRequest = (values: RecurringFormValues): Omit<CreateRecurringTransactionRequest, 'user_id'> => {
+  const isIncome = values.transaction_type === 'income';
+  return {
+    description: values.description.trim(),
+    amount: parseFloat(values.amount),
+    transaction_type: values.transaction_type,
+    category_id: isIncome ? null : values.categoryId,
+    income_category_id: isIncome ? values.categoryId : null,
+    payment_method_id: values.paymentMethodId,
+    frequency: values.frequency,
+    interval_count: values.interval_count,
+    start_date: values.start_date,
+    end_date: values.end_date || null,
+  };
+};
+
+const RecurringPage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { userId } = useDashboard();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [scheduleToEdit, setScheduleToEdit] = useState<RecurringTransaction | null>(null);
+  const [scheduleToDelete, setScheduleToDelete] = useState<RecurringTransaction | null>(null);
+
+  const { data: schedules = [], isLoading, error } = useQuery({
+    queryKey: ['recurringTransactions', userId],
+    queryFn: () => recurringApi.getAllByUser(userId as string),
+    enabled: !!userId,
+  });
+
+  const invalidateSchedules = () => {
+    queryClient.invalidateQueries({ queryKey: ['recurringTransactions', userId] });
+    // Changes may make occurrences due right away
+    queryClient.invalidateQueries({ queryKey: ['recurringPosting', userId] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: RecurringFormValues) => {
+      const request = toRequest(values);
+      if (scheduleToEdit) {
+        return await recurringApi.update(scheduleToEdit.id, request);
+      }
+      return await recurringApi.create({ ...request, user_id: userId as string });
+    },
+    onSuccess: () => {
+      invalidateSchedules();
+      toast({
+        title: "Success!",
+        description: scheduleToEdit ? "Recurring transaction updated." : "Recurring transaction created.",
+      });
+      setIsFormOpen(false);
+      setScheduleToEdit(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save recurring transaction: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: (schedule: RecurringTransaction) => recurringApi.setPaused(schedule, !schedule.is_paused),
+    onSuccess: (_, schedule) => {
+      invalidateSchedules();
+      toast({
+        title: schedule.is_paused ? "Resumed" : "Paused",
+        description: `${schedule.description} ${schedule.is_paused ? 'will be posted again when due' : 'will not be posted until resumed'}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update recurring transaction: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const skipMutation = useMutation({
+    mutationFn: ({ schedule, date, skipped }: { schedule: RecurringTransaction; date: string; skipped: boolean }) =>
+      recurringApi.setOccurrenceSkipped(schedule, date, skipped),
+    onSuccess: () => invalidateSchedules(),
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to skip occurrence: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => recurringApi.delete(id),
+    onSuccess: () => {
+      invalidateSchedules();
+      toast({
+        title: "Deleted",
+        description: "Recurring transaction deleted. Already posted transactions were kept.",
+      });
+      setScheduleToDelete(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete recurring transaction: ${error.message}`,
+        variant: "destructive",
+      });
+      setScheduleToDelete(null);
+    }
+  });
+
+  const handleFormOpenChange = (open: boolean) => {
+    setIsFormOpen(open);
+    if (!open) {
+      setScheduleToEdit(null);
+    }
+  };
+
+  const handleEdit = (schedule: RecurringTransaction) => {
+    setScheduleToEdit(schedule);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <Layout>
+      <PageHeader title="Recurring" showBack={true} />
+      <div className="p-4 md:p-8 pt-20 lg:pt-6">
+        <div className="space-y-4 mb-6">
+          <h2 className="text-3xl font-bold tracking-tight">Recurring Transactions</h2>
+          <p className="text-muted-foreground">
+            Bills, salary and subscriptions that are posted automatically when they come due.
+          </p>
+        </div>
+
+        <Card className="shadow-purple">
+          <CardHeader className="flex flex-row items-start justify-between gap-4 pb-4">
+            <div>
+              <CardTitle className="text-lg sm:text-xl font-bold">Schedules</CardTitle>
+              <CardDescription>Pause, skip or edit future occurrences</CardDescription>
+            </div>
+            <Button onClick={() => setIsFormOpen(true)} disabled={!userId}>
+              <Plus className="h-4 w-4" />
+              <span className="hidden sm:inline ml-2">Add Recurring</span>
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading && (
+              <div className="flex justify-center items-center py-8">
+                <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+                <span>Loading recurring transactions...</span>
+              </div>
+            )}
+
+            {error && (
+              <div className="text-center py-8 text-destructive">
+                <AlertTriangle className="mx-auto h-8 w-8 mb-2" />
+                <p>{error.message}</p>
+              </div>
+            )}
+
+            {!isLoading && !error && (
+              <RecurringList
+                schedules={schedules}
+                onEdit={handleEdit}
+                onDelete={setScheduleToDelete}
+                onTogglePause={(schedule) => pauseMutation.mutate(schedule)}
+                onToggleSkip={(schedule, date, skipped) => skipMutation.mutate({ schedule, date, skipped })}
+                isUpdating={pauseMutation.isPending || skipMutation.isPending}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <RecurringForm
+        open={isFormOpen}
+        onOpenChange={handleFormOpenChange}
+        onSubmit={(values) => saveMutation.mutate(values)}
+        initialData={scheduleToEdit}
+        isSubmitting={saveMutation.isPending}
+      />
+
+      <AlertDialog open={!!scheduleToDelete} onOpenChange={(open) => !open && setScheduleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete recurring transaction?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No further occurrences of "{scheduleToDelete?.description}" will be posted.
+              Transactions that were already posted are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => scheduleToDelete && deleteMutation.mutate(scheduleToDelete.id)}
+              disabled={deleteMutation.isPending}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              {deleteMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+};
+
+export default RecurringPage;
@@ -0,0 +1,352 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import Layout from '@/components/Layout/Layout';
+import PageHeader from '@/components/Layout/PageHeader';
+import RuleForm, { RuleFormValues } from '@/components/Rules/RuleForm';
+import ReapplyRulesDialog from '@/components/Rules/ReapplyRulesDialog';
+import { categorizationRuleApi } from '@/lib/api/categorizationRuleApi';
+import { expenseApi } from '@/lib/api/expenseApi';
+import { paymentMethodApi } from '@/lib/api/paymentMethodApi';
+import { supabase } from '@/lib/supabase/supabase';
+import { describeRuleConditions, getRuleCategoryId } from '@/lib/utils/categorization-rules';
+import {
+  CategorizationRule,
+  SaveCategorizationRuleRequest
+} from '@/interfaces/categorization-rule-interface';
+import { useDashboard } from '@/context/DashboardContext';
+import { useToast } from '@/components/ui/use-toast.ts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card.tsx';
+import { Button } from '@/components/ui/button.tsx';
+import { Badge } from '@/components/ui/badge.tsx';
+import { Switch } from '@/components/ui/switch.tsx';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog.tsx';
+import { Plus, LoaderCircle, AlertTriangle, ArrowUp, ArrowDown, Pencil, Trash2, RefreshCw } from 'lucide-react';
+
+// Converts form values into the request shape used by categorizationRuleApi.
+// Cleared fields are sent as null so editing a rule can remove a condition.
+const toRequest = (values: RuleFormValues): Omit<SaveCategorizationRuleRequest, 'user_id'> => {
+  const isIncome = values.transaction_type === 'income';
+  return {
+    name: values.name.trim(),
+    transaction_type: values.transaction_type,
+    description_contains: values.description_contains.trim() || null,
+    vendor_contains: values.vendor_contains.trim() || null,
+    amount_min: values.amount_min !== '' ? parseFloat(values.amount_min) : null,
+    amount_max: values.amount_max !== '' ? parseFloat(values.amount_max) : null,
+    payment_method_id: values.paymentMethodId ?? null,
+    set_category_id: isIncome ? null : values.setCategoryId ?? null,
+    set_income_category_id: isIncome ? values.setCategoryId ?? null : null,
+    set_payment_method_id: values.setPaymentMethodId ?? null,
+  };
+};
+
+const RulesPage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { userId } = useDashboard();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isReapplyOpen, setIsReapplyOpen] = useState(false);
+  const [ruleToEdit, setRuleToEdit] = useState<CategorizationRule | null>(null);
+  const [ruleToDelete, setRuleToDelete] = useState<CategorizationRule | null>(null);
+
+  const { data: rules = [], isLoading, error } = useQuery({
+    queryKey: ['categorizationRules', userId],
+    queryFn: () => categorizationRuleApi.getAllByUser(userId as string),
+    enabled: !!userId,
+  });
+
+  const { data: expenseCategories = [] } = useQuery({
+    queryKey: ['expenseCategories'],
+    queryFn: expenseApi.getCategories,
+  });
+
+  const { data: incomeCategories = [] } = useQuery({
+    queryKey: ['incomeCategories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('income_category')
+        .select('id, name')
+        .eq('isdeleted', false)
+        .order('name');
+
+      if (error) throw error;
+      return (data || []) as Array<{ id: number; name: string }>;
+    },
+  });
+
+  const { data: paymentMethods = [] } = useQuery({
+    queryKey: ['paymentMethods'],
+    queryFn: paymentMethodApi.getAll,
+  });
+
+  const invalidateRules = () => {
+    queryClient.invalidateQueries({ queryKey: ['categorizationRules', userId] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: RuleFormValues) => {
+      const request = toRequest(values);
+      if (ruleToEdit) {
+        return await categorizationRuleApi.update(ruleToEdit.id, request);
+      }
+      return await categorizationRuleApi.create({ ...request, user_id: userId as string });
+    },
+    onSuccess: () => {
+      invalidateRules();
+      toast({
+        title: "Success!",
+        description: ruleToEdit ? "Rule updated." : "Rule created. It applies to new transactions from now on.",
+      });
+      setIsFormOpen(false);
+      setRuleToEdit(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save rule: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (rule: CategorizationRule) => categorizationRuleApi.update(rule.id, { is_active: !rule.is_active }),
+    onSuccess: () => invalidateRules(),
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update rule: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (ruleIds: number[]) => categorizationRuleApi.reorder(ruleIds),
+    onSettled: () => invalidateRules(),
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to reorder rules: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => categorizationRuleApi.delete(id),
+    onSuccess: () => {
+      invalidateRules();
+      toast({
+        title: "Deleted",
+        description: "Rule deleted. Transactions it already categorized are unchanged.",
+      });
+      setRuleToDelete(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete rule: ${error.message}`,
+        variant: "destructive",
+      });
+      setRuleToDelete(null);
+    }
+  });
+
+  const moveRule = (index: number, offset: number) => {
+    const ids = rules.map(rule => rule.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    reorderMutation.mutate(ids);
+  };
+
+  const handleFormOpenChange = (open: boolean) => {
+    setIsFormOpen(open);
+    if (!open) {
+      setRuleToEdit(null);
+    }
+  };
+
+  const handleEdit = (rule: CategorizationRule) => {
+    setRuleToEdit(rule);
+    setIsFormOpen(true);
+  };
+
+  const paymentMethodName = (id: number) => paymentMethods.find(method => method.id === id)?.method_name;
+
+  const describeActions = (rule: CategorizationRule) => {
+    const parts: string[] = [];
+    const categoryId = getRuleCategoryId(rule);
+    if (categoryId) {
+      const categories = rule.transaction_type === 'income' ? incomeCategories : expenseCategories;
+      parts.push(categories.find(category => category.id === categoryId)?.name || 'category');
+    }
+    if (rule.set_payment_method_id) {
+      parts.push(`paid with ${paymentMethodName(rule.set_payment_method_id) || 'payment method'}`);
+    }
+    return parts.join(' · ');
+  };
+
+  return (
+    <Layout>
+      <PageHeader title="Rules" showBack={true} />
+      <div className="p-4 md:p-8 pt-20 lg:pt-6">
+        <div className="space-y-4 mb-6">
+          <h2 className="text-3xl font-bold tracking-tight">Categorization Rules</h2>
+          <p className="text-muted-foreground">
+            Rules fill in the category and payment method of new transactions, whether entered by hand,
+            imported or created from a document. The first matching rule from the top wins.
+          </p>
+        </div>
+
+        <Card className="shadow-purple">
+          <CardHeader className="flex flex-row items-start justify-between gap-4 pb-4">
+            <div>
+              <CardTitle className="text-lg sm:text-xl font-bold">Rules</CardTitle>
+              <CardDescription>Move a rule up to give it priority</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setIsReapplyOpen(true)} disabled={!userId || rules.length === 0}>
+                <RefreshCw className="h-4 w-4" />
+                <span className="hidden sm:inline ml-2">Re-run on Existing</span>
+              </Button>
+              <Button onClick={() => setIsFormOpen(true)} disabled={!userId}>
+                <Plus className="h-4 w-4" />
+                <span className="hidden sm:inline ml-2">Add Rule</span>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading && (
+              <div className="flex justify-center items-center py-8">
+                <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+                <span>Loading rules...</span>
+              </div>
+            )}
+
+            {error && (
+              <div className="text-center py-8 text-destructive">
+                <AlertTriangle className="mx-auto h-8 w-8 mb-2" />
+                <p>{error.message}</p>
+              </div>
+            )}
+
+            {!isLoading && !error && rules.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No rules yet. Add one such as "description contains GRAB → Transport".
+              </p>
+            )}
+
+            {!isLoading && !error && rules.length > 0 && (
+              <ul className="divide-y">
+                {rules.map((rule, index) => (
+                  <li key={rule.id} className="flex flex-col sm:flex-row sm:items-center gap-3 py-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground w-5">{index + 1}.</span>
+                        <span className="font-medium truncate">{rule.name}</span>
+                        <Badge variant="secondary">{rule.transaction_type === 'income' ? 'Income' : 'Expense'}</Badge>
+                        {!rule.is_active && <Badge variant="outline">Off</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground mt-1 ml-7">
+                        If {describeRuleConditions(rule, paymentMethodName)} → {describeActions(rule)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 ml-7 sm:ml-0">
+                      <Switch
+                        checked={rule.is_active}
+                        onCheckedChange={() => toggleMutation.mutate(rule)}
+                        disabled={toggleMutation.isPending}
+                        aria-label={rule.is_active ? 'Turn rule off' : 'Turn rule on'}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => moveRule(index, -1)}
+                        disabled={index === 0 || reorderMutation.isPending}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                        <span className="sr-only">Move up</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => moveRule(index, 1)}
+                        disabled={index === rules.length - 1 || reorderMutation.isPending}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                        <span className="sr-only">Move down</span>
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleEdit(rule)}>
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">Edit rule</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full transition-colors"
+                        onClick={() => setRuleToDelete(rule)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete rule</span>
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <RuleForm
+        open={isFormOpen}
+        onOpenChange={handleFormOpenChange}
+        onSubmit={(values) => saveMutation.mutate(values)}
+        initialData={ruleToEdit}
+        isSubmitting={saveMutation.isPending}
+      />
+
+      <ReapplyRulesDialog
+        open={isReapplyOpen}
+        onOpenChange={setIsReapplyOpen}
+        rules={rules}
+      />
+
+      <AlertDialog open={!!ruleToDelete} onOpenChange={(open) => !open && setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete rule?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{ruleToDelete?.name}" will no longer categorize new transactions.
+              Transactions it already categorized are kept as they are.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => ruleToDelete && deleteMutation.mutate(ruleToDelete.id)}
+              disabled={deleteMutation.isPending}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              {deleteMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+};
+
+export default RulesPage;
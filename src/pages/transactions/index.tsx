@@ -5,6 +5,9 @@ import TransactionList from '@/components/Transactions/TransactionList';
 import { DocumentUploader } from '@/components/Documents/DocumentUploader';
 import { ProcessedDocuments } from '@/components/Documents/ProcessedDocuments';
 import DateFilter from '@/components/Dashboard/DateFilter';
+import CsvImportWizard from '@/components/Transactions/Import/CsvImportWizard';
+import { Button } from '@/components/ui/button.tsx';
+import { FileSpreadsheet } from 'lucide-react';
 import { useDashboard } from '@/context/DashboardContext';
 import { Document } from '@/interfaces/document-interface';
 
@@ -12,6 +15,7 @@ const TransactionsPage = () => {
   const { dateRangeText } = useDashboard();
   const [processedDocuments, setProcessedDocuments] = useState<Document[]>([]);
   const [showScanner, setShowScanner] = useState(false);
+  const [showImport, setShowImport] = useState(false);
 
   // Listen for central button triggering scanner
   React.useEffect(() => {
@@ -57,9 +61,13 @@ const TransactionsPage = () => {
             </p>
           </div>
           
-          {/* Date Filter */}
-          <div className="flex justify-start">
+          {/* Date Filter and Import */}
+          <div className="flex flex-wrap items-center justify-start gap-2">
             <DateFilter />
+            <Button variant="outline" onClick={() => setShowImport(true)}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Import CSV
+            </Button>
           </div>
         </div>
 
@@ -89,6 +97,8 @@ const TransactionsPage = () => {
         </div>
       </div>
 
+      <CsvImportWizard open={showImport} onOpenChange={setShowImport} />
+
       {/* Mobile Scanner Overlay */}
       {showScanner && (
         <div className="fixed inset-0 z-[60] bg-background animate-in fade-in-0 slide-in-from-bottom-5 duration-300">
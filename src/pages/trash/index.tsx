@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import Layout from '@/components/Layout/Layout';
+import PageHeader from '@/components/Layout/PageHeader';
+import { trashApi } from '@/lib/api/trashApi';
+import { TrashItem, TrashItemType } from '@/interfaces/trash-interface';
+import { useAuth } from '@/lib/auth';
+import { useDashboard } from '@/context/DashboardContext';
+import { useToast } from '@/components/ui/use-toast.ts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card.tsx';
+import { Button } from '@/components/ui/button.tsx';
+import { Badge } from '@/components/ui/badge.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog.tsx';
+import { LoaderCircle, AlertTriangle, RotateCcw, Trash2 } from 'lucide-react';
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+const DEFAULT_RETENTION_DAYS = 30;
+
+const TYPE_LABELS: Record<TrashItemType, string> = {
+  transaction: 'Transaction',
+  budget: 'Budget',
+  document: 'Document',
+  payment_method: 'Payment Method',
+};
+
+const TrashPage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { profile, updateProfile } = useAuth();
+  const { userId, refreshData } = useDashboard();
+
+  // Items waiting for confirmation before being deleted for good
+  const [purgeTarget, setPurgeTarget] = useState<TrashItem[] | null>(null);
+
+  const retentionDays = profile?.trash_retention_days || DEFAULT_RETENTION_DAYS;
+
+  const { data: items = [], isLoading, error } = useQuery({
+    queryKey: ['trash', userId],
+    queryFn: () => trashApi.getAll(userId as string),
+    enabled: !!userId,
+  });
+
+  const invalidateRestored = (type: TrashItemType) => {
+    queryClient.invalidateQueries({ queryKey: ['trash', userId] });
+    if (type === 'transaction') {
+      queryClient.invalidateQueries({ queryKey: ['expenses', userId] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardSummary', userId] });
+      queryClient.invalidateQueries({ queryKey: ['spendingByCategory', userId] });
+      queryClient.invalidateQueries({ queryKey: ['spendingByPayment', userId] });
+      queryClient.invalidateQueries({ queryKey: ['budgetSpending'] });
+      queryClient.invalidateQueries({ queryKey: ['budgetCategorySpending'] });
+      queryClient.invalidateQueries({ queryKey: ['tags', userId] });
+      queryClient.invalidateQueries({ queryKey: ['spendingByTag', userId] });
+      refreshData();
+    } else if (type === 'budget') {
+      queryClient.invalidateQueries({ queryKey: ['budgets'] });
+    } else if (type === 'payment_method') {
+      queryClient.invalidateQueries({ queryKey: ['paymentMethods'] });
+    }
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (item: TrashItem) => trashApi.restore(item.type, [item.id]),
+    onSuccess: (_, item) => {
+      invalidateRestored(item.type);
+      toast({
+        title: "Restored",
+        description: `"${item.label}" is back where it was.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to restore: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (target: TrashItem[]) => trashApi.purge(target),
+    onSuccess: (_, target) => {
+      queryClient.invalidateQueries({ queryKey: ['trash', userId] });
+      toast({
+        title: "Deleted Forever",
+        description: target.length === 1
+          ? `"${target[0].label}" was permanently deleted.`
+          : `${target.length} items were permanently deleted.`,
+      });
+    },
+    onError: (error: Error) => {
+      // Part of the batch may already be gone
+      queryClient.invalidateQueries({ queryKey: ['trash', userId] });
+      toast({
+        title: "Error",
+        description: `Failed to delete: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => setPurgeTarget(null),
+  });
+
+  const retentionMutation = useMutation({
+    mutationFn: (days: number) => updateProfile({ trash_retention_days: days }),
+    onSuccess: () => {
+      toast({
+        title: "Success!",
+        description: "Trash retention period updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update retention period: ${error.message}`,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const daysLeft = (item: TrashItem) => {
+    // Shared payment methods are never purged automatically
+    if (!item.deleted_at || item.type === 'payment_method') return null;
+    const purgeDate = addDays(new Date(item.deleted_at), retentionDays);
+    return Math.max(0, differenceInCalendarDays(purgeDate, new Date()));
+  };
+
+  return (
+    <Layout>
+      <PageHeader title="Trash" showBack={true} />
+      <div className="p-4 md:p-8 pt-20 lg:pt-6">
+        <div className="space-y-4 mb-6">
+          <h2 className="text-3xl font-bold tracking-tight">Trash</h2>
+          <p className="text-muted-foreground">
+            Deleted transactions, budgets and documents stay here for {retentionDays} days
+            before they are deleted for good. Deleted payment methods stay until you purge them.
+          </p>
+        </div>
+
+        <Card className="shadow-purple mb-6">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-lg sm:text-xl font-bold">Retention</CardTitle>
+            <CardDescription>How long deleted items can still be restored</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2 sm:w-64">
+              <Label htmlFor="retentionDays">Keep deleted items for</Label>
+              <Select
+                value={retentionDays.toString()}
+                onValueChange={(value) => retentionMutation.mutate(parseInt(value))}
+                disabled={retentionMutation.isPending}
+              >
+                <SelectTrigger id="retentionDays">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...new Set([...RETENTION_OPTIONS, retentionDays])].sort((a, b) => a - b).map(days => (
+                    <SelectItem key={days} value={days.toString()}>{days} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-purple">
+          <CardHeader className="pb-4 flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg sm:text-xl font-bold">Deleted Items</CardTitle>
+              <CardDescription>Most recently deleted first</CardDescription>
+            </div>
+            {items.length > 0 && (
+              <Button
+                variant="outline"
+                className="text-red-600 hover:text-red-700"
+                onClick={() => setPurgeTarget(items)}
+                disabled={purgeMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Empty Trash
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {isLoading && (
+              <div className="flex justify-center items-center py-8">
+                <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+                <span>Loading trash...</span>
+              </div>
+            )}
+
+            {error && (
+              <div className="text-center py-8 text-destructive">
+                <AlertTriangle className="mx-auto h-8 w-8 mb-2" />
+                <p>{error.message}</p>
+              </div>
+            )}
+
+            {!isLoading && !error && items.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                The trash is empty.
+              </p>
+            )}
+
+            {!isLoading && !error && items.length > 0 && (
+              <ul className="divide-y">
+                {items.map(item => {
+                  const remaining = daysLeft(item);
+                  return (
+                    <li key={`${item.type}-${item.id}`} className="flex flex-col sm:flex-row sm:items-center gap-3 py-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary">{TYPE_LABELS[item.type]}</Badge>
+                          <span className="font-medium truncate">{item.label}</span>
+                        </div>
+                        {item.detail && (
+                          <p className="text-sm text-muted-foreground mt-1 truncate">{item.detail}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {item.deleted_at ? `Deleted ${format(new Date(item.deleted_at), 'dd MMM yyyy')}` : 'Deleted'}
+                          {remaining !== null && ` · ${remaining === 0 ? 'deleted for good today' : `deleted for good in ${remaining} day${remaining === 1 ? '' : 's'}`}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => restoreMutation.mutate(item)}
+                          disabled={restoreMutation.isPending}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-gray-500 hover:text-red-600 hover:bg-red-100"
+                          onClick={() => setPurgeTarget([item])}
+                          disabled={purgeMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete Forever
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={!!purgeTarget} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget?.length === 1
+                ? `"${purgeTarget[0].label}" will be permanently deleted.`
+                : `All ${purgeTarget?.length} items in the trash will be permanently deleted.`}
+              {' '}This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => purgeTarget && purgeMutation.mutate(purgeTarget)}
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+};
+
+export default TrashPage;
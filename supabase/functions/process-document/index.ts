@@ -94,21 +94,90 @@ serve(async (req) => {
       .select('id, method_name')
       .eq('isdeleted', false);
 
-    // Step 6: Use AI to parse financial data
-    console.log('🧠 Parsing document with OpenRouter AI...');
-    const parsedData = await parseWithOpenRouter(ocrText, {
+    const parseContext = {
       expenseCategories: expenseCategories || [],
       incomeCategories: incomeCategories || [],
       paymentMethods: paymentMethods || []
-    });
+    };
+
+    // Step 6: Bank statements become one line per transaction instead of a single total
+    if (looksLikeBankStatement(ocrText)) {
+      console.log('🏦 Document looks like a bank statement, parsing statement lines...');
+      const statement = await parseStatementWithOpenRouter(ocrText, parseContext);
+
+      const { data: insertedLines, error: linesError } = await supabase
+        .from('document_line')
+        .insert(statement.lines.map((line, index) => ({
+          document_id: documentId,
+          line_number: index + 1,
+          transaction_date: line.transactionDate,
+          description: line.description,
+          amount: line.amount,
+          transaction_type: line.transactionType,
+          suggested_category_id: line.suggestedCategoryId,
+          suggested_category_type: line.transactionType
+        })))
+        .select('*');
+
+      if (linesError) {
+        throw new Error(`Failed to save statement lines: ${linesError.message}`);
+      }
+
+      await supabase.rpc('update_document_processing_status', {
+        p_document_id: documentId,
+        p_status: 'parsed',
+        p_document_type: 'bank_statement',
+        p_vendor_name: statement.bankName,
+        p_transaction_date: statement.lines[statement.lines.length - 1]?.transactionDate ?? null,
+        p_transaction_type: 'expense',
+        p_ai_confidence_score: statement.confidenceScore,
+        p_suggested_payment_method_id: statement.suggestedPaymentMethodId
+      });
+
+      console.log(`✅ Parsed ${insertedLines?.length || 0} statement lines for document ${documentId}`);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          documentId,
+          parsedData: {
+            documentType: 'bank_statement',
+            vendorName: statement.bankName,
+            transactionDate: statement.lines[statement.lines.length - 1]?.transactionDate ?? null,
+            totalAmount: null,
+            currency: statement.currency,
+            transactionType: 'expense',
+            confidenceScore: statement.confidenceScore,
+            suggestedPaymentMethodId: statement.suggestedPaymentMethodId,
+            lines: insertedLines || []
+          }
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        },
+      );
+    }
+
+    // Step 7: Use AI to parse financial data
+    console.log('🧠 Parsing document with OpenRouter AI...');
+    const parsedData = await parseWithOpenRouter(ocrText, parseContext);
+
+    // Step 7b: Match the vendor to one of the user's merchants (by name or alias)
+    const merchant = parsedData.documentType === 'bank_statement'
+      ? null
+      : await matchMerchant(supabase, documentId, parsedData.vendorName);
+    if (merchant) {
+      console.log(`🏪 Vendor "${parsedData.vendorName}" matched merchant "${merchant.name}"`);
+    }
 
-    // Step 7: Update document with parsed data
+    // Step 8: Update document with parsed data
     console.log('💾 Updating document with parsed data...');
     await supabase.rpc('update_document_processing_status', {
       p_document_id: documentId,
       p_status: 'parsed',
       p_document_type: parsedData.documentType,
-      p_vendor_name: parsedData.vendorName,
+      p_vendor_name: merchant ? merchant.name : parsedData.vendorName,
       p_transaction_date: parsedData.transactionDate,
       p_total_amount: parsedData.totalAmount,
       p_transaction_type: parsedData.transactionType,
@@ -118,6 +187,13 @@ serve(async (req) => {
       p_suggested_payment_method_id: parsedData.suggestedPaymentMethodId
     });
 
+    if (merchant) {
+      await supabase
+        .from('documents')
+        .update({ merchant_id: merchant.id })
+        .eq('id', documentId);
+    }
+
     console.log(`✅ Successfully processed document ${documentId}`);
 
     return new Response(
@@ -150,6 +226,59 @@ serve(async (req) => {
   }
 });
 
+// Same normalization as src/lib/utils/merchants.ts: lowercase, no punctuation,
+// reference numbers or spaces ("GRAB*RIDE 1234" -> "grabride")
+function compactMerchantText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[*#_/\\.,:;'"()-]+/g, ' ')
+    .replace(/\b\d+\b/g, ' ')
+    .replace(/\s/g, '');
+}
+
+// Find the document owner's merchant whose name or alias appears in the vendor name;
+// the longest match wins. Matching failures never fail the document.
+async function matchMerchant(
+  supabase: ReturnType<typeof createClient>,
+  documentId: number,
+  vendorName?: string
+): Promise<{ id: number; name: string } | null> {
+  const target = compactMerchantText(vendorName || '');
+  if (!target) return null;
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('user_id')
+    .eq('id', documentId)
+    .single();
+  if (!document) return null;
+
+  const { data: merchants, error } = await supabase
+    .from('merchant')
+    .select('id, name, aliases')
+    .eq('user_id', document.user_id)
+    .eq('isdeleted', false);
+
+  if (error) {
+    console.error('⚠️ Could not load merchants:', error);
+    return null;
+  }
+
+  let best: { id: number; name: string } | null = null;
+  let bestLength = 0;
+  for (const merchant of merchants || []) {
+    for (const key of [merchant.name, ...(merchant.aliases || [])]) {
+      const compactKey = compactMerchantText(key);
+      const matches = compactKey.length >= 3 ? target.includes(compactKey) : target === compactKey;
+      if (matches && compactKey.length > bestLength) {
+        best = { id: merchant.id, name: merchant.name };
+        bestLength = compactKey.length;
+      }
+    }
+  }
+  return best;
+}
+
 // OCR Function using Mistral OCR API with proper upload flow
 async function performOCR(fileData: Blob): Promise<string> {
   console.log("🔍 [OCR] Starting OCR process with Mistral AI (Upload → Signed URL)...")
@@ -384,6 +513,201 @@ interface ParseContext {
   paymentMethods: PaymentMethod[]
 }
 
+// Bank statements list many dated transactions with running balances,
+// so look for the wording that receipts and invoices don't use
+function looksLikeBankStatement(ocrText: string): boolean {
+  const text = ocrText.toLowerCase();
+  const markers = [
+    'statement of account',
+    'account statement',
+    'bank statement',
+    'opening balance',
+    'closing balance',
+    'beginning balance',
+    'ending balance',
+    'penyata akaun',
+    'baki awal',
+    'baki akhir'
+  ];
+  const hits = markers.filter(marker => text.includes(marker)).length;
+  // A single dated line would be a receipt; statements have many
+  const datedLines = (ocrText.match(/^\s*\|?\s*\d{1,2}[/\-\s](?:\d{1,2}|[a-z]{3})[/\-\s]?\d{0,4}/gim) || []).length;
+  return hits >= 2 || (hits >= 1 && datedLines >= 3);
+}
+
+interface StatementLine {
+  transactionDate: string | null
+  description: string
+  amount: number
+  transactionType: 'expense' | 'income'
+  suggestedCategoryId: number | null
+}
+
+// Statement Parsing Function using OpenRouter with GPT-4o-mini
+async function parseStatementWithOpenRouter(ocrText: string, context: ParseContext) {
+  console.log('🏦 Parsing bank statement with OpenRouter AI...');
+
+  const openrouterApiKey = Deno.env.get('OPENROUTER_API_KEY');
+  if (!openrouterApiKey) {
+    throw new Error('OPENROUTER_API_KEY not found in environment variables');
+  }
+
+  const openai = new OpenAI({
+    baseURL: "https://openrouter.ai/api/v1",
+    apiKey: openrouterApiKey,
+    defaultHeaders: {
+      "HTTP-Referer": "https://tracker-zenith.vercel.app",
+      "X-Title": "FinanceTracker-DocumentProcessor"
+    }
+  });
+
+  const schema = {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      bank_name: {
+        type: "string",
+        description: "Name of the bank or e-wallet that issued the statement"
+      },
+      currency: {
+        type: "string",
+        description: "Currency code like MYR, USD, EUR"
+      },
+      suggested_payment_method_id: {
+        type: "integer",
+        description: "Best matching payment method ID for this account"
+      },
+      confidence_score: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description: "Confidence level 0.0-1.0"
+      },
+      lines: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            date: {
+              type: "string",
+              description: "Transaction date in YYYY-MM-DD format"
+            },
+            description: {
+              type: "string",
+              description: "Transaction description as printed on the statement"
+            },
+            amount: {
+              type: "number",
+              description: "Absolute transaction amount"
+            },
+            transaction_type: {
+              type: "string",
+              enum: ["expense", "income"],
+              description: "expense for debits/withdrawals, income for credits/deposits"
+            },
+            suggested_category_id: {
+              type: "integer",
+              description: "Best matching category ID for the transaction type"
+            }
+          },
+          required: ["date", "description", "amount", "transaction_type", "suggested_category_id"]
+        }
+      }
+    },
+    required: ["bank_name", "currency", "suggested_payment_method_id", "confidence_score", "lines"]
+  };
+
+  const prompt = `Extract every transaction line from this bank or e-wallet statement. Return valid JSON only.
+
+**RULES:**
+- One entry per transaction line. Skip opening/closing balance rows, totals and page headers.
+- Amount is always positive; use transaction_type for the direction (debit = expense, credit = income).
+- Dates must be YYYY-MM-DD. Use the statement period to fill in a missing year.
+- Currency: Default to MYR for Malaysian banks
+
+**Available Expense Categories:**
+${context.expenseCategories.map((cat) => `${cat.id}: ${cat.name} - ${cat.description}`).join('\n')}
+
+**Available Income Categories:**
+${context.incomeCategories.map((cat) => `${cat.id}: ${cat.name} - ${cat.description}`).join('\n')}
+
+**Available Payment Methods:**
+${context.paymentMethods.map((pm) => `${pm.id}: ${pm.method_name}`).join('\n')}
+
+**Raw Statement Text:**
+---
+${ocrText}
+---`;
+
+  const completion = await openai.chat.completions.create({
+    model: "openai/gpt-4o-mini",
+    messages: [
+      {
+        role: "system",
+        content: "You are a precise bank statement parser. Extract data exactly as specified in the schema. Return only valid JSON."
+      },
+      {
+        role: "user",
+        content: prompt
+      }
+    ],
+    response_format: {
+      type: "json_schema",
+      json_schema: {
+        name: "bank_statement",
+        strict: true,
+        schema: schema
+      }
+    },
+    temperature: 0.1,
+    max_tokens: 8000
+  });
+
+  const aiResponse = completion.choices[0]?.message?.content;
+  if (!aiResponse) {
+    throw new Error('No response from OpenRouter AI');
+  }
+
+  let parsedData;
+  try {
+    parsedData = JSON.parse(aiResponse);
+  } catch (parseError) {
+    console.error('Failed to parse statement response as JSON:', parseError);
+    throw new Error('Invalid JSON response from AI');
+  }
+
+  const expenseIds = new Set(context.expenseCategories.map((cat) => cat.id));
+  const incomeIds = new Set(context.incomeCategories.map((cat) => cat.id));
+
+  const lines: StatementLine[] = (parsedData.lines || [])
+    .map((line) => {
+      const transactionType = line.transaction_type === 'income' ? 'income' : 'expense';
+      const categoryId = parseInt(line.suggested_category_id);
+      // Drop category suggestions that belong to the other transaction type
+      const validIds = transactionType === 'income' ? incomeIds : expenseIds;
+
+      return {
+        transactionDate: /^\d{4}-\d{2}-\d{2}$/.test(line.date) ? line.date : null,
+        description: String(line.description || '').trim(),
+        amount: Math.abs(parseFloat(line.amount)) || 0,
+        transactionType,
+        suggestedCategoryId: validIds.has(categoryId) ? categoryId : null
+      };
+    })
+    .filter((line) => line.amount > 0);
+
+  console.log(`🏦 Statement parsed: ${lines.length} lines from ${parsedData.bank_name}`);
+
+  return {
+    bankName: parsedData.bank_name || 'Bank Statement',
+    currency: parsedData.currency || 'MYR',
+    confidenceScore: parseFloat(parsedData.confidence_score) || 0.7,
+    suggestedPaymentMethodId: parsedData.suggested_payment_method_id ? parseInt(parsedData.suggested_payment_method_id) : null,
+    lines
+  };
+}
+
 // AI Parsing Function using OpenRouter with GPT-4o-mini
 async function parseWithOpenRouter(ocrText: string, context: ParseContext) {
   console.log('🤖 Parsing document with OpenRouter AI...');
@@ -0,0 +1,46 @@
+-- Recurring transaction schedules (salary, rent, subscriptions, loan repayments)
+-- Due occurrences are posted by the client as normal expense/expense_item rows
+
+CREATE TABLE IF NOT EXISTS recurring_transaction (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id),
+  description text NOT NULL,
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  transaction_type text NOT NULL DEFAULT 'expense' CHECK (transaction_type IN ('expense', 'income')),
+  category_id bigint REFERENCES expense_category(id),
+  income_category_id bigint REFERENCES income_category(id),
+  payment_method_id bigint REFERENCES payment_methods(id),
+  -- Cadence uses the same values as PeriodEnum on the client
+  frequency text NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'quarterly', 'yearly')),
+  interval_count integer NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+  start_date date NOT NULL,
+  end_date date,
+  -- Next occurrence still to be posted; NULL once the schedule has ended
+  next_occurrence date,
+  last_posted_date date,
+  skipped_dates date[] NOT NULL DEFAULT '{}',
+  is_paused boolean NOT NULL DEFAULT false,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_by uuid,
+  updated_at timestamp with time zone,
+  isdeleted boolean NOT NULL DEFAULT false,
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_transaction_due
+  ON recurring_transaction (user_id, next_occurrence)
+  WHERE isdeleted = false AND is_paused = false;
+
+-- Link posted transactions back to the schedule that created them
+ALTER TABLE expense
+ADD COLUMN IF NOT EXISTS recurring_transaction_id bigint REFERENCES recurring_transaction(id);
+
+-- Row level security: users only see their own schedules
+ALTER TABLE recurring_transaction ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS recurring_transaction_owner ON recurring_transaction;
+CREATE POLICY recurring_transaction_owner ON recurring_transaction
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,31 @@
+-- Saved CSV column mappings, one per import source (bank or e-wallet export),
+-- so a recurring monthly import can reuse the previous mapping.
+
+CREATE TABLE IF NOT EXISTS import_mapping (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id),
+  source_name text NOT NULL,
+  -- Lowercased name, so lookups by name are an exact match ignoring case
+  source_key text GENERATED ALWAYS AS (lower(source_name)) STORED,
+  -- Header row the mapping was built for; used to recognise the source
+  headers text[] NOT NULL DEFAULT '{}',
+  mapping jsonb NOT NULL,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_by uuid,
+  updated_at timestamp with time zone,
+  isdeleted boolean NOT NULL DEFAULT false
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_import_mapping_source
+  ON import_mapping (user_id, source_key)
+  WHERE isdeleted = false;
+
+-- Row level security: users only see their own mappings
+ALTER TABLE import_mapping ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS import_mapping_owner ON import_mapping;
+CREATE POLICY import_mapping_owner ON import_mapping
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
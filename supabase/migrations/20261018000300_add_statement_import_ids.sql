@@ -0,0 +1,11 @@
+-- Keep the bank's transaction identifiers on imported OFX/QIF transactions so
+-- importing the same statement twice never double-posts.
+
+ALTER TABLE expense
+ADD COLUMN IF NOT EXISTS external_id text,
+ADD COLUMN IF NOT EXISTS check_number text;
+
+-- A statement transaction can only be imported once per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expense_external_id
+  ON expense (user_id, external_id)
+  WHERE external_id IS NOT NULL AND isdeleted = false;
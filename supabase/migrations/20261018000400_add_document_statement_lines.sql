@@ -0,0 +1,152 @@
+-- Bank statements are parsed into one row per statement line instead of a
+-- single total. The user reviews the lines and posts the selected ones in one batch.
+
+CREATE TABLE IF NOT EXISTS document_line (
+  id bigserial PRIMARY KEY,
+  document_id bigint NOT NULL REFERENCES documents(id),
+  line_number integer NOT NULL,
+  transaction_date date,
+  description text NOT NULL DEFAULT '',
+  amount numeric(12, 2) NOT NULL CHECK (amount >= 0),
+  transaction_type text NOT NULL DEFAULT 'expense' CHECK (transaction_type IN ('expense', 'income')),
+  suggested_category_id bigint,
+  suggested_category_type text CHECK (suggested_category_type IN ('expense', 'income')),
+  -- Set once the line has been posted as a transaction
+  created_expense_id bigint REFERENCES expense(id),
+  created_at timestamp with time zone DEFAULT now(),
+  isdeleted boolean NOT NULL DEFAULT false
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_line_document
+  ON document_line (document_id, line_number)
+  WHERE isdeleted = false;
+
+-- Row level security: lines belong to the owner of the document
+ALTER TABLE document_line ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS document_line_owner ON document_line;
+CREATE POLICY document_line_owner ON document_line
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM documents d WHERE d.id = document_id AND d.user_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM documents d WHERE d.id = document_id AND d.user_id = auth.uid()));
+
+-- Posts the selected statement lines as transactions in one database transaction.
+-- p_lines: [{ "line_id", "date", "description", "amount", "transaction_type", "category_id" }]
+-- Lines already posted are skipped, and each line carries an external_id so the
+-- same line can never be posted twice. Likely duplicates of existing
+-- transactions are filtered out by the client before the call, with the same
+-- check used for single receipts.
+CREATE OR REPLACE FUNCTION create_transactions_from_document_lines(
+  p_document_id bigint,
+  p_payment_method_id bigint,
+  p_lines jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_line jsonb;
+  v_line_id bigint;
+  v_posted_expense_id bigint;
+  v_is_income boolean;
+  v_expense_id bigint;
+  v_expense_ids bigint[] := '{}';
+BEGIN
+  SELECT user_id INTO v_user_id
+  FROM documents
+  WHERE id = p_document_id AND isdeleted = false;
+
+  IF v_user_id IS NULL OR v_user_id <> auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Document not found');
+  END IF;
+
+  -- Payment methods and categories are shared; row level security decides
+  -- which ones the caller may use, and deleted ones can't take new entries
+  IF NOT EXISTS (
+    SELECT 1 FROM payment_methods
+    WHERE id = p_payment_method_id AND isdeleted = false
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Payment method not found');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_lines) l
+    WHERE CASE WHEN l->>'transaction_type' = 'income'
+      THEN NOT EXISTS (
+        SELECT 1 FROM income_category c
+        WHERE c.id = (l->>'category_id')::bigint AND c.isdeleted = false
+      )
+      ELSE NOT EXISTS (
+        SELECT 1 FROM expense_category c
+        WHERE c.id = (l->>'category_id')::bigint AND c.isdeleted = false
+      )
+    END
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Category not found');
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_line_id := (v_line->>'line_id')::bigint;
+
+    -- Lock the line so concurrent calls can't both post it, and skip lines
+    -- that aren't on this document or were already posted
+    SELECT created_expense_id INTO v_posted_expense_id
+    FROM document_line
+    WHERE id = v_line_id AND document_id = p_document_id AND isdeleted = false
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_posted_expense_id IS NOT NULL THEN
+      CONTINUE;
+    END IF;
+
+    v_is_income := (v_line->>'transaction_type') = 'income';
+
+    INSERT INTO expense (user_id, date, description, payment_method_id, transaction_type, external_id)
+    VALUES (
+      v_user_id,
+      (v_line->>'date')::date,
+      v_line->>'description',
+      p_payment_method_id,
+      CASE WHEN v_is_income THEN 'income' ELSE 'expense' END,
+      'doc:' || p_document_id || ':' || v_line_id
+    )
+    RETURNING id INTO v_expense_id;
+
+    INSERT INTO expense_item (expense_id, category_id, income_category_id, amount, description)
+    VALUES (
+      v_expense_id,
+      CASE WHEN v_is_income THEN NULL ELSE (v_line->>'category_id')::bigint END,
+      CASE WHEN v_is_income THEN (v_line->>'category_id')::bigint ELSE NULL END,
+      (v_line->>'amount')::numeric,
+      v_line->>'description'
+    );
+
+    UPDATE document_line
+    SET created_expense_id = v_expense_id
+    WHERE id = v_line_id AND document_id = p_document_id;
+
+    v_expense_ids := array_append(v_expense_ids, v_expense_id);
+  END LOOP;
+
+  -- A call that posted nothing (every line already posted or not on the
+  -- document) leaves the document as it was
+  IF cardinality(v_expense_ids) > 0 THEN
+    UPDATE documents
+    SET status = 'transaction_created',
+        created_expense_id = COALESCE(created_expense_id, v_expense_ids[1]),
+        updated_at = now()
+    WHERE id = p_document_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'documentId', p_document_id,
+    'expenseIds', to_jsonb(v_expense_ids),
+    'createdCount', coalesce(array_length(v_expense_ids, 1), 0)
+  );
+END;
+$$;
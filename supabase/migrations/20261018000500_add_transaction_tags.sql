@@ -0,0 +1,64 @@
+-- Free-form tags on transactions, for projects that cut across categories
+-- (e.g. a holiday spanning food, transport and lodging). Tags are stored
+-- normalized by the client: lowercase, words joined with dashes.
+
+ALTER TABLE expense
+ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_expense_tags
+  ON expense USING gin (tags)
+  WHERE isdeleted = false;
+
+-- Tags the user has used, most used first (for autocomplete)
+CREATE OR REPLACE FUNCTION get_user_tags(p_user_id uuid)
+RETURNS TABLE (tag text, usage_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT t.tag, count(*) AS usage_count
+  FROM expense e
+  CROSS JOIN LATERAL unnest(e.tags) AS t(tag)
+  WHERE e.user_id = p_user_id
+    AND e.isdeleted = false
+  GROUP BY t.tag
+  ORDER BY usage_count DESC, t.tag;
+$$;
+
+-- Expense and income totals per tag for a date range. A transaction with
+-- several tags counts towards each of them.
+CREATE OR REPLACE FUNCTION get_spending_by_tag(
+  p_user_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+RETURNS TABLE (tag text, expense_total numeric, income_total numeric, transaction_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH tagged AS (
+    SELECT
+      t.tag,
+      e.id,
+      coalesce(e.transaction_type, 'expense') AS transaction_type,
+      (
+        SELECT coalesce(sum(ei.amount), 0)
+        FROM expense_item ei
+        WHERE ei.expense_id = e.id AND ei.isdeleted = false
+      ) AS total
+    FROM expense e
+    CROSS JOIN LATERAL unnest(e.tags) AS t(tag)
+    WHERE e.user_id = p_user_id
+      AND e.isdeleted = false
+      AND e.date BETWEEN p_start_date AND p_end_date
+  )
+  SELECT
+    tag,
+    sum(total) FILTER (WHERE transaction_type = 'expense') AS expense_total,
+    sum(total) FILTER (WHERE transaction_type = 'income') AS income_total,
+    count(DISTINCT id) AS transaction_count
+  FROM tagged
+  GROUP BY tag
+  ORDER BY expense_total DESC NULLS LAST, tag;
+$$;
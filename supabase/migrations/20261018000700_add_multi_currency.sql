@@ -0,0 +1,48 @@
+-- Transactions can be recorded in a foreign currency. The expense row keeps
+-- what was actually paid (currency, original_amount) and the rate used, while
+-- expense_item.amount stays in the base currency (MYR). Every total, chart and
+-- budget sums expense_item.amount, so they keep aggregating in the base currency.
+--
+-- Existing rows are base-currency transactions: currency defaults to MYR and
+-- exchange_rate to 1.
+
+ALTER TABLE expense
+ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'MYR',
+ADD COLUMN IF NOT EXISTS exchange_rate numeric(18, 8) NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS original_amount numeric(12, 2);
+
+ALTER TABLE expense DROP CONSTRAINT IF EXISTS expense_exchange_rate_check;
+ALTER TABLE expense
+ADD CONSTRAINT expense_exchange_rate_check CHECK (exchange_rate > 0);
+
+-- Amount of the line in the transaction currency
+ALTER TABLE expense_item
+ADD COLUMN IF NOT EXISTS original_amount numeric(12, 2);
+
+-- User-editable rates: one base-currency unit value per foreign currency unit,
+-- effective from a date until the next rate for the same currency
+CREATE TABLE IF NOT EXISTS exchange_rate (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id),
+  currency_code text NOT NULL,
+  rate_to_base numeric(18, 8) NOT NULL CHECK (rate_to_base > 0),
+  effective_date date NOT NULL DEFAULT current_date,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_by uuid,
+  updated_at timestamp with time zone,
+  isdeleted boolean NOT NULL DEFAULT false
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_rate_user_currency_date
+  ON exchange_rate (user_id, currency_code, effective_date)
+  WHERE isdeleted = false;
+
+-- Row level security: users only see their own rates
+ALTER TABLE exchange_rate ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS exchange_rate_owner ON exchange_rate;
+CREATE POLICY exchange_rate_owner ON exchange_rate
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,161 @@
+-- Refunds and reversals of an earlier expense.
+--
+-- A refund is an expense row with transaction_type = 'refund' pointing at the
+-- original through refund_of_expense_id. Its items carry the original's
+-- expense categories and positive amounts; the spending functions below
+-- subtract them, so a refund offsets the category and budget it was spent
+-- from instead of showing up as unrelated income. Partial refunds are several
+-- refund rows whose total stays at or below the original amount.
+
+ALTER TABLE expense
+ADD COLUMN IF NOT EXISTS refund_of_expense_id bigint REFERENCES expense(id);
+
+CREATE INDEX IF NOT EXISTS idx_expense_refund_of
+  ON expense (refund_of_expense_id)
+  WHERE refund_of_expense_id IS NOT NULL;
+
+ALTER TABLE expense DROP CONSTRAINT IF EXISTS expense_refund_link_check;
+ALTER TABLE expense
+ADD CONSTRAINT expense_refund_link_check CHECK (
+  (transaction_type = 'refund') = (refund_of_expense_id IS NOT NULL)
+);
+
+-- The spending functions below are replaced in place with refund-aware
+-- versions, keeping the signatures and result columns the app calls them with
+
+-- Net spending per expense category: expenses minus the refunds against them
+CREATE OR REPLACE FUNCTION get_net_category_spending(p_user_id uuid, p_start_date date, p_end_date date)
+RETURNS TABLE (category_id bigint, amount numeric)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    ei.category_id,
+    sum(CASE WHEN e.transaction_type = 'refund' THEN -ei.amount ELSE ei.amount END)
+  FROM expense e
+  JOIN expense_item ei ON ei.expense_id = e.id AND ei.isdeleted = false
+  WHERE e.user_id = p_user_id
+    AND e.isdeleted = false
+    AND e.date BETWEEN p_start_date AND p_end_date
+    AND coalesce(e.transaction_type, 'expense') IN ('expense', 'refund')
+    AND ei.category_id IS NOT NULL
+  GROUP BY ei.category_id;
+$$;
+
+CREATE OR REPLACE FUNCTION get_total_expenses(p_user_id uuid, p_start_date date, p_end_date date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT get_total_by_transaction_type(p_user_id, p_start_date, p_end_date, 'expense')
+       - get_total_by_transaction_type(p_user_id, p_start_date, p_end_date, 'refund');
+$$;
+
+CREATE OR REPLACE FUNCTION get_user_balance(p_user_id uuid, p_start_date date, p_end_date date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT get_total_by_transaction_type(p_user_id, p_start_date, p_end_date, 'income')
+       - get_total_expenses(p_user_id, p_start_date, p_end_date);
+$$;
+
+CREATE OR REPLACE FUNCTION get_spending_by_category(p_user_id uuid, p_start_date date, p_end_date date)
+RETURNS TABLE (category_id bigint, category_name text, amount numeric)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT s.category_id, c.name::text, s.amount
+  FROM get_net_category_spending(p_user_id, p_start_date, p_end_date) s
+  JOIN expense_category c ON c.id = s.category_id
+  WHERE s.amount > 0
+  ORDER BY s.amount DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION get_expense_summary_by_category(p_user_id uuid, p_start_date date, p_end_date date)
+RETURNS TABLE (category_id bigint, category_name text, total numeric)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT s.category_id, c.name::text, s.amount
+  FROM get_net_category_spending(p_user_id, p_start_date, p_end_date) s
+  JOIN expense_category c ON c.id = s.category_id
+  ORDER BY s.amount DESC;
+$$;
+
+-- Tag totals net of refunds; refunds copy the original's tags, so they
+-- offset the tags the expense was counted under
+CREATE OR REPLACE FUNCTION get_spending_by_tag(
+  p_user_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+RETURNS TABLE (tag text, expense_total numeric, income_total numeric, transaction_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH tagged AS (
+    SELECT
+      t.tag,
+      e.id,
+      coalesce(e.transaction_type, 'expense') AS transaction_type,
+      (
+        SELECT coalesce(sum(ei.amount), 0)
+        FROM expense_item ei
+        WHERE ei.expense_id = e.id AND ei.isdeleted = false
+      ) AS total
+    FROM expense e
+    CROSS JOIN LATERAL unnest(e.tags) AS t(tag)
+    WHERE e.user_id = p_user_id
+      AND e.isdeleted = false
+      AND e.date BETWEEN p_start_date AND p_end_date
+  )
+  SELECT
+    tag,
+    sum(CASE WHEN transaction_type = 'refund' THEN -total ELSE total END)
+      FILTER (WHERE transaction_type IN ('expense', 'refund')) AS expense_total,
+    sum(total) FILTER (WHERE transaction_type = 'income') AS income_total,
+    count(DISTINCT id) FILTER (WHERE transaction_type IN ('expense', 'income')) AS transaction_count
+  FROM tagged
+  GROUP BY tag
+  ORDER BY expense_total DESC NULLS LAST, tag;
+$$;
+
+CREATE OR REPLACE FUNCTION calculate_budget_spending_by_date(budget_id bigint, p_start_date date, p_end_date date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT coalesce(sum(s.amount), 0)
+  FROM budget b
+  JOIN budget_category bc ON bc.budget_id = b.id AND bc.isdeleted = false
+  JOIN get_net_category_spending(b.user_id, p_start_date, p_end_date) s ON s.category_id = bc.category_id
+  WHERE b.id = calculate_budget_spending_by_date.budget_id;
+$$;
+
+CREATE OR REPLACE FUNCTION get_budget_category_spending_by_date(budget_id bigint, p_start_date date, p_end_date date)
+RETURNS TABLE (category_id bigint, category_name text, total_spent numeric, budget_amount numeric, percentage numeric)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    bc.category_id,
+    c.name::text,
+    coalesce(s.amount, 0),
+    b.amount,
+    CASE WHEN b.amount > 0 THEN round(coalesce(s.amount, 0) / b.amount * 100, 2) ELSE 0 END
+  FROM budget b
+  JOIN budget_category bc ON bc.budget_id = b.id AND bc.isdeleted = false
+  JOIN expense_category c ON c.id = bc.category_id
+  LEFT JOIN get_net_category_spending(b.user_id, p_start_date, p_end_date) s ON s.category_id = bc.category_id
+  WHERE b.id = get_budget_category_spending_by_date.budget_id
+  ORDER BY coalesce(s.amount, 0) DESC;
+$$;
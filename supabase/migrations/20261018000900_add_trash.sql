@@ -0,0 +1,132 @@
+-- Trash: soft-deleted transactions, budgets, documents and payment methods can
+-- be restored, or purged for good. deleted_at records when a row went to the
+-- trash so the client can purge rows older than the user's retention period.
+
+ALTER TABLE expense ADD COLUMN IF NOT EXISTS deleted_at timestamp with time zone;
+ALTER TABLE budget ADD COLUMN IF NOT EXISTS deleted_at timestamp with time zone;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS deleted_at timestamp with time zone;
+ALTER TABLE payment_methods ADD COLUMN IF NOT EXISTS deleted_at timestamp with time zone;
+
+-- Rows already deleted start their retention period now
+UPDATE expense SET deleted_at = coalesce(updated_at, now()) WHERE isdeleted = true AND deleted_at IS NULL;
+UPDATE budget SET deleted_at = coalesce(updated_at, now()) WHERE isdeleted = true AND deleted_at IS NULL;
+UPDATE documents SET deleted_at = coalesce(updated_at, now()) WHERE isdeleted = true AND deleted_at IS NULL;
+UPDATE payment_methods SET deleted_at = coalesce(updated_at, now()) WHERE isdeleted = true AND deleted_at IS NULL;
+
+-- Stamp deleted_at when isdeleted is set and clear it on restore, so every
+-- existing soft delete (which only sets isdeleted) is covered
+CREATE OR REPLACE FUNCTION set_deleted_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.isdeleted AND NOT coalesce(OLD.isdeleted, false) THEN
+    NEW.deleted_at := now();
+  ELSIF NOT NEW.isdeleted THEN
+    NEW.deleted_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS expense_set_deleted_at ON expense;
+CREATE TRIGGER expense_set_deleted_at
+  BEFORE UPDATE OF isdeleted ON expense
+  FOR EACH ROW EXECUTE FUNCTION set_deleted_at();
+
+DROP TRIGGER IF EXISTS budget_set_deleted_at ON budget;
+CREATE TRIGGER budget_set_deleted_at
+  BEFORE UPDATE OF isdeleted ON budget
+  FOR EACH ROW EXECUTE FUNCTION set_deleted_at();
+
+DROP TRIGGER IF EXISTS documents_set_deleted_at ON documents;
+CREATE TRIGGER documents_set_deleted_at
+  BEFORE UPDATE OF isdeleted ON documents
+  FOR EACH ROW EXECUTE FUNCTION set_deleted_at();
+
+DROP TRIGGER IF EXISTS payment_methods_set_deleted_at ON payment_methods;
+CREATE TRIGGER payment_methods_set_deleted_at
+  BEFORE UPDATE OF isdeleted ON payment_methods
+  FOR EACH ROW EXECUTE FUNCTION set_deleted_at();
+
+CREATE INDEX IF NOT EXISTS idx_expense_trash ON expense (user_id, deleted_at) WHERE isdeleted = true;
+CREATE INDEX IF NOT EXISTS idx_budget_trash ON budget (user_id, deleted_at) WHERE isdeleted = true;
+CREATE INDEX IF NOT EXISTS idx_documents_trash ON documents (user_id, deleted_at) WHERE isdeleted = true;
+
+-- Days a deleted record stays in the trash before it is purged automatically
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS trash_retention_days integer NOT NULL DEFAULT 30
+  CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+-- Delete trashed records for good, with their child rows, in one transaction.
+-- Only the caller's own records that are in the trash are touched. Returns
+-- the storage paths of the purged documents, so the client removes the files
+-- once the rows are gone.
+CREATE OR REPLACE FUNCTION purge_trash(
+  p_transaction_ids bigint[] DEFAULT '{}',
+  p_budget_ids bigint[] DEFAULT '{}',
+  p_document_ids bigint[] DEFAULT '{}',
+  p_payment_method_ids bigint[] DEFAULT '{}'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_transaction_ids bigint[];
+  v_budget_ids bigint[];
+  v_document_ids bigint[];
+  v_file_paths text[];
+BEGIN
+  SELECT coalesce(array_agg(id), '{}') INTO v_transaction_ids
+  FROM expense
+  WHERE id = ANY(p_transaction_ids) AND user_id = auth.uid() AND isdeleted = true;
+
+  SELECT coalesce(array_agg(id), '{}') INTO v_budget_ids
+  FROM budget
+  WHERE id = ANY(p_budget_ids) AND user_id = auth.uid() AND isdeleted = true;
+
+  SELECT coalesce(array_agg(id), '{}'), coalesce(array_agg(file_path) FILTER (WHERE file_path IS NOT NULL), '{}')
+  INTO v_document_ids, v_file_paths
+  FROM documents
+  WHERE id = ANY(p_document_ids) AND user_id = auth.uid() AND isdeleted = true;
+
+  IF cardinality(v_transaction_ids) > 0 THEN
+    -- Refunds keep pointing at the expense they refund, so that has to go with them
+    IF EXISTS (
+      SELECT 1 FROM expense
+      WHERE refund_of_expense_id = ANY(v_transaction_ids) AND NOT id = ANY(v_transaction_ids)
+    ) THEN
+      RAISE EXCEPTION 'A transaction with refunds can only be purged together with its refunds';
+    END IF;
+
+    -- Documents and statement lines only keep a pointer to the transaction they created
+    UPDATE documents SET created_expense_id = NULL WHERE created_expense_id = ANY(v_transaction_ids);
+    UPDATE document_line SET created_expense_id = NULL WHERE created_expense_id = ANY(v_transaction_ids);
+
+    DELETE FROM expense_item WHERE expense_id = ANY(v_transaction_ids);
+    DELETE FROM expense WHERE id = ANY(v_transaction_ids);
+  END IF;
+
+  IF cardinality(v_budget_ids) > 0 THEN
+    DELETE FROM budget_category WHERE budget_id = ANY(v_budget_ids);
+    DELETE FROM budget WHERE id = ANY(v_budget_ids);
+  END IF;
+
+  IF cardinality(v_document_ids) > 0 THEN
+    DELETE FROM document_line WHERE document_id = ANY(v_document_ids);
+    DELETE FROM documents WHERE id = ANY(v_document_ids);
+  END IF;
+
+  IF cardinality(p_payment_method_ids) > 0 THEN
+    BEGIN
+      DELETE FROM payment_methods
+      WHERE id = ANY(p_payment_method_ids) AND created_by = auth.uid() AND isdeleted = true;
+    EXCEPTION WHEN foreign_key_violation THEN
+      RAISE EXCEPTION 'A payment method still used by transactions can only be restored, not purged';
+    END;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'filePaths', to_jsonb(v_file_paths));
+END;
+$$;
@@ -0,0 +1,49 @@
+-- Auto-categorization rules ("description contains GRAB -> Transport, paid by eWallet").
+-- Rules are evaluated on the client in priority order (lowest first) and the
+-- first active rule whose conditions all match sets the category and/or
+-- payment method of a new transaction.
+
+CREATE TABLE IF NOT EXISTS categorization_rule (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id),
+  name text NOT NULL,
+  priority integer NOT NULL DEFAULT 0,
+  transaction_type text NOT NULL DEFAULT 'expense' CHECK (transaction_type IN ('expense', 'income')),
+  -- Conditions; unset ones are ignored. Text matches are case-insensitive substrings.
+  description_contains text,
+  vendor_contains text,
+  amount_min numeric(12, 2) CHECK (amount_min >= 0),
+  amount_max numeric(12, 2) CHECK (amount_max >= 0),
+  payment_method_id bigint REFERENCES payment_methods(id),
+  -- Actions
+  set_category_id bigint REFERENCES expense_category(id),
+  set_income_category_id bigint REFERENCES income_category(id),
+  set_payment_method_id bigint REFERENCES payment_methods(id),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_by uuid,
+  updated_at timestamp with time zone,
+  isdeleted boolean NOT NULL DEFAULT false,
+  CHECK (amount_min IS NULL OR amount_max IS NULL OR amount_min <= amount_max),
+  CHECK (
+    description_contains IS NOT NULL OR vendor_contains IS NOT NULL
+    OR amount_min IS NOT NULL OR amount_max IS NOT NULL OR payment_method_id IS NOT NULL
+  ),
+  CHECK (
+    set_category_id IS NOT NULL OR set_income_category_id IS NOT NULL OR set_payment_method_id IS NOT NULL
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_rule_user
+  ON categorization_rule (user_id, priority)
+  WHERE isdeleted = false;
+
+-- Row level security: users only see their own rules
+ALTER TABLE categorization_rule ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS categorization_rule_owner ON categorization_rule;
+CREATE POLICY categorization_rule_owner ON categorization_rule
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
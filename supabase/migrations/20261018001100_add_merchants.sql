@@ -0,0 +1,65 @@
+-- Merchants (payees): one entity for the many ways a shop shows up in
+-- descriptions and receipts ("GRAB*RIDE 1234", "Grab Ride", "GRABFOOD").
+-- Aliases are matched on the client and by process-document against
+-- normalized text; transactions and documents link to the merchant.
+
+CREATE TABLE IF NOT EXISTS merchant (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id),
+  name text NOT NULL,
+  aliases text[] NOT NULL DEFAULT '{}',
+  default_category_id bigint REFERENCES expense_category(id),
+  color text CHECK (color IS NULL OR color ~ '^#[0-9a-fA-F]{6}$'),
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_by uuid,
+  updated_at timestamp with time zone,
+  isdeleted boolean NOT NULL DEFAULT false
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_merchant_user_name
+  ON merchant (user_id, lower(name))
+  WHERE isdeleted = false;
+
+ALTER TABLE expense
+ADD COLUMN IF NOT EXISTS merchant_id bigint REFERENCES merchant(id);
+
+CREATE INDEX IF NOT EXISTS idx_expense_merchant
+  ON expense (user_id, merchant_id)
+  WHERE merchant_id IS NOT NULL;
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS merchant_id bigint REFERENCES merchant(id);
+
+-- Row level security: users only see their own merchants
+ALTER TABLE merchant ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS merchant_owner ON merchant;
+CREATE POLICY merchant_owner ON merchant
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Net spending per merchant over a period; refunds count against their merchant
+CREATE OR REPLACE FUNCTION get_spending_by_merchant(p_user_id uuid, p_start_date date, p_end_date date)
+RETURNS TABLE (merchant_id bigint, merchant_name text, color text, total numeric, transaction_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    m.id,
+    m.name,
+    m.color,
+    sum(CASE WHEN e.transaction_type = 'refund' THEN -ei.amount ELSE ei.amount END),
+    count(DISTINCT e.id) FILTER (WHERE coalesce(e.transaction_type, 'expense') = 'expense')
+  FROM expense e
+  JOIN merchant m ON m.id = e.merchant_id
+  JOIN expense_item ei ON ei.expense_id = e.id AND ei.isdeleted = false
+  WHERE e.user_id = p_user_id
+    AND e.isdeleted = false
+    AND e.date BETWEEN p_start_date AND p_end_date
+    AND coalesce(e.transaction_type, 'expense') IN ('expense', 'refund')
+  GROUP BY m.id, m.name, m.color
+  ORDER BY 4 DESC;
+$$;
@@ -0,0 +1,29 @@
+-- Saved views: named transaction list filters (date range, search, category,
+-- payment method, type, tag, sort and page size). The filters are kept as the
+-- list's URL query string, so a view opens, pins and shares as a plain link.
+
+CREATE TABLE IF NOT EXISTS saved_view (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id),
+  name text NOT NULL,
+  query text NOT NULL DEFAULT '',
+  is_pinned boolean NOT NULL DEFAULT false,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_by uuid,
+  updated_at timestamp with time zone,
+  isdeleted boolean NOT NULL DEFAULT false
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_view_user_name
+  ON saved_view (user_id, lower(name))
+  WHERE isdeleted = false;
+
+-- Row level security: users only see their own views
+ALTER TABLE saved_view ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS saved_view_owner ON saved_view;
+CREATE POLICY saved_view_owner ON saved_view
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,197 @@
+-- Structured search for the transaction list. The client parses the search box
+-- ("amount>50 category:food -grab", quoted phrases, OR) into p_query, which
+-- replaces the plain p_search text:
+--   [[term, term], [term]]  -- clauses are ANDed, the terms in a clause ORed
+--   term = { "field": text|amount|category|pm|type|tag|before|after,
+--            "op": ":" | ">" | "<" | ">=" | "<=" | "=", "value": "...", "negate": bool }
+
+DROP FUNCTION IF EXISTS search_transactions(uuid, date, date, text, bigint, bigint, text, text, text, integer, integer);
+DROP FUNCTION IF EXISTS filter_transactions(uuid, date, date, text, bigint, bigint, text, text);
+
+-- Whether one transaction matches one search term
+CREATE OR REPLACE FUNCTION transaction_matches_term(
+  p_term jsonb,
+  p_expense_id bigint,
+  p_date date,
+  p_description text,
+  p_total numeric,
+  p_transaction_type text,
+  p_payment_method_id bigint,
+  p_tags text[]
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT coalesce(CASE p_term->>'field'
+    WHEN 'amount' THEN CASE p_term->>'op'
+      WHEN '>' THEN p_total > (p_term->>'value')::numeric
+      WHEN '<' THEN p_total < (p_term->>'value')::numeric
+      WHEN '>=' THEN p_total >= (p_term->>'value')::numeric
+      WHEN '<=' THEN p_total <= (p_term->>'value')::numeric
+      ELSE p_total = (p_term->>'value')::numeric
+    END
+    WHEN 'category' THEN EXISTS (
+      SELECT 1
+      FROM expense_item ei
+      LEFT JOIN expense_category c ON c.id = ei.category_id
+      LEFT JOIN income_category ic ON ic.id = ei.income_category_id
+      WHERE ei.expense_id = p_expense_id
+        AND ei.isdeleted = false
+        AND strpos(lower(coalesce(c.name, ic.name, '')), lower(p_term->>'value')) > 0
+    )
+    WHEN 'pm' THEN EXISTS (
+      SELECT 1 FROM payment_methods pm
+      WHERE pm.id = p_payment_method_id
+        AND strpos(lower(pm.method_name), lower(p_term->>'value')) > 0
+    )
+    WHEN 'type' THEN p_transaction_type = p_term->>'value'
+      OR (p_term->>'value' = 'expense' AND p_transaction_type = 'refund')
+    WHEN 'tag' THEN lower(p_term->>'value') = ANY (p_tags)
+    WHEN 'before' THEN p_date < (p_term->>'value')::date
+    WHEN 'after' THEN p_date > (p_term->>'value')::date
+    ELSE strpos(lower(coalesce(p_description, '')), lower(p_term->>'value')) > 0
+      OR EXISTS (
+        SELECT 1 FROM expense_item ei
+        WHERE ei.expense_id = p_expense_id
+          AND ei.isdeleted = false
+          AND strpos(lower(coalesce(ei.description, '')), lower(p_term->>'value')) > 0
+      )
+  END, false) <> coalesce((p_term->>'negate')::boolean, false);
+$$;
+
+-- As before, with p_query in place of p_search
+CREATE OR REPLACE FUNCTION filter_transactions(
+  p_user_id uuid,
+  p_start_date date,
+  p_end_date date,
+  p_query jsonb DEFAULT NULL,
+  p_category_id bigint DEFAULT NULL,
+  p_payment_method_id bigint DEFAULT NULL,
+  p_transaction_type text DEFAULT NULL,
+  p_tag text DEFAULT NULL
+)
+RETURNS TABLE (id bigint, transaction_type text, date date, description text, total numeric)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH typed AS (
+    SELECT
+      e.id,
+      e.date,
+      e.description,
+      e.payment_method_id,
+      e.tags,
+      coalesce(e.transaction_type, CASE
+        WHEN bool_or(ei.income_category_id IS NOT NULL) THEN 'income'
+        ELSE 'expense'
+      END) AS transaction_type,
+      sum(ei.amount) AS total
+    FROM expense e
+    JOIN expense_item ei ON ei.expense_id = e.id AND ei.isdeleted = false
+    WHERE e.user_id = p_user_id
+      AND e.isdeleted = false
+      AND e.date BETWEEN p_start_date AND p_end_date
+    GROUP BY e.id
+  )
+  SELECT t.id, t.transaction_type, t.date, t.description, t.total
+  FROM typed t
+  WHERE (p_transaction_type IS NULL
+      OR t.transaction_type = p_transaction_type
+      OR (p_transaction_type = 'expense' AND t.transaction_type = 'refund'))
+    AND (p_query IS NULL OR NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_query) clause
+        WHERE NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(clause) term
+          WHERE transaction_matches_term(
+            term, t.id, t.date, t.description, t.total,
+            t.transaction_type, t.payment_method_id, t.tags
+          )
+        )
+      ))
+    AND (p_category_id IS NULL OR EXISTS (
+        SELECT 1 FROM expense_item ei
+        WHERE ei.expense_id = t.id
+          AND ei.isdeleted = false
+          AND ei.category_id = p_category_id
+      ))
+    AND (p_payment_method_id IS NULL OR t.payment_method_id = p_payment_method_id)
+    AND (p_tag IS NULL OR p_tag = ANY (t.tags));
+$$;
+
+-- One page of matching transactions with their items, categories and payment
+-- method, plus the number of matches. p_sort is one of date_desc, date_asc,
+-- amount_desc, amount_asc or description; ties go to the newest.
+-- Returns { "total_count": n, "rows": [expense, ...] }.
+CREATE OR REPLACE FUNCTION search_transactions(
+  p_user_id uuid,
+  p_start_date date,
+  p_end_date date,
+  p_query jsonb DEFAULT NULL,
+  p_category_id bigint DEFAULT NULL,
+  p_payment_method_id bigint DEFAULT NULL,
+  p_transaction_type text DEFAULT NULL,
+  p_tag text DEFAULT NULL,
+  p_sort text DEFAULT 'date_desc',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH ranked AS (
+    SELECT
+      m.id,
+      m.transaction_type,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'date_asc' THEN m.date END ASC,
+          CASE WHEN p_sort = 'amount_desc' THEN m.total END DESC,
+          CASE WHEN p_sort = 'amount_asc' THEN m.total END ASC,
+          CASE WHEN p_sort = 'description' THEN lower(m.description) END ASC,
+          m.date DESC,
+          m.id DESC
+      ) AS position
+    FROM filter_transactions(
+      p_user_id, p_start_date, p_end_date, p_query,
+      p_category_id, p_payment_method_id, p_transaction_type, p_tag
+    ) m
+  )
+  SELECT jsonb_build_object(
+    'total_count', (SELECT count(*) FROM ranked),
+    'rows', coalesce((
+      SELECT jsonb_agg(
+        to_jsonb(e) || jsonb_build_object(
+          'transaction_type', r.transaction_type,
+          'expense_items', (
+            SELECT coalesce(jsonb_agg(to_jsonb(ei) || jsonb_build_object('category', to_jsonb(c)) ORDER BY ei.id), '[]'::jsonb)
+            FROM expense_item ei
+            LEFT JOIN expense_category c ON c.id = ei.category_id
+            WHERE ei.expense_id = e.id AND ei.isdeleted = false
+          ),
+          'payment_method', (
+            SELECT to_jsonb(pm) FROM payment_methods pm WHERE pm.id = e.payment_method_id
+          ),
+          'refunded_amount', (
+            SELECT coalesce(sum(ri.amount), 0)
+            FROM expense refund
+            JOIN expense_item ri ON ri.expense_id = refund.id AND ri.isdeleted = false
+            WHERE refund.refund_of_expense_id = e.id AND refund.isdeleted = false
+          ),
+          'refund_of_description', (
+            SELECT original.description FROM expense original WHERE original.id = e.refund_of_expense_id
+          )
+        )
+        ORDER BY r.position
+      )
+      FROM ranked r
+      JOIN expense e ON e.id = r.id
+      WHERE r.position > p_offset
+        AND r.position <= p_offset + p_limit
+    ), '[]'::jsonb)
+  );
+$$;
@@ -0,0 +1,118 @@
+-- Audit trail: every insert, update and delete on transactions, budgets,
+-- payment methods and documents, with the row before and after the change.
+-- Written by triggers, so changes from any client (or edge function) are
+-- captured; users can read the history of their own data but not change it.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id), -- Whose data changed
+  changed_by uuid, -- Who made the change; null for service-role jobs
+  table_name text NOT NULL,
+  record_id text NOT NULL, -- budget_category rows are "budget_id:category_id"
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete', 'restore')),
+  old_values jsonb,
+  new_values jsonb,
+  changed_fields text[], -- Updates only
+  changed_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_user_changed_at
+  ON audit_log (user_id, changed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_record
+  ON audit_log (table_name, record_id);
+
+-- Row level security: read-only for the owner; only the trigger writes
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS audit_log_owner ON audit_log;
+CREATE POLICY audit_log_owner ON audit_log
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Snapshots leave out search vectors, embeddings and OCR output, which are
+-- large and change on their own. Updates touching only those (or the
+-- updated_at/updated_by/deleted_at bookkeeping) are not recorded.
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb;
+  v_new jsonb;
+  v_row jsonb;
+  v_action text := lower(TG_OP);
+  v_changed text[];
+  v_user_id uuid;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD) - ARRAY['fts', 'embedding', 'raw_markdown_output'];
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW) - ARRAY['fts', 'embedding', 'raw_markdown_output'];
+  END IF;
+  v_row := coalesce(v_new, v_old);
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key) INTO v_changed
+    FROM jsonb_each(v_new) n
+    WHERE n.key NOT IN ('updated_at', 'updated_by', 'deleted_at')
+      AND n.value IS DISTINCT FROM v_old -> n.key;
+
+    IF v_changed IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    -- Moving to and from the trash
+    IF 'isdeleted' = ANY (v_changed) THEN
+      v_action := CASE WHEN (v_new->>'isdeleted')::boolean THEN 'delete' ELSE 'restore' END;
+    END IF;
+  END IF;
+
+  -- Items and budget categories belong to their parent's owner; payment
+  -- methods are shared, so their history goes to whoever changed them
+  v_user_id := coalesce(
+    (v_row->>'user_id')::uuid,
+    CASE TG_TABLE_NAME
+      WHEN 'expense_item' THEN (SELECT e.user_id FROM expense e WHERE e.id = (v_row->>'expense_id')::bigint)
+      WHEN 'budget_category' THEN (SELECT b.user_id FROM budget b WHERE b.id = (v_row->>'budget_id')::bigint)
+    END,
+    auth.uid()
+  );
+  IF v_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (user_id, changed_by, table_name, record_id, action, old_values, new_values, changed_fields)
+  VALUES (
+    v_user_id,
+    auth.uid(),
+    TG_TABLE_NAME,
+    coalesce(v_row->>'id', concat_ws(':', v_row->>'budget_id', v_row->>'category_id')),
+    v_action,
+    v_old,
+    v_new,
+    v_changed
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['expense', 'expense_item', 'budget', 'budget_category', 'payment_methods', 'documents']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', 'audit_' || v_table, v_table);
+    EXECUTE format(
+      'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION record_audit_log()',
+      'audit_' || v_table,
+      v_table
+    );
+  END LOOP;
+END;
+$$;
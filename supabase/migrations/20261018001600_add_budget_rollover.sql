@@ -0,0 +1,75 @@
+-- Budget rollover: an opt-in mode where what is left of a budget period
+-- carries into the next one, and overspending is taken out of it.
+--
+-- The carry is worked out period by period from the budget's start date, so
+-- a run of good months builds up and an overspent month eats into it. When
+-- rollover_cap is set the carry stays within -cap .. +cap after every period.
+
+ALTER TABLE budget
+ADD COLUMN IF NOT EXISTS rollover_enabled boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS rollover_cap numeric;
+
+ALTER TABLE budget DROP CONSTRAINT IF EXISTS budget_rollover_cap_check;
+ALTER TABLE budget
+ADD CONSTRAINT budget_rollover_cap_check CHECK (rollover_cap IS NULL OR rollover_cap >= 0);
+
+-- Amount carried into the period of the budget that contains p_date.
+-- Positive is unused money brought forward, negative is overspend.
+CREATE OR REPLACE FUNCTION get_budget_rollover(budget_id bigint, p_date date)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_budget budget%ROWTYPE;
+  v_unit text;
+  v_step interval;
+  v_period_start date;
+  v_current_start date;
+  v_carry numeric := 0;
+BEGIN
+  SELECT * INTO v_budget
+  FROM budget b
+  WHERE b.id = get_budget_rollover.budget_id
+    AND b.isdeleted = false;
+
+  IF NOT FOUND OR NOT v_budget.rollover_enabled THEN
+    RETURN 0;
+  END IF;
+
+  v_unit := CASE v_budget.period::text
+    WHEN 'daily' THEN 'day'
+    WHEN 'weekly' THEN 'week'
+    WHEN 'monthly' THEN 'month'
+    WHEN 'quarterly' THEN 'quarter'
+    ELSE 'year'
+  END;
+  v_step := CASE v_budget.period::text
+    WHEN 'daily' THEN interval '1 day'
+    WHEN 'weekly' THEN interval '1 week'
+    WHEN 'monthly' THEN interval '1 month'
+    WHEN 'quarterly' THEN interval '3 months'
+    ELSE interval '1 year'
+  END;
+
+  v_current_start := date_trunc(v_unit, p_date)::date;
+  v_period_start := date_trunc(v_unit, coalesce(v_budget.start_date, v_budget.created_at::date))::date;
+
+  WHILE v_period_start < v_current_start LOOP
+    v_carry := v_budget.amount + v_carry - calculate_budget_spending_by_date(
+      v_budget.id,
+      v_period_start,
+      (v_period_start + v_step - interval '1 day')::date
+    );
+
+    IF v_budget.rollover_cap IS NOT NULL THEN
+      v_carry := greatest(-v_budget.rollover_cap, least(v_budget.rollover_cap, v_carry));
+    END IF;
+
+    v_period_start := (v_period_start + v_step)::date;
+  END LOOP;
+
+  RETURN v_carry;
+END;
+$$;
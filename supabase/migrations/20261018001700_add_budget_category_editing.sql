@@ -0,0 +1,126 @@
+-- Editing the categories of an existing budget.
+--
+-- update_budget_categories takes the complete list of categories the budget
+-- should have and applies the difference in one transaction: new categories
+-- are added, missing ones are soft-deleted and thresholds are updated. Rows
+-- are never hard-deleted, so the audit log and earlier spending keep their
+-- category history, and re-adding a category brings its old row back.
+--
+-- update_budget_with_categories sits alongside update_budget and applies a
+-- whole budget edit (name, amount, period, rollover settings and categories)
+-- in one transaction, so a failed step never leaves a budget half-edited.
+-- update_budget is still used for edits that don't touch the categories.
+
+CREATE OR REPLACE FUNCTION update_budget_categories(
+  p_budget_id bigint,
+  p_categories jsonb -- [{ "category_id": 1, "alert_threshold": 80 }, ...]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_category_ids bigint[];
+BEGIN
+  SELECT user_id INTO v_user_id
+  FROM budget
+  WHERE id = p_budget_id AND isdeleted = false;
+
+  IF v_user_id IS NULL OR v_user_id <> auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Budget not found');
+  END IF;
+
+  IF jsonb_array_length(coalesce(p_categories, '[]'::jsonb)) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A budget needs at least one category');
+  END IF;
+
+  SELECT array_agg(DISTINCT (c->>'category_id')::bigint) INTO v_category_ids
+  FROM jsonb_array_elements(p_categories) c
+  WHERE c->>'category_id' IS NOT NULL;
+
+  -- Categories dropped from the budget
+  UPDATE budget_category bc
+  SET isdeleted = true,
+      updated_by = v_user_id,
+      updated_at = now()
+  WHERE bc.budget_id = p_budget_id
+    AND bc.isdeleted = false
+    AND bc.category_id <> ALL (v_category_ids);
+
+  -- Categories kept with a new threshold, or brought back
+  UPDATE budget_category bc
+  SET isdeleted = false,
+      alert_threshold = w.alert_threshold,
+      updated_by = v_user_id,
+      updated_at = now()
+  FROM jsonb_to_recordset(p_categories) AS w(category_id bigint, alert_threshold numeric)
+  WHERE bc.budget_id = p_budget_id
+    AND bc.category_id = w.category_id
+    AND (bc.isdeleted OR bc.alert_threshold IS DISTINCT FROM w.alert_threshold);
+
+  -- Categories the budget never had
+  INSERT INTO budget_category (budget_id, category_id, alert_threshold, created_by)
+  SELECT DISTINCT ON (w.category_id) p_budget_id, w.category_id, w.alert_threshold, v_user_id
+  FROM jsonb_to_recordset(p_categories) AS w(category_id bigint, alert_threshold numeric)
+  WHERE w.category_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM budget_category bc
+      WHERE bc.budget_id = p_budget_id AND bc.category_id = w.category_id
+    );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'category_count', coalesce(array_length(v_category_ids, 1), 0)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_budget_with_categories(
+  p_budget_id bigint,
+  p_changes jsonb, -- Budget columns to change: name, amount, period, rollover_enabled, rollover_cap
+  p_categories jsonb DEFAULT NULL -- Complete category list, as for update_budget_categories; NULL leaves them as they are
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_budget budget%ROWTYPE;
+  v_changed budget%ROWTYPE;
+  v_result jsonb;
+BEGIN
+  SELECT * INTO v_budget
+  FROM budget
+  WHERE id = p_budget_id AND isdeleted = false
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_budget.user_id <> auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Budget not found');
+  END IF;
+
+  -- Keys missing from p_changes keep their current value
+  v_changed := jsonb_populate_record(v_budget, coalesce(p_changes, '{}'::jsonb));
+
+  UPDATE budget
+  SET name = v_changed.name,
+      amount = v_changed.amount,
+      period = v_changed.period,
+      rollover_enabled = v_changed.rollover_enabled,
+      rollover_cap = v_changed.rollover_cap,
+      updated_by = auth.uid(),
+      updated_at = now()
+  WHERE id = p_budget_id;
+
+  IF p_categories IS NOT NULL THEN
+    v_result := update_budget_categories(p_budget_id, p_categories);
+
+    -- Raise rather than return, so the budget changes above are rolled back too
+    IF NOT (v_result->>'success')::boolean THEN
+      RAISE EXCEPTION '%', v_result->>'error';
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'budget_id', p_budget_id);
+END;
+$$;
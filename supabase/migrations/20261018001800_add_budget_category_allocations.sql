@@ -0,0 +1,229 @@
+-- Per-category allocations inside a budget: a "Monthly Living" budget of
+-- RM1500 can set aside RM800 for food and RM300 for transport, leaving RM400
+-- unallocated for its other categories.
+--
+-- allocated_amount is optional per category. The allocations of a budget's
+-- active categories may not add up to more than the budget amount. The check
+-- runs whenever categories or the budget amount change, at commit, so a whole
+-- edit is validated at once.
+
+ALTER TABLE budget_category
+ADD COLUMN IF NOT EXISTS allocated_amount numeric;
+
+ALTER TABLE budget_category DROP CONSTRAINT IF EXISTS budget_category_allocated_amount_check;
+ALTER TABLE budget_category
+ADD CONSTRAINT budget_category_allocated_amount_check CHECK (allocated_amount IS NULL OR allocated_amount >= 0);
+
+CREATE OR REPLACE FUNCTION check_budget_allocations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_budget_id bigint;
+  v_amount numeric;
+  v_allocated numeric;
+BEGIN
+  -- Fired for budget rows as well as their category rows
+  IF TG_TABLE_NAME = 'budget' THEN
+    v_budget_id := NEW.id;
+  ELSE
+    v_budget_id := NEW.budget_id;
+  END IF;
+
+  SELECT b.amount, coalesce(sum(bc.allocated_amount), 0)
+  INTO v_amount, v_allocated
+  FROM budget b
+  LEFT JOIN budget_category bc ON bc.budget_id = b.id AND bc.isdeleted = false
+  WHERE b.id = v_budget_id
+  GROUP BY b.amount;
+
+  IF v_allocated > v_amount THEN
+    RAISE EXCEPTION 'Category allocations (%) are more than the budget amount (%)', v_allocated, v_amount
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS budget_category_check_allocations ON budget_category;
+CREATE CONSTRAINT TRIGGER budget_category_check_allocations
+  AFTER INSERT OR UPDATE OF allocated_amount, isdeleted ON budget_category
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION check_budget_allocations();
+
+DROP TRIGGER IF EXISTS budget_check_allocations ON budget;
+CREATE CONSTRAINT TRIGGER budget_check_allocations
+  AFTER UPDATE OF amount ON budget
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION check_budget_allocations();
+
+-- Spending per category line now reports its allocation; the percentage is
+-- of the allocation when there is one, otherwise of the whole budget
+DROP FUNCTION IF EXISTS get_budget_category_spending_by_date(bigint, date, date);
+
+CREATE OR REPLACE FUNCTION get_budget_category_spending_by_date(budget_id bigint, p_start_date date, p_end_date date)
+RETURNS TABLE (
+  category_id bigint,
+  category_name text,
+  total_spent numeric,
+  budget_amount numeric,
+  allocated_amount numeric,
+  percentage numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    bc.category_id,
+    c.name::text,
+    coalesce(s.amount, 0),
+    b.amount,
+    bc.allocated_amount,
+    CASE
+      WHEN bc.allocated_amount > 0 THEN round(coalesce(s.amount, 0) / bc.allocated_amount * 100, 2)
+      WHEN bc.allocated_amount IS NULL AND b.amount > 0 THEN round(coalesce(s.amount, 0) / b.amount * 100, 2)
+      ELSE 0
+    END
+  FROM budget b
+  JOIN budget_category bc ON bc.budget_id = b.id AND bc.isdeleted = false
+  JOIN expense_category c ON c.id = bc.category_id
+  LEFT JOIN get_net_category_spending(b.user_id, p_start_date, p_end_date) s ON s.category_id = bc.category_id
+  WHERE b.id = get_budget_category_spending_by_date.budget_id
+  ORDER BY coalesce(s.amount, 0) DESC;
+$$;
+
+-- Category edits carry the allocation along with the threshold
+CREATE OR REPLACE FUNCTION update_budget_categories(
+  p_budget_id bigint,
+  p_categories jsonb -- [{ "category_id": 1, "alert_threshold": 80, "allocated_amount": 800 }, ...]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_category_ids bigint[];
+BEGIN
+  SELECT user_id INTO v_user_id
+  FROM budget
+  WHERE id = p_budget_id AND isdeleted = false;
+
+  IF v_user_id IS NULL OR v_user_id <> auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Budget not found');
+  END IF;
+
+  IF jsonb_array_length(coalesce(p_categories, '[]'::jsonb)) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A budget needs at least one category');
+  END IF;
+
+  SELECT array_agg(DISTINCT (c->>'category_id')::bigint) INTO v_category_ids
+  FROM jsonb_array_elements(p_categories) c
+  WHERE c->>'category_id' IS NOT NULL;
+
+  -- Categories dropped from the budget
+  UPDATE budget_category bc
+  SET isdeleted = true,
+      updated_by = v_user_id,
+      updated_at = now()
+  WHERE bc.budget_id = p_budget_id
+    AND bc.isdeleted = false
+    AND bc.category_id <> ALL (v_category_ids);
+
+  -- Categories kept with a new threshold or allocation, or brought back
+  UPDATE budget_category bc
+  SET isdeleted = false,
+      alert_threshold = w.alert_threshold,
+      allocated_amount = w.allocated_amount,
+      updated_by = v_user_id,
+      updated_at = now()
+  FROM jsonb_to_recordset(p_categories) AS w(category_id bigint, alert_threshold numeric, allocated_amount numeric)
+  WHERE bc.budget_id = p_budget_id
+    AND bc.category_id = w.category_id
+    AND (
+      bc.isdeleted
+      OR bc.alert_threshold IS DISTINCT FROM w.alert_threshold
+      OR bc.allocated_amount IS DISTINCT FROM w.allocated_amount
+    );
+
+  -- Categories the budget never had
+  INSERT INTO budget_category (budget_id, category_id, alert_threshold, allocated_amount, created_by)
+  SELECT DISTINCT ON (w.category_id) p_budget_id, w.category_id, w.alert_threshold, w.allocated_amount, v_user_id
+  FROM jsonb_to_recordset(p_categories) AS w(category_id bigint, alert_threshold numeric, allocated_amount numeric)
+  WHERE w.category_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM budget_category bc
+      WHERE bc.budget_id = p_budget_id AND bc.category_id = w.category_id
+    );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'category_count', coalesce(array_length(v_category_ids, 1), 0)
+  );
+END;
+$$;
+
+-- Whole budget edits check the allocations against the new amount before
+-- returning, so the caller gets a plain error instead of a failed commit
+CREATE OR REPLACE FUNCTION update_budget_with_categories(
+  p_budget_id bigint,
+  p_changes jsonb, -- Budget columns to change: name, amount, period, rollover_enabled, rollover_cap
+  p_categories jsonb DEFAULT NULL -- Complete category list, as for update_budget_categories; NULL leaves them as they are
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_budget budget%ROWTYPE;
+  v_changed budget%ROWTYPE;
+  v_result jsonb;
+  v_allocated numeric;
+BEGIN
+  SELECT * INTO v_budget
+  FROM budget
+  WHERE id = p_budget_id AND isdeleted = false
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_budget.user_id <> auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Budget not found');
+  END IF;
+
+  -- Keys missing from p_changes keep their current value
+  v_changed := jsonb_populate_record(v_budget, coalesce(p_changes, '{}'::jsonb));
+
+  UPDATE budget
+  SET name = v_changed.name,
+      amount = v_changed.amount,
+      period = v_changed.period,
+      rollover_enabled = v_changed.rollover_enabled,
+      rollover_cap = v_changed.rollover_cap,
+      updated_by = auth.uid(),
+      updated_at = now()
+  WHERE id = p_budget_id;
+
+  IF p_categories IS NOT NULL THEN
+    v_result := update_budget_categories(p_budget_id, p_categories);
+
+    -- Raise rather than return, so the budget changes above are rolled back too
+    IF NOT (v_result->>'success')::boolean THEN
+      RAISE EXCEPTION '%', v_result->>'error';
+    END IF;
+  END IF;
+
+  SELECT coalesce(sum(allocated_amount), 0) INTO v_allocated
+  FROM budget_category
+  WHERE budget_id = p_budget_id AND isdeleted = false;
+
+  IF v_allocated > v_changed.amount THEN
+    RAISE EXCEPTION 'Category allocations (%) are more than the budget amount (%)', v_allocated, v_changed.amount
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'budget_id', p_budget_id);
+END;
+$$;
@@ -0,0 +1,89 @@
+-- Budget history: how a budget did in each of its recent periods.
+--
+-- get_budget_history evaluates a budget over its last p_periods period
+-- windows (months for a monthly budget, weeks for a weekly one, ...) in one
+-- call, oldest first and ending with the current, unfinished period. Windows
+-- from before the budget was created are included, so a new budget can be
+-- checked against past spending straight away. At most 60 periods are
+-- returned.
+--
+-- With rollover enabled, budgeted is the budget amount plus what was carried
+-- into that period, worked out the same way as get_budget_rollover; rollover
+-- reports the carry on its own. Windows before the budget started carry
+-- nothing.
+
+DROP FUNCTION IF EXISTS get_budget_history(bigint, integer);
+
+CREATE OR REPLACE FUNCTION get_budget_history(budget_id bigint, p_periods integer DEFAULT 12)
+RETURNS TABLE (
+  period_start date,
+  period_end date,
+  budgeted numeric,
+  rollover numeric,
+  spent numeric,
+  is_current boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_budget budget%ROWTYPE;
+  v_unit text;
+  v_step interval;
+  v_periods integer;
+  v_current_start date;
+  v_budget_start date;
+  v_carry numeric;
+BEGIN
+  SELECT * INTO v_budget
+  FROM budget b
+  WHERE b.id = get_budget_history.budget_id
+    AND b.isdeleted = false;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_unit := CASE v_budget.period::text
+    WHEN 'daily' THEN 'day'
+    WHEN 'weekly' THEN 'week'
+    WHEN 'monthly' THEN 'month'
+    WHEN 'quarterly' THEN 'quarter'
+    ELSE 'year'
+  END;
+  v_step := CASE v_budget.period::text
+    WHEN 'daily' THEN interval '1 day'
+    WHEN 'weekly' THEN interval '1 week'
+    WHEN 'monthly' THEN interval '1 month'
+    WHEN 'quarterly' THEN interval '3 months'
+    ELSE interval '1 year'
+  END;
+
+  v_periods := least(greatest(p_periods, 1), 60);
+  v_current_start := date_trunc(v_unit, current_date)::date;
+  v_budget_start := date_trunc(v_unit, coalesce(v_budget.start_date, v_budget.created_at::date))::date;
+  period_start := (v_current_start - v_step * (v_periods - 1))::date;
+
+  -- Carry into the oldest window; later windows build on it one period at a time
+  v_carry := get_budget_rollover(v_budget.id, period_start);
+
+  FOR i IN 1..v_periods LOOP
+    period_end := (period_start + v_step - interval '1 day')::date;
+    rollover := CASE WHEN v_budget.rollover_enabled AND period_start >= v_budget_start THEN v_carry ELSE 0 END;
+    budgeted := v_budget.amount + rollover;
+    spent := calculate_budget_spending_by_date(v_budget.id, period_start, period_end);
+    is_current := period_start = v_current_start;
+    RETURN NEXT;
+
+    IF v_budget.rollover_enabled AND period_start >= v_budget_start THEN
+      v_carry := budgeted - spent;
+      IF v_budget.rollover_cap IS NOT NULL THEN
+        v_carry := greatest(-v_budget.rollover_cap, least(v_budget.rollover_cap, v_carry));
+      END IF;
+    END IF;
+
+    period_start := (period_start + v_step)::date;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,76 @@
+-- Saving a transaction in one request, so a dropped connection can never
+-- leave a header without its items.
+--
+-- client_request_id is a UUID the client picks before the first attempt. A
+-- transaction queued offline keeps it, so a replay can tell whether an
+-- earlier attempt already reached the server. It is kept apart from
+-- external_id, which identifies statement imports.
+
+ALTER TABLE expense
+ADD COLUMN IF NOT EXISTS client_request_id uuid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expense_client_request_id
+  ON expense (user_id, client_request_id)
+  WHERE client_request_id IS NOT NULL;
+
+-- Inserts a transaction header and its items in one database transaction and
+-- returns the new expense id. A request already saved under the same
+-- client_request_id returns the existing id instead of saving it twice.
+-- p_expense: the expense columns; p_items: [{ "category_id", "income_category_id", "amount", "original_amount", "description" }]
+CREATE OR REPLACE FUNCTION create_expense_with_items(p_expense jsonb, p_items jsonb)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_expense expense%ROWTYPE;
+  v_expense_id bigint;
+BEGIN
+  v_expense := jsonb_populate_record(NULL::expense, p_expense);
+
+  IF v_expense.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Transactions can only be created for the signed-in user';
+  END IF;
+
+  IF jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A transaction needs at least one item';
+  END IF;
+
+  IF v_expense.client_request_id IS NOT NULL THEN
+    SELECT id INTO v_expense_id
+    FROM expense
+    WHERE user_id = v_expense.user_id AND client_request_id = v_expense.client_request_id;
+
+    IF FOUND THEN
+      RETURN v_expense_id;
+    END IF;
+  END IF;
+
+  INSERT INTO expense (
+    user_id, date, description, payment_method_id, transaction_type,
+    transfer_to_payment_method_id, refund_of_expense_id, recurring_transaction_id,
+    external_id, client_request_id, check_number, tags,
+    currency, exchange_rate, original_amount, merchant_id
+  )
+  VALUES (
+    v_expense.user_id, v_expense.date, v_expense.description, v_expense.payment_method_id,
+    coalesce(v_expense.transaction_type, 'expense'),
+    v_expense.transfer_to_payment_method_id, v_expense.refund_of_expense_id, v_expense.recurring_transaction_id,
+    v_expense.external_id, v_expense.client_request_id, v_expense.check_number, coalesce(v_expense.tags, '{}'),
+    coalesce(v_expense.currency, 'MYR'), coalesce(v_expense.exchange_rate, 1), v_expense.original_amount, v_expense.merchant_id
+  )
+  RETURNING id INTO v_expense_id;
+
+  INSERT INTO expense_item (expense_id, category_id, income_category_id, amount, original_amount, description)
+  SELECT
+    v_expense_id,
+    CASE WHEN v_expense.transaction_type = 'income' THEN NULL ELSE i.category_id END,
+    CASE WHEN v_expense.transaction_type = 'income' THEN i.income_category_id ELSE NULL END,
+    i.amount,
+    i.original_amount,
+    i.description
+  FROM jsonb_populate_recordset(NULL::expense_item, p_items) i;
+
+  RETURN v_expense_id;
+END;
+$$;